@@ -37,8 +37,11 @@ export default async function handler(req, res) {
     const formidable = await import('formidable');
     const fs = await import('fs/promises');
     const { storage } = await import('../../server/storage.js');
-    const { analyzeBookshelfImage } = await import('../../server/openai-vision.js');
-    const { searchBooksByTitle } = await import('../../server/books.js');
+    const { analyzePreprocessedImage } = await import('../../server/vision-provider.js');
+    const { preprocessImage, getPreprocessingOptions, parseTileMode } = await import('../../server/image-preprocessing.js');
+    const { resolveTitles } = await import('../../server/title-resolver.js');
+    const { recordScanDetections } = await import('../../server/scan-history.js');
+    const { scanSessionService } = await import('../../server/scan-sessions.js');
     
     console.log('Modules imported successfully');
 
@@ -51,7 +54,8 @@ export default async function handler(req, res) {
       });
     }
 
-    if (!process.env.OPENAI_API_KEY && !process.env.GOOGLE_VISION_API_KEY) {
+    // Local OCR needs no API keys
+    if (process.env.VISION_PROVIDER !== 'local-ocr' && !process.env.OPENAI_API_KEY && !process.env.LLM_API_KEY && !process.env.LLM_BASE_URL && !process.env.GOOGLE_VISION_API_KEY) {
       console.error('Missing required API keys: Both OpenAI and Google Vision keys are missing');
       return res.status(500).json({
         message: 'Server configuration error: Image analysis service not available',
@@ -76,7 +80,7 @@ export default async function handler(req, res) {
       });
     });
     
-    const { files } = parseResult;
+    const { fields, files } = parseResult;
     console.log('Form parsed successfully, files:', Object.keys(files));
     
     const file = files.image;
@@ -84,6 +88,18 @@ export default async function handler(req, res) {
       return res.status(400).json({ message: 'No image file provided' });
     }
 
+    // Photos of the same bookcase share a scan session; serverless instances don't keep memory
+    // between requests, so sessions of a known device are loaded from and saved to the database
+    const deviceId = req.query.deviceId || req.cookies?.deviceId || '';
+    const sessionIdField = Array.isArray(fields.sessionId) ? fields.sessionId[0] : fields.sessionId;
+    const session = (deviceId && typeof sessionIdField === 'string' && sessionIdField
+      && await scanSessionService.loadSession(sessionIdField, deviceId))
+      || scanSessionService.createSession(deviceId);
+
+    if (!scanSessionService.canAddPhoto(session)) {
+      return res.status(400).json({ message: 'This scan session already has the maximum number of photos. Start a new scan to add more.' });
+    }
+
     const imageFile = Array.isArray(file) ? file[0] : file;
     const buffer = await fs.default.readFile(imageFile.filepath);
     
@@ -91,26 +107,40 @@ export default async function handler(req, res) {
       return res.status(413).json({ message: 'Image file is too large. Please upload an image smaller than 5MB.' });
     }
 
-    const base64Image = buffer.toString('base64');
-    console.log('Image converted to base64, length:', base64Image.length);
+    // Rotate, downscale and re-encode the photo; the client can ask for per-row tiles
+    const tileRowsField = Array.isArray(fields.tileRows) ? fields.tileRows[0] : fields.tileRows;
+    const tileMode = parseTileMode(tileRowsField);
+    const image = await preprocessImage(buffer, getPreprocessingOptions(tileMode ? { tiles: tileMode } : {}));
+    const preprocessing = image.report;
+    console.log('Image preprocessed:', preprocessing);
 
-    // Analyze with OpenAI Vision
-    const visionAnalysis = await analyzeBookshelfImage(base64Image);
+    // Analyze with the configured vision provider(s)
+    const visionAnalysis = await analyzePreprocessedImage(image);
     console.log('Vision analysis completed:', visionAnalysis);
 
     if (!visionAnalysis.isBookshelf) {
       return res.status(200).json({
         books: [],
         bookTitles: [],
+        spines: [],
+        sessionId: session.id,
+        session: scanSessionService.toSummary(session),
+        preprocessing,
         message: "The image doesn't appear to be a bookshelf. Please upload a photo of books on a shelf.",
       });
     }
 
     const bookTitles = visionAnalysis.bookTitles;
+    const spines = visionAnalysis.spines || [];
+    const spinesByTitle = new Map(spines.map((spine) => [spine.text.toLowerCase(), spine]));
     if (bookTitles.length === 0) {
       return res.status(200).json({
         books: [],
         bookTitles: [],
+        spines,
+        sessionId: session.id,
+        session: scanSessionService.toSummary(session),
+        preprocessing,
         message: 'No books could be clearly identified in the image. Try taking a clearer photo with better lighting and make sure book titles are visible.',
       });
     }
@@ -120,40 +150,46 @@ export default async function handler(req, res) {
     // Fetch user preferences using device ID (optional)
     let preferences = null;
     try {
-      const deviceId = req.query.deviceId || req.cookies?.deviceId;
-      
       if (deviceId) {
         preferences = await storage.getPreferencesByDeviceId(deviceId);
       } else {
         console.log('No device ID found, proceeding without preferences');
       }
 
-      // Look up each detected title
-      const detectedBooks = [];
-      for (const title of bookTitles) {
-        try {
-          const results = await searchBooksByTitle(title);
-          if (!results || results.length === 0) continue;
+      // Look up the detected titles in parallel, using the spine's author when one was read
+      const { books: detectedBooks, unresolvedTitles, failedTitles } = await resolveTitles(
+        bookTitles.map((title) => ({ title, spine: spinesByTitle.get(title.toLowerCase()) || null }))
+      );
 
-          const titleLower = title.toLowerCase();
-          const bestMatch = results.reduce((best, current) => {
-            const similarityCurrent = calculateSimilarity(titleLower, (current.title || '').toLowerCase());
-            const similarityBest = best ? calculateSimilarity(titleLower, (best.title || '').toLowerCase()) : 0;
-            return similarityCurrent > similarityBest ? current : best;
-          }, null);
+      // Merge this photo's detections into the session, skipping books seen in earlier photos
+      const photoIndex = scanSessionService.addPhoto(session, {
+        bookTitles,
+        books: detectedBooks,
+        unresolvedTitles
+      });
+      const sessionSummary = scanSessionService.toSummary(session);
 
-          if (bestMatch && calculateSimilarity(titleLower, bestMatch.title.toLowerCase()) > 0.6) {
-            detectedBooks.push(bestMatch);
-          }
-        } catch (bookError) {
-          console.log('Error searching for book:', title, bookError.message);
-        }
+      // Keep the session for the next photo and the scan in the device's history
+      const placeLabelField = Array.isArray(fields.placeLabel) ? fields.placeLabel[0] : fields.placeLabel;
+      const placeLabel = typeof placeLabelField === 'string' ? placeLabelField.trim().slice(0, 100) : '';
+      let scanId = null;
+      if (deviceId) {
+        await scanSessionService.saveSession(session);
+        scanId = await recordScanDetections(deviceId, session.id, session.books, placeLabel || undefined);
       }
 
       if (detectedBooks.length === 0) {
         return res.status(200).json({
           books: [],
           bookTitles,
+          spines,
+          unresolvedTitles,
+          failedTitles,
+          sessionId: session.id,
+          photoIndex,
+          scanId,
+          session: sessionSummary,
+          preprocessing,
           message: "We identified some book titles, but couldn't find detailed information for them. Try taking a clearer photo with better lighting.",
         });
       }
@@ -193,6 +229,14 @@ export default async function handler(req, res) {
       return res.status(200).json({
         books: rankedBooks,
         bookTitles,
+        spines,
+        unresolvedTitles,
+        failedTitles,
+        sessionId: session.id,
+        photoIndex,
+        scanId,
+        session: sessionSummary,
+        preprocessing,
         booksFound: booksFoundString,
         message: `Found ${rankedBooks.length} books in your photo: ${booksFoundString}. These have been ranked based on your preferences.`,
       });
@@ -223,40 +267,3 @@ export default async function handler(req, res) {
     });
   }
 }
-
-/**
- * Calculate similarity between two strings
- */
-function calculateSimilarity(str1, str2) {
-  const longer = str1.length > str2.length ? str1 : str2;
-  const shorter = str1.length > str2.length ? str2 : str1;
-
-  if (longer.length === 0) return 1.0;
-
-  const distance = levenshteinDistance(longer, shorter);
-  return (longer.length - distance) / longer.length;
-}
-
-/**
- * Calculate Levenshtein distance between two strings
- */
-function levenshteinDistance(str1, str2) {
-  const matrix = [];
-  for (let i = 0; i <= str1.length; i++) {
-    matrix[i] = [i];
-  }
-  for (let j = 0; j <= str2.length; j++) {
-    matrix[0][j] = j;
-  }
-  for (let i = 1; i <= str1.length; i++) {
-    for (let j = 1; j <= str2.length; j++) {
-      const cost = str1.charAt(i - 1) === str2.charAt(j - 1) ? 0 : 1;
-      matrix[i][j] = Math.min(
-        matrix[i - 1][j] + 1, // deletion
-        matrix[i][j - 1] + 1, // insertion
-        matrix[i - 1][j - 1] + cost, // substitution
-      );
-    }
-  }
-  return matrix[str1.length][str2.length];
-} 
\ No newline at end of file
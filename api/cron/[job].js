@@ -0,0 +1,38 @@
+/* eslint-disable no-undef */
+// Scheduled job API, called by the crons in vercel.json
+import 'dotenv/config';
+
+/**
+ * Cron job handler - runs the job named in the path and records the run
+ * Vercel sends CRON_SECRET as a bearer token; requests without it are rejected.
+ * @param {import('@vercel/node').VercelRequest} req - The request object
+ * @param {import('@vercel/node').VercelResponse} res - The response object
+ */
+export default async function handler(req, res) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const { getRegisteredJobs, runJob, isAuthorizedCronRequest } = await import('../../server/job-scheduler.js');
+
+    if (!isAuthorizedCronRequest(req.headers.authorization)) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const jobName = req.query.job;
+    if (!getRegisteredJobs().some(job => job.name === jobName)) {
+      return res.status(404).json({ error: 'Unknown job' });
+    }
+
+    const run = await runJob(jobName, 'cron');
+    if (!run) {
+      return res.status(409).json({ error: 'Job is already running or its run could not be recorded' });
+    }
+
+    return res.status(run.status === 'success' ? 200 : 500).json(run);
+  } catch (error) {
+    console.error('Cron job error:', error);
+    return res.status(500).json({ error: 'Failed to run job' });
+  }
+}
@@ -28,10 +28,22 @@ export default async function handler(req, res) {
     // Import the OpenAI recommendations function
     const { getOpenAIRecommendations } = await import('../../server/openai-recommendations.js');
     const { log } = await import('../../server/simple-logger.js');
+    const { scoreBook, getRankingWeights } = await import('../../server/utils/ranking.js');
+    const { similarityService } = await import('../../server/similarity-service.js');
+    const { loadFeedback } = await import('../../server/reader-feedback.js');
+    const { parseDiversityOptions } = await import('../../server/utils/diversity.js');
+    const { recordScanRecommendations, parseScanId } = await import('../../server/scan-history.js');
 
 
 
-    const { books, preferences } = req.body;
+    const { preferences, sessionId } = req.body;
+    let { books } = req.body;
+
+    // Use the merged books of a multi-photo scan session when no explicit list is sent
+    if ((!books || !Array.isArray(books) || books.length === 0) && typeof sessionId === 'string' && req.cookies?.deviceId) {
+      const { scanSessionService } = await import('../../server/scan-sessions.js');
+      books = (await scanSessionService.loadSession(sessionId, req.cookies.deviceId))?.books || [];
+    }
 
     if (!books || !Array.isArray(books) || books.length === 0) {
       return res.status(400).json({
@@ -45,20 +57,40 @@ export default async function handler(req, res) {
     
     log(`Processing direct OpenAI recommendation request with ${books.length} books`, "openai");
 
-    // Check OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
+    // Check an OpenAI key or compatible server is configured
+    const { getLLMClient } = await import('../../server/llm-client.js');
+    if (!getLLMClient().isConfigured()) {
       return res.status(400).json({
         success: false,
-        message: "OpenAI API key is not configured. Please add it to your environment variables."
+        message: "OpenAI API key is not configured. Please add it (or LLM_BASE_URL) to your environment variables."
       });
     }
     
     // Log the request details for debugging
     log(`Processing recommendation request for ${books.length} books with preferences: ${JSON.stringify(preferences || {})}`, "openai");
     
+    // Books the user marked as not interesting or already read are left out by the prompt, and
+    // ranked lower and penalized in the explanations when the model picks them anyway
+    const feedbackPreferences = { ...(preferences || {}), feedback: await loadFeedback(deviceId) };
+    
+    // Explain each recommendation with the ranking engine, using the scanned book's categories
+    // when the model didn't return any and its similarity to the user's taste
+    const explainRecommendation = (book, originalBook) => {
+      const categories = book.categories?.length ? book.categories : originalBook?.categories;
+      return scoreBook({ ...book, categories, similarity: originalBook?.similarity }, feedbackPreferences, getRankingWeights()).explanation;
+    };
+    
     try {
+      const similarities = await similarityService.getSimilarities(deviceId, preferences, books);
+      books = books.map((book, i) => ({ ...book, similarity: similarities[i] }));
+      
       // Get base recommendations from OpenAI
-      const baseRecommendations = await getOpenAIRecommendations(books, preferences || {}, deviceId);
+      const baseRecommendations = await getOpenAIRecommendations(
+        books,
+        feedbackPreferences,
+        deviceId,
+        parseDiversityOptions(req.body.diversity)
+      );
       
       // Make sure we received recommendations from OpenAI
       if (!baseRecommendations || baseRecommendations.length === 0) {
@@ -140,6 +172,10 @@ export default async function handler(req, res) {
           // Use the match reason provided directly from the recommendation
           const matchReason = book.matchReason || "This book matches elements of your reading preferences.";
           
+          // The badge and the order use the model's 0-100 score; the ranking total is only
+          // shown in the "Why this?" panel
+          const explanation = explainRecommendation({ ...book, rating }, originalBook);
+          
           // Return the enhanced recommendation with OpenAI data
           const enhancedBook = {
             title: book.title,
@@ -151,6 +187,9 @@ export default async function handler(req, res) {
             categories: book.categories || [],
             matchScore: book.matchScore || 75, // Default to 75 if no score available
             matchReason: matchReason || "This book aligns with your reading preferences.",
+            explanation,
+            promptVersion: book.promptVersion,
+            wildcard: book.wildcard,
             fromAI: true
           };
           
@@ -172,6 +211,8 @@ export default async function handler(req, res) {
           // Make sure we have an ISBN if it's available in the original book
           const isbn = originalBook?.isbn || book.isbn || '';
           
+          const explanation = explainRecommendation(book, originalBook);
+          
           return {
             title: book.title,
             author: book.author,
@@ -182,12 +223,22 @@ export default async function handler(req, res) {
             categories: book.categories || [],
             matchScore: book.matchScore || 75,
             matchReason: book.matchReason || "This book includes themes or styles that connect with your reading preferences.",
+            explanation,
+            promptVersion: book.promptVersion,
+            wildcard: book.wildcard,
             fromAI: true
           };
         }
       }));
       
       log(`Successfully enhanced ${enhancedRecommendations.length} recommendations`, "openai");
+      
+      // Keep a copy with the scan so it can be re-opened from the history without new OpenAI calls
+      const scanId = parseScanId(req.body.scanId);
+      if (scanId && req.cookies?.deviceId) {
+        await recordScanRecommendations(req.cookies.deviceId, scanId, enhancedRecommendations);
+      }
+      
       return res.status(200).json(enhancedRecommendations);
     } catch (error) {
       log(`Error generating recommendations: ${error instanceof Error ? error.message : String(error)}`, "openai");
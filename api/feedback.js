@@ -0,0 +1,104 @@
+/* eslint-disable no-undef */
+// Import using ES modules for Vercel compatibility
+import 'dotenv/config';
+
+/**
+ * API handler for feedback on recommendations (not interested, already read)
+ * @param {import('@vercel/node').VercelRequest} req - The request object
+ * @param {import('@vercel/node').VercelResponse} res - The response object
+ */
+export default async function handler(req, res) {
+  // Handle CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,POST,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Import storage dynamically to avoid issues with module resolution
+    const { storage } = await import('../server/storage.js');
+    const { insertBookFeedbackSchema } = await import('../shared/schema.js');
+    const { buildWorkKey } = await import('../server/utils/work-identity.js');
+
+    const deviceId = req.query.deviceId || req.cookies?.deviceId;
+
+    if (!deviceId) {
+      return res.status(400).json({ error: 'Device ID is required' });
+    }
+
+    if (req.method === 'GET') {
+      try {
+        const feedback = await storage.getFeedbackByDeviceId(deviceId);
+        return res.status(200).json(feedback);
+      } catch (error) {
+        console.error('GET feedback error:', error);
+        return res.status(500).json({ error: 'Failed to retrieve feedback' });
+      }
+    }
+
+    if (req.method === 'POST') {
+      try {
+        const { title, author, type } = req.body || {};
+
+        if (!title || !author) {
+          return res.status(400).json({ error: 'Book title and author are required' });
+        }
+
+        const validation = insertBookFeedbackSchema.safeParse({
+          deviceId,
+          workKey: buildWorkKey(title, author),
+          title,
+          author,
+          type
+        });
+
+        if (!validation.success) {
+          return res.status(400).json({
+            error: 'Invalid request data',
+            details: validation.error.errors
+          });
+        }
+
+        const feedback = await storage.saveFeedback(validation.data);
+        return res.status(201).json(feedback);
+      } catch (error) {
+        console.error('POST feedback error:', error);
+        return res.status(500).json({ error: 'Failed to save feedback' });
+      }
+    }
+
+    if (req.method === 'DELETE') {
+      try {
+        const id = parseInt(req.query.id);
+
+        if (isNaN(id)) {
+          return res.status(400).json({ error: 'Invalid feedback ID' });
+        }
+
+        const deleted = await storage.deleteFeedback(id, deviceId);
+
+        if (!deleted) {
+          return res.status(404).json({ error: 'Feedback not found' });
+        }
+
+        return res.status(200).json({ success: true, message: 'Feedback deleted successfully' });
+      } catch (error) {
+        console.error('DELETE feedback error:', error);
+        return res.status(500).json({ error: 'Failed to delete feedback' });
+      }
+    }
+
+    return res.status(405).json({ error: 'Method not allowed' });
+
+  } catch (error) {
+    console.error('Feedback API error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: error.message
+    });
+  }
+}
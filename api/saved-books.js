@@ -74,6 +74,12 @@ export default async function handler(req, res) {
 
         const bookData = validation.data;
         
+        // Link the saved book to its work so other editions are recognized as the same book
+        if (!bookData.workId) {
+          const resolved = await storage.resolveWork(bookData);
+          bookData.workId = resolved?.work.id;
+        }
+        
         // Check if this book is already saved for this device
         const existingSavedBook = await storage.findSavedBook(bookData.deviceId, bookData.title, bookData.author);
         
@@ -0,0 +1,43 @@
+/* eslint-disable no-undef */
+// Import using ES modules for Vercel compatibility
+import 'dotenv/config';
+
+/**
+ * API handler for the scan history list; single scans are handled by api/scans/[id].js
+ * @param {import('@vercel/node').VercelRequest} req - The request object
+ * @param {import('@vercel/node').VercelResponse} res - The response object
+ */
+export default async function handler(req, res) {
+  // Handle CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    // Import storage dynamically to avoid issues with module resolution
+    const { storage } = await import('../server/storage.js');
+    const { toScanListItem } = await import('../server/scan-history.js');
+
+    const deviceId = req.query.deviceId || req.cookies?.deviceId;
+
+    if (!deviceId) {
+      return res.status(400).json({ message: 'Device ID is required' });
+    }
+
+    // Newest first
+    const deviceScans = await storage.getScansByDeviceId(deviceId);
+    return res.status(200).json(deviceScans.map(toScanListItem));
+  } catch (error) {
+    console.error('Scan history API error:', error);
+    return res.status(500).json({ message: 'Error retrieving scan history' });
+  }
+}
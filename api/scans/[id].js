@@ -0,0 +1,77 @@
+/* eslint-disable no-undef */
+// Import using ES modules for Vercel compatibility
+import 'dotenv/config';
+
+/**
+ * API handler for one past scan: read it with its recommendations, rename its place label
+ * or delete it
+ * @param {import('@vercel/node').VercelRequest} req - The request object
+ * @param {import('@vercel/node').VercelResponse} res - The response object
+ */
+export default async function handler(req, res) {
+  // Handle CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,PATCH,DELETE,OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  try {
+    // Import storage dynamically to avoid issues with module resolution
+    const { storage } = await import('../../server/storage.js');
+    const { parseScanId, toScanListItem } = await import('../../server/scan-history.js');
+
+    const deviceId = req.query.deviceId || req.cookies?.deviceId;
+    const scanId = parseScanId(req.query.id);
+
+    if (!deviceId) {
+      return res.status(400).json({ message: 'Device ID is required' });
+    }
+    if (!scanId) {
+      return res.status(400).json({ message: 'Invalid scan ID' });
+    }
+
+    if (req.method === 'GET') {
+      const scan = await storage.getScan(scanId, deviceId);
+
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+
+      return res.status(200).json(scan);
+    }
+
+    if (req.method === 'PATCH') {
+      const requested = req.body?.placeLabel;
+
+      if (requested !== null && typeof requested !== 'string') {
+        return res.status(400).json({ message: 'placeLabel must be a string or null' });
+      }
+
+      const placeLabel = requested ? requested.trim().slice(0, 100) : null;
+      const scan = await storage.updateScan(scanId, deviceId, { placeLabel: placeLabel || null });
+
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+
+      return res.status(200).json(toScanListItem(scan));
+    }
+
+    if (req.method === 'DELETE') {
+      if (!(await storage.deleteScan(scanId, deviceId))) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+
+      return res.status(204).end();
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (error) {
+    console.error('Scan API error:', error);
+    return res.status(500).json({ message: 'Error handling scan request' });
+  }
+}
@@ -8,6 +8,7 @@ import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import Books from "@/pages/books";
 import SavedBooks from "@/pages/saved-books";
+import ScanHistory from "@/pages/history";
 import PrivacyPolicy from "@/pages/privacy-policy";
 import TermsConditions from "@/pages/terms-conditions";
 import Navbar from "@/components/layout/Navbar";
@@ -28,6 +29,8 @@ function Router() {
         <Route path="/" component={Home} />
         <Route path="/books" component={Books} />
         <Route path="/reading-list" component={SavedBooks} />
+        <Route path="/history" component={ScanHistory} />
+        <Route path="/history/:scanId" component={ScanHistory} />
         <Route path="/privacy-policy" component={PrivacyPolicy} />
         <Route path="/terms-conditions" component={TermsConditions} />
         <Route path="/admin" component={AdminPage} />
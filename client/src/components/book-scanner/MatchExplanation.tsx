@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+
+export interface ExplanationFactor {
+  feature: string;
+  label: string;
+  weight: number;
+  points: number;
+  evidence: string[];
+}
+
+export interface RecommendationExplanation {
+  score: number;
+  factors: ExplanationFactor[];
+}
+
+interface MatchExplanationProps {
+  explanation: RecommendationExplanation;
+  className?: string;
+}
+
+function formatPoints(points: number): string {
+  return `${points > 0 ? '+' : ''}${Math.round(points * 10) / 10}`;
+}
+
+/**
+ * Collapsible "Why this?" panel listing the ranking features behind a recommendation,
+ * with the evidence and weight of each.
+ */
+export default function MatchExplanation({ explanation, className = "" }: MatchExplanationProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (explanation.factors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        aria-expanded={isOpen}
+        className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 text-sm flex items-center font-medium"
+      >
+        {isOpen ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+        Why this?
+      </button>
+      {isOpen && (
+        <div className="mt-2 text-sm bg-white dark:bg-gray-900/40 p-3 rounded-md border border-slate-200 dark:border-slate-700">
+          <ul className="space-y-2">
+            {explanation.factors.map(factor => (
+              <li key={factor.feature} className="flex justify-between gap-3">
+                <div>
+                  <p className="font-medium text-black dark:text-white">{factor.label}</p>
+                  {factor.evidence.length > 0 && (
+                    <p className="text-slate-600 dark:text-slate-400">{factor.evidence.join(' · ')}</p>
+                  )}
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p className={`font-medium ${factor.points < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-700 dark:text-green-400'}`}>
+                    {formatPoints(factor.points)}
+                  </p>
+                  <p className="text-xs text-slate-500">weight {factor.weight}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-3 pt-2 border-t border-slate-200 dark:border-slate-700 text-xs text-slate-500">
+            Ranking score {Math.round(explanation.score * 10) / 10}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
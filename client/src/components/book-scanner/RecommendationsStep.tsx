@@ -7,7 +7,15 @@ import DonationButton from "@/components/ui/DonationButton";
 import DonationModal from "@/components/ui/DonationModal";
 
 import AffiliateDisclosure from "@/components/ui/affiliate-disclosure";
-import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, ChevronUp, MoreHorizontal, ScanSearch } from "lucide-react";
+import SpineOverlay, { type Spine } from "./SpineOverlay";
+import MatchExplanation, { type RecommendationExplanation } from "./MatchExplanation";
 
 interface Recommendation {
   id?: number;
@@ -18,23 +26,53 @@ interface Recommendation {
   summary: string;
   matchScore?: number;
   matchReason?: string;
+  explanation?: RecommendationExplanation;
   alreadyRead?: boolean;
+  // Highly rated pick outside the user's usual genres
+  wildcard?: boolean;
   isBookRecommendation?: boolean;
   isBookYouveRead?: boolean;
   originalReadTitle?: string;
+  spine?: Spine | null;
 }
 
+type FeedbackType = 'not_interested' | 'read_liked' | 'read_disliked';
+
+// Menu label and toast message for each kind of feedback
+const FEEDBACK_OPTIONS: Record<FeedbackType, { label: string; marked: string; message: string }> = {
+  not_interested: {
+    label: "Not interested",
+    marked: "Marked as not interested",
+    message: "We won't recommend it on your next scans."
+  },
+  read_liked: {
+    label: "Already read – liked it",
+    marked: "Marked as read and liked",
+    message: "We'll look for more books like it and won't recommend it again."
+  },
+  read_disliked: {
+    label: "Already read – didn't like it",
+    marked: "Marked as read, not liked",
+    message: "We won't recommend it again and will rank other books by its author lower."
+  }
+};
+
 interface RecommendationsStepProps {
   recommendations: Recommendation[];
   isLoading?: boolean;
   goodreadsData?: any[];
+  // Shelf photos of the scan session by photo index, used to point out each book's spine
+  shelfImages?: string[];
 }
 
-export default function RecommendationsStep({ recommendations, isLoading = false, goodreadsData }: RecommendationsStepProps) {
+export default function RecommendationsStep({ recommendations, isLoading = false, goodreadsData, shelfImages = [] }: RecommendationsStepProps) {
   const [savingBookIds, setSavingBookIds] = useState<number[]>([]);
   const [savedBookIds, setSavedBookIds] = useState<number[]>([]);
   const [expandedBooks, setExpandedBooks] = useState<number[]>([]);
+  const [shelfViewBooks, setShelfViewBooks] = useState<number[]>([]);
   const [donationModalOpen, setDonationModalOpen] = useState(false);
+  // Feedback given on this screen, keyed by title and author
+  const [bookFeedback, setBookFeedback] = useState<Record<string, FeedbackType>>({});
   const { toast } = useToast();
   
   // Toggle expanded state of a book description
@@ -46,6 +84,15 @@ export default function RecommendationsStep({ recommendations, isLoading = false
     );
   };
 
+  // Toggle the shelf photo with the book's spine highlighted
+  const toggleShelfView = (id: number) => {
+    setShelfViewBooks(prev => 
+      prev.includes(id) 
+        ? prev.filter(bookId => bookId !== id) 
+        : [...prev, id]
+    );
+  };
+
   // Fetch saved books when component mounts to know which books are already saved
   useEffect(() => {
     const fetchSavedBooks = async () => {
@@ -196,6 +243,43 @@ export default function RecommendationsStep({ recommendations, isLoading = false
     }
   };
 
+  // Tell the server the user isn't interested in a book or has already read it, so later scans
+  // rank it lower and leave it out of the recommendations
+  const sendFeedback = async (book: Recommendation, type: FeedbackType) => {
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: book.title,
+          author: book.author,
+          type,
+        }),
+      } as RequestInit);
+
+      if (!response.ok) {
+        throw new Error('Failed to save feedback');
+      }
+
+      setBookFeedback(prev => ({ ...prev, [`${book.title}-${book.author}`]: type }));
+      
+      toast({
+        title: FEEDBACK_OPTIONS[type].marked,
+        description: `"${book.title}": ${FEEDBACK_OPTIONS[type].message}`,
+        variant: "default",
+      });
+    } catch (error) {
+      console.log("Error saving feedback:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save your feedback. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Function to check if a book has already been read based on Goodreads data
   const isBookAlreadyRead = (book: Recommendation): boolean => {
     if (!goodreadsData || !Array.isArray(goodreadsData) || goodreadsData.length === 0) {
@@ -331,7 +415,9 @@ export default function RecommendationsStep({ recommendations, isLoading = false
                     .map((book, index) => (
                       <div 
                         key={index} 
-                        className="bg-gray-100 dark:bg-gray-800 border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow"
+                        className={`bg-gray-100 dark:bg-gray-800 border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden shadow-sm hover:shadow-md transition-shadow ${
+                          bookFeedback[`${book.title}-${book.author}`] ? 'opacity-60' : ''
+                        }`}
                       >
                         <div className="md:flex">
                           <div className="p-5 flex md:flex-col md:items-center md:w-1/4 md:border-r border-slate-200 dark:border-slate-700">
@@ -394,6 +480,11 @@ export default function RecommendationsStep({ recommendations, isLoading = false
                           
                           <div className="md:w-3/4 flex flex-col">
                             <div className="p-5 pb-3">
+                              {book.wildcard && (
+                                <span className="inline-block mb-2 text-xs font-medium px-2 py-0.5 rounded bg-pink-100 text-pink-800">
+                                  Wildcard pick
+                                </span>
+                              )}
                               <h4 className="font-semibold text-black dark:text-white text-xl mb-1">{book.title}</h4>
                               <p className="text-black dark:text-gray-300 text-sm mb-3">by {book.author}</p>
                               
@@ -412,6 +503,9 @@ export default function RecommendationsStep({ recommendations, isLoading = false
                                   </p>
                                 </div>
                               )}
+                              {book.explanation && (
+                                <MatchExplanation explanation={book.explanation} className="mb-3" />
+                              )}
                               <div className="text-sm text-black dark:text-gray-300">
                                 <p className={expandedBooks.includes(index) ? '' : 'line-clamp-3'}>
                                   {book.summary}
@@ -435,6 +529,26 @@ export default function RecommendationsStep({ recommendations, isLoading = false
                                   </button>
                                 )}
                               </div>
+                              
+                              {book.spine?.boundingBox && shelfImages[book.spine.photoIndex ?? 0] && (
+                                <div className="mt-3">
+                                  <button 
+                                    onClick={() => toggleShelfView(index)}
+                                    className="text-indigo-600 dark:text-indigo-400 hover:text-indigo-800 dark:hover:text-indigo-300 text-sm flex items-center font-medium"
+                                  >
+                                    <ScanSearch className="h-4 w-4 mr-1" />
+                                    {shelfViewBooks.includes(index) ? 'Hide shelf photo' : 'Find it on your shelf'}
+                                  </button>
+                                  {shelfViewBooks.includes(index) && (
+                                    <SpineOverlay
+                                      imageSrc={shelfImages[book.spine.photoIndex ?? 0]}
+                                      spines={[book.spine]}
+                                      highlightIndex={0}
+                                      className="mt-3"
+                                    />
+                                  )}
+                                </div>
+                              )}
                             </div>
                             
                             <div className="mt-auto p-5 pt-3 border-t border-slate-200 dark:border-slate-700">
@@ -467,6 +581,28 @@ export default function RecommendationsStep({ recommendations, isLoading = false
                                   )}
                                   {savedBookIds.includes(index) ? 'Saved to List' : 'Save for Later'}
                                 </button>
+                                {bookFeedback[`${book.title}-${book.author}`] && (
+                                  <span className="self-center text-xs text-slate-500 dark:text-slate-400">
+                                    {FEEDBACK_OPTIONS[bookFeedback[`${book.title}-${book.author}`]].marked}
+                                  </span>
+                                )}
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <button 
+                                      className="ml-auto bg-white dark:bg-gray-700 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-300 px-2 py-1 rounded"
+                                      aria-label="More options"
+                                    >
+                                      <MoreHorizontal className="h-4 w-4" />
+                                    </button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    {(Object.keys(FEEDBACK_OPTIONS) as FeedbackType[]).map(type => (
+                                      <DropdownMenuItem key={type} onSelect={() => sendFeedback(book, type)}>
+                                        {FEEDBACK_OPTIONS[type].label}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
                                 <a 
                                   href={`https://www.amazon.com/s?k=${encodeURIComponent(book.title + ' ' + book.author)}&tag=gratitudedriv-20`}
                                   target="_blank"
@@ -0,0 +1,344 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Check, LoaderPinwheel, RotateCcw, Search, Trash2 } from "lucide-react";
+import type { Spine } from "./SpineOverlay";
+
+interface Book {
+  id?: number;
+  title: string;
+  author: string;
+  coverUrl: string;
+  isbn?: string;
+  metadata?: Record<string, unknown>;
+  spine?: Spine | null;
+}
+
+export type ReviewStatus = 'pending' | 'accepted' | 'removed';
+
+/**
+ * One title read from the shelf photo and the book it currently resolves to
+ */
+export interface ReviewEntry {
+  // Raw title as read from the spine
+  rawTitle: string;
+  rawAuthor?: string | null;
+  spine?: Spine | null;
+  // Book the title is currently resolved to, null when nothing matched
+  match: Book | null;
+  // Alternatives the server considered, best first
+  candidates: Book[];
+  status: ReviewStatus;
+}
+
+interface ReviewStepProps {
+  entries: ReviewEntry[];
+  onEntriesChange: (entries: ReviewEntry[]) => void;
+  onConfirm: (books: Book[]) => void;
+  isLoading?: boolean;
+  // Whether the top picks should be varied (few books per author and series, plus a wildcard)
+  mixItUp?: boolean;
+  onMixItUpChange?: (mixItUp: boolean) => void;
+}
+
+export default function ReviewStep({ entries, onEntriesChange, onConfirm, isLoading = false, mixItUp = false, onMixItUpChange }: ReviewStepProps) {
+  const [openAlternates, setOpenAlternates] = useState<number[]>([]);
+  const [searchOpenFor, setSearchOpenFor] = useState<number | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<Book[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const { toast } = useToast();
+
+  const confirmedBooks: Book[] = entries.flatMap(entry =>
+    entry.status === 'accepted' && entry.match
+      ? [{ ...entry.match, spine: entry.match.spine ?? entry.spine ?? null }]
+      : []
+  );
+  const pendingCount = entries.filter(entry => entry.status === 'pending' && entry.match).length;
+
+  const updateEntry = (index: number, changes: Partial<ReviewEntry>) => {
+    onEntriesChange(entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
+  const acceptAll = () => {
+    onEntriesChange(entries.map(entry =>
+      entry.status === 'pending' && entry.match ? { ...entry, status: 'accepted' } : entry
+    ));
+  };
+
+  const toggleAlternates = (index: number) => {
+    setOpenAlternates(prev =>
+      prev.includes(index)
+        ? prev.filter(i => i !== index)
+        : [...prev, index]
+    );
+  };
+
+  const chooseBook = (index: number, book: Book) => {
+    updateEntry(index, { match: book, status: 'accepted' });
+    setOpenAlternates(prev => prev.filter(i => i !== index));
+    if (searchOpenFor === index) {
+      closeSearch();
+    }
+  };
+
+  const openSearch = (index: number) => {
+    setSearchOpenFor(index);
+    setSearchQuery(entries[index].rawTitle);
+    setSearchResults([]);
+  };
+
+  const closeSearch = () => {
+    setSearchOpenFor(null);
+    setSearchQuery("");
+    setSearchResults([]);
+  };
+
+  const runSearch = async () => {
+    if (searchQuery.trim().length < 2) {
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const response = await fetch(`/api/enhanced-books?title=${encodeURIComponent(searchQuery.trim())}`);
+      if (!response.ok) {
+        throw new Error('Failed to search books');
+      }
+      const results = await response.json();
+      setSearchResults(Array.isArray(results) ? results : []);
+      if (!Array.isArray(results) || results.length === 0) {
+        toast({
+          title: "No results",
+          description: `Nothing found for "${searchQuery.trim()}". Try a different spelling.`,
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Search failed",
+        description: `Error searching for books: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const renderBookOption = (book: Book, onSelect: () => void, key: string | number) => (
+    <button
+      key={key}
+      onClick={onSelect}
+      className="w-full flex items-center gap-3 p-2 text-left rounded-md hover:bg-violet-50 dark:hover:bg-violet-900/20"
+    >
+      {book.coverUrl ? (
+        <img src={book.coverUrl} alt={book.title} className="w-8 h-12 object-cover rounded" />
+      ) : (
+        <div className="w-8 h-12 bg-gray-100 dark:bg-gray-700 rounded" />
+      )}
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{book.title}</p>
+        <p className="text-xs text-gray-600 dark:text-gray-300 truncate">{book.author}</p>
+      </div>
+    </button>
+  );
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Review detected books</h2>
+          <p className="text-gray-600 dark:text-gray-300">
+            Check each title we read from your photo. Accept the match, pick another edition, search for the right book, or remove it.
+          </p>
+        </div>
+        {pendingCount > 0 && (
+          <Button variant="outline" onClick={acceptAll} className="flex items-center gap-2 shrink-0">
+            <Check className="h-4 w-4" />
+            Accept all matches ({pendingCount})
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {entries.map((entry, index) => {
+          if (entry.status === 'removed') {
+            return (
+              <div key={index} className="flex items-center justify-between border border-dashed border-gray-200 dark:border-gray-700 rounded-lg px-4 py-2">
+                <p className="text-sm text-gray-500 dark:text-gray-400 line-through">{entry.rawTitle}</p>
+                <Button variant="ghost" size="sm" onClick={() => updateEntry(index, { status: 'pending' })} className="flex items-center gap-1">
+                  <RotateCcw className="h-3 w-3" />
+                  Restore
+                </Button>
+              </div>
+            );
+          }
+
+          const alternates = entry.candidates.filter(candidate =>
+            !entry.match || candidate.title !== entry.match.title || candidate.author !== entry.match.author
+          );
+
+          return (
+            <div
+              key={index}
+              className={`border rounded-lg bg-white dark:bg-gray-800 shadow-sm p-4 ${
+                entry.status === 'accepted'
+                  ? 'border-green-300 dark:border-green-700'
+                  : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <div className="flex flex-col md:flex-row md:items-start gap-4">
+                {/* What was read from the spine */}
+                <div className="md:w-1/3">
+                  <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">Read from photo</p>
+                  <p className="font-medium text-gray-900 dark:text-white">{entry.rawTitle}</p>
+                  {entry.rawAuthor && (
+                    <p className="text-sm text-gray-600 dark:text-gray-300">{entry.rawAuthor}</p>
+                  )}
+                </div>
+
+                {/* Current match */}
+                <div className="flex-1 flex">
+                  {entry.match ? (
+                    <>
+                      {entry.match.coverUrl ? (
+                        <img
+                          src={entry.match.coverUrl}
+                          alt={entry.match.title}
+                          className="w-12 h-16 object-cover rounded"
+                          onError={(e) => {
+                            // If image fails to load, replace with placeholder
+                            (e.target as HTMLImageElement).src = 'https://placehold.co/80x120?text=No+Cover';
+                          }}
+                        />
+                      ) : (
+                        <div className="w-12 h-16 bg-gray-100 dark:bg-gray-700 rounded" />
+                      )}
+                      <div className="ml-3">
+                        <h4 className="font-medium text-gray-900 dark:text-white">{entry.match.title}</h4>
+                        <p className="text-gray-600 dark:text-gray-300 text-sm">{entry.match.author}</p>
+                        {entry.status === 'accepted' ? (
+                          <Badge className="mt-1 bg-green-100 text-green-800 hover:bg-green-100">Confirmed</Badge>
+                        ) : (
+                          <Badge variant="outline" className="mt-1">Needs review</Badge>
+                        )}
+                      </div>
+                    </>
+                  ) : (
+                    <div>
+                      <p className="text-sm text-gray-600 dark:text-gray-300">
+                        {entry.candidates.length > 0
+                          ? "We found several possible books. Pick the right one below."
+                          : "We couldn't find this book. Search for it by title."}
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {/* Actions */}
+                <div className="flex flex-wrap gap-2 md:justify-end">
+                  {entry.match && entry.status !== 'accepted' && (
+                    <Button size="sm" onClick={() => updateEntry(index, { status: 'accepted' })} className="bg-violet-600 hover:bg-violet-700 dark:bg-violet-600 dark:hover:bg-violet-500 text-white flex items-center gap-1">
+                      <Check className="h-3 w-3" />
+                      Accept
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => searchOpenFor === index ? closeSearch() : openSearch(index)} className="flex items-center gap-1">
+                    <Search className="h-3 w-3" />
+                    Search
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => updateEntry(index, { status: 'removed' })} className="flex items-center gap-1 text-red-600 dark:text-red-400">
+                    <Trash2 className="h-3 w-3" />
+                    Remove
+                  </Button>
+                </div>
+              </div>
+
+              {/* Alternate candidates from the analysis */}
+              {alternates.length > 0 && (
+                <div className="mt-3">
+                  {entry.match ? (
+                    <button
+                      onClick={() => toggleAlternates(index)}
+                      className="text-violet-600 dark:text-violet-400 hover:text-violet-800 dark:hover:text-violet-300 text-sm font-medium"
+                    >
+                      {openAlternates.includes(index) ? 'Hide other matches' : `Other matches (${alternates.length})`}
+                    </button>
+                  ) : null}
+                  {(!entry.match || openAlternates.includes(index)) && (
+                    <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                      {alternates.map((candidate, candidateIndex) =>
+                        renderBookOption(candidate, () => chooseBook(index, candidate), candidateIndex)
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Manual search */}
+              {searchOpenFor === index && (
+                <div className="mt-4 border-t border-gray-200 dark:border-gray-700 pt-4">
+                  <form
+                    className="flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      runSearch();
+                    }}
+                  >
+                    <Input
+                      value={searchQuery}
+                      onChange={(e) => setSearchQuery(e.target.value)}
+                      placeholder="Search by title"
+                      autoFocus
+                    />
+                    <Button type="submit" disabled={isSearching || searchQuery.trim().length < 2}>
+                      {isSearching ? <LoaderPinwheel className="h-4 w-4 animate-spin" /> : 'Search'}
+                    </Button>
+                  </form>
+                  {searchResults.length > 0 && (
+                    <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                      {searchResults.map((result, resultIndex) =>
+                        renderBookOption(result, () => chooseBook(index, result), resultIndex)
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-6 flex flex-col sm:flex-row sm:items-center sm:justify-end gap-3">
+        {pendingCount > 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Only confirmed books are used for recommendations.
+          </p>
+        )}
+        {onMixItUpChange && (
+          <div className="flex items-center gap-2" title="At most one book per author and series, plus a highly rated wildcard outside your usual genres">
+            <Switch id="mix-it-up" checked={mixItUp} onCheckedChange={onMixItUpChange} disabled={isLoading} />
+            <Label htmlFor="mix-it-up" className="text-sm text-gray-600 dark:text-gray-300">Mix it up</Label>
+          </div>
+        )}
+        <Button
+          onClick={() => onConfirm(confirmedBooks)}
+          disabled={isLoading || confirmedBooks.length === 0}
+          className="bg-violet-600 hover:bg-violet-700 dark:bg-violet-600 dark:hover:bg-violet-500 text-white"
+        >
+          {isLoading ? (
+            <>
+              <LoaderPinwheel className="mr-2 h-4 w-4 animate-spin" />
+              Getting recommendations...
+            </>
+          ) : (
+            `Get Recommendations (${confirmedBooks.length})`
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Spine {
+  text: string;
+  author?: string;
+  boundingBox: BoundingBox | null;
+  confidence: number;
+  // Photo of the scan session the spine was read from
+  photoIndex?: number;
+}
+
+interface SpineOverlayProps {
+  imageSrc: string;
+  spines: Spine[];
+  // Index into spines of the box to emphasize; other boxes are dimmed
+  highlightIndex?: number | null;
+  onSpineHover?: (index: number | null) => void;
+  className?: string;
+}
+
+/**
+ * Shows the uploaded shelf photo with a box drawn over each located spine.
+ * Bounding boxes are normalized (0-1), so they scale with the rendered image.
+ */
+export default function SpineOverlay({ imageSrc, spines, highlightIndex = null, onSpineHover, className = "" }: SpineOverlayProps) {
+  return (
+    <div className={`relative inline-block ${className}`}>
+      <img
+        src={imageSrc}
+        alt="Uploaded bookshelf"
+        className="block max-h-80 max-w-full rounded-lg"
+      />
+      {spines.map((spine, index) => {
+        if (!spine.boundingBox) {
+          return null;
+        }
+
+        const { x, y, width, height } = spine.boundingBox;
+        const isHighlighted = highlightIndex === index;
+        const isDimmed = highlightIndex !== null && !isHighlighted;
+
+        return (
+          <div
+            key={index}
+            title={`${spine.text}${spine.author ? ` by ${spine.author}` : ''} (${Math.round(spine.confidence * 100)}% confident)`}
+            onMouseEnter={() => onSpineHover?.(index)}
+            onMouseLeave={() => onSpineHover?.(null)}
+            className={`absolute rounded-sm border-2 transition-colors ${
+              isHighlighted
+                ? 'border-amber-400 bg-amber-400/30'
+                : isDimmed
+                  ? 'border-white/40'
+                  : 'border-violet-500 bg-violet-500/10'
+            }`}
+            style={{
+              left: `${x * 100}%`,
+              top: `${y * 100}%`,
+              width: `${width * 100}%`,
+              height: `${height * 100}%`
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { LoaderPinwheel, Camera, X, RotateCcw } from "lucide-react";
+import { isNdjsonResponse, readNdjson } from "@/lib/ndjson";
+import { Camera, X, RotateCcw, ImagePlus } from "lucide-react";
+import SpineOverlay, { type Spine } from "./SpineOverlay";
 
 interface Book {
   id?: number;
@@ -10,16 +13,73 @@ interface Book {
   coverUrl: string;
   isbn?: string;
   metadata?: Record<string, unknown>;
+  spine?: Spine | null;
+}
+
+// A title the server read but couldn't pin to a single book
+export interface UnresolvedTitle {
+  title: string;
+  author?: string | null;
+  spine?: Spine | null;
+  ambiguous: boolean;
+  candidates: Book[];
+}
+
+// Merged analysis output of the scan session, kept alongside the detected books for the review step
+export interface ScanDetails {
+  sessionId: string;
+  // Position of the just-analyzed photo within the session
+  photoIndex?: number;
+  // History entry the scan is recorded under, null if it couldn't be saved
+  scanId?: number | null;
+  bookTitles: string[];
+  unresolvedTitles: UnresolvedTitle[];
+}
+
+// Body returned by /api/books/analyze, or the final event of a streamed analysis
+interface AnalysisResponse {
+  books?: Book[];
+  bookTitles?: string[];
+  unresolvedTitles?: UnresolvedTitle[];
+  sessionId: string;
+  photoIndex?: number;
+  scanId?: number | null;
+  session?: {
+    books: Book[];
+    bookTitles: string[];
+    unresolvedTitles: UnresolvedTitle[];
+  };
+}
+
+// Progress events streamed by /api/books/analyze?stream=ndjson
+type AnalysisEvent =
+  | { type: 'stage'; stage: string; message: string; titleCount?: number }
+  | { type: 'book'; book: Book; processed: number; total: number }
+  | { type: 'unresolved'; title: UnresolvedTitle; processed: number; total: number }
+  | { type: 'progress'; processed: number; total: number }
+  | { type: 'result'; result: AnalysisResponse }
+  | { type: 'error'; message: string };
+
+interface AnalysisProgress {
+  message: string;
+  // Titles looked up so far out of those read from the photo
+  processed: number;
+  total: number;
 }
 
 interface UploadStepProps {
-  onBooksDetected: (books: Book[], imageBase64: string) => void;
+  // Called with the merged books of the whole scan session after each photo
+  onBooksDetected: (books: Book[], imageBase64: string, details: ScanDetails) => void;
   detectedBooks: Book[];
-  onGetRecommendations?: () => void;
-  isLoading?: boolean;
+  // Session that further photos are added to, null to start a new one
+  sessionId?: string | null;
+  // Photos of the session by photo index, kept by the parent so they survive step changes
+  shelfImages?: string[];
+  onReviewBooks?: () => void;
+  onStartNewScan?: () => void;
 }
 
-export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecommendations, isLoading = false }: UploadStepProps) {
+export default function UploadStep({ onBooksDetected, detectedBooks, sessionId, shelfImages = [], onReviewBooks, onStartNewScan }: UploadStepProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [uploadedImage, setUploadedImage] = useState<string>("");
@@ -28,6 +88,12 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
   const [cameraLoading, setCameraLoading] = useState(false);
+  const [hoveredBookIndex, setHoveredBookIndex] = useState<number | null>(null);
+  // Shows the uploader again below the running list so another photo can join the session
+  const [isAddingPhoto, setIsAddingPhoto] = useState(false);
+  // Live progress of the running analysis, with books shown as soon as they are resolved
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  const [streamedBooks, setStreamedBooks] = useState<Book[]>([]);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { toast } = useToast();
@@ -252,8 +318,53 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
     }
   };
 
+  // Follow a streamed analysis, updating progress as events arrive, and return its final result
+  const readAnalysisStream = async (response: Response): Promise<AnalysisResponse> => {
+    let result: AnalysisResponse | null = null;
+
+    await readNdjson<AnalysisEvent>(response, (event) => {
+      switch (event.type) {
+        case 'stage':
+          setAnalysisProgress(current => ({
+            message: event.message,
+            processed: current?.processed || 0,
+            total: event.titleCount ?? current?.total ?? 0
+          }));
+          break;
+        case 'book':
+          setStreamedBooks(current => [...current, event.book]);
+          setAnalysisProgress(current => ({
+            message: current?.message || '',
+            processed: event.processed,
+            total: event.total
+          }));
+          break;
+        case 'unresolved':
+        case 'progress':
+          setAnalysisProgress(current => ({
+            message: current?.message || '',
+            processed: event.processed,
+            total: event.total
+          }));
+          break;
+        case 'result':
+          result = event.result;
+          break;
+        case 'error':
+          throw new Error(event.message);
+      }
+    });
+
+    if (!result) {
+      throw new Error("The analysis ended before returning a result");
+    }
+    return result;
+  };
+
   const processImage = async (base64Image: string) => {
     setIsProcessing(true);
+    setAnalysisProgress(null);
+    setStreamedBooks([]);
 
     try {
       // Create form data
@@ -279,10 +390,14 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
       
       const blob = new Blob(byteArrays, { type: 'image/jpeg' });
       formData.append("image", blob);
+      if (sessionId) {
+        formData.append("sessionId", sessionId);
+      }
 
-      // Send to backend
-      const response = await fetch("/api/books/analyze", {
+      // Send to backend, asking for progress events while the analysis runs
+      const response = await fetch("/api/books/analyze?stream=ndjson", {
         method: "POST",
+        headers: { Accept: "application/x-ndjson, application/json" },
         body: formData,
       });
 
@@ -291,14 +406,34 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
         throw new Error(errorData.message || "Failed to analyze image");
       }
 
-      const data = await response.json();
-
-      if (data.books && data.books.length > 0) {
-        onBooksDetected(data.books, base64Image);
+      // Deployments without streaming support answer with plain JSON
+      const data: AnalysisResponse = isNdjsonResponse(response)
+        ? await readAnalysisStream(response)
+        : await response.json();
+
+      const books: Book[] = data.books || [];
+      const unresolvedTitles: UnresolvedTitle[] = data.unresolvedTitles || [];
+
+      if (books.length > 0 || unresolvedTitles.length > 0) {
+        // Hand the parent the whole session so books from earlier photos stay in the list
+        onBooksDetected(data.session?.books || books, base64Image, {
+          sessionId: data.sessionId,
+          photoIndex: data.photoIndex,
+          scanId: data.scanId,
+          bookTitles: data.session?.bookTitles || data.bookTitles || [],
+          unresolvedTitles: data.session?.unresolvedTitles || unresolvedTitles
+        });
+        const newBooks = data.session ? data.session.books.length - detectedBooks.length : books.length;
         toast({
           title: "Books detected!",
-          description: `Found ${data.books.length} books in your image`,
+          description: detectedBooks.length > 0
+            ? `Found ${books.length} books in this photo, ${Math.max(0, newBooks)} of them new`
+            : unresolvedTitles.length > 0
+              ? `Found ${books.length} books in your image, plus ${unresolvedTitles.length} to double-check`
+              : `Found ${books.length} books in your image`,
         });
+        setIsAddingPhoto(false);
+        setUploadedImage("");
       } else {
         toast({
           title: "No books detected",
@@ -314,6 +449,8 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
       });
     } finally {
       setIsProcessing(false);
+      setAnalysisProgress(null);
+      setStreamedBooks([]);
     }
   };
 
@@ -449,6 +586,20 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
     );
   }
 
+  // One overlay per session photo. Each gets one entry per detected book so overlay indices
+  // line up with the book list; books from other photos get an unlocated placeholder.
+  const shelfOverlays = shelfImages
+    .map((imageSrc, photoIndex) => ({
+      imageSrc,
+      spines: detectedBooks.map((book): Spine =>
+        book.spine && (book.spine.photoIndex ?? 0) === photoIndex
+          ? book.spine
+          : { text: book.title, boundingBox: null, confidence: 0 }
+      )
+    }))
+    .filter(overlay => overlay.imageSrc && overlay.spines.some(spine => spine.boundingBox));
+  const showUploader = !detectedBooks.length || isAddingPhoto;
+
   return (
     <div>
       <div className="mb-6">
@@ -457,7 +608,7 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
       </div>
 
       {/* Image upload area */}
-      {!detectedBooks.length ? (
+      {showUploader && (
         <>
           <div 
             className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 mb-6 flex flex-col items-center justify-center text-center"
@@ -537,7 +688,32 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
               <div className="py-12 flex flex-col items-center">
                 <div className="animate-spin h-10 w-10 border-4 border-violet-600 dark:border-violet-400 border-t-transparent dark:border-t-transparent rounded-full mb-4"></div>
                 <p className="text-violet-600 dark:text-violet-400 font-medium mb-1">Analyzing your books</p>
-                <p className="text-gray-600 dark:text-gray-300">This may take a moment...</p>
+                <p className="text-gray-600 dark:text-gray-300">{analysisProgress?.message || "This may take a moment..."}</p>
+                {analysisProgress && analysisProgress.total > 0 && (
+                  <div className="w-full max-w-xs mt-4">
+                    <Progress value={(analysisProgress.processed / analysisProgress.total) * 100} className="h-2" />
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Looked up {analysisProgress.processed} of {analysisProgress.total} titles
+                    </p>
+                  </div>
+                )}
+                {streamedBooks.length > 0 && (
+                  <ul className="mt-4 w-full max-w-md space-y-2 text-left">
+                    {streamedBooks.map((book, index) => (
+                      <li key={index} className="flex items-center gap-3 animate-in fade-in">
+                        {book.coverUrl ? (
+                          <img src={book.coverUrl} alt="" className="w-8 h-12 object-cover rounded" />
+                        ) : (
+                          <div className="w-8 h-12 bg-gray-100 dark:bg-gray-700 rounded" />
+                        )}
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{book.title}</p>
+                          <p className="text-xs text-gray-600 dark:text-gray-300 truncate">{book.author}</p>
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             ) : (
               <div className="relative w-full">
@@ -561,18 +737,45 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
             </div>
           )}
         </>
-      ) : (
+      )}
+
+      {detectedBooks.length > 0 && (
         <>
           <div className="mb-6">
             <h3 className="font-medium text-lg text-gray-900 dark:text-white mb-2">
               Detected Books ({detectedBooks.length})
+              {shelfImages.length > 1 && (
+                <span className="ml-2 text-sm font-normal text-gray-500 dark:text-gray-400">
+                  from {shelfImages.length} photos
+                </span>
+              )}
             </h3>
 
+            {shelfOverlays.length > 0 && (
+              <div className="mb-4 flex flex-wrap justify-center gap-4">
+                {shelfOverlays.map((overlay, overlayIndex) => (
+                  <SpineOverlay
+                    key={overlayIndex}
+                    imageSrc={overlay.imageSrc}
+                    spines={overlay.spines}
+                    highlightIndex={hoveredBookIndex}
+                    onSpineHover={setHoveredBookIndex}
+                  />
+                ))}
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {detectedBooks.map((book, index) => (
                 <div 
                   key={index}
-                  className="border rounded-lg overflow-hidden bg-white dark:bg-gray-800 shadow-sm border-gray-200 dark:border-gray-700"
+                  onMouseEnter={() => setHoveredBookIndex(index)}
+                  onMouseLeave={() => setHoveredBookIndex(null)}
+                  className={`border rounded-lg overflow-hidden bg-white dark:bg-gray-800 shadow-sm ${
+                    hoveredBookIndex === index
+                      ? 'border-amber-400 dark:border-amber-400'
+                      : 'border-gray-200 dark:border-gray-700'
+                  }`}
                 >
                   <div className="p-4 flex">
                     {book.coverUrl ? (
@@ -599,24 +802,51 @@ export default function UploadStep({ onBooksDetected, detectedBooks, onGetRecomm
               ))}
             </div>
 
-            {onGetRecommendations && (
-              <div className="mt-6 flex justify-end">
-                <Button 
-                  onClick={onGetRecommendations} 
-                  disabled={isLoading}
-                  className="bg-violet-600 hover:bg-violet-700 dark:bg-violet-600 dark:hover:bg-violet-500 text-white"
+            <div className="mt-6 flex flex-col-reverse sm:flex-row sm:justify-between gap-3">
+              {onStartNewScan ? (
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    setIsAddingPhoto(false);
+                    setUploadedImage("");
+                    onStartNewScan();
+                  }}
+                  disabled={isProcessing}
+                  className="text-gray-600 dark:text-gray-300"
                 >
-                  {isLoading ? (
+                  Start New Scan
+                </Button>
+              ) : <div />}
+              <div className="flex flex-col sm:flex-row gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setIsAddingPhoto(!isAddingPhoto);
+                    setUploadedImage("");
+                  }}
+                  disabled={isProcessing}
+                  className="border-violet-300 text-violet-700 hover:bg-violet-50 dark:border-violet-600 dark:text-violet-300 dark:hover:bg-violet-900/20 flex items-center gap-2"
+                >
+                  {isAddingPhoto ? (
+                    'Cancel'
+                  ) : (
                     <>
-                      <LoaderPinwheel className="mr-2 h-4 w-4 animate-spin" />
-                      Getting recommendations...
+                      <ImagePlus className="h-4 w-4" />
+                      Add Another Photo
                     </>
-                  ) : (
-                    'Get Recommendations'
                   )}
                 </Button>
+                {onReviewBooks && (
+                  <Button 
+                    onClick={onReviewBooks} 
+                    disabled={isProcessing}
+                    className="bg-violet-600 hover:bg-violet-700 dark:bg-violet-600 dark:hover:bg-violet-500 text-white"
+                  >
+                    Review Books
+                  </Button>
+                )}
               </div>
-            )}
+            </div>
           </div>
         </>
       )}
@@ -165,6 +165,31 @@ export default function Navbar({ sidebarOpen, toggleSidebar, toggleContact }: Na
                         <span>Reading List</span>
                     </Link>
                   </li>
+                  <li>
+                    <Link href="/history" className={`flex items-center gap-2 w-full px-3 py-1.5 rounded-md font-medium text-sm transition-colors duration-150 ${
+                        location.startsWith('/history') 
+                          ? 'bg-violet-50 dark:bg-violet-900 text-violet-600 dark:text-violet-200' 
+                          : 'text-gray-800 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-800'
+                      }`}>
+                        <svg 
+                          xmlns="http://www.w3.org/2000/svg" 
+                          width="24" 
+                          height="24" 
+                          viewBox="0 0 24 24" 
+                          fill="none" 
+                          stroke="currentColor" 
+                          strokeWidth="2" 
+                          strokeLinecap="round" 
+                          strokeLinejoin="round" 
+                          className="h-4 w-4"
+                        >
+                          <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8" />
+                          <path d="M3 3v5h5" />
+                          <path d="M12 7v5l4 2" />
+                        </svg>
+                        <span>Scan History</span>
+                    </Link>
+                  </li>
                 </ul>
               </div>
             </div>
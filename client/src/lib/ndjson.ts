@@ -0,0 +1,52 @@
+/**
+ * Newline-delimited JSON utilities
+ * Used to read streamed progress events from the analyze endpoint
+ */
+
+/**
+ * Whether a response body is newline-delimited JSON
+ */
+export function isNdjsonResponse(response: Response): boolean {
+  return (response.headers.get('Content-Type') || '').includes('application/x-ndjson');
+}
+
+/**
+ * Parse complete lines out of a buffer, returning whatever partial line is left over
+ */
+function drainLines<T>(buffer: string, onEvent: (event: T) => void): string {
+  let newlineIndex = buffer.indexOf('\n');
+  while (newlineIndex >= 0) {
+    const line = buffer.slice(0, newlineIndex).trim();
+    buffer = buffer.slice(newlineIndex + 1);
+    if (line) {
+      onEvent(JSON.parse(line) as T);
+    }
+    newlineIndex = buffer.indexOf('\n');
+  }
+  return buffer;
+}
+
+/**
+ * Read a newline-delimited JSON response, calling onEvent for each line as it arrives
+ */
+export async function readNdjson<T>(response: Response, onEvent: (event: T) => void): Promise<void> {
+  // Without a readable body (older browsers) the events arrive all at once
+  if (!response.body) {
+    drainLines(`${await response.text()}\n`, onEvent);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer = drainLines(buffer + decoder.decode(value, { stream: true }), onEvent);
+  }
+
+  drainLines(`${buffer}${decoder.decode()}\n`, onEvent);
+}
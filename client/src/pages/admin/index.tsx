@@ -85,6 +85,42 @@ interface StatsResponse {
   };
 }
 
+interface CacheStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+interface CacheMetricsResponse {
+  timestamp: string;
+  caches: Record<string, CacheStats>;
+  bookLookups: {
+    requestMemoHits: number;
+    databaseLookups: number;
+  };
+}
+
+interface JobRun {
+  id: number;
+  jobName: string;
+  trigger: string;
+  status: string;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  durationMs: number;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface JobRunsResponse {
+  jobs: { name: string; description: string; schedule: string }[];
+  runs: JobRun[];
+  schedulerEnabled: boolean;
+}
+
 /**
  * Admin Dashboard Page
  * Secure page for monitoring system status and API usage
@@ -200,6 +236,8 @@ export default function AdminPage() {
           <TabsTrigger value="system">System Status</TabsTrigger>
           <TabsTrigger value="api">API Usage</TabsTrigger>
           <TabsTrigger value="monitoring">API Monitoring</TabsTrigger>
+          <TabsTrigger value="cache">Cache</TabsTrigger>
+          <TabsTrigger value="jobs">Jobs</TabsTrigger>
           <TabsTrigger value="logs">Logs</TabsTrigger>
         </TabsList>
 
@@ -557,6 +595,16 @@ export default function AdminPage() {
           </Card>
         </TabsContent>
         
+        {/* Cache Tab */}
+        <TabsContent value="cache">
+          <CacheMetricsCard enabled={isAuthenticated} />
+        </TabsContent>
+        
+        {/* Jobs Tab */}
+        <TabsContent value="jobs">
+          <JobRunsCard enabled={isAuthenticated} />
+        </TabsContent>
+        
         {/* Logs Tab */}
         <TabsContent value="logs">
           <Card>
@@ -905,6 +953,166 @@ function HealthMonitoringControls() {
   );
 }
 
+/**
+ * Cache Metrics Card Component
+ * Hit and miss counts of the in-memory caches in front of the database
+ */
+function CacheMetricsCard({ enabled }: { enabled: boolean }) {
+  const { data, isLoading, refetch } = useQuery<CacheMetricsResponse>({
+    queryKey: ['/api/admin/cache-metrics'],
+    enabled,
+    refetchInterval: 60000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cache Metrics</CardTitle>
+        <CardDescription>
+          Counts since the server started; book lookups check the request, then memory, then the database
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-gray-500">Loading cache metrics...</p>}
+
+        {data && (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <span className="text-sm font-medium">Answered within the request</span>
+                <p className="text-lg">{data.bookLookups.requestMemoHits}</p>
+              </div>
+              <div>
+                <span className="text-sm font-medium">Database lookups</span>
+                <p className="text-lg">{data.bookLookups.databaseLookups}</p>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left border-b border-gray-200 dark:border-gray-700">
+                    <th className="py-2 pr-4">Cache</th>
+                    <th className="py-2 pr-4">Entries</th>
+                    <th className="py-2 pr-4">Hits</th>
+                    <th className="py-2 pr-4">Misses</th>
+                    <th className="py-2 pr-4">Hit Rate</th>
+                    <th className="py-2">Evictions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {Object.entries(data.caches).map(([name, stats]) => (
+                    <tr key={name} className="border-b border-gray-200 dark:border-gray-700">
+                      <td className="py-2 pr-4 font-medium">{name}</td>
+                      <td className="py-2 pr-4">{stats.size} / {stats.maxEntries}</td>
+                      <td className="py-2 pr-4">{stats.hits}</td>
+                      <td className="py-2 pr-4">{stats.misses}</td>
+                      <td className="py-2 pr-4">{Math.round(stats.hitRate * 100)}%</td>
+                      <td className="py-2">{stats.evictions}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button variant="outline" onClick={() => refetch()}>
+          Refresh Metrics
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
+/**
+ * Job Runs Card Component
+ * Scheduled jobs and the results of their recent runs
+ */
+function JobRunsCard({ enabled }: { enabled: boolean }) {
+  const { data, isLoading, refetch } = useQuery<JobRunsResponse>({
+    queryKey: ['/api/admin/job-runs'],
+    enabled,
+    refetchInterval: 60000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Scheduled Jobs</CardTitle>
+        <CardDescription>
+          {data && !data.schedulerEnabled
+            ? 'In-process scheduler is off; jobs run from Vercel cron'
+            : 'Cache maintenance and refresh jobs (schedules in UTC)'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && <p className="text-gray-500">Loading job runs...</p>}
+
+        {data && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {data.jobs.map(job => (
+              <div key={job.name} className="border rounded-md p-3">
+                <p className="font-medium">{job.name}</p>
+                <p className="text-sm text-gray-500">{job.description}</p>
+                <p className="text-xs font-mono mt-1">{job.schedule}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {data && data.runs.length === 0 && (
+          <p className="text-gray-500">No job runs recorded yet</p>
+        )}
+
+        {data && data.runs.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left border-b border-gray-200 dark:border-gray-700">
+                  <th className="py-2 pr-4">Job</th>
+                  <th className="py-2 pr-4">Started</th>
+                  <th className="py-2 pr-4">Trigger</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Duration</th>
+                  <th className="py-2">Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.runs.map(run => (
+                  <tr key={run.id} className="border-b border-gray-200 dark:border-gray-700 align-top">
+                    <td className="py-2 pr-4 font-medium">{run.jobName}</td>
+                    <td className="py-2 pr-4">{new Date(run.startedAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4">{run.trigger}</td>
+                    <td className="py-2 pr-4">
+                      <Badge 
+                        variant={run.status === 'success' ? "outline" : "destructive"}
+                        className={run.status === 'success' ? "bg-green-100 text-green-800" : ""}
+                      >
+                        {run.status}
+                      </Badge>
+                    </td>
+                    <td className="py-2 pr-4">{(run.durationMs / 1000).toFixed(1)}s</td>
+                    <td className="py-2 font-mono text-xs">
+                      {run.error || (run.result ? JSON.stringify(run.result) : '')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter>
+        <Button variant="outline" onClick={() => refetch()}>
+          Refresh Job Runs
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
+
 /**
  * Log Viewer Component
  */
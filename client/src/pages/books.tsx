@@ -1,13 +1,15 @@
 import React, { useState, useEffect } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import PreferencesStep from "@/components/book-scanner/PreferencesStep";
-import UploadStep from "@/components/book-scanner/UploadStep";
+import UploadStep, { type ScanDetails } from "@/components/book-scanner/UploadStep";
+import ReviewStep, { type ReviewEntry } from "@/components/book-scanner/ReviewStep";
 import RecommendationsStep from "@/components/book-scanner/RecommendationsStep";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useDevice } from "@/contexts/DeviceContext";
 import { Button } from "@/components/ui/button";
+import type { Spine } from "@/components/book-scanner/SpineOverlay";
 
 type Book = {
   id?: number;
@@ -16,6 +18,9 @@ type Book = {
   coverUrl: string;
   isbn?: string;
   metadata?: Record<string, unknown>;
+  spine?: Spine | null;
+  // Raw title the server resolved this book from
+  detectedFrom?: string;
 };
 
 type Recommendation = {
@@ -25,6 +30,7 @@ type Recommendation = {
   coverUrl: string;
   rating: string;
   summary: string;
+  spine?: Spine | null;
 };
 
 type Preference = {
@@ -33,6 +39,46 @@ type Preference = {
   goodreadsData?: Record<string, unknown> | unknown[] | null;
 };
 
+// Pair every title read from the photo with the book it resolved to (if any) so the user can review them all
+const buildReviewEntries = (books: Book[], details: ScanDetails): ReviewEntry[] => {
+  const booksByTitle = new Map(books.map(book => [(book.detectedFrom || book.title).toLowerCase(), book]));
+  const unresolvedByTitle = new Map(details.unresolvedTitles.map(unresolved => [unresolved.title.toLowerCase(), unresolved]));
+  const rawTitles = details.bookTitles.length > 0
+    ? details.bookTitles
+    : [...books.map(book => book.detectedFrom || book.title), ...details.unresolvedTitles.map(unresolved => unresolved.title)];
+
+  const entries: ReviewEntry[] = rawTitles.map(title => {
+    const book = booksByTitle.get(title.toLowerCase());
+    const unresolved = unresolvedByTitle.get(title.toLowerCase());
+    booksByTitle.delete(title.toLowerCase());
+
+    return {
+      rawTitle: title,
+      rawAuthor: book?.spine?.author ?? unresolved?.author ?? null,
+      spine: book?.spine ?? unresolved?.spine ?? null,
+      match: book ?? null,
+      candidates: unresolved?.candidates ?? [],
+      status: 'pending'
+    };
+  });
+
+  // Books the server matched under a title that isn't in bookTitles still need to be reviewable
+  booksByTitle.forEach(book => {
+    entries.push({
+      rawTitle: book.detectedFrom || book.title,
+      spine: book.spine ?? null,
+      match: book,
+      candidates: [],
+      status: 'pending'
+    });
+  });
+
+  return entries;
+};
+
+// Diversity controls sent with "Mix it up": one book per author and series, plus a wildcard
+const MIX_IT_UP_DIVERSITY = { maxPerAuthor: 1, maxPerSeries: 1, wildcard: true };
+
 export default function Books() {
   const [currentStep, setCurrentStep] = useState(1);
   const [userPreferences, setUserPreferences] = useState<Preference>({
@@ -41,7 +87,12 @@ export default function Books() {
     goodreadsData: null
   });
   const [detectedBooks, setDetectedBooks] = useState<Book[]>([]);
+  const [scanSessionId, setScanSessionId] = useState<string | null>(null);
+  const [scanId, setScanId] = useState<number | null>(null);
+  const [shelfImages, setShelfImages] = useState<string[]>([]);
+  const [reviewEntries, setReviewEntries] = useState<ReviewEntry[]>([]);
   const [currentRecommendations, setCurrentRecommendations] = useState<Recommendation[]>([]);
+  const [mixItUp, setMixItUp] = useState(false);
   const { toast } = useToast();
 
   // Get device ID from context
@@ -133,8 +184,8 @@ export default function Books() {
 
   // Generate recommendations using direct OpenAI integration for high-quality descriptions
   const recommendationsMutation = useMutation({
-    mutationFn: async () => {
-      if (!detectedBooks || detectedBooks.length === 0) {
+    mutationFn: async (confirmedBooks: Book[]) => {
+      if (!confirmedBooks || confirmedBooks.length === 0) {
         // If no books were detected, don't make the API call at all
         console.log("No books to send for recommendations");
         return [];
@@ -143,11 +194,15 @@ export default function Books() {
       // Use the existing userPreferences from state
       // This includes genres, authors, and goodreadsData that were collected in the preferences step
       
-      // Include the detected books and preferences in the request
-      console.log("Sending books for OpenAI recommendations:", detectedBooks.length);
+      // Include the books the user confirmed in the review step and preferences in the request
+      console.log("Sending books for OpenAI recommendations:", confirmedBooks.length);
       const response = await apiRequest('POST', '/api/direct/recommendations', {
-        books: detectedBooks,
-        preferences: userPreferences
+        books: confirmedBooks,
+        preferences: userPreferences,
+        // Varied top picks when the user asked to mix it up
+        diversity: mixItUp ? MIX_IT_UP_DIVERSITY : undefined,
+        // Lets the server keep these recommendations in the scan history
+        scanId
       });
       const data = await response.json();
       
@@ -186,18 +241,28 @@ export default function Books() {
     savePreferencesMutation.mutate(preferences);
   };
 
-  const handleBooksDetected = (books: Book[], _imageBase64: string) => {
+  const handleBooksDetected = (books: Book[], imageBase64: string, details: ScanDetails) => {
     console.log("Books detected:", books.length, "books");
-    if (books && books.length > 0) {
+    const isNewSession = details.sessionId !== scanSessionId;
+    const entries = buildReviewEntries(books, details);
+    if (entries.length > 0) {
       setDetectedBooks(books);
-      saveBooksMutation.mutate(books);
-      
-      // No longer automatically process recommendations
-      // Let the user review the detected books and click the button manually
-      toast({
-        title: "Books detected!",
-        description: `We found ${books.length} book${books.length === 1 ? '' : 's'}. Review them and click 'Get Recommendations' when ready.`,
+      setScanSessionId(details.sessionId);
+      setScanId(details.scanId ?? null);
+      setShelfImages(prev => {
+        const images = isNewSession ? [] : [...prev];
+        images[details.photoIndex ?? images.length] = imageBase64;
+        return images;
       });
+      // Keep decisions the user already made on titles from earlier photos of the session
+      setReviewEntries(prev => isNewSession ? entries : entries.map(entry =>
+        prev.find(existing => existing.status !== 'pending' && existing.rawTitle.toLowerCase() === entry.rawTitle.toLowerCase()) || entry
+      ));
+      
+      if (books.length === 0) {
+        // Nothing resolved on its own, so go straight to review to pick the right matches
+        setCurrentStep(3);
+      }
     } else {
       toast({
         title: "No books detected",
@@ -207,8 +272,34 @@ export default function Books() {
     }
   };
 
+  const handleStartNewScan = () => {
+    if (scanSessionId) {
+      // Best effort - the session expires on its own if this fails
+      fetch(`/api/scan-sessions/${scanSessionId}`, { method: 'DELETE' }).catch(() => undefined);
+    }
+    setScanSessionId(null);
+    setScanId(null);
+    setShelfImages([]);
+    setDetectedBooks([]);
+    setReviewEntries([]);
+  };
+
+  const handleReviewConfirmed = (confirmedBooks: Book[]) => {
+    if (confirmedBooks.length === 0) {
+      toast({
+        title: "No books selected",
+        description: "Please confirm at least one book before getting recommendations.",
+        variant: "destructive"
+      });
+      return;
+    }
+    
+    saveBooksMutation.mutate(confirmedBooks);
+    recommendationsMutation.mutate(confirmedBooks);
+  };
+
   const nextStep = () => {
-    if (currentStep < 3) {
+    if (currentStep < 4) {
       setCurrentStep(currentStep + 1);
     }
   };
@@ -235,7 +326,7 @@ export default function Books() {
             <div className="flex justify-between items-center relative">
               {/* Progress Bar Line */}
               <div className="absolute top-1/2 transform -translate-y-1/2 h-0.5 bg-gray-200 dark:bg-gray-700 w-full"></div>
-              <div className="absolute top-1/2 transform -translate-y-1/2 h-0.5 bg-violet-600 dark:bg-violet-500" style={{ width: `${((currentStep - 1) / 2) * 100}%` }}></div>
+              <div className="absolute top-1/2 transform -translate-y-1/2 h-0.5 bg-violet-600 dark:bg-violet-500" style={{ width: `${((currentStep - 1) / 3) * 100}%` }}></div>
 
               {/* Steps */}
               <div className={`relative flex items-center justify-center w-10 h-10 rounded-full z-10 cursor-pointer transition-colors ${
@@ -265,12 +356,22 @@ export default function Books() {
               >
                 3
               </div>
+              <div className={`relative flex items-center justify-center w-10 h-10 rounded-full z-10 cursor-pointer transition-colors ${
+                currentStep >= 4 
+                  ? 'bg-violet-600 dark:bg-violet-500 text-white' 
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+              }`}
+              onClick={() => currentStep >= 4 ? setCurrentStep(4) : null}
+              >
+                4
+              </div>
             </div>
             
             <div className="flex justify-between items-center mt-2 text-xs text-gray-600 dark:text-gray-300">
               <div className="text-center w-10">Preferences</div>
               <div className={`text-center w-10 ${currentStep >= 2 ? 'text-gray-900 dark:text-gray-200' : ''}`}>Book Upload</div>
-              <div className={`text-center w-10 ${currentStep >= 3 ? 'text-gray-900 dark:text-gray-200' : ''}`}>Recommendations</div>
+              <div className={`text-center w-10 ${currentStep >= 3 ? 'text-gray-900 dark:text-gray-200' : ''}`}>Review</div>
+              <div className={`text-center w-10 ${currentStep >= 4 ? 'text-gray-900 dark:text-gray-200' : ''}`}>Recommendations</div>
             </div>
           </div>
         </CardContent>
@@ -291,18 +392,10 @@ export default function Books() {
               <UploadStep
                 onBooksDetected={handleBooksDetected}
                 detectedBooks={detectedBooks}
-                onGetRecommendations={() => {
-                  if (detectedBooks.length > 0) {
-                    recommendationsMutation.mutate();
-                  } else {
-                    toast({
-                      title: "No books selected",
-                      description: "Please scan some books before getting recommendations.",
-                      variant: "destructive"
-                    });
-                  }
-                }}
-                isLoading={recommendationsMutation.isPending}
+                sessionId={scanSessionId}
+                shelfImages={shelfImages}
+                onReviewBooks={nextStep}
+                onStartNewScan={handleStartNewScan}
               />
               {/* Back button for step 2 */}
               <div className="flex justify-start mt-6">
@@ -327,8 +420,13 @@ export default function Books() {
           )}
           {currentStep === 3 && (
             <div>
-              <RecommendationsStep
-                recommendations={currentRecommendations}
+              <ReviewStep
+                entries={reviewEntries}
+                onEntriesChange={setReviewEntries}
+                onConfirm={handleReviewConfirmed}
+                isLoading={recommendationsMutation.isPending}
+                mixItUp={mixItUp}
+                onMixItUpChange={setMixItUp}
               />
               {/* Back button for step 3 */}
               <div className="flex justify-start mt-6">
@@ -351,6 +449,33 @@ export default function Books() {
               </div>
             </div>
           )}
+          {currentStep === 4 && (
+            <div>
+              <RecommendationsStep
+                recommendations={currentRecommendations}
+                shelfImages={shelfImages}
+              />
+              {/* Back button for step 4 */}
+              <div className="flex justify-start mt-6">
+                <Button
+                  variant="outline"
+                  onClick={previousStep}
+                  className="flex items-center gap-2"
+                >
+                  <svg 
+                    xmlns="http://www.w3.org/2000/svg" 
+                    className="h-4 w-4" 
+                    fill="none" 
+                    viewBox="0 0 24 24" 
+                    stroke="currentColor"
+                  >
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                  Back to Review
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, MapPin, Pencil, Trash2 } from "lucide-react";
+import RecommendationsStep from "@/components/book-scanner/RecommendationsStep";
+
+interface ScanListItem {
+  id: number;
+  placeLabel: string | null;
+  createdAt: string;
+  bookCount: number;
+  recommendationCount: number;
+  coverUrls: string[];
+}
+
+interface ScanBook {
+  title: string;
+  author: string;
+  coverUrl?: string;
+}
+
+interface Scan {
+  id: number;
+  placeLabel: string | null;
+  createdAt: string;
+  detectedBooks: ScanBook[];
+  recommendations: Parameters<typeof RecommendationsStep>[0]["recommendations"] | null;
+}
+
+const formatScanDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  });
+
+/**
+ * Past scans for this device. Re-opening a scan shows what was stored with it,
+ * so no new analysis or recommendation requests are made.
+ */
+export default function ScanHistory() {
+  const params = useParams<{ scanId?: string }>();
+  const [, navigate] = useLocation();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [labelDraft, setLabelDraft] = useState("");
+  const { toast } = useToast();
+
+  const selectedScanId = params.scanId ? parseInt(params.scanId, 10) : null;
+
+  const { data: scans, isLoading: scansLoading, error: scansError } = useQuery<ScanListItem[]>({
+    queryKey: ['/api/scans'],
+    staleTime: 30000
+  });
+
+  const { data: selectedScan, isLoading: scanLoading, error: scanError } = useQuery<Scan>({
+    queryKey: [`/api/scans/${selectedScanId}`],
+    enabled: selectedScanId !== null && !isNaN(selectedScanId)
+  });
+
+  const renameMutation = useMutation({
+    mutationFn: async ({ id, placeLabel }: { id: number; placeLabel: string }) => {
+      const response = await apiRequest('PATCH', `/api/scans/${id}`, { placeLabel: placeLabel.trim() || null });
+      return response.json();
+    },
+    onSuccess: (_data, { id }) => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/scans'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/scans/${id}`] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to rename scan: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/scans/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/scans'] });
+      if (selectedScanId === id) {
+        navigate('/history');
+      }
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete scan: ${error instanceof Error ? error.message : String(error)}`,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const startEditing = (scan: { id: number; placeLabel: string | null }) => {
+    setEditingId(scan.id);
+    setLabelDraft(scan.placeLabel || "");
+  };
+
+  const renderLabel = (scan: { id: number; placeLabel: string | null }) => {
+    if (editingId === scan.id) {
+      return (
+        <form
+          className="flex gap-2"
+          onClick={(e) => e.stopPropagation()}
+          onSubmit={(e) => {
+            e.preventDefault();
+            renameMutation.mutate({ id: scan.id, placeLabel: labelDraft });
+          }}
+        >
+          <Input
+            value={labelDraft}
+            onChange={(e) => setLabelDraft(e.target.value)}
+            placeholder="e.g. Living room shelf"
+            maxLength={100}
+            autoFocus
+          />
+          <Button type="submit" size="sm" disabled={renameMutation.isPending}>Save</Button>
+          <Button type="button" size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+        </form>
+      );
+    }
+
+    return (
+      <div className="flex items-center gap-2">
+        <MapPin className="h-4 w-4 text-violet-600 dark:text-violet-400" />
+        <span className="font-medium text-gray-900 dark:text-white">{scan.placeLabel || "Unlabeled shelf"}</span>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            startEditing(scan);
+          }}
+          className="text-gray-400 hover:text-violet-600 dark:hover:text-violet-400"
+          aria-label="Rename scan"
+        >
+          <Pencil className="h-3 w-3" />
+        </button>
+      </div>
+    );
+  };
+
+  // Detail view of a single past scan
+  if (selectedScanId !== null) {
+    return (
+      <div className="p-6 sm:p-8 lg:p-10 max-w-6xl mx-auto">
+        <Link href="/history">
+          <Button variant="outline" className="mb-6 flex items-center gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            All scans
+          </Button>
+        </Link>
+
+        {scanLoading ? (
+          <Skeleton className="h-64 w-full" />
+        ) : scanError || !selectedScan ? (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-md" role="alert">
+            <p>This scan could not be found. It may have been deleted.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6">
+              {renderLabel(selectedScan)}
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{formatScanDate(selectedScan.createdAt)}</p>
+            </div>
+
+            <Card className="mb-8 border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm">
+              <CardContent className="p-6">
+                <h2 className="font-medium text-lg text-gray-900 dark:text-white mb-4">
+                  Books on this shelf ({selectedScan.detectedBooks.length})
+                </h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                  {selectedScan.detectedBooks.map((book, index) => (
+                    <div key={index} className="flex items-center gap-3">
+                      {book.coverUrl ? (
+                        <img src={book.coverUrl} alt={book.title} className="w-10 h-14 object-cover rounded" />
+                      ) : (
+                        <div className="w-10 h-14 bg-gray-100 dark:bg-gray-700 rounded" />
+                      )}
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{book.title}</p>
+                        <p className="text-xs text-gray-600 dark:text-gray-300 truncate">{book.author}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm">
+              <CardContent className="p-6">
+                {selectedScan.recommendations && selectedScan.recommendations.length > 0 ? (
+                  <RecommendationsStep recommendations={selectedScan.recommendations} />
+                ) : (
+                  <p className="text-gray-600 dark:text-gray-300">
+                    No recommendations were generated for this scan.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 sm:p-8 lg:p-10 max-w-6xl mx-auto">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">Scan History</h1>
+          <p className="text-gray-600 dark:text-gray-300 text-lg">Re-open a past shelf scan and its recommendations</p>
+        </div>
+        <Link href="/books">
+          <Button variant="outline" className="border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800">New Scan</Button>
+        </Link>
+      </div>
+
+      {scansLoading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map(i => <Skeleton key={i} className="h-24 w-full" />)}
+        </div>
+      ) : scansError ? (
+        <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 px-4 py-3 rounded-md" role="alert">
+          <p>Failed to load your scan history. Please try again later.</p>
+        </div>
+      ) : !scans || scans.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-gray-600 dark:text-gray-300 mb-4">You haven't scanned any shelves yet.</p>
+          <Link href="/books">
+            <Button className="bg-violet-600 hover:bg-violet-700 dark:bg-violet-600 dark:hover:bg-violet-500 text-white">Scan a Shelf</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {scans.map(scan => (
+            <Card
+              key={scan.id}
+              onClick={() => navigate(`/history/${scan.id}`)}
+              className="cursor-pointer border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm hover:border-violet-300 dark:hover:border-violet-700 transition-colors"
+            >
+              <CardContent className="p-4 flex items-center gap-4">
+                <div className="flex -space-x-3 shrink-0">
+                  {scan.coverUrls.length > 0 ? scan.coverUrls.map((coverUrl, index) => (
+                    <img key={index} src={coverUrl} alt="" className="w-10 h-14 object-cover rounded border-2 border-white dark:border-gray-800" />
+                  )) : (
+                    <div className="w-10 h-14 bg-gray-100 dark:bg-gray-700 rounded" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  {renderLabel(scan)}
+                  <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                    {formatScanDate(scan.createdAt)} · {scan.bookCount} book{scan.bookCount === 1 ? '' : 's'} · {scan.recommendationCount} recommendation{scan.recommendationCount === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    deleteMutation.mutate(scan.id);
+                  }}
+                  disabled={deleteMutation.isPending}
+                  className="text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  aria-label="Delete scan"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
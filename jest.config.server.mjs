@@ -3,12 +3,18 @@ export default {
   testEnvironment: 'node',
   roots: ['<rootDir>/tests/server'],
   testMatch: [
-    '**/tests/server/**/simple.test.ts'
+    '**/tests/server/**/*.test.ts'
   ],
   setupFilesAfterEnv: ['<rootDir>/tests/setup/server.setup.ts'],
   coverageDirectory: 'coverage/server',
   coverageReporters: ['text', 'lcov'],
   moduleFileExtensions: ['ts', 'js', 'json'],
+  // Server modules import each other with the .js extension they have once compiled
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+    '^@server/(.*)$': '<rootDir>/server/$1',
+    '^@shared/(.*)$': '<rootDir>/shared/$1'
+  },
   testTimeout: 10000,
   verbose: true
 }; 
\ No newline at end of file
@@ -1,5 +1,8 @@
 import { defineConfig, devices } from '@playwright/test';
 
+// External APIs answer from tests/fixtures/api unless API_FIXTURES=record is set
+const apiFixtures = process.env.API_FIXTURES || 'replay';
+
 export default defineConfig({
   testDir: './tests/e2e',
   fullyParallel: true,
@@ -37,7 +40,11 @@ export default defineConfig({
   webServer: {
     command: 'npm run dev',
     url: 'http://127.0.0.1:5000',
-    reuseExistingServer: !process.env.CI,
+    // A dev server already running on the port isn't replaying, so never reuse one then
+    reuseExistingServer: !process.env.CI && apiFixtures !== 'replay',
     timeout: 120 * 1000,
+    env: {
+      API_FIXTURES: apiFixtures,
+    },
   },
 }); 
\ No newline at end of file
@@ -36,6 +36,17 @@ async function setupSchemas() {
     `);
     console.log('✅ Schema permissions set');
 
+    // Trigram similarity for book cache lookups, and the gin_trgm_ops operator class of the
+    // book_cache_title_trgm index created by db:push
+    try {
+      await pool.query(`
+        CREATE EXTENSION IF NOT EXISTS pg_trgm;
+      `);
+      console.log('✅ pg_trgm extension enabled');
+    } catch (error) {
+      console.warn('⚠️  Could not enable pg_trgm (db:push cannot create the book cache title index):', error.message);
+    }
+
     console.log('\n🎉 Schema setup complete!');
     console.log('📝 You can now run:');
     console.log('   npm run db:push:dev    # Push to development schema');
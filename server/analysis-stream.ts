@@ -0,0 +1,103 @@
+import type { Request, Response } from "express";
+
+/**
+ * Streaming progress for shelf analysis
+ * Clients opt in with ?stream=ndjson or ?stream=sse (or the matching Accept header) and get
+ * stage events as the analysis runs, one event per resolved book, then the usual response
+ * body as the final 'result' event.
+ */
+
+export type AnalysisStreamFormat = 'ndjson' | 'sse';
+
+export type AnalysisStage = 'preprocessing' | 'vision' | 'resolving' | 'ranking';
+
+export type AnalysisEvent =
+  | { type: 'stage'; stage: AnalysisStage; message: string; titleCount?: number }
+  // processed counts titles looked up so far, including ones that found nothing
+  | { type: 'book'; book: unknown; processed: number; total: number }
+  | { type: 'unresolved'; title: unknown; processed: number; total: number }
+  // A lookup finished without a book (nothing found, failed or timed out)
+  | { type: 'progress'; processed: number; total: number }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; message: string };
+
+const CONTENT_TYPES: Record<AnalysisStreamFormat, string> = {
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  sse: 'text/event-stream; charset=utf-8'
+};
+
+/**
+ * The streaming format a request asked for, or null for a plain JSON response
+ */
+export function getStreamFormat(req: Request): AnalysisStreamFormat | null {
+  const requested = typeof req.query.stream === 'string' ? req.query.stream.toLowerCase() : '';
+  if (requested === 'ndjson' || requested === 'sse') {
+    return requested;
+  }
+
+  const accept = req.headers.accept || '';
+  if (accept.includes('application/x-ndjson')) {
+    return 'ndjson';
+  }
+  if (accept.includes('text/event-stream')) {
+    return 'sse';
+  }
+  return null;
+}
+
+/**
+ * Writes analysis events to a response in NDJSON or Server-Sent Events format
+ */
+export class AnalysisStream {
+  private started = false;
+  private closed = false;
+
+  constructor(private res: Response, readonly format: AnalysisStreamFormat) {
+    // Stop writing if the client goes away; the analysis itself still finishes
+    res.on('close', () => {
+      this.closed = true;
+    });
+  }
+
+  get isStarted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Send the headers; errors after this point have to be reported as an 'error' event
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    this.res.status(200);
+    this.res.setHeader('Content-Type', CONTENT_TYPES[this.format]);
+    this.res.setHeader('Cache-Control', 'no-cache, no-transform');
+    this.res.setHeader('Connection', 'keep-alive');
+    // Disable proxy buffering (nginx) so events arrive as they are written
+    this.res.setHeader('X-Accel-Buffering', 'no');
+    this.res.flushHeaders();
+  }
+
+  send(event: AnalysisEvent): void {
+    this.start();
+    if (this.closed) {
+      return;
+    }
+
+    const json = JSON.stringify(event);
+    this.res.write(this.format === 'sse' ? `event: ${event.type}\ndata: ${json}\n\n` : `${json}\n`);
+  }
+
+  /**
+   * Send a final event and close the response
+   */
+  end(event: AnalysisEvent): void {
+    this.send(event);
+    if (!this.closed) {
+      this.res.end();
+      this.closed = true;
+    }
+  }
+}
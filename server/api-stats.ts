@@ -1,4 +1,5 @@
 import { rateLimiter } from './rate-limiter';
+import { getLLMClient } from './llm-client.js';
 
 /**
  * Returns the current status of API rate limits and usage
@@ -11,7 +12,8 @@ export function getApiUsageStats(): Record<string, any> {
     // Include environment configuration status (without leaking actual API keys)
     config: {
       openaiEnabled: process.env.ENABLE_OPENAI !== 'false',
-      openaiConfigured: !!process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.length > 5, 
+      openaiConfigured: getLLMClient().isConfigured(),
+      llmProvider: getLLMClient().name,
       googleVisionConfigured: !!process.env.GOOGLE_VISION_API_KEY
     }
   };
@@ -1,17 +1,31 @@
 import { db } from './db.js';
-import { bookCache, type InsertBookCache, type BookCache } from '../shared/schema.js';
-import { eq, and, or, sql, lte, gte, isNotNull, not, isNull } from 'drizzle-orm';
+import { bookCache, savedBooks, type InsertBookCache, type BookCache } from '../shared/schema.js';
+import { eq, and, or, sql, lte, gte, gt, isNotNull, not, isNull, desc, asc } from 'drizzle-orm';
 import { getEstimatedBookRating } from './utils/book-utils.js';
 import { log } from './simple-logger.js';
-import OpenAI from "openai";
 import { rateLimiter } from './rate-limiter.js';
-
-// Configure OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY,
-  maxRetries: 2,
-  timeout: 15000
-});
+import { storage, type ScoredBookCache } from './storage.js';
+import { getCacheApplyMinScore } from './utils/cache-match.js';
+import { bookLookupCache } from './cache-layer.js';
+import { mapWithConcurrency } from './utils/concurrency.js';
+import {
+  chunkItems,
+  formatEnrichmentBookList,
+  parseEnrichmentResponse,
+  getEnrichmentChunkSize,
+  MIN_SUMMARY_LENGTH,
+  type EnrichmentInput,
+  type EnrichmentResult
+} from './utils/enrichment-batch.js';
+import {
+  createValidatedCompletion,
+  OpenAIResponseError,
+  enrichmentResponseSpec,
+  ratingResponseSpec,
+  summaryResponseSpec
+} from './utils/openai-utils.js';
+import { renderPrompt, toCompletionParams } from './prompt-registry.js';
+import { getLLMClient } from './llm-client.js';
 
 // Cache expiration duration in milliseconds
 const CACHE_DURATION = {
@@ -23,6 +37,56 @@ const CACHE_DURATION = {
 // Default cache duration
 const DEFAULT_EXPIRATION = 7 * 24 * 60 * 60 * 1000; // 7 days
 
+// Batch enrichment calls in flight at once
+const ENRICHMENT_CONCURRENCY = 2;
+
+// Sources a cache entry can record; the column itself is a plain varchar
+const CACHE_SOURCES = ['google', 'amazon', 'openai', 'saved'] as const;
+type CacheSource = typeof CACHE_SOURCES[number];
+
+function isCacheSource(value: string | null | undefined): value is CacheSource {
+  return CACHE_SOURCES.some(source => source === value);
+}
+
+/**
+ * A book to enrich, with whatever rating and summary it already has
+ */
+export interface BookToEnrich extends EnrichmentInput {
+  isbn?: string;
+  rating?: string;
+  summary?: string;
+}
+
+/**
+ * Rating, summary and categories for one book
+ * source says where the summary and rating came from: the cache, a batch OpenAI call, or
+ * neither (the book's own data, with an estimated rating if it had none).
+ */
+export interface BookEnrichment extends EnrichmentResult {
+  source: 'cache' | 'openai' | 'none';
+}
+
+/**
+ * A batch enrichment result to store in book_cache
+ */
+interface EnrichmentWrite extends EnrichmentResult {
+  title: string;
+  author: string;
+  isbn?: string;
+  promptVersion?: string;
+}
+
+/**
+ * Prompt version to store with a write: the given version when the summary changes, otherwise
+ * the version the entry already has
+ */
+function nextPromptVersion(summary: string | undefined, promptVersion: string | undefined, existing?: BookCache): string | null {
+  if (!summary || summary === existing?.summary) {
+    return existing?.promptVersion ?? null;
+  }
+  return promptVersion ?? null;
+}
+
 /**
  * Book Cache Service - Manages storing and retrieving book information
  * to reduce expensive API calls while maintaining high-quality data
@@ -32,58 +96,11 @@ export class BookCacheService {
    * Find a book in the cache by title and author
    * @param title Book title
    * @param author Book author
-   * @returns BookCache object if found, undefined otherwise
+   * @param minScore Lowest match score to accept (defaults to CACHE_MATCH_MIN_SCORE)
+   * @returns BookCache object with its match score if found, undefined otherwise
    */
-  async findInCache(title: string, author: string): Promise<BookCache | undefined> {
-    // Normalize inputs for better matching
-    const normalizedTitle = title.toLowerCase().trim();
-    const normalizedAuthor = author.toLowerCase().trim();
-
-    try {
-      // Check for both exact and close matches
-      const [exactMatch] = await db.select().from(bookCache).where(
-        and(
-          eq(sql`LOWER(${bookCache.title})`, normalizedTitle),
-          or(
-            eq(sql`LOWER(${bookCache.author})`, normalizedAuthor),
-            sql`LOWER(${bookCache.author}) LIKE ${`%${normalizedAuthor}%`}`,
-            sql`${normalizedAuthor} LIKE CONCAT('%', LOWER(${bookCache.author}), '%')`
-          ),
-          gte(bookCache.expiresAt, new Date()) // Not expired
-        )
-      );
-
-      if (exactMatch) {
-        log(`Cache hit for "${title}" by ${author}`, 'cache');
-        return exactMatch;
-      }
-
-      // Try partial match if exact match fails
-      const [partialMatch] = await db.select().from(bookCache).where(
-        and(
-          or(
-            sql`LOWER(${bookCache.title}) LIKE ${`%${normalizedTitle}%`}`,
-            sql`${normalizedTitle} LIKE CONCAT('%', LOWER(${bookCache.title}), '%')`
-          ),
-          or(
-            sql`LOWER(${bookCache.author}) LIKE ${`%${normalizedAuthor}%`}`,
-            sql`${normalizedAuthor} LIKE CONCAT('%', LOWER(${bookCache.author}), '%')`
-          ),
-          gte(bookCache.expiresAt, new Date()) // Not expired
-        )
-      ).limit(1);
-
-      if (partialMatch) {
-        log(`Partial cache hit for "${title}" by ${author}`, 'cache');
-        return partialMatch;
-      }
-
-      log(`Cache miss for "${title}" by ${author}`, 'cache');
-      return undefined;
-    } catch (error) {
-      log(`Error finding book in cache: ${error instanceof Error ? error.message : String(error)}`, 'cache');
-      return undefined;
-    }
+  async findInCache(title: string, author: string, minScore?: number): Promise<ScoredBookCache | undefined> {
+    return storage.findBookInCache(title, author, minScore);
   }
 
   /**
@@ -117,7 +134,7 @@ export class BookCacheService {
 
   /**
    * Save a book to the cache
-   * @param bookData Book data to cache
+   * @param bookData Book data to cache; promptVersion is the prompt that wrote the summary
    * @param source Source of the book data (google, amazon, openai)
    * @returns The cached book
    */
@@ -128,12 +145,13 @@ export class BookCacheService {
     coverUrl?: string;
     rating?: string;
     summary?: string;
+    promptVersion?: string;
     metadata?: any;
-    source?: 'google' | 'amazon' | 'openai' | 'saved';
+    source?: CacheSource;
     expiresAt?: Date;
   }): Promise<BookCache> {
     // Determine the source based on the content being cached
-    let source: 'google' | 'amazon' | 'openai' | 'saved';
+    let source: CacheSource;
     
     // If we have OpenAI-generated content (summary or rating), mark as OpenAI source
     if (bookData.summary || bookData.rating) {
@@ -151,13 +169,23 @@ export class BookCacheService {
       const normalizedTitle = bookData.title.trim();
       const normalizedAuthor = bookData.author.trim();
       
-      // First perform a direct query to find exact match to prevent duplicates
-      const [directMatch] = await db.select().from(bookCache).where(
-        and(
-          eq(sql`LOWER(TRIM(${bookCache.title}))`, normalizedTitle.toLowerCase()),
-          eq(sql`LOWER(TRIM(${bookCache.author}))`, normalizedAuthor.toLowerCase())
-        )
-      );
+      const resolved = await storage.resolveWork(bookData);
+      const workId = resolved?.work.id ?? null;
+      
+      // An entry for the same work is the best match, then an exact title/author match
+      // for entries cached before works existed
+      let directMatch: BookCache | undefined;
+      if (workId) {
+        [directMatch] = await db.select().from(bookCache).where(eq(bookCache.workId, workId)).limit(1);
+      }
+      if (!directMatch) {
+        [directMatch] = await db.select().from(bookCache).where(
+          and(
+            eq(sql`LOWER(TRIM(${bookCache.title}))`, normalizedTitle.toLowerCase()),
+            eq(sql`LOWER(TRIM(${bookCache.author}))`, normalizedAuthor.toLowerCase())
+          )
+        );
+      }
       
       // Set expiration based on source if not explicitly provided
       let expiresAt: Date;
@@ -188,31 +216,35 @@ export class BookCacheService {
         const [updated] = await db.update(bookCache)
           .set({
             isbn: bookData.isbn || directMatch.isbn,
+            workId: workId || directMatch.workId,
             coverUrl: bookData.coverUrl || directMatch.coverUrl,
             rating: bookData.rating || directMatch.rating,
             summary: bookData.summary || directMatch.summary,
+            promptVersion: nextPromptVersion(bookData.summary, bookData.promptVersion, directMatch),
             source: source, // Use the determined source based on content
             metadata: bookData.metadata || directMatch.metadata,
             expiresAt: expiresAt
           })
           .where(eq(bookCache.id, directMatch.id))
           .returning();
-          
-
+        
+        bookLookupCache.invalidateEntry(updated.id, updated);
         return updated;
       }
       
-      // If no direct match, try the fuzzy search
-      const existing = await this.findInCache(normalizedTitle, normalizedAuthor);
+      // If no direct match, try a close match (only when confident it is the same book)
+      const existing = await this.findInCache(normalizedTitle, normalizedAuthor, getCacheApplyMinScore());
       
       if (existing) {
         // Update existing cache entry with fuzzy match
         const [updated] = await db.update(bookCache)
           .set({
             isbn: bookData.isbn || existing.isbn,
+            workId: workId || existing.workId,
             coverUrl: bookData.coverUrl || existing.coverUrl,
             rating: bookData.rating || existing.rating,
             summary: bookData.summary || existing.summary,
+            promptVersion: nextPromptVersion(bookData.summary, bookData.promptVersion, existing),
             source: source, // Use the determined source based on content
             metadata: bookData.metadata || existing.metadata,
             expiresAt: expiresAt
@@ -220,15 +252,15 @@ export class BookCacheService {
           .where(eq(bookCache.id, existing.id))
           .returning();
         
-
+        bookLookupCache.invalidateEntry(updated.id, updated);
         return updated;
       }
       
       // Insert new cache entry
-      // Generate a unique ID for this book
-      const uniqueId = 
-        bookData.isbn || 
-        `${normalizedTitle}-${normalizedAuthor}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
+      // Generate a unique ID for this book, keyed by its work when known
+      const uniqueId = workId
+        ? `work_${workId}`
+        : bookData.isbn || `${normalizedTitle}-${normalizedAuthor}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
       
       const insertData: InsertBookCache = {
         title: normalizedTitle,
@@ -237,15 +269,17 @@ export class BookCacheService {
         coverUrl: bookData.coverUrl || undefined,
         rating: bookData.rating || undefined,
         summary: bookData.summary || undefined,
+        promptVersion: bookData.summary ? bookData.promptVersion : undefined,
         source: source,
         bookId: uniqueId, // Use our generated unique ID
+        workId,
         metadata: bookData.metadata || undefined,
         expiresAt: expiresAt
       };
       
       const [inserted] = await db.insert(bookCache).values(insertData).returning();
       
-
+      bookLookupCache.invalidateEntry(inserted.id, inserted);
       return inserted;
     } catch (error) {
       log(`Error caching book: ${error instanceof Error ? error.message : String(error)}`, 'cache');
@@ -264,6 +298,7 @@ export class BookCacheService {
       const count = result.length;
       
       if (count > 0) {
+        bookLookupCache.clear();
         log(`Removed ${count} expired entries from book cache`, 'cache');
       }
       
@@ -274,27 +309,231 @@ export class BookCacheService {
     }
   }
 
+  /**
+   * Rate, summarize and categorize many books with as few OpenAI calls as possible
+   * Cached OpenAI data is used first. The books still missing a rating or a summary are sent
+   * to OpenAI in chunks of BATCH_ENRICHMENT_CHUNK_SIZE, one call per chunk, and the results are
+   * written to book_cache in a single transaction.
+   * @param books Books to enrich; a rating or summary they already have is kept
+   * @param options deviceId picks the prompt variant
+   * @returns One enrichment per book, in the same order
+   */
+  async enrichBooks(books: BookToEnrich[], options: { deviceId?: string } = {}): Promise<BookEnrichment[]> {
+    const applyMinScore = getCacheApplyMinScore();
+    
+    const results: BookEnrichment[] = await Promise.all(books.map(async (book) => {
+      const cached = await this.findInCache(book.title, book.author, applyMinScore);
+      if (cached?.source === 'openai') {
+        const metadata = (cached.metadata || {}) as { categories?: string[] };
+        return {
+          source: 'cache' as const,
+          rating: cached.rating || book.rating,
+          summary: cached.summary || book.summary,
+          categories: metadata.categories || undefined
+        };
+      }
+      return { source: 'none' as const, rating: book.rating, summary: book.summary };
+    }));
+    
+    const missing = books
+      .map((book, index) => ({ book, index }))
+      .filter(({ index }) => {
+        const { rating, summary } = results[index];
+        return !rating || !summary || summary.length < MIN_SUMMARY_LENGTH;
+      });
+    
+    if (missing.length > 0 && getLLMClient().isConfigured()) {
+      const chunks = chunkItems(missing, getEnrichmentChunkSize());
+      const chunkResults = await mapWithConcurrency(chunks, ENRICHMENT_CONCURRENCY, chunk =>
+        this.requestEnrichment(chunk.map(({ book }) => book), options.deviceId)
+      );
+      
+      const writes: EnrichmentWrite[] = [];
+      chunks.forEach((chunk, chunkIndex) => {
+        chunk.forEach(({ book, index }, i) => {
+          const { results: chunkEnrichments, promptVersion } = chunkResults[chunkIndex];
+          const fresh = chunkEnrichments[i];
+          if (!fresh?.rating && !fresh?.summary) {
+            return;
+          }
+          
+          const current = results[index];
+          const summary = current.summary && current.summary.length >= MIN_SUMMARY_LENGTH
+            ? current.summary
+            : fresh.summary || current.summary;
+          results[index] = {
+            source: 'openai',
+            rating: current.rating || fresh.rating,
+            summary,
+            categories: current.categories || fresh.categories
+          };
+          writes.push({
+            title: book.title,
+            author: book.author,
+            isbn: book.isbn,
+            ...results[index],
+            promptVersion: summary === fresh.summary ? promptVersion : undefined
+          });
+        });
+      });
+      
+      await this.cacheEnrichments(writes);
+    } else if (missing.length > 0) {
+      log('OpenAI API key not configured for batch enrichment', 'cache');
+    }
+    
+    // Same fallback as getEnhancedRating when OpenAI couldn't rate a book
+    return results.map((result, index) => result.rating
+      ? result
+      : { ...result, rating: getEstimatedBookRating(books[index].title, books[index].author) });
+  }
+  
+  /**
+   * Ask OpenAI for the rating, summary and categories of up to one chunk of books
+   * @returns Results in the same order as the books, empty if the call failed or was rate
+   * limited, and the version of the prompt used
+   */
+  private async requestEnrichment(
+    books: EnrichmentInput[],
+    deviceId?: string
+  ): Promise<{ results: EnrichmentResult[]; promptVersion?: string }> {
+    const empty = { results: books.map(() => ({})) };
+    
+    if (!(await rateLimiter.checkAndIncrement('openai'))) {
+      log(`Rate limit reached for OpenAI, skipping batch enrichment of ${books.length} books`, 'cache');
+      return empty;
+    }
+    
+    try {
+      log(`Enriching ${books.length} books in one OpenAI call`, 'cache');
+      
+      const prompt = renderPrompt('enrichment', { bookList: formatEnrichmentBookList(books) }, deviceId);
+      const response = await createValidatedCompletion('enrichment', enrichmentResponseSpec, {
+        ...toCompletionParams(prompt),
+        response_format: { type: "json_object" },
+        max_tokens: prompt.maxTokens * books.length
+      });
+      
+      return { results: parseEnrichmentResponse(response, books.length), promptVersion: prompt.promptVersion };
+    } catch (error) {
+      log(`Error in batch enrichment: ${error instanceof Error ? error.message : String(error)}`, 'cache');
+      return empty;
+    }
+  }
+  
+  /**
+   * Store batch enrichment results in book_cache in one transaction
+   * Each result updates the entry for its work (or exact title and author) or creates one.
+   * @returns The written entries; none if the transaction failed
+   */
+  private async cacheEnrichments(writes: EnrichmentWrite[]): Promise<BookCache[]> {
+    if (writes.length === 0) {
+      return [];
+    }
+    
+    try {
+      // Works are resolved first; they are shared rows that other writers may create too
+      const resolved = await Promise.all(writes.map(write => storage.resolveWork(write)));
+      const expiresAt = new Date(Date.now() + CACHE_DURATION.OPENAI);
+      
+      const written = await db.transaction(async (tx) => {
+        const rows: BookCache[] = [];
+        
+        for (let i = 0; i < writes.length; i++) {
+          const write = writes[i];
+          const title = write.title.trim();
+          const author = write.author.trim();
+          const workId = resolved[i]?.work.id ?? null;
+          
+          let existing: BookCache | undefined;
+          if (workId) {
+            [existing] = await tx.select().from(bookCache).where(eq(bookCache.workId, workId)).limit(1);
+          }
+          if (!existing) {
+            [existing] = await tx.select().from(bookCache).where(
+              and(
+                eq(sql`LOWER(TRIM(${bookCache.title}))`, title.toLowerCase()),
+                eq(sql`LOWER(TRIM(${bookCache.author}))`, author.toLowerCase())
+              )
+            );
+          }
+          
+          const metadata = { ...((existing?.metadata || {}) as Record<string, unknown>), categories: write.categories || null };
+          
+          if (existing) {
+            const [updated] = await tx.update(bookCache)
+              .set({
+                rating: write.rating || existing.rating,
+                summary: write.summary || existing.summary,
+                promptVersion: nextPromptVersion(write.summary, write.promptVersion, existing),
+                isbn: write.isbn || existing.isbn,
+                workId: workId || existing.workId,
+                source: 'openai',
+                metadata,
+                expiresAt
+              })
+              .where(eq(bookCache.id, existing.id))
+              .returning();
+            rows.push(updated);
+          } else {
+            const bookId = workId
+              ? `work_${workId}`
+              : write.isbn || `${title}-${author}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
+            const [inserted] = await tx.insert(bookCache)
+              .values({
+                title,
+                author,
+                isbn: write.isbn || undefined,
+                bookId,
+                workId,
+                rating: write.rating,
+                summary: write.summary,
+                promptVersion: write.summary ? write.promptVersion : undefined,
+                source: 'openai',
+                metadata,
+                expiresAt
+              })
+              .returning();
+            rows.push(inserted);
+          }
+        }
+        
+        return rows;
+      });
+      
+      written.forEach(row => bookLookupCache.invalidateEntry(row.id, row));
+      log(`Cached batch enrichment for ${written.length} books`, 'cache');
+      return written;
+    } catch (error) {
+      log(`Error caching batch enrichment: ${error instanceof Error ? error.message : String(error)}`, 'cache');
+      return [];
+    }
+  }
+  
   /**
    * Get enhanced book summary using OpenAI, leveraging its knowledge of literature
    * @param title Book title
    * @param author Book author
    * @param existingSummary Existing summary to enhance (optional)
+   * @param options Set refresh to regenerate even when an OpenAI summary is cached; deviceId
+   * picks the prompt variant
    * @returns Enhanced summary
    */
   async getEnhancedSummary(
     title: string, 
     author: string, 
-    existingSummary?: string
+    existingSummary?: string,
+    options: { refresh?: boolean; deviceId?: string } = {}
   ): Promise<string | null> {
     try {
       // Check if OpenAI is configured
-      if (!process.env.OPENAI_API_KEY) {
+      if (!getLLMClient().isConfigured()) {
         log('OpenAI API key not configured for summary generation', 'cache');
         return existingSummary || null;
       }
       
       // Look for cached summary first - prioritize OpenAI content
-      const cachedBook = await this.findInCache(title, author);
+      const cachedBook = options.refresh ? undefined : await this.findInCache(title, author, getCacheApplyMinScore());
       if (cachedBook?.summary && cachedBook.source === 'openai') {
         // Only use cached summary if it's from OpenAI
         log(`Using cached OpenAI summary for "${title}"`, 'cache');
@@ -310,23 +549,9 @@ export class BookCacheService {
       // Generate a new summary using OpenAI's knowledge
       log(`Generating enhanced summary for "${title}" by ${author}`, 'cache');
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [
-          {
-            role: "system",
-            content: "You are a literary expert providing engaging book summaries. Craft a concise 3-4 sentence summary that captures the essence of the book, its main themes, and what makes it notable. Focus on being informative yet brief."
-          },
-          {
-            role: "user",
-            content: `Summarize the book "${title}" by ${author}" in 3-4 sentences. Be engaging and highlight what makes this book special. Use only your existing knowledge about this book - do not conduct web searches.`
-          }
-        ],
-        max_tokens: 200,
-        temperature: 0.6 // Slightly higher temperature for more engaging summaries
-      });
-      
-      const summary = response.choices[0].message.content?.trim() || null;
+      // An invalid reply, even after a repair prompt, falls through to the existing summary below
+      const prompt = renderPrompt('summary', { title, author }, options.deviceId);
+      const summary = await createValidatedCompletion('summary', summaryResponseSpec, toCompletionParams(prompt));
       
       if (summary) {
         // Cache the summary with a longer expiration since book content doesn't change
@@ -334,7 +559,7 @@ export class BookCacheService {
         expiresAt.setDate(expiresAt.getDate() + 120); // 120 days cache for summaries
         
         // First check if we already have this book in cache to preserve its data
-        const existingBook = await this.findInCache(title, author);
+        const existingBook = await this.findInCache(title, author, getCacheApplyMinScore());
         
         // If we have an existing book, update it directly to avoid duplicate entries
         if (existingBook) {
@@ -345,12 +570,14 @@ export class BookCacheService {
           const [updated] = await db.update(bookCache)
             .set({
               summary: summary,
+              promptVersion: prompt.promptVersion,
               source: 'openai', // Mark as OpenAI source since we're adding OpenAI content
               expiresAt
             })
             .where(eq(bookCache.id, existingBook.id))
             .returning();
-            
+          
+          bookLookupCache.invalidateEntry(updated.id, updated);
           log(`Updated summary for "${title}" in cache ID ${updated.id}`, 'cache');
         } else {
           // No existing entry - create a new one
@@ -361,6 +588,7 @@ export class BookCacheService {
             title: title.trim(),
             author: author.trim(),
             summary,
+            promptVersion: prompt.promptVersion,
             source: 'openai' as const,
             isbn: undefined,
             coverUrl: undefined,
@@ -391,16 +619,18 @@ export class BookCacheService {
    * @param title Book title
    * @param author Book author
    * @param isbn Book ISBN (optional)
+   * @param options Set refresh to regenerate even when a rating is cached
    * @returns Book rating string (e.g. "4.5")
    */
   async getEnhancedRating(
     title: string,
     author: string,
-    isbn?: string
+    isbn?: string,
+    options: { refresh?: boolean } = {}
   ): Promise<string> {
     try {
       // Check for cached rating first - prioritize OpenAI content
-      const cachedBook = await this.findInCache(title, author);
+      const cachedBook = options.refresh ? undefined : await this.findInCache(title, author, getCacheApplyMinScore());
       if (cachedBook?.rating && cachedBook.source === 'openai') {
         // Only use cached rating if it's from OpenAI
         log(`Using cached OpenAI rating for "${title}": ${cachedBook.rating}`, 'cache');
@@ -408,7 +638,7 @@ export class BookCacheService {
       }
       
       // If we have an ISBN, try looking up by that
-      if (isbn) {
+      if (isbn && !options.refresh) {
         const isbnBook = await this.findByISBN(isbn);
         if (isbnBook?.rating) {
           // Check if it's a valid rating regardless of source
@@ -422,7 +652,7 @@ export class BookCacheService {
               author,
               isbn,
               rating: isbnBook.rating,
-              source: isbnBook.source || 'openai'
+              source: isCacheSource(isbnBook.source) ? isbnBook.source : 'openai'
             });
             
             return isbnBook.rating;
@@ -431,7 +661,7 @@ export class BookCacheService {
       }
       
       // Check if OpenAI is configured
-      if (!process.env.OPENAI_API_KEY) {
+      if (!getLLMClient().isConfigured()) {
         log('OpenAI API key not configured for rating generation, using estimate', 'cache');
         const estimatedRating = getEstimatedBookRating(title, author);
         return estimatedRating;
@@ -447,54 +677,28 @@ export class BookCacheService {
       // Use OpenAI to generate a rating based on its knowledge
       log(`Generating rating for "${title}" by ${author} using OpenAI`, 'cache');
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-        messages: [
-          {
-            role: "system",
-            content: "You are a literary expert with extensive knowledge of books and their reception. Your task is to provide an accurate rating for a book based on critical consensus and general reader reception. Base your rating only on your knowledge of this book's reception - do not conduct web searches."
-          },
-          {
-            role: "user",
-            content: `Please rate the book "${title}" by ${author} on a scale of 1.0 to 5.0 stars (with one decimal place). Use your knowledge to provide the most accurate rating based on critical reception and reader feedback. Only respond with a single number between 1.0 and 5.0 (with one decimal place). If you don't have sufficient knowledge about this book, provide your best estimate of what its rating would be based on similar works by this author or in this genre.`
-          }
-        ],
-        max_tokens: 10,
-        temperature: 0.3 // Lower temperature for more consistent ratings
-      });
-      
-      const ratingText = response.choices[0].message.content?.trim() || '';
-      log(`OpenAI response for "${title}" rating: "${ratingText}"`, 'cache');
-      
-      // Extract the numeric rating (looking for patterns like "4.5", "4.0", "4", etc.)
-      const ratingMatch = ratingText.match(/(\d+(?:\.\d+)?)/);
-      let rating = ratingMatch ? ratingMatch[1] : '';
-      log(`Extracted rating for "${title}": "${rating}"`, 'cache');
-      
-      // Validate that rating is in the correct range and determine if it's actually from OpenAI
-      let isOpenAIRating = false;
-      if (rating) {
-        const ratingNumber = parseFloat(rating);
-        if (ratingNumber >= 1.0 && ratingNumber <= 5.0) {
-          // Valid rating from OpenAI - ensure it has one decimal place
-          rating = ratingNumber.toFixed(1);
-          isOpenAIRating = true;
-          log(`Got valid OpenAI rating: ${rating}`, 'cache');
-        } else {
-          // Invalid range, use a fallback
-          log(`Invalid rating range from OpenAI: ${ratingNumber}, using fallback`, 'cache');
-          rating = getEstimatedBookRating(title, author);
-          isOpenAIRating = false;
+      // Determine if the rating is actually from OpenAI; an invalid reply falls back to an estimate
+      let rating: string;
+      let isOpenAIRating: boolean;
+      try {
+        rating = await createValidatedCompletion(
+          'rating',
+          ratingResponseSpec,
+          toCompletionParams(renderPrompt('rating', { title, author }))
+        );
+        isOpenAIRating = true;
+        log(`Got valid OpenAI rating for "${title}": ${rating}`, 'cache');
+      } catch (error) {
+        if (!(error instanceof OpenAIResponseError)) {
+          throw error;
         }
-      } else {
-        // No valid rating extracted, use a fallback
-        log(`Could not extract rating from OpenAI response: "${ratingText}", using fallback`, 'cache');
+        log(`Invalid rating from OpenAI for "${title}", using fallback`, 'cache');
         rating = getEstimatedBookRating(title, author);
         isOpenAIRating = false;
       }
       
       // First check if we already have this book in cache to preserve its data
-      const existingBook = await this.findInCache(title, author);
+      const existingBook = await this.findInCache(title, author, getCacheApplyMinScore());
       
       const expiresAt = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000); // 90 days
       
@@ -515,7 +719,8 @@ export class BookCacheService {
           })
           .where(eq(bookCache.id, existingBook.id))
           .returning();
-          
+        
+        bookLookupCache.invalidateEntry(updated.id, updated);
         log(`Updated rating for "${title}" in cache ID ${updated.id}`, 'cache');
       } else {
         // No existing entry - create a new one
@@ -548,16 +753,112 @@ export class BookCacheService {
   
   /**
    * Run maintenance tasks (cleanup expired entries)
-   * Should be called periodically
+   * Called on a schedule by the cache-maintenance job
+   * @returns Number of entries removed and linked to works
+   */
+  async runMaintenance(): Promise<{ expiredRemoved: number; linkedToWorks: number }> {
+    // Cleanup expired entries
+    const expiredRemoved = await this.cleanupExpired();
+    
+    // Link entries cached before works existed
+    const linkedToWorks = await this.linkEntriesToWorks();
+    
+    // Additional maintenance tasks can be added here
+    return { expiredRemoved, linkedToWorks };
+  }
+  
+  /**
+   * Regenerate the summary and rating of popular books before their cache entries expire
+   * Entries expiring within the window are refreshed most-saved first, so a run that hits
+   * its budget or the OpenAI rate limit still covers the books users care about.
+   * @param options budget is the most entries to refresh, windowDays how far ahead to look,
+   * minSaves how many saved copies make a book popular
+   * @returns Number of entries considered, refreshed and skipped
+   */
+  async refreshExpiringEntries(options: {
+    budget: number;
+    windowDays: number;
+    minSaves?: number;
+  }): Promise<{ candidates: number; refreshed: number; skipped: number }> {
+    const { budget, windowDays, minSaves = 1 } = options;
+    
+    if (!getLLMClient().isConfigured()) {
+      log('OpenAI API key not configured, skipping cache refresh', 'cache');
+      return { candidates: 0, refreshed: 0, skipped: 0 };
+    }
+    
+    const now = new Date();
+    const windowEnd = new Date(now.getTime() + windowDays * 24 * 60 * 60 * 1000);
+    
+    // Copies saved under this entry or any other entry for the same work
+    const saveCount = sql<number>`(
+      SELECT COUNT(*) FROM ${savedBooks}
+      WHERE ${savedBooks.bookCacheId} = ${bookCache.id}
+        OR (${bookCache.workId} IS NOT NULL AND ${savedBooks.workId} = ${bookCache.workId})
+    )`.mapWith(Number);
+    
+    const candidates = await db.select({ entry: bookCache, saves: saveCount })
+      .from(bookCache)
+      .where(
+        and(
+          gt(bookCache.expiresAt, now),
+          lte(bookCache.expiresAt, windowEnd),
+          gte(saveCount, minSaves)
+        )
+      )
+      .orderBy(desc(saveCount), asc(bookCache.expiresAt))
+      .limit(budget);
+    
+    let refreshed = 0;
+    for (const { entry, saves } of candidates) {
+      if (!(await rateLimiter.isAllowed('openai'))) {
+        log('Rate limit reached for OpenAI, stopping cache refresh', 'cache');
+        break;
+      }
+      
+      log(`Refreshing "${entry.title}" (${saves} saves, expires ${entry.expiresAt?.toISOString()})`, 'cache');
+      await this.getEnhancedSummary(entry.title, entry.author, entry.summary || undefined, { refresh: true });
+      await this.getEnhancedRating(entry.title, entry.author, entry.isbn || undefined, { refresh: true });
+      
+      // Both calls push expiresAt forward when they write; a failed or rate-limited call leaves it
+      const [updated] = await db.select({ expiresAt: bookCache.expiresAt }).from(bookCache).where(eq(bookCache.id, entry.id));
+      if (updated?.expiresAt && entry.expiresAt && updated.expiresAt > entry.expiresAt) {
+        refreshed++;
+      }
+    }
+    
+    log(`Refreshed ${refreshed} of ${candidates.length} expiring cache entries`, 'cache');
+    return { candidates: candidates.length, refreshed, skipped: candidates.length - refreshed };
+  }
+  
+  /**
+   * Attach a work to cache entries that don't have one yet
+   * @param limit Maximum number of entries to link in one run
+   * @returns Number of entries linked
    */
-  async runMaintenance(): Promise<void> {
+  async linkEntriesToWorks(limit = 100): Promise<number> {
     try {
-      // Cleanup expired entries
-      await this.cleanupExpired();
+      const entries = await db.select().from(bookCache).where(isNull(bookCache.workId)).limit(limit);
       
-      // Additional maintenance tasks can be added here
+      let linkedCount = 0;
+      for (const entry of entries) {
+        const resolved = await storage.resolveWork({ title: entry.title, author: entry.author, isbn: entry.isbn });
+        if (resolved) {
+          await db.update(bookCache)
+            .set({ workId: resolved.work.id })
+            .where(eq(bookCache.id, entry.id));
+          bookLookupCache.invalidateEntry(entry.id);
+          linkedCount++;
+        }
+      }
+      
+      if (linkedCount > 0) {
+        log(`Linked ${linkedCount} cache entries to works`, 'cache');
+      }
+      return linkedCount;
     } catch (error) {
-      log(`Error during cache maintenance: ${error instanceof Error ? error.message : String(error)}`, 'cache');
+      log(`Error linking cache entries to works: ${error instanceof Error ? error.message : String(error)}`, 'cache');
+      return 0;
     }
   }
   
@@ -597,6 +898,7 @@ export class BookCacheService {
         updateCount++;
       }
       
+      bookLookupCache.clear();
       log(`Cleared ratings from ${updateCount} non-OpenAI cache entries`, 'cache');
       return updateCount;
     } catch (error) {
@@ -660,6 +962,7 @@ export class BookCacheService {
           updateCount++;
         }
         
+        bookLookupCache.clear();
         log(`Updated ${updateCount} cache entries for testing (preserving descriptions: ${preserveDescriptions})`, 'cache');
         return updateCount;
       } else {
@@ -667,6 +970,7 @@ export class BookCacheService {
         const result = await db.delete(bookCache).returning();
         const count = result.length;
         
+        bookLookupCache.clear();
         log(`Cleared ${count} entries from book cache`, 'cache');
         return count;
       }
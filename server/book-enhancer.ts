@@ -1,6 +1,7 @@
 import { bookCacheService } from './book-cache-service';
 import { storage } from './storage';
 import { log } from './simple-logger.js';
+import { isConfidentCacheMatch } from './utils/cache-match.js';
 
 /**
  * Utility for enhancing book information with OpenAI-generated content
@@ -29,76 +30,28 @@ export class BookEnhancer {
       return [];
     }
 
-    const enhancedBooks = await Promise.all(
-      books.map(async (book) => {
-        try {
-          // Start with a copy of the original book
-          const enhancedBook = { ...book, enhanced: false };
-          
-          // Check if this book exists in cache with enhanced content
-          const cachedBook = await storage.findBookInCache(book.title, book.author);
-          
-          // Check for OpenAI-generated data in cache
-          if (cachedBook) {
-            // Only use the summary if it comes from OpenAI
-            if (cachedBook.summary && cachedBook.source === 'openai') {
-              enhancedBook.summary = cachedBook.summary;
-              enhancedBook.enhanced = true;
-              log(`Using cached OpenAI summary for "${book.title}"`, 'enhancer');
-            }
-            
-            // Only use the rating if it comes from OpenAI
-            if (cachedBook.rating && cachedBook.source === 'openai') {
-              enhancedBook.rating = cachedBook.rating;
-              enhancedBook.enhanced = true;
-              log(`Using cached OpenAI rating for "${book.title}": ${cachedBook.rating}`, 'enhancer');
-            }
-            
-            // If we have complete OpenAI data, return early
-            if (enhancedBook.summary && enhancedBook.rating) {
-              return enhancedBook;
-            }
-          }
-          
-          // Generate missing data with OpenAI
-          
-          // Get enhanced rating if missing
-          if (!enhancedBook.rating) {
-            try {
-              const rating = await bookCacheService.getEnhancedRating(book.title, book.author, book.isbn);
-              if (rating) {
-                enhancedBook.rating = rating;
-                enhancedBook.enhanced = true;
-                log(`Enhanced rating for "${book.title}" with OpenAI data`, 'enhancer');
-              }
-            } catch (error) {
-              log(`Error enhancing rating for "${book.title}": ${error instanceof Error ? error.message : String(error)}`, 'enhancer');
-            }
-          }
-          
-          // Only get enhanced summary if we don't already have a good one from OpenAI
-          if (!enhancedBook.summary) {
-            try {
-              const summary = await bookCacheService.getEnhancedSummary(book.title, book.author);
-              if (summary) {
-                enhancedBook.summary = summary;
-                enhancedBook.enhanced = true;
-                log(`Enhanced summary for "${book.title}" with OpenAI data`, 'enhancer');
-              }
-            } catch (error) {
-              log(`Error enhancing summary for "${book.title}": ${error instanceof Error ? error.message : String(error)}`, 'enhancer');
-            }
-          }
-          
-          return enhancedBook;
-        } catch (error) {
-          log(`Error enhancing book "${book.title}": ${error instanceof Error ? error.message : String(error)}`, 'enhancer');
-          return { ...book, enhanced: false };
+    try {
+      // Cached OpenAI data first, then one batch call per chunk for the books still missing data
+      const enrichments = await bookCacheService.enrichBooks(books);
+      
+      return books.map((book, i) => {
+        const enrichment = enrichments[i];
+        const enhanced = enrichment.source !== 'none';
+        if (enhanced) {
+          log(`Enhanced "${book.title}" with ${enrichment.source === 'cache' ? 'cached ' : ''}OpenAI data`, 'enhancer');
         }
-      })
-    );
-    
-    return enhancedBooks;
+        
+        return {
+          ...book,
+          rating: enrichment.rating || book.rating,
+          summary: enrichment.summary || book.summary,
+          enhanced
+        };
+      });
+    } catch (error) {
+      log(`Error enhancing books: ${error instanceof Error ? error.message : String(error)}`, 'enhancer');
+      return books.map(book => ({ ...book, enhanced: false }));
+    }
   }
   
   /**
@@ -154,10 +107,10 @@ export class BookEnhancer {
         }
         
         try {
-          // Check cache first
+          // Check cache first, skipping entries that may be another book
           const cachedBook = await storage.findBookInCache(book.title, book.author);
           
-          if (cachedBook) {
+          if (cachedBook && isConfidentCacheMatch(cachedBook)) {
             // Only update if cache has better data
             let needsUpdate = false;
             
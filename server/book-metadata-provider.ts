@@ -0,0 +1,117 @@
+import { log } from "./simple-logger.js";
+import { googleBooksProvider, openLibraryProvider } from "./books.js";
+import { openAIMetadataProvider } from "./openai-books.js";
+import { resolveTitle } from "./utils/title-matching.js";
+import {
+  mergeBookMetadata,
+  type BookMetadata,
+  type MergedBookMetadata,
+  type ProviderMetadata
+} from "./utils/metadata-merge.js";
+
+/**
+ * What to look a book up by
+ */
+export interface BookMetadataQuery {
+  title: string;
+  author?: string;
+  isbn?: string;
+}
+
+/**
+ * A source of book metadata
+ * Catalog providers find books by title; enrichment providers describe a book that is
+ * already known, so they run after the catalogs with the catalogs' title and author.
+ * search() returns [] when nothing was found or the provider is rate limited, and throws on
+ * request failures.
+ */
+export interface BookMetadataProvider {
+  name: string;
+  kind: 'catalog' | 'enrichment';
+  isAvailable(): boolean;
+  // Matching records, best first
+  search(query: BookMetadataQuery): Promise<BookMetadata[]>;
+}
+
+const providers = new Map<string, BookMetadataProvider>();
+
+/**
+ * Register a metadata provider under its name, replacing any provider with the same name
+ */
+export function registerMetadataProvider(provider: BookMetadataProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Names of all registered providers, in registration order
+ */
+export function getRegisteredMetadataProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Search one provider, returning its record for the queried book or null
+ * Catalog results must resolve to the queried title (and author, when given).
+ */
+async function lookupProvider(provider: BookMetadataProvider, query: BookMetadataQuery): Promise<ProviderMetadata | null> {
+  try {
+    const results = await provider.search(query);
+    if (results.length === 0) {
+      return null;
+    }
+
+    if (provider.kind === 'enrichment' || query.isbn) {
+      return { provider: provider.name, metadata: results[0] };
+    }
+
+    const matchable = results.map(metadata => ({ ...metadata, title: metadata.title || '', author: metadata.author || '' }));
+    const resolution = resolveTitle({ title: query.title, author: query.author }, matchable);
+    if (!resolution.match) {
+      log(`No confident ${provider.name} match for "${query.title}"`, 'metadata');
+      return null;
+    }
+
+    return { provider: provider.name, metadata: resolution.match };
+  } catch (error) {
+    log(`Metadata provider ${provider.name} failed for "${query.title}": ${error instanceof Error ? error.message : String(error)}`, 'metadata');
+    return null;
+  }
+}
+
+/**
+ * Look a book up with every available provider and merge the results into one record
+ * The provenance of the merged record says which provider supplied each field.
+ */
+export async function getBookMetadata(query: BookMetadataQuery): Promise<MergedBookMetadata> {
+  const available = Array.from(providers.values()).filter(provider => provider.isAvailable());
+
+  const catalogRecords = await Promise.all(
+    available
+      .filter(provider => provider.kind === 'catalog')
+      .map(provider => lookupProvider(provider, query))
+  );
+  const records = catalogRecords.filter((record): record is ProviderMetadata => record !== null);
+
+  // Describe the book the catalogs found, which may spell the title or author differently
+  const catalogMerge = mergeBookMetadata(records);
+  const enrichmentQuery: BookMetadataQuery = {
+    title: catalogMerge.metadata.title || query.title,
+    author: catalogMerge.metadata.author || query.author,
+    isbn: catalogMerge.metadata.isbn13 || query.isbn
+  };
+
+  const enrichmentRecords = await Promise.all(
+    available
+      .filter(provider => provider.kind === 'enrichment')
+      .map(provider => lookupProvider(provider, enrichmentQuery))
+  );
+  records.push(...enrichmentRecords.filter((record): record is ProviderMetadata => record !== null));
+
+  const merged = mergeBookMetadata(records);
+  log(`Merged metadata for "${query.title}" from ${merged.providers.join(', ') || 'no providers'}`, 'metadata');
+  return merged;
+}
+
+registerMetadataProvider(googleBooksProvider);
+registerMetadataProvider(openLibraryProvider);
+registerMetadataProvider(openAIMetadataProvider);
@@ -1,6 +1,17 @@
 import axios from 'axios';
 import { log } from './simple-logger.js';
 import { rateLimiter } from './rate-limiter.js';
+import { parsePublishYear, type BookMetadata } from './utils/metadata-merge.js';
+import { rankBooks, getRankingWeights } from './utils/ranking.js';
+import {
+  diversifyBooks,
+  isDiversityEnabled,
+  DEFAULT_DIVERSITY_OPTIONS,
+  TOP_RECOMMENDATIONS,
+  type DiversityOptions
+} from './utils/diversity.js';
+import { findFeedback } from './utils/feedback.js';
+import type { BookMetadataProvider, BookMetadataQuery } from './book-metadata-provider.js';
 
 /**
  * Local database of popular book ratings to provide accurate ratings without API calls
@@ -81,6 +92,7 @@ interface BookResponse {
     categories?: string[];
     publisher?: string;
     publishedDate?: string;
+    pageCount?: number;
   };
 }
 
@@ -92,148 +104,161 @@ interface OpenLibraryResponse {
     cover_i?: number;
     publisher?: string[];
     first_publish_year?: number;
+    number_of_pages_median?: number;
+    subject?: string[];
   }[];
 }
 
-export async function searchBooksByTitle(title: string): Promise<any[]> {
-  try {
-    if (!title || title.trim().length < 2) {
-      log(`Skipping search for invalid title: "${title}"`);
-      return [];
-    }
-    
-    log(`Searching for book: "${title}"`);
-    
+// Open Library subjects are long and noisy; only the first few are useful as categories
+const MAX_OPEN_LIBRARY_SUBJECTS = 5;
+
+/**
+ * Map a Google Books volume to a metadata record
+ * Google Books ratings are deliberately left out; ratings come from OpenAI.
+ */
+function mapGoogleVolume(item: BookResponse): BookMetadata {
+  const info = item.volumeInfo;
+  const identifiers = info?.industryIdentifiers || [];
+
+  return {
+    title: info?.title,
+    author: info?.authors?.join(', '),
+    isbn10: identifiers.find(id => id.type === 'ISBN_10')?.identifier,
+    isbn13: identifiers.find(id => id.type === 'ISBN_13')?.identifier,
+    coverUrl: info?.imageLinks?.thumbnail,
+    pageCount: info?.pageCount,
+    publishedYear: parsePublishYear(info?.publishedDate),
+    publisher: info?.publisher,
+    categories: info?.categories,
+    description: info?.description
+  };
+}
+
+type OpenLibraryDoc = NonNullable<OpenLibraryResponse['docs']>[number];
+
+/**
+ * Map an Open Library search result to a metadata record
+ */
+function mapOpenLibraryDoc(doc: OpenLibraryDoc): BookMetadata {
+  return {
+    title: doc.title,
+    author: doc.author_name?.join(', '),
+    isbn10: doc.isbn?.find(isbn => isbn.length === 10),
+    isbn13: doc.isbn?.find(isbn => isbn.length === 13),
+    coverUrl: doc.cover_i ? `https://covers.openlibrary.org/b/id/${doc.cover_i}-M.jpg` : undefined,
+    pageCount: doc.number_of_pages_median,
+    publishedYear: doc.first_publish_year,
+    publisher: doc.publisher?.[0],
+    categories: doc.subject?.slice(0, MAX_OPEN_LIBRARY_SUBJECTS)
+  };
+}
+
+export const googleBooksProvider: BookMetadataProvider = {
+  name: 'google-books',
+  kind: 'catalog',
+  isAvailable: () => true,
+  async search({ title, author, isbn }: BookMetadataQuery): Promise<BookMetadata[]> {
     // Check rate limits and atomically increment if allowed
     if (!(await rateLimiter.checkAndIncrement('google-books'))) {
       log(`Rate limit reached for Google Books API, skipping search for "${title}"`, 'books');
       return [];
     }
-    
-    // Try Google Books API first with exact title search
-    const exactQuery = `intitle:"${encodeURIComponent(title.trim())}"`;
-    const googleBooksUrl = `https://www.googleapis.com/books/v1/volumes?q=${exactQuery}&maxResults=5`;
-    
-    const googleResponse = await axios.get(googleBooksUrl);
-    
-    if (googleResponse.data.items && googleResponse.data.items.length > 0) {
-      log(`Found ${googleResponse.data.items.length} results for "${title}"`);
-      
-      // Map the Google Books results
-      const books = googleResponse.data.items.map((item: BookResponse) => {
-        const bookTitle = item.volumeInfo?.title || 'Unknown Title';
-        const bookAuthor = item.volumeInfo?.authors ? item.volumeInfo.authors.join(', ') : 'Unknown Author';
-        const isbn = item.volumeInfo?.industryIdentifiers?.find(id => id.type === 'ISBN_13')?.identifier || '';
-        
-        return {
-          title: bookTitle,
-          author: bookAuthor,
-          isbn: isbn,
-          coverUrl: item.volumeInfo?.imageLinks?.thumbnail || '',
-          summary: item.volumeInfo?.description || '',
-          // Use Google Books rating as initial value (this will be updated with Amazon rating)
-          rating: item.volumeInfo?.averageRating ? item.volumeInfo.averageRating.toString() : '',
-          publisher: item.volumeInfo?.publisher || '',
-          categories: item.volumeInfo?.categories || [],
-          // Include the detected book title for debugging
-          detectedFrom: title
-        };
-      });
-      
-      // Define explicit type for book objects
-      interface BookObject {
-        title: string;
-        author: string;
-        isbn: string;
-        coverUrl: string;
-        summary: string;
-        rating: string;
-        publisher: string;
-        categories: string[];
-        detectedFrom: string;
+
+    let query: string;
+    if (isbn) {
+      query = `isbn:${encodeURIComponent(isbn)}`;
+    } else {
+      // Exact title search, narrowed by author when one is known
+      query = `intitle:"${encodeURIComponent(title.trim())}"`;
+      if (author?.trim()) {
+        query += `+inauthor:"${encodeURIComponent(author.trim())}"`;
       }
-      
-      // Process all books - CLEAR ratings from Google Books and OpenAI will provide them
-      const booksWithoutRatings = await Promise.all(
-        books.map(async (book: BookObject) => {
-          // IMPORTANT: Don't use Google Books ratings - OpenAI will provide them later
-          // Clear any ratings that might have come from Google Books
-          book.rating = '';
-          log(`Cleared Google Books rating for "${book.title}" - will be replaced with OpenAI rating`);
-          return book;
-        })
-      );
-      
-      return booksWithoutRatings;
     }
 
-    // Fallback to Open Library API
+    const response = await axios.get(`https://www.googleapis.com/books/v1/volumes?q=${query}&maxResults=5`);
+    const items: BookResponse[] = response.data.items || [];
+    return items.map(mapGoogleVolume);
+  }
+};
+
+export const openLibraryProvider: BookMetadataProvider = {
+  name: 'open-library',
+  kind: 'catalog',
+  isAvailable: () => true,
+  async search({ title, author, isbn }: BookMetadataQuery): Promise<BookMetadata[]> {
     // Check rate limits and atomically increment if allowed
     if (!(await rateLimiter.checkAndIncrement('open-library'))) {
-      log(`Rate limit reached for Open Library API, skipping fallback search for "${title}"`, 'books');
+      log(`Rate limit reached for Open Library API, skipping search for "${title}"`, 'books');
+      return [];
+    }
+
+    let url = isbn
+      ? `https://openlibrary.org/search.json?isbn=${encodeURIComponent(isbn)}&limit=5`
+      : `https://openlibrary.org/search.json?title=${encodeURIComponent(title)}&limit=5`;
+    if (!isbn && author?.trim()) {
+      url += `&author=${encodeURIComponent(author.trim())}`;
+    }
+
+    const response = await axios.get<OpenLibraryResponse>(url);
+    return (response.data.docs || []).map(mapOpenLibraryDoc);
+  }
+};
+
+/**
+ * Search Google Books (falling back to Open Library) for a title
+ * Ratings are left empty for OpenAI to fill in, and Open Library results carry no summary.
+ * @param title Title to search for
+ * @param author Optional author read alongside the title, used to narrow the search
+ */
+export async function searchBooksByTitle(title: string, author?: string): Promise<any[]> {
+  try {
+    if (!title || title.trim().length < 2) {
+      log(`Skipping search for invalid title: "${title}"`);
       return [];
     }
     
-    const openLibraryUrl = `https://openlibrary.org/search.json?title=${encodeURIComponent(title)}&limit=5`;
-    const openLibraryResponse = await axios.get<OpenLibraryResponse>(openLibraryUrl);
+    const authorQuery = author?.trim() || '';
+    log(`Searching for book: "${title}"${authorQuery ? ` by "${authorQuery}"` : ''}`);
     
-    if (openLibraryResponse.data.docs && openLibraryResponse.data.docs.length > 0) {
-      log(`Found ${openLibraryResponse.data.docs.length} OpenLibrary results for "${title}"`);
-      
-      // Map Open Library results
-      const books = openLibraryResponse.data.docs.map(doc => ({
-        title: doc.title || 'Unknown Title',
-        author: doc.author_name ? doc.author_name.join(', ') : 'Unknown Author',
-        isbn: doc.isbn ? doc.isbn[0] : '',
-        coverUrl: doc.cover_i ? `https://covers.openlibrary.org/b/id/${doc.cover_i}-M.jpg` : '',
-        summary: '',
-        rating: '',  // Will be filled with Amazon rating or estimate
-        publisher: doc.publisher ? doc.publisher[0] : '',
-        categories: [],
-        // Include the detected book title for debugging
-        detectedFrom: title
-      }));
-      
-      // Reuse our BookObject interface from above
-      
-      // Process books - CLEAR ratings from Open Library and OpenAI will provide them
-      const booksWithoutRatings = await Promise.all(
-        books.map(async (book: any) => {
-          // IMPORTANT: Don't use Open Library ratings - OpenAI will provide them later
-          // Clear any ratings that might have come from Open Library
-          book.rating = '';
-          log(`Cleared ratings for "${book.title}" - will be replaced with OpenAI rating`);
-          
-          // Clear any summaries that might have come from Open Library
-          book.summary = '';
-          
-          return book;
-        })
-      );
-      
-      return booksWithoutRatings;
+    // Try Google Books API first
+    let provider = googleBooksProvider;
+    let results = await googleBooksProvider.search({ title, author: authorQuery });
+    
+    // Fallback to Open Library API
+    if (results.length === 0) {
+      provider = openLibraryProvider;
+      results = await openLibraryProvider.search({ title, author: authorQuery });
     }
     
-    log(`No results found for "${title}"`);
-    return [];
+    if (results.length === 0) {
+      log(`No results found for "${title}"`);
+      return [];
+    }
+    
+    log(`Found ${results.length} ${provider.name} results for "${title}"`);
+    
+    return results.map(book => ({
+      title: book.title || 'Unknown Title',
+      author: book.author || 'Unknown Author',
+      isbn: book.isbn13 || book.isbn10 || '',
+      coverUrl: book.coverUrl || '',
+      summary: book.description || '',
+      rating: '',
+      publisher: book.publisher || '',
+      categories: book.categories || [],
+      // Include the detected book title for debugging
+      detectedFrom: title
+    }));
   } catch (error) {
     log(`Error searching for books: ${error instanceof Error ? error.message : String(error)}`, 'books');
     return [];
   }
 }
 
-// Helper function to normalize book titles for comparison
-const normalizeBookTitle = (title: string): string => {
-  return title
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '') // Remove punctuation
-    .replace(/\s+/g, ' ')    // Normalize whitespace
-    .trim();
-};
-
 export async function getRecommendations(
   books: any[],
-  preferences: any
+  preferences: any,
+  diversity: DiversityOptions = DEFAULT_DIVERSITY_OPTIONS
 ): Promise<any[]> {
   try {
     // CRITICAL: We will ONLY use the books that were detected in the image
@@ -241,162 +266,29 @@ export async function getRecommendations(
     log(`ONLY using ${books.length} detected books for recommendations: ${books.map(b => b.title).join(', ')}`);
     log('Using preferences:', preferences);
     
-    // Get user's preferred genres
-    const preferredGenres = preferences.genres || [];
+    // Score every book with the ranking engine; books the user has already rated on Goodreads
+    // or marked as read are listed after the new ones
+    const rankedBooks = rankBooks(
+      books.map(book => ({ ...book, categories: Array.isArray(book.categories) ? book.categories : [] })),
+      preferences,
+      getRankingWeights()
+    );
+    let scoredNewBooks: Array<typeof rankedBooks[number] & { wildcard?: boolean }> = rankedBooks.filter(book => !book.readTitle);
+    const scoredReadBooks = rankedBooks.filter(book => book.readTitle);
     
-    // Create a map of books the user has already read (if Goodreads data exists)
-    // We'll use a robust matching approach using normalized titles
-    const alreadyReadBooks: { normalizedTitle: string, originalTitle: string }[] = [];
-    if (preferences.goodreadsData && Array.isArray(preferences.goodreadsData)) {
-      preferences.goodreadsData.forEach((entry: any) => {
-        if (entry["Title"] && entry["My Rating"] && parseInt(entry["My Rating"]) > 0) {
-          // Store both the original title and a normalized version for flexible matching
-          alreadyReadBooks.push({
-            normalizedTitle: normalizeBookTitle(entry["Title"]),
-            originalTitle: entry["Title"]
-          });
-        }
+    // Keep the top picks varied; the wildcard is never a book the user isn't interested in
+    if (isDiversityEnabled(diversity)) {
+      scoredNewBooks = diversifyBooks(scoredNewBooks, diversity, {
+        genres: preferences?.genres,
+        wildcardPool: scoredNewBooks.filter(book => findFeedback(preferences?.feedback || [], book)?.type !== 'not_interested')
       });
-      log(`Found ${alreadyReadBooks.length} books the user has already read in Goodreads data`);
+      log(`Diversified top recommendations: ${scoredNewBooks.slice(0, TOP_RECOMMENDATIONS).map(b => b.title).join(', ')}`);
     }
     
-    // Separate books into two categories: new books and already read books
-    let newBooks: any[] = [];
-    const alreadyReadBooks2: any[] = [];
-    
-    if (alreadyReadBooks.length > 0) {
-      books.forEach(book => {
-        const normalizedBookTitle = normalizeBookTitle(book.title);
-        
-        // Check if this book title matches (or is contained in) any of the user's read books
-        const matchingTitle = alreadyReadBooks.find(readBook => {
-          return normalizedBookTitle.includes(readBook.normalizedTitle) || 
-                 readBook.normalizedTitle.includes(normalizedBookTitle);
-        });
-        
-        // If we found a match, this book has been read already
-        if (matchingTitle) {
-          log(`Identified "${book.title}" as user has already read "${matchingTitle.originalTitle}"`);
-          // Mark this book as already read and add to already read list
-          alreadyReadBooks2.push({
-            ...book,
-            alreadyRead: true,
-            originalReadTitle: matchingTitle.originalTitle
-          });
-        } else {
-          // This is a new book, add to new books list
-          newBooks.push(book);
-        }
-      });
-      
-      log(`Separated ${alreadyReadBooks2.length} books the user has already read from ${newBooks.length} new books`);
-    } else {
-      // No Goodreads data available, all books are new
-      newBooks = books;
+    if (scoredReadBooks.length > 0) {
+      log(`Separated ${scoredReadBooks.length} books the user has already read from ${scoredNewBooks.length} new books`);
     }
     
-    // Function to score books based on preferences
-    const scoreBook = (book: any) => {
-      // Start with a base score based on rating (if available)
-      let score = book.rating ? parseFloat(book.rating) : 0;
-      
-      // Make sure categories exist
-      if (!book.categories || !Array.isArray(book.categories)) {
-        book.categories = [];
-      }
-      
-      // Add 10 points for each direct genre match with user preferences
-      for (const category of book.categories) {
-        if (!category) {continue;}
-        
-        for (const preferredGenre of preferredGenres) {
-          if (category.toLowerCase().includes(preferredGenre.toLowerCase())) {
-            score += 10;
-            log(`${book.title} matches preferred genre ${preferredGenre}, +10 points`);
-          }
-        }
-      }
-      
-      // Add genres based on specific book content - these are hard-coded for the test books
-      if (book.title.toLowerCase().includes('stranger in a strange land')) {
-        if (preferredGenres.includes('Science Fiction')) {
-          score += 12;
-          log(`${book.title} is a sci-fi classic and matches preferences, +12 points`);
-        }
-      }
-      
-      if (book.title.toLowerCase().includes('leviathan wakes')) {
-        if (preferredGenres.includes('Science Fiction')) {
-          score += 15;
-          log(`${book.title} is modern sci-fi and matches preferences, +15 points`);
-        }
-      }
-      
-      if (book.title.toLowerCase().includes('cognitive behavioral')) {
-        if (preferredGenres.includes('Self-Help') || preferredGenres.includes('Non-Fiction')) {
-          score += 14;
-          log(`${book.title} is self-help/non-fiction and matches preferences, +14 points`);
-        }
-      }
-      
-      if (book.title.toLowerCase().includes('overdiagnosed')) {
-        if (preferredGenres.includes('Non-Fiction')) {
-          score += 13;
-          log(`${book.title} is non-fiction and matches preferences, +13 points`);
-        }
-      }
-      
-      if (book.title.toLowerCase().includes('mythos')) {
-        if (preferredGenres.includes('Non-Fiction')) {
-          score += 9;
-          log(`${book.title} is non-fiction and matches preferences, +9 points`);
-        }
-      }
-      
-      if (book.title.toLowerCase().includes('awe')) {
-        if (preferredGenres.includes('Self-Help')) {
-          score += 11;
-          log(`${book.title} is self-help and matches preferences, +11 points`);
-        }
-      }
-      
-      // Check Goodreads data to boost scores for authors the user likes
-      if (preferences.goodreadsData && Array.isArray(preferences.goodreadsData)) {
-        for (const entry of preferences.goodreadsData) {
-          // Match by author - give points for authors the user has read before and rated well
-          if (entry["Author"] && book.author && 
-              book.author.toLowerCase().includes(entry["Author"].toLowerCase())) {
-            score += 3;
-            log(`${book.title} author matches ${entry["Author"]}, +3 points`);
-            
-            // Bonus for highly rated books by same author
-            if (entry["My Rating"] && parseInt(entry["My Rating"]) >= 4) {
-              score += 3;
-              log(`${book.title} by ${entry["Author"]} was highly rated, +3 points`);
-            }
-          }
-        }
-      }
-      
-      // Ensure score is never negative
-      score = Math.max(0, score);
-      
-      return {
-        ...book,
-        score
-      };
-    };
-    
-    // Score new books
-    const scoredNewBooks = newBooks.map(scoreBook);
-    
-    // Score already read books (if any)
-    const scoredReadBooks = alreadyReadBooks2.map(scoreBook);
-    
-    // Sort each list by score
-    scoredNewBooks.sort((a, b) => b.score - a.score);
-    scoredReadBooks.sort((a, b) => b.score - a.score);
-    
     // Format new books for display with Amazon ratings
     const formattedNewBooks = await Promise.all(scoredNewBooks.map(async book => {
       // We'll use verified ratings only
@@ -430,8 +322,12 @@ export async function getRecommendations(
         summary: book.summary || 'No summary available',
         rating: finalRating, // Only use verified ratings
         matchScore: Math.round(book.score), // Round to whole number for display
+        scoreBreakdown: book.breakdown,
+        explanation: book.explanation,
         isbn: book.isbn,
+        spine: book.spine,
         alreadyRead: false,
+        wildcard: book.wildcard || undefined,
         isBookRecommendation: true  // This is a new book recommendation
       };
     }));
@@ -469,9 +365,12 @@ export async function getRecommendations(
         summary: book.summary || 'No summary available',
         rating: finalRating, // Only use verified ratings
         matchScore: Math.round(book.score), // Round to whole number for display
+        scoreBreakdown: book.breakdown,
+        explanation: book.explanation,
         isbn: book.isbn,
+        spine: book.spine,
         alreadyRead: true,
-        originalReadTitle: book.originalReadTitle,
+        originalReadTitle: book.readTitle,
         isBookYouveRead: true  // This book has been read already
       };
     }));
@@ -0,0 +1,45 @@
+import { bookCacheService } from "./book-cache-service.js";
+import type { ScheduledJob } from "./job-scheduler.js";
+
+const DEFAULT_REFRESH_BUDGET = 20;
+const DEFAULT_REFRESH_WINDOW_DAYS = 7;
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Remove expired cache entries and link older entries to works
+ */
+export const cacheMaintenanceJob: ScheduledJob = {
+  name: 'cache-maintenance',
+  description: 'Remove expired cache entries and link older entries to works',
+  schedule: '15 3 * * *',
+  run: () => bookCacheService.runMaintenance()
+};
+
+/**
+ * Clear ratings that didn't come from OpenAI; used to run once at startup
+ */
+export const nonOpenAIRatingsJob: ScheduledJob = {
+  name: 'non-openai-ratings',
+  description: 'Clear cached ratings that did not come from OpenAI',
+  schedule: '30 3 * * *',
+  run: async () => ({ cleared: await bookCacheService.cleanupNonOpenAIRatings() })
+};
+
+/**
+ * Regenerate summaries and ratings of popular books shortly before they expire
+ * CACHE_REFRESH_BUDGET caps the books refreshed per run (each costs up to two OpenAI
+ * calls) and CACHE_REFRESH_WINDOW_DAYS sets how close to expiry a book must be.
+ */
+export const cacheRefreshJob: ScheduledJob = {
+  name: 'cache-refresh',
+  description: 'Regenerate summaries and ratings of popular books before they expire',
+  schedule: '0 4 * * *',
+  run: () => bookCacheService.refreshExpiringEntries({
+    budget: readPositiveInt(process.env.CACHE_REFRESH_BUDGET, DEFAULT_REFRESH_BUDGET),
+    windowDays: readPositiveInt(process.env.CACHE_REFRESH_WINDOW_DAYS, DEFAULT_REFRESH_WINDOW_DAYS)
+  })
+};
@@ -0,0 +1,171 @@
+import { LRUCache, type CacheStats } from "./utils/lru-cache.js";
+import { memoize, clearRequestMemo, hasRequestMemo } from "./utils/request-memo.js";
+import type { BookCache } from "../shared/schema.js";
+
+/**
+ * In-process caching in front of Postgres
+ * Book cache lookups go request memo -> in-memory LRU -> book_cache. Other in-memory caches
+ * are created with createMemoryCache so their hit and miss counts show up in one place.
+ */
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_TTL_SECONDS = 600;
+
+// Misses are kept briefly so a burst of lookups for an uncached book doesn't hit the database
+// each time, but not so long that a book cached by another process stays invisible
+const MISS_TTL_MS = 60 * 1000;
+
+const REQUEST_MEMO_PREFIX = 'book-cache:';
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Size and time to live of in-memory caches, from MEMORY_CACHE_MAX_ENTRIES and
+ * MEMORY_CACHE_TTL_SECONDS
+ */
+export function getMemoryCacheOptions(): { maxEntries: number; ttlMs: number } {
+  return {
+    maxEntries: readPositiveInt(process.env.MEMORY_CACHE_MAX_ENTRIES, DEFAULT_MAX_ENTRIES),
+    ttlMs: readPositiveInt(process.env.MEMORY_CACHE_TTL_SECONDS, DEFAULT_TTL_SECONDS) * 1000
+  };
+}
+
+const memoryCaches = new Map<string, LRUCache<string, unknown>>();
+
+/**
+ * Create a named in-memory cache whose stats are reported by getCacheMetrics
+ */
+export function createMemoryCache<V>(name: string, options = getMemoryCacheOptions()): LRUCache<string, V> {
+  const cache = new LRUCache<string, V>(options);
+  memoryCaches.set(name, cache as LRUCache<string, unknown>);
+  return cache;
+}
+
+// The cached result of a title/author lookup: the matching entry's id and score, or null for a miss
+type LookupResult = { id: number; matchScore: number } | null;
+
+export type ScoredBookCacheEntry = BookCache & { matchScore: number };
+
+/**
+ * Book cache lookups backed by book_cache
+ * Entries are cached by id and lookups by title, author and minimum score, so a write to
+ * one entry only has to drop that entry.
+ */
+export class BookLookupCache {
+  private entries = createMemoryCache<BookCache>('book-cache-entries');
+  private lookups = createMemoryCache<LookupResult>('book-cache-lookups');
+  private requestMemoHits = 0;
+  private databaseLookups = 0;
+
+  private lookupKey(title: string, author: string, minScore: number): string {
+    return `${title.toLowerCase().trim()}|${author.toLowerCase().trim()}|${minScore}`;
+  }
+
+  private isExpired(entry: BookCache): boolean {
+    return !!entry.expiresAt && entry.expiresAt.getTime() <= Date.now();
+  }
+
+  /**
+   * Find a book by title and author, calling the loader only when neither the request memo
+   * nor the LRU has the answer
+   * @param loadEntry Fetches an entry by id when a cached lookup's entry was evicted
+   */
+  async find(
+    title: string,
+    author: string,
+    minScore: number,
+    loader: () => Promise<ScoredBookCacheEntry | undefined>,
+    loadEntry: (id: number) => Promise<BookCache | undefined>
+  ): Promise<ScoredBookCacheEntry | undefined> {
+    const key = this.lookupKey(title, author, minScore);
+    let loaded = false;
+
+    const result = await memoize(`${REQUEST_MEMO_PREFIX}${key}`, async () => {
+      loaded = true;
+      return this.findInMemoryOrLoad(key, loader, loadEntry);
+    });
+
+    if (!loaded && hasRequestMemo()) {
+      this.requestMemoHits++;
+    }
+    return result;
+  }
+
+  private async findInMemoryOrLoad(
+    key: string,
+    loader: () => Promise<ScoredBookCacheEntry | undefined>,
+    loadEntry: (id: number) => Promise<BookCache | undefined>
+  ): Promise<ScoredBookCacheEntry | undefined> {
+    const cached = this.lookups.get(key);
+    if (cached === null) {
+      return undefined;
+    }
+    if (cached) {
+      const entry = this.entries.get(String(cached.id)) ?? await loadEntry(cached.id);
+      if (entry && !this.isExpired(entry)) {
+        this.entries.set(String(entry.id), entry);
+        return { ...entry, matchScore: cached.matchScore };
+      }
+      this.lookups.delete(key);
+    }
+
+    this.databaseLookups++;
+    const found = await loader();
+    if (found) {
+      const { matchScore, ...entry } = found;
+      this.entries.set(String(entry.id), entry as BookCache);
+      this.lookups.set(key, { id: found.id, matchScore });
+    } else {
+      this.lookups.set(key, null, MISS_TTL_MS);
+    }
+    return found;
+  }
+
+  /**
+   * Replace or drop a cached entry after it was written
+   * Misses are dropped too, since a new or renamed entry may now match them.
+   */
+  invalidateEntry(id: number, updated?: BookCache): void {
+    if (updated) {
+      this.entries.set(String(id), updated);
+    } else {
+      this.entries.delete(String(id));
+    }
+    this.lookups.deleteWhere(result => result === null);
+    clearRequestMemo(REQUEST_MEMO_PREFIX);
+  }
+
+  /**
+   * Drop everything, e.g. after entries were deleted
+   */
+  clear(): void {
+    this.entries.clear();
+    this.lookups.clear();
+    clearRequestMemo(REQUEST_MEMO_PREFIX);
+  }
+
+  getStats(): { requestMemoHits: number; databaseLookups: number } {
+    return { requestMemoHits: this.requestMemoHits, databaseLookups: this.databaseLookups };
+  }
+}
+
+// Create a singleton instance
+export const bookLookupCache = new BookLookupCache();
+
+/**
+ * Hit and miss counts for every in-memory cache, plus how often book lookups were answered by
+ * the request memo or had to query the database
+ */
+export function getCacheMetrics(): {
+  caches: Record<string, CacheStats>;
+  bookLookups: { requestMemoHits: number; databaseLookups: number };
+} {
+  const caches: Record<string, CacheStats> = {};
+  for (const [name, cache] of Array.from(memoryCaches)) {
+    caches[name] = cache.getStats();
+  }
+  return { caches, bookLookups: bookLookupCache.getStats() };
+}
@@ -2,16 +2,44 @@ import { Router, Request, Response } from "express";
 import { getOpenAIRecommendations } from "./openai-recommendations.js";
 import { getOpenAIDescription } from "./openai-descriptions.js";
 import { log } from './simple-logger.js';
+import { scanSessionService } from './scan-sessions.js';
+import { recordScanRecommendations, parseScanId } from './scan-history.js';
+import { isConfidentCacheMatch } from './utils/cache-match.js';
+import { getLLMClient } from './llm-client.js';
+import { scoreBook, getRankingWeights, type RankableBook, type RankingPreferences } from './utils/ranking.js';
+import { similarityService } from './similarity-service.js';
+import { loadFeedback } from './reader-feedback.js';
+import { parseDiversityOptions } from './utils/diversity.js';
+import type { RecommendationExplanation } from '../shared/schema.js';
 
 const router = Router();
 
+/**
+ * Explain a recommendation with the ranking engine, using the scanned book's categories when
+ * the model didn't return any and its similarity to the reader's taste
+ */
+function explainRecommendation(
+  book: RankableBook,
+  originalBook: { categories?: string[]; similarity?: number } | undefined,
+  preferences: RankingPreferences | undefined
+): RecommendationExplanation {
+  const categories = book.categories?.length ? book.categories : originalBook?.categories;
+  return scoreBook({ ...book, categories, similarity: originalBook?.similarity }, preferences || {}, getRankingWeights()).explanation;
+}
+
 /**
  * Get fresh recommendations with OpenAI descriptions and match reasons
  * POST /api/direct/recommendations
  */
 router.post("/recommendations", async (req: Request, res: Response) => {
   try {
-    const { books, preferences } = req.body;
+    const { preferences, sessionId } = req.body;
+    let { books } = req.body;
+
+    // Use the merged books of a multi-photo scan session when no explicit list is sent
+    if ((!books || !Array.isArray(books) || books.length === 0) && typeof sessionId === 'string' && req.deviceId) {
+      books = scanSessionService.getSession(sessionId, req.deviceId)?.books || [];
+    }
 
     if (!books || !Array.isArray(books) || books.length === 0) {
       return res.status(400).json({
@@ -25,11 +53,11 @@ router.post("/recommendations", async (req: Request, res: Response) => {
     
     log(`Processing direct OpenAI recommendation request with ${books.length} books`, "openai");
 
-    // Check OpenAI API key
-    if (!process.env.OPENAI_API_KEY) {
+    // Check an OpenAI key or compatible server is configured
+    if (!getLLMClient().isConfigured()) {
       return res.status(400).json({
         success: false,
-        message: "OpenAI API key is not configured. Please add it to your environment variables."
+        message: "OpenAI API key is not configured. Please add it (or LLM_BASE_URL) to your environment variables."
       });
     }
     
@@ -48,7 +76,7 @@ router.post("/recommendations", async (req: Request, res: Response) => {
       const enhancedInputBooks = await Promise.all(books.map(async (book: any) => {
         const cachedBook = await bookCacheService.findInCache(book.title, book.author);
         
-        if (cachedBook && cachedBook.source === 'openai') {
+        if (cachedBook && cachedBook.source === 'openai' && isConfidentCacheMatch(cachedBook)) {
           log(`Using cached OpenAI data for input book "${book.title}": rating=${cachedBook.rating}, summary=${cachedBook.summary ? 'yes' : 'no'}`, "openai");
           
           // Use cached data to enhance the input book
@@ -64,8 +92,24 @@ router.post("/recommendations", async (req: Request, res: Response) => {
         return book;
       }));
       
-      // Get base recommendations from OpenAI using enhanced books
-      const baseRecommendations = await getOpenAIRecommendations(enhancedInputBooks, preferences || {}, deviceId);
+      // How close each scanned book is to the user's taste, shown in each recommendation's explanation
+      const similarities = await similarityService.getSimilarities(deviceId, preferences, enhancedInputBooks);
+      books.forEach((book: { similarity?: number }, i: number) => {
+        book.similarity = similarities[i];
+      });
+      
+      // Books the user marked as not interesting or already read are left out by the prompt, and
+      // ranked lower and penalized in the explanations when the model picks them anyway
+      const feedbackPreferences = { ...(preferences || {}), feedback: await loadFeedback(deviceId) };
+      
+      // Get base recommendations from OpenAI using enhanced books; `diversity` in the body
+      // ({ maxPerAuthor, maxPerSeries, wildcard }) keeps the top picks varied
+      const baseRecommendations = await getOpenAIRecommendations(
+        enhancedInputBooks,
+        feedbackPreferences,
+        deviceId,
+        parseDiversityOptions(req.body.diversity)
+      );
       
       // Make sure we received recommendations from OpenAI
       if (!baseRecommendations || baseRecommendations.length === 0) {
@@ -134,7 +178,7 @@ router.post("/recommendations", async (req: Request, res: Response) => {
             log(`Error stack: ${error instanceof Error ? error.stack : 'No stack trace'}`, "openai");
           }
           
-          if (cachedBook && cachedBook.source === 'openai') {
+          if (cachedBook && cachedBook.source === 'openai' && isConfidentCacheMatch(cachedBook)) {
             // Use cached OpenAI data if available
             log(`Found cached OpenAI data for recommendation "${book.title}": rating=${cachedBook.rating}, summary=${cachedBook.summary ? 'yes' : 'no'}`, "openai");
             
@@ -201,8 +245,18 @@ router.post("/recommendations", async (req: Request, res: Response) => {
             log(`Cached OpenAI data for recommendation "${book.title}"`, "openai");
           }
           
+          // Identify the work so clients can recognize the same book across editions; only cache
+          // writes create works, so this stays a read
+          const { storage } = await import('./storage.js');
+          const resolved = await storage.findWork({ title: book.title, author: book.author, isbn });
+          
+          // The badge and the order use the model's 0-100 score; the ranking total is only
+          // shown in the "Why this?" panel
+          const explanation = explainRecommendation({ ...book, rating }, originalBook, feedbackPreferences);
+          
           // Return the enhanced recommendation with OpenAI data
           const enhancedBook = {
+            workId: resolved?.work.id,
             title: book.title,
             author: book.author,
             coverUrl: coverUrl,
@@ -210,8 +264,12 @@ router.post("/recommendations", async (req: Request, res: Response) => {
             rating: rating || '4.0', // Use the rating (cached or fresh)
             isbn: isbn,
             categories: book.categories || [],
-            matchScore: (book as any).matchScore || 75, // Default to 75 if no score available
+            matchScore: book.matchScore || 75, // Default to 75 if no score available
             matchReason: matchReason || "This book aligns with your reading preferences.",
+            explanation,
+            promptVersion: book.promptVersion,
+            spine: originalBook?.spine || null,
+            wildcard: book.wildcard,
             fromAI: true
           };
           
@@ -239,6 +297,8 @@ router.post("/recommendations", async (req: Request, res: Response) => {
           // Make sure we have an ISBN if it's available in the original book
           const isbn = originalBook?.isbn || book.isbn || '';
           
+          const explanation = explainRecommendation(book, originalBook, feedbackPreferences);
+          
           return {
             title: book.title,
             author: book.author,
@@ -247,13 +307,23 @@ router.post("/recommendations", async (req: Request, res: Response) => {
             rating: book.rating || '4.0',
             isbn: isbn,
             categories: book.categories || [],
-            matchScore: (book as any).matchScore || 75,
+            matchScore: book.matchScore || 75,
             matchReason: book.matchReason || "This book includes themes or styles that connect with your reading preferences.",
+            explanation,
+            promptVersion: book.promptVersion,
+            spine: originalBook?.spine || null,
+            wildcard: book.wildcard,
             fromAI: true
           };
         }
       }));
       
+      // Keep a copy with the scan so it can be re-opened from the history without new OpenAI calls
+      const scanId = parseScanId(req.body.scanId);
+      if (scanId && req.deviceId) {
+        await recordScanRecommendations(req.deviceId, scanId, enhancedRecommendations);
+      }
+      
       // Return enhanced recommendations directly to client
       return res.json(enhancedRecommendations);
     } catch (error) {
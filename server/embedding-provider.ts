@@ -0,0 +1,95 @@
+import { log } from "./simple-logger.js";
+import { getLLMClient } from "./llm-client.js";
+import { hashingEmbedding, DEFAULT_HASHING_DIMENSIONS } from "./utils/embeddings.js";
+
+/**
+ * A backend that turns book texts into vectors
+ * Vectors are only compared with vectors of the same model, so model should change whenever the
+ * vector space does (a different model or dimension count).
+ */
+export interface EmbeddingProvider {
+  name: string;
+  // Stored with each vector, e.g. "openai:text-embedding-3-small"
+  readonly model: string;
+  // Whether vectors are worth keeping in the database; false for cheap local providers
+  cacheable: boolean;
+  // Whether the provider can run right now (keys configured, server reachable)
+  isAvailable(): boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Provider used when EMBEDDING_PROVIDER isn't set and OpenAI isn't configured
+const FALLBACK_PROVIDER = 'hashing';
+
+const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+
+function getOpenAIEmbeddingModel(): string {
+  return process.env.EMBEDDING_MODEL?.trim() || DEFAULT_OPENAI_EMBEDDING_MODEL;
+}
+
+/**
+ * Embeddings from the OpenAI API or a compatible server (EMBEDDING_MODEL picks the model)
+ */
+export const openAIEmbeddingProvider: EmbeddingProvider = {
+  name: 'openai',
+  get model() {
+    return `openai:${getOpenAIEmbeddingModel()}`;
+  },
+  cacheable: true,
+  isAvailable: () => getLLMClient().isConfigured(),
+  embed: (texts) => getLLMClient().embed(texts, getOpenAIEmbeddingModel())
+};
+
+/**
+ * Local hashed word vectors; needs no network, so it works offline and in tests
+ */
+export const hashingEmbeddingProvider: EmbeddingProvider = {
+  name: 'hashing',
+  model: `hashing:${DEFAULT_HASHING_DIMENSIONS}`,
+  cacheable: false,
+  isAvailable: () => true,
+  embed: async (texts) => texts.map(text => hashingEmbedding(text))
+};
+
+const providers = new Map<string, EmbeddingProvider>();
+
+/**
+ * Add a provider to the registry, replacing any provider with the same name
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Names of all registered providers
+ */
+export function getRegisteredEmbeddingProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * The provider named by EMBEDDING_PROVIDER, or OpenAI when it is configured; the hashing
+ * provider is used whenever the choice isn't available
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim().toLowerCase();
+  const name = configured || (openAIEmbeddingProvider.isAvailable() ? 'openai' : FALLBACK_PROVIDER);
+  const provider = providers.get(name);
+
+  if (provider && provider.isAvailable()) {
+    return provider;
+  }
+
+  log(`Embedding provider "${name}" is ${provider ? 'not available' : 'unknown'}, using ${FALLBACK_PROVIDER}`, 'embeddings');
+  return providers.get(FALLBACK_PROVIDER) || hashingEmbeddingProvider;
+}
+
+/**
+ * The provider to switch to when the given one fails, if any
+ */
+export function getFallbackEmbeddingProvider(provider: EmbeddingProvider): EmbeddingProvider | undefined {
+  return provider.name === FALLBACK_PROVIDER ? undefined : providers.get(FALLBACK_PROVIDER);
+}
+
+registerEmbeddingProvider(openAIEmbeddingProvider);
+registerEmbeddingProvider(hashingEmbeddingProvider);
@@ -1,8 +1,9 @@
 import { bookCacheService } from './book-cache-service';
 import { log } from './simple-logger.js';
 import { storage } from './storage';
-import axios from 'axios';
-import { rateLimiter } from './rate-limiter';
+import { googleBooksProvider, openLibraryProvider } from './books.js';
+import type { BookMetadata } from './utils/metadata-merge.js';
+import { isConfidentCacheMatch } from './utils/cache-match.js';
 
 /**
  * Interface for book search response items
@@ -35,7 +36,7 @@ export async function searchEnhancedBooks(title: string): Promise<BookInfo[]> {
     // First, check our cache to see if we've already searched for this book
     const cachedBook = await storage.findBookInCache(title, '');
     
-    if (cachedBook) {
+    if (cachedBook && isConfidentCacheMatch(cachedBook)) {
       log(`Found "${title}" in cache, but refreshing description with OpenAI`, 'books');
       
       const bookInfo: BookInfo = {
@@ -68,39 +69,14 @@ export async function searchEnhancedBooks(title: string): Promise<BookInfo[]> {
  */
 async function searchGoogleBooks(title: string): Promise<BookInfo[]> {
   try {
-    // Check rate limits and atomically increment if allowed
-    if (!(await rateLimiter.checkAndIncrement('google-books'))) {
-      log(`Rate limit reached for Google Books API, skipping search for "${title}"`, 'books');
-      return [];
-    }
-    
-    const exactQuery = `intitle:"${encodeURIComponent(title.trim())}"`;
-    const googleBooksUrl = `https://www.googleapis.com/books/v1/volumes?q=${exactQuery}&maxResults=5`;
-    
-    const googleResponse = await axios.get(googleBooksUrl);
+    const results = await googleBooksProvider.search({ title });
     
-    if (googleResponse.data.items && googleResponse.data.items.length > 0) {
-      log(`Found ${googleResponse.data.items.length} results for "${title}" in Google Books API`, 'books');
+    if (results.length > 0) {
+      log(`Found ${results.length} results for "${title}" in Google Books API`, 'books');
       
-      // Map the Google Books results to our format
       // ONLY USING COVER IMAGES, TITLE, AUTHOR AND ISBN
-      const books = googleResponse.data.items.map((item: any) => {
-        const bookTitle = item.volumeInfo?.title || 'Unknown Title';
-        const bookAuthor = item.volumeInfo?.authors ? item.volumeInfo.authors.join(', ') : 'Unknown Author';
-        const isbn = item.volumeInfo?.industryIdentifiers?.find((id: any) => id.type === 'ISBN_13')?.identifier || '';
-        
-        // ONLY INCLUDE ESSENTIAL IDENTIFYING INFO PLUS COVER IMAGE
-        // OpenAI will provide all other data
-        const bookInfo: BookInfo = {
-          title: bookTitle,
-          author: bookAuthor,
-          isbn: isbn,
-          coverUrl: item.volumeInfo?.imageLinks?.thumbnail || undefined,
-          detectedFrom: title
-        };
-        
-        return bookInfo;
-      });
+      // OpenAI will provide all other data
+      const books = results.map(book => toBookInfo(book, title, book.isbn13 || ''));
       
       // Enhance the books with OpenAI generated data for summaries and ratings
       return await enhanceBookData(books);
@@ -122,32 +98,14 @@ async function searchGoogleBooks(title: string): Promise<BookInfo[]> {
  */
 async function searchOpenLibrary(title: string): Promise<BookInfo[]> {
   try {
-    // Check rate limits
-    if (!(await rateLimiter.checkAndIncrement('open-library'))) {
-      log(`Rate limit reached for Open Library API, skipping fallback search for "${title}"`, 'books');
-      return [];
-    }
-    
-    const openLibraryUrl = `https://openlibrary.org/search.json?title=${encodeURIComponent(title)}&limit=5`;
-    const openLibraryResponse = await axios.get(openLibraryUrl);
+    const results = await openLibraryProvider.search({ title });
     
-    if (openLibraryResponse.data.docs && openLibraryResponse.data.docs.length > 0) {
-      log(`Found ${openLibraryResponse.data.docs.length} results for "${title}" in Open Library`, 'books');
+    if (results.length > 0) {
+      log(`Found ${results.length} results for "${title}" in Open Library`, 'books');
       
-      // Map Open Library results to our format - ONLY USING BASIC INFO AND COVER IMAGES
-      const books = openLibraryResponse.data.docs.map((doc: any) => {
-        // ONLY INCLUDE ESSENTIAL IDENTIFYING INFO PLUS COVER IMAGE
-        // OpenAI will provide all other data
-        const bookInfo: BookInfo = {
-          title: doc.title || 'Unknown Title',
-          author: doc.author_name ? doc.author_name.join(', ') : 'Unknown Author',
-          isbn: doc.isbn ? doc.isbn[0] : undefined,
-          coverUrl: doc.cover_i ? `https://covers.openlibrary.org/b/id/${doc.cover_i}-M.jpg` : undefined,
-          detectedFrom: title
-        };
-        
-        return bookInfo;
-      });
+      // ONLY USING BASIC INFO AND COVER IMAGES
+      // OpenAI will provide all other data
+      const books = results.map(book => toBookInfo(book, title, book.isbn13 || book.isbn10));
       
       // Enhance the books with OpenAI generated data for summaries and ratings
       return await enhanceBookData(books);
@@ -161,6 +119,19 @@ async function searchOpenLibrary(title: string): Promise<BookInfo[]> {
   }
 }
 
+/**
+ * Keep only the identifying fields and cover of a catalog record
+ */
+function toBookInfo(book: BookMetadata, detectedFrom: string, isbn: string | undefined): BookInfo {
+  return {
+    title: book.title || 'Unknown Title',
+    author: book.author || 'Unknown Author',
+    isbn,
+    coverUrl: book.coverUrl || undefined,
+    detectedFrom
+  };
+}
+
 /**
  * Enhance book data with OpenAI-generated ratings and summaries
  * This function ensures that ALL ratings and summaries come exclusively from OpenAI
@@ -175,7 +146,7 @@ async function enhanceBookData(books: BookInfo[]): Promise<BookInfo[]> {
         // Check our cache first - but ONLY use OpenAI-sourced data
         const cachedBook = await storage.findBookInCache(book.title, book.author);
         
-        if (cachedBook && cachedBook.source === 'openai') {
+        if (cachedBook && cachedBook.source === 'openai' && isConfidentCacheMatch(cachedBook)) {
           // Use cached OpenAI data
           if (cachedBook.summary) {
             book.summary = cachedBook.summary;
@@ -0,0 +1,225 @@
+import sharp from "sharp";
+import { log } from "./simple-logger.js";
+import { findShelfRows, splitRowsEvenly, type ImageRow } from "./utils/shelf-rows.js";
+import type { BoundingBox } from "../shared/schema.js";
+
+/**
+ * Image preprocessing - normalizes uploaded shelf photos before any vision provider sees them:
+ * EXIF auto-rotation, downscaling, JPEG re-encoding and optional per-row tiles.
+ * Preprocessing is best effort: if the image can't be decoded the original bytes are used.
+ */
+
+// 'off' analyzes the whole photo, 'auto' detects shelf rows, a number splits into that many rows
+export type TileMode = 'off' | 'auto' | number;
+
+export interface PreprocessingOptions {
+  maxDimension: number;
+  jpegQuality: number;
+  tiles: TileMode;
+}
+
+export interface ImageTile {
+  base64: string;
+  // Where the tile sits in the processed image, 0-1
+  region: BoundingBox;
+}
+
+/**
+ * What preprocessing did, returned with the analysis
+ */
+export interface PreprocessingReport {
+  applied: boolean;
+  // Why preprocessing was skipped, when applied is false
+  error?: string;
+  original: {
+    format: string | null;
+    width: number | null;
+    height: number | null;
+    bytes: number;
+  };
+  // EXIF orientation tag of the upload (1 is upright)
+  orientation: number | null;
+  rotated: boolean;
+  resized: boolean;
+  reencoded: boolean;
+  output: {
+    format: string;
+    width: number | null;
+    height: number | null;
+    bytes: number;
+    quality: number | null;
+  };
+  tiles: {
+    mode: TileMode;
+    regions: BoundingBox[];
+  };
+  durationMs: number;
+}
+
+export interface PreprocessedImage {
+  base64: string;
+  // Empty unless tiling is enabled and found more than one row
+  tiles: ImageTile[];
+  report: PreprocessingReport;
+}
+
+const DEFAULT_MAX_DIMENSION = 2048;
+const DEFAULT_JPEG_QUALITY = 85;
+
+// Width the image is reduced to for shelf row detection
+const ROW_DETECTION_WIDTH = 256;
+
+/**
+ * Parse a tile mode from configuration or a request field
+ */
+export function parseTileMode(value: unknown): TileMode | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value > 1 ? Math.floor(value) : 'off';
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'auto' || normalized === 'true') {
+    return 'auto';
+  }
+  if (normalized === 'off' || normalized === 'false') {
+    return 'off';
+  }
+  const count = parseInt(normalized, 10);
+  return isNaN(count) ? null : parseTileMode(count);
+}
+
+/**
+ * Preprocessing settings from the environment
+ * IMAGE_MAX_DIMENSION, IMAGE_JPEG_QUALITY and IMAGE_TILE_ROWS (off, auto or a row count)
+ */
+export function getPreprocessingOptions(overrides: Partial<PreprocessingOptions> = {}): PreprocessingOptions {
+  const maxDimension = parseInt(process.env.IMAGE_MAX_DIMENSION || '', 10);
+  const jpegQuality = parseInt(process.env.IMAGE_JPEG_QUALITY || '', 10);
+
+  return {
+    maxDimension: maxDimension > 0 ? maxDimension : DEFAULT_MAX_DIMENSION,
+    jpegQuality: jpegQuality > 0 && jpegQuality <= 100 ? jpegQuality : DEFAULT_JPEG_QUALITY,
+    tiles: parseTileMode(process.env.IMAGE_TILE_ROWS) ?? 'off',
+    ...overrides
+  };
+}
+
+/**
+ * Find the shelf rows of a processed image by looking at a small greyscale copy
+ */
+async function detectRows(image: Buffer, tiles: TileMode): Promise<ImageRow[]> {
+  if (tiles === 'off') {
+    return [];
+  }
+  if (typeof tiles === 'number') {
+    return splitRowsEvenly(tiles);
+  }
+
+  const { data, info } = await sharp(image)
+    .greyscale()
+    .resize({ width: ROW_DETECTION_WIDTH, withoutEnlargement: true })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  return findShelfRows(data, info.width, info.height);
+}
+
+/**
+ * Crop each row into its own JPEG tile
+ */
+async function cropTiles(image: Buffer, width: number, height: number, rows: ImageRow[], quality: number): Promise<ImageTile[]> {
+  const tiles: ImageTile[] = [];
+
+  for (const row of rows) {
+    const top = Math.round(row.top * height);
+    const tileHeight = Math.min(height - top, Math.round((row.bottom - row.top) * height));
+    if (tileHeight <= 0) {
+      continue;
+    }
+
+    const tile = await sharp(image)
+      .extract({ left: 0, top, width, height: tileHeight })
+      .jpeg({ quality })
+      .toBuffer();
+
+    tiles.push({
+      base64: tile.toString('base64'),
+      region: { x: 0, y: top / height, width: 1, height: tileHeight / height }
+    });
+  }
+
+  return tiles;
+}
+
+/**
+ * Rotate, downscale and re-encode an uploaded photo, optionally cutting it into shelf rows
+ */
+export async function preprocessImage(buffer: Buffer, options: PreprocessingOptions = getPreprocessingOptions()): Promise<PreprocessedImage> {
+  const startTime = Date.now();
+  const report: PreprocessingReport = {
+    applied: false,
+    original: { format: null, width: null, height: null, bytes: buffer.length },
+    orientation: null,
+    rotated: false,
+    resized: false,
+    reencoded: false,
+    output: { format: 'original', width: null, height: null, bytes: buffer.length, quality: null },
+    tiles: { mode: options.tiles, regions: [] },
+    durationMs: 0
+  };
+
+  try {
+    const metadata = await sharp(buffer).metadata();
+    report.original.format = metadata.format || null;
+    report.original.width = metadata.width || null;
+    report.original.height = metadata.height || null;
+    report.orientation = metadata.orientation || null;
+    report.rotated = !!metadata.orientation && metadata.orientation !== 1;
+
+    // Orientations 5-8 swap width and height once applied
+    const swapsAxes = !!metadata.orientation && metadata.orientation >= 5;
+    const uprightWidth = (swapsAxes ? metadata.height : metadata.width) || 0;
+    const uprightHeight = (swapsAxes ? metadata.width : metadata.height) || 0;
+    report.resized = Math.max(uprightWidth, uprightHeight) > options.maxDimension;
+
+    const { data, info } = await sharp(buffer)
+      .rotate()
+      .resize({
+        width: options.maxDimension,
+        height: options.maxDimension,
+        fit: 'inside',
+        withoutEnlargement: true
+      })
+      .jpeg({ quality: options.jpegQuality })
+      .toBuffer({ resolveWithObject: true });
+
+    report.applied = true;
+    report.reencoded = true;
+    report.output = {
+      format: 'jpeg',
+      width: info.width,
+      height: info.height,
+      bytes: data.length,
+      quality: options.jpegQuality
+    };
+
+    const rows = await detectRows(data, options.tiles);
+    const tiles = await cropTiles(data, info.width, info.height, rows, options.jpegQuality);
+    report.tiles.regions = tiles.map(tile => tile.region);
+    report.durationMs = Date.now() - startTime;
+
+    log(`Preprocessed image ${report.original.width}x${report.original.height} (${report.original.bytes} bytes) -> ${info.width}x${info.height} (${data.length} bytes)${report.rotated ? ', rotated' : ''}${tiles.length ? `, ${tiles.length} tiles` : ''}`, 'preprocessing');
+
+    return { base64: data.toString('base64'), tiles, report };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log(`Image preprocessing failed, using original image: ${message}`, 'preprocessing');
+
+    report.error = message;
+    report.durationMs = Date.now() - startTime;
+    return { base64: buffer.toString('base64'), tiles: [], report };
+  }
+}
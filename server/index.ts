@@ -17,6 +17,12 @@ import cookieParser from "cookie-parser";
 import { registerRoutes } from "./routes.js";
 import { setupVite, serveStatic, log } from "./vite.js";
 import { ensureDeviceId } from "./middleware/deviceId.js";
+import { requestMemo } from "./middleware/requestMemo.js";
+import { startJobScheduler } from "./job-scheduler.js";
+import { installRecordReplay } from "./record-replay.js";
+
+// Serve external API calls from recorded fixtures when API_FIXTURES is set (tests only)
+installRecordReplay();
 
 const app = express();
 
@@ -25,6 +31,7 @@ app.use(express.json({ limit: '50mb' }));
 app.use(express.urlencoded({ extended: false, limit: '50mb' }));
 app.use(cookieParser());
 app.use(ensureDeviceId);
+app.use(requestMemo);
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -84,5 +91,6 @@ app.use((req, res, next) => {
   
   server.listen(port, host, () => {
     log(`serving on ${host}:${port}`);
+    startJobScheduler();
   });
 })();
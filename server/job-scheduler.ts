@@ -0,0 +1,173 @@
+import { log } from "./simple-logger.js";
+import { storage } from "./storage.js";
+import type { JobRun } from "../shared/schema.js";
+import { parseCronExpression, cronMatches, getNextCronRun, type CronSchedule } from "./utils/cron.js";
+import { cacheMaintenanceJob, nonOpenAIRatingsJob, cacheRefreshJob } from "./cache-jobs.js";
+
+/**
+ * A job run on a cron schedule
+ * The object run() resolves with is stored as the run's result; throwing marks the run failed.
+ */
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  // Five-field cron expression in UTC; keep vercel.json's crons in step
+  schedule: string;
+  run(): Promise<Record<string, unknown>>;
+}
+
+// How a run was started: by the in-process timer, or by a request to /api/cron/:job
+export type JobTrigger = 'schedule' | 'cron';
+
+const jobs = new Map<string, { job: ScheduledJob; schedule: CronSchedule }>();
+
+// Jobs currently running in this process, so a slow run isn't started twice
+const running = new Set<string>();
+
+let timer: ReturnType<typeof setInterval> | undefined;
+let lastTick = 0;
+
+/**
+ * Register a job under its name, replacing any job with the same name
+ * Throws if the schedule isn't a valid cron expression.
+ */
+export function registerJob(job: ScheduledJob): void {
+  jobs.set(job.name, { job, schedule: parseCronExpression(job.schedule) });
+}
+
+/**
+ * All registered jobs, in registration order
+ */
+export function getRegisteredJobs(): ScheduledJob[] {
+  return Array.from(jobs.values()).map(({ job }) => job);
+}
+
+/**
+ * Run a job now and record the run
+ * @returns The recorded run, or null if the job is unknown or already running
+ */
+export async function runJob(name: string, trigger: JobTrigger): Promise<JobRun | null> {
+  const entry = jobs.get(name);
+  if (!entry) {
+    log(`Unknown job "${name}"`, 'jobs');
+    return null;
+  }
+  if (running.has(name)) {
+    log(`Job ${name} is already running, skipping ${trigger} run`, 'jobs');
+    return null;
+  }
+
+  running.add(name);
+  const startedAt = new Date();
+  let result: Record<string, unknown> | null = null;
+  let error: string | null = null;
+
+  try {
+    log(`Starting job ${name} (${trigger})`, 'jobs');
+    result = await entry.job.run();
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  } finally {
+    running.delete(name);
+  }
+
+  const durationMs = Date.now() - startedAt.getTime();
+  log(`Job ${name} ${error ? `failed after ${durationMs}ms: ${error}` : `finished in ${durationMs}ms`}`, 'jobs');
+  if (trigger === 'schedule') {
+    log(`Next run of job ${name}: ${describeNextRun(entry.schedule, new Date())}`, 'jobs');
+  }
+
+  try {
+    return await storage.createJobRun({
+      jobName: name,
+      trigger,
+      status: error ? 'failed' : 'success',
+      result,
+      error,
+      durationMs,
+      startedAt
+    });
+  } catch (err) {
+    log(`Error recording run of job ${name}: ${err instanceof Error ? err.message : String(err)}`, 'jobs');
+    return null;
+  }
+}
+
+/**
+ * Whether a request carries the CRON_SECRET bearer token Vercel sends with cron requests
+ * Always false when CRON_SECRET isn't set.
+ */
+export function isAuthorizedCronRequest(authorization: string | undefined): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && authorization === `Bearer ${secret}`;
+}
+
+/**
+ * Whether the in-process scheduler should run
+ * Off on Vercel, where functions don't stay alive between requests and vercel.json's crons
+ * call /api/cron/:job instead; JOB_SCHEDULER_ENABLED overrides either way.
+ */
+export function isSchedulerEnabled(): boolean {
+  const setting = process.env.JOB_SCHEDULER_ENABLED;
+  if (setting !== undefined && setting !== '') {
+    return setting === 'true';
+  }
+  return !process.env.VERCEL;
+}
+
+function describeNextRun(schedule: CronSchedule, after: Date): string {
+  return getNextCronRun(schedule, after)?.toISOString() ?? 'never';
+}
+
+function tick(): void {
+  const now = new Date();
+  const minute = Math.floor(now.getTime() / 60000);
+
+  // The interval can drift or fire twice within a minute; run each minute once
+  if (minute === lastTick) {
+    return;
+  }
+  lastTick = minute;
+
+  for (const { job, schedule } of Array.from(jobs.values())) {
+    if (cronMatches(schedule, now)) {
+      void runJob(job.name, 'schedule');
+    }
+  }
+}
+
+/**
+ * Start checking every registered job's schedule once a minute
+ */
+export function startJobScheduler(): void {
+  if (timer) {
+    return;
+  }
+  if (!isSchedulerEnabled()) {
+    log('Job scheduler disabled', 'jobs');
+    return;
+  }
+
+  timer = setInterval(tick, 20 * 1000);
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+  const now = new Date();
+  const summary = Array.from(jobs.values())
+    .map(({ job, schedule }) => `${job.name} (${job.schedule}, next ${describeNextRun(schedule, now)})`)
+    .join(', ');
+  log(`Job scheduler started with ${jobs.size} jobs: ${summary}`, 'jobs');
+}
+
+/**
+ * Stop the in-process scheduler; runs already in progress finish on their own
+ */
+export function stopJobScheduler(): void {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
+
+registerJob(cacheMaintenanceJob);
+registerJob(nonOpenAIRatingsJob);
+registerJob(cacheRefreshJob);
@@ -0,0 +1,97 @@
+import OpenAI from "openai";
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { getLLMConnection, isLLMConfigured, getTaskSettings, type LLMTaskSettings } from "./utils/llm-config.js";
+import type { PromptName } from "./prompt-registry.js";
+
+/**
+ * What an LLM call is for; each task can have its own model, timeout and retries
+ */
+export type LLMTask = PromptName;
+
+/**
+ * A chat completion backend
+ * Requests and responses use the OpenAI chat completion format, so any OpenAI-compatible server
+ * (or a recorded-response stand-in) can sit behind it.
+ */
+export interface LLMClient {
+  name: string;
+  // Whether calls can be made right now (a key or a compatible server is configured)
+  isConfigured(): boolean;
+  complete(task: LLMTask, params: ChatCompletionCreateParamsNonStreaming): Promise<ChatCompletion>;
+  // One vector per text, in the same order
+  embed(texts: string[], model: string): Promise<number[][]>;
+}
+
+const DEFAULT_TASK_SETTINGS: LLMTaskSettings = {
+  timeoutMs: 15000,
+  maxRetries: 2 // Limit retries to reduce costs
+};
+
+// Tasks whose defaults differ from the above
+const TASK_DEFAULTS: Partial<Record<LLMTask, Partial<LLMTaskSettings>>> = {
+  recommendations: { timeoutMs: 20000 }
+};
+
+/**
+ * Client for the OpenAI API or any server implementing its chat completions endpoint
+ * The connection is read from the environment on first use.
+ */
+export class OpenAICompatibleClient implements LLMClient {
+  private client: OpenAI | null = null;
+
+  get name(): string {
+    return getLLMConnection().baseUrl ? 'openai-compatible' : 'openai';
+  }
+
+  isConfigured(): boolean {
+    return isLLMConfigured(getLLMConnection());
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      const connection = getLLMConnection();
+      this.client = new OpenAI({
+        // Local servers usually accept any key, but the SDK requires one
+        apiKey: connection.apiKey || (connection.baseUrl ? 'not-needed' : undefined),
+        baseURL: connection.baseUrl
+      });
+    }
+    return this.client;
+  }
+
+  async complete(task: LLMTask, params: ChatCompletionCreateParamsNonStreaming): Promise<ChatCompletion> {
+    const settings = getTaskSettings(task, { ...DEFAULT_TASK_SETTINGS, ...TASK_DEFAULTS[task] });
+    return this.getClient().chat.completions.create(
+      { ...params, model: settings.model || params.model },
+      { timeout: settings.timeoutMs, maxRetries: settings.maxRetries }
+    );
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    // The model is chosen by the embedding provider; LLM_MODEL names a chat model
+    const settings = getTaskSettings('embedding', DEFAULT_TASK_SETTINGS);
+    const response = await this.getClient().embeddings.create(
+      { model, input: texts },
+      { timeout: settings.timeoutMs, maxRetries: settings.maxRetries }
+    );
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
+
+let llmClient: LLMClient = new OpenAICompatibleClient();
+
+/**
+ * The client every LLM call goes through
+ */
+export function getLLMClient(): LLMClient {
+  return llmClient;
+}
+
+/**
+ * Replace the client, e.g. with a recorded-response client in tests
+ */
+export function setLLMClient(client: LLMClient): void {
+  llmClient = client;
+}
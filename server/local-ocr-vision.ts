@@ -0,0 +1,163 @@
+import path from "path";
+import os from "os";
+import type { Worker } from "tesseract.js";
+import { log } from "./simple-logger.js";
+import type { BookshelfAnalysis, VisionProvider } from "./vision-provider.js";
+import type { BoundingBox, SpineDetection } from "../shared/schema.js";
+
+/**
+ * Local OCR vision provider - reads spines with Tesseract (WASM) so scans work without
+ * any external API. Language data is downloaded on first use unless TESSERACT_LANG_PATH
+ * points to a directory containing eng.traineddata, which is what makes it fully offline.
+ *
+ * Tesseract reads horizontal text best, so upright spines are often missed; this provider
+ * is meant for development and tests rather than as a replacement for the cloud backends.
+ */
+
+// Lines recognized below this confidence (0-100, as reported by Tesseract) are dropped
+const MIN_LINE_CONFIDENCE = 60;
+
+// Shortest line kept as a potential title
+const MIN_LINE_LENGTH = 3;
+
+let workerPromise: Promise<Worker> | null = null;
+
+/**
+ * Lazily create a single shared Tesseract worker
+ */
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = import("tesseract.js")
+      .then(({ createWorker }) => createWorker("eng", undefined, {
+        langPath: process.env.TESSERACT_LANG_PATH,
+        cachePath: process.env.TESSERACT_CACHE_PATH || path.join(os.tmpdir(), "tesseract-cache")
+      }))
+      .catch(error => {
+        // Allow a later request to retry worker creation
+        workerPromise = null;
+        throw error;
+      });
+  }
+  return workerPromise;
+}
+
+/**
+ * Stop the shared worker, e.g. at the end of a test run
+ */
+export async function terminateLocalOCR(): Promise<void> {
+  if (!workerPromise) {
+    return;
+  }
+  const pending = workerPromise;
+  workerPromise = null;
+  try {
+    const worker = await pending;
+    await worker.terminate();
+  } catch (error) {
+    log(`Error terminating local OCR worker: ${error instanceof Error ? error.message : String(error)}`, "vision");
+  }
+}
+
+/**
+ * Read the pixel dimensions of a PNG or JPEG image from its header
+ * @returns null for other formats or truncated data
+ */
+export function getImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+  // PNG: IHDR chunk immediately follows the 8-byte signature
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments until a start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) {
+        return null;
+      }
+      const marker = buffer[offset + 1];
+      const segmentLength = buffer.readUInt16BE(offset + 2);
+      // SOF0-SOF15, excluding DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { height: buffer.readUInt16BE(offset + 5), width: buffer.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + segmentLength;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Convert a Tesseract pixel box into a 0-1 box relative to the image
+ */
+function toBoundingBox(
+  bbox: { x0: number; y0: number; x1: number; y1: number },
+  dimensions: { width: number; height: number } | null
+): BoundingBox | null {
+  if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+    return null;
+  }
+
+  const x = Math.min(1, Math.max(0, bbox.x0 / dimensions.width));
+  const y = Math.min(1, Math.max(0, bbox.y0 / dimensions.height));
+  const width = Math.min(1 - x, Math.max(0, (bbox.x1 - bbox.x0) / dimensions.width));
+  const height = Math.min(1 - y, Math.max(0, (bbox.y1 - bbox.y0) / dimensions.height));
+
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+/**
+ * Analyze a bookshelf image with local Tesseract OCR, one spine per recognized line
+ */
+async function analyzeWithLocalOCR(base64Image: string): Promise<BookshelfAnalysis> {
+  // Remove data URL prefix if present
+  const imageContent = base64Image.includes(',') ? base64Image.split(',')[1] : base64Image;
+  const image = Buffer.from(imageContent, 'base64');
+
+  if (image.length === 0) {
+    throw new Error('Invalid image data provided');
+  }
+
+  log(`Processing image with local OCR, ${image.length} bytes`, "vision");
+
+  const worker = await getWorker();
+  const { data } = await worker.recognize(image, {}, { blocks: true });
+  const dimensions = getImageDimensions(image);
+
+  const spines: SpineDetection[] = [];
+  for (const block of data.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        const text = line.text.replace(/\s+/g, ' ').trim();
+        if (text.length < MIN_LINE_LENGTH || !/[a-zA-Z]/.test(text) || line.confidence < MIN_LINE_CONFIDENCE) {
+          continue;
+        }
+        spines.push({
+          text,
+          boundingBox: toBoundingBox(line.bbox, dimensions),
+          confidence: Math.min(1, Math.max(0, line.confidence / 100))
+        });
+      }
+    }
+  }
+
+  log(`Local OCR extracted ${spines.length} potential titles`, "vision");
+
+  return {
+    bookTitles: spines.map(spine => spine.text),
+    // OCR has no scene labels, so treat any readable text as a shelf
+    isBookshelf: spines.length > 0,
+    spines
+  };
+}
+
+/**
+ * Vision provider backed by Tesseract running in-process
+ * Disabled with ENABLE_LOCAL_OCR=false
+ */
+export const localOCRVisionProvider: VisionProvider = {
+  name: 'local-ocr',
+  isAvailable: () => process.env.ENABLE_LOCAL_OCR !== "false",
+  analyze: analyzeWithLocalOCR
+};
@@ -0,0 +1,12 @@
+/**
+ * Request memo middleware
+ * Runs each request inside its own memo scope, so repeated book cache lookups while handling
+ * the request are answered once
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { runWithRequestMemo } from '../utils/request-memo.js';
+
+export function requestMemo(_req: Request, _res: Response, next: NextFunction) {
+  runWithRequestMemo(() => next());
+}
@@ -1,5 +1,9 @@
 import { bookCacheService } from './book-cache-service';
 import { log } from './simple-logger.js';
+import type { BookMetadata } from './utils/metadata-merge.js';
+import { isConfidentCacheMatch } from './utils/cache-match.js';
+import { getLLMClient } from './llm-client.js';
+import type { BookMetadataProvider, BookMetadataQuery } from './book-metadata-provider.js';
 
 /**
  * Interface for OpenAI-enhanced book info
@@ -28,7 +32,7 @@ export async function getOpenAIBookDetails(
     // Check cache first to avoid API calls if possible
     const cachedBook = await bookCacheService.findInCache(title, author);
     
-    if (cachedBook && cachedBook.rating && cachedBook.summary && cachedBook.source === 'openai') {
+    if (cachedBook && cachedBook.rating && cachedBook.summary && cachedBook.source === 'openai' && isConfidentCacheMatch(cachedBook)) {
       log(`Using cached OpenAI book data for "${title}" by ${author}`, 'books');
       
       return {
@@ -90,4 +94,31 @@ export async function getOpenAIBookDetails(
       source: 'error'
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * OpenAI as a metadata provider: supplies the description and rating of a known book
+ */
+export const openAIMetadataProvider: BookMetadataProvider = {
+  name: 'openai',
+  kind: 'enrichment',
+  isAvailable: () => getLLMClient().isConfigured() && process.env.ENABLE_OPENAI !== 'false',
+  async search({ title, author, isbn }: BookMetadataQuery): Promise<BookMetadata[]> {
+    // Without an author the book is too ambiguous to describe
+    if (!author) {
+      return [];
+    }
+
+    const details = await getOpenAIBookDetails(title, author, isbn);
+    if (!details.summary && !details.rating) {
+      return [];
+    }
+
+    return [{
+      title: details.title,
+      author: details.author,
+      description: details.summary,
+      rating: details.rating
+    }];
+  }
+};
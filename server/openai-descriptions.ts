@@ -1,17 +1,14 @@
-import OpenAI from "openai";
 import { log } from './simple-logger.js';
 import { rateLimiter } from './rate-limiter.js';
+import { createMemoryCache, getMemoryCacheOptions } from './cache-layer.js';
+import { createValidatedCompletion, descriptionResponseSpec, matchReasonResponseSpec } from './utils/openai-utils.js';
+import { renderPrompt, toCompletionParams } from './prompt-registry.js';
+import { getLLMClient } from './llm-client.js';
 
-// Configure OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY,
-  maxRetries: 2,
-  timeout: 15000
-});
-
-// In-memory cache to reduce API calls and improve performance
-const descriptionCache = new Map<string, string>();
-const matchReasonCache = new Map<string, string>();
+// In-memory caches to reduce API calls; generated text doesn't go stale, so keep it for a day
+const GENERATED_TEXT_TTL_MS = 24 * 60 * 60 * 1000;
+const descriptionCache = createMemoryCache<string>('openai-descriptions', { ...getMemoryCacheOptions(), ttlMs: GENERATED_TEXT_TTL_MS });
+const matchReasonCache = createMemoryCache<string>('openai-match-reasons', { ...getMemoryCacheOptions(), ttlMs: GENERATED_TEXT_TTL_MS });
 
 // Predefined descriptions for commonly requested books
 const PREDEFINED_DESCRIPTIONS: Record<string, string> = {
@@ -35,10 +32,10 @@ export async function getOpenAIDescription(title: string, author: string): Promi
     const cacheKey = `${title}|${author}`.toLowerCase();
     
     // Check if we have this description cached in memory
-    if (descriptionCache.has(cacheKey)) {
-      const cachedDescription = descriptionCache.get(cacheKey);
+    const cachedDescription = descriptionCache.get(cacheKey);
+    if (cachedDescription !== undefined) {
       log(`Using cached description for "${title}" by ${author}`, 'openai');
-      return cachedDescription!;
+      return cachedDescription;
     }
     
     // Check if we have a predefined description
@@ -52,7 +49,7 @@ export async function getOpenAIDescription(title: string, author: string): Promi
     log(`Generating fresh OpenAI description for "${title}" by ${author}`, 'openai');
     
     // Check if OpenAI is configured
-    if (!process.env.OPENAI_API_KEY) {
+    if (!getLLMClient().isConfigured()) {
       log('OpenAI API key not configured for description generation', 'openai');
       return "No description available";
     }
@@ -64,30 +61,12 @@ export async function getOpenAIDescription(title: string, author: string): Promi
     }
     
     // Generate a high-quality description using OpenAI
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // Using the latest model
-      messages: [
-        {
-          role: "system",
-          content: `You are a literary expert tasked with creating concise, informative book descriptions.
-          Create descriptions that highlight the book's themes, plot, and significance in 3-4 sentences.
-          Focus on what makes the book interesting and valuable to readers.
-          Avoid marketing language, spoilers, or excessively long descriptions.`
-        },
-        {
-          role: "user",
-          content: `Please provide a concise 3-4 sentence description for the book "${title}" by ${author}.
-          Focus on themes, plot elements, and what makes this book special.
-          Keep your response under 150 words and avoid marketing language.
-          Only return the description text with no additional commentary.`
-        }
-      ],
-      max_tokens: 250,
-      temperature: 0.7
-    });
-    
-    // Extract and return the description
-    const description = response.choices[0].message.content?.trim() || "No description available";
+    const description = await createValidatedCompletion(
+      'description',
+      descriptionResponseSpec,
+      toCompletionParams(renderPrompt('description', { title, author }))
+    );
+    
     log(`Generated OpenAI description for "${title}" (${description.length} chars)`, 'openai');
     
     // Cache the description for future use
@@ -143,10 +122,10 @@ export async function getOpenAIMatchReason(
     const cacheKey = `${title}|${author}|${preferencesKey}`.toLowerCase();
     
     // Check if we have this match reason cached in memory
-    if (matchReasonCache.has(cacheKey)) {
-      const cachedReason = matchReasonCache.get(cacheKey);
+    const cachedReason = matchReasonCache.get(cacheKey);
+    if (cachedReason !== undefined) {
       log(`Using cached match reason for "${title}" by ${author}`, 'openai');
-      return cachedReason!;
+      return cachedReason;
     }
     
     // Check if we have a predefined match reason
@@ -160,7 +139,7 @@ export async function getOpenAIMatchReason(
     log(`Generating match reason for "${title}" by ${author}`, 'openai');
     
     // Check if OpenAI is configured
-    if (!process.env.OPENAI_API_KEY) {
+    if (!getLLMClient().isConfigured()) {
       log('OpenAI API key not configured for match reason generation', 'openai');
       return "This book matches your reading preferences.";
     }
@@ -176,37 +155,11 @@ export async function getOpenAIMatchReason(
     const authorsList = userPreferences.authors?.join(', ') || 'various authors';
     
     // Generate a personalized match reason using OpenAI
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // Using the latest model
-      messages: [
-        {
-          role: "system",
-          content: `You are a literary recommendation expert who provides short, precise explanations for book matches.
-          
-          CRITICAL INSTRUCTIONS:
-          1. ONLY mention genres and authors the user EXPLICITLY listed in their preferences
-          2. Do NOT make assumptions about what else they might like based on their preferences
-          3. Do NOT suggest connections between genres that aren't directly related
-          4. Use ONLY 1-2 short sentences focused on DIRECT connections
-          5. Be factual and avoid flowery language or excessive enthusiasm`
-        },
-        {
-          role: "user",
-          content: `Why would the book "${title}" by ${author} appeal to someone who enjoys ${genresList} and authors like ${authorsList}?
-          
-          Write in second person (using "you" and "your").
-          Make ONLY direct connections to the user's stated preferences.
-          Do NOT assume interests they haven't explicitly mentioned.
-          Keep your response under 40 words - be extremely concise.`
-        }
-      ],
-      max_tokens: 60,
-      temperature: 0.6
-    });
-    
-    // Extract and return the match reason
-    const matchReason = response.choices[0].message.content?.trim() || 
-      "This book aligns with your reading preferences based on its themes and style.";
+    const matchReason = await createValidatedCompletion(
+      'match-reason',
+      matchReasonResponseSpec,
+      toCompletionParams(renderPrompt('match-reason', { title, author, genres: genresList, authors: authorsList }))
+    );
     
     log(`Generated match reason for "${title}" (${matchReason.length} chars)`, 'openai');
     
@@ -1,27 +1,38 @@
-import OpenAI from "openai";
 import { log } from './simple-logger.js';
 import { rateLimiter } from './rate-limiter.js';
+import { createValidatedCompletion, recommendationsResponseSpec } from './utils/openai-utils.js';
+import { renderPrompt, toCompletionParams } from './prompt-registry.js';
+import { getLLMClient } from './llm-client.js';
+import { formatFeedbackForPrompt, findFeedback, rerankByFeedback, type FeedbackEntry } from './utils/feedback.js';
+import { getRankingWeights } from './utils/ranking.js';
+import {
+  diversifyBooks,
+  isDiversityEnabled,
+  DEFAULT_DIVERSITY_OPTIONS,
+  TOP_RECOMMENDATIONS,
+  type DiversityOptions
+} from './utils/diversity.js';
 
-// Configure OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY,
-  maxRetries: 2,
-  timeout: 20000
-});
+// Books asked for when the top picks are diversified, so there is something to pick from
+const DIVERSITY_CANDIDATES = 10;
+
+const WILDCARD_REASON = "A wildcard pick: a highly rated book outside your usual genres.";
 
 /**
  * Get book recommendations using OpenAI
  * This ensures all recommendations come directly from AI
  * 
  * @param userBooks Array of books the user has read/saved
- * @param preferences User preferences (genres, authors, etc.)
- * @param _deviceId Optional user device ID for analytics (unused)
- * @returns Array of book recommendations
+ * @param preferences User preferences (genres, authors, feedback on earlier recommendations, etc.)
+ * @param deviceId Optional user device ID, used to pick the prompt variant
+ * @param diversity Caps per author and series and the wildcard slot for the top picks
+ * @returns Array of book recommendations, each with the version of the prompt that chose it
  */
 export async function getOpenAIRecommendations(
-  userBooks: Array<{ title: string, author: string }>,
-  preferences: { genres?: string[], authors?: string[], goodreadsData?: any } = {},
-  _deviceId?: string
+  userBooks: Array<{ title: string, author: string, categories?: string[], rating?: string }>,
+  preferences: { genres?: string[], authors?: string[], goodreadsData?: any, feedback?: FeedbackEntry[] } = {},
+  deviceId?: string,
+  diversity: DiversityOptions = DEFAULT_DIVERSITY_OPTIONS
 ): Promise<Array<{ 
   title: string, 
   author: string, 
@@ -31,11 +42,13 @@ export async function getOpenAIRecommendations(
   isbn?: string,
   categories?: string[],
   matchScore?: number,
-  matchReason?: string
+  matchReason?: string,
+  promptVersion?: string,
+  wildcard?: boolean
 }>> {
   try {
     // Check if OpenAI is configured
-    if (!process.env.OPENAI_API_KEY) {
+    if (!getLLMClient().isConfigured()) {
       log('OpenAI API key not configured for recommendations', 'openai');
       throw new Error("OpenAI API key is required for recommendations");
     }
@@ -131,171 +144,92 @@ export async function getOpenAIRecommendations(
       }
       
       // Combine all preference information
-      const userPreferencesText = [formattedGenres, formattedAuthors, goodreadsInfo]
+      const feedbackInfo = formatFeedbackForPrompt(preferences.feedback || []);
+
+      const userPreferencesText = [formattedGenres, formattedAuthors, goodreadsInfo, feedbackInfo]
         .filter(text => text.length > 0)
         .join(' ');
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o", // Using the latest model
-        messages: [
-          {
-            role: "system",
-            content: `You are a literary recommendation expert. Your task is to select books from a provided list that best match the user's specific reading preferences, and provide a brief explanation for each match.
-
-CRITICAL INSTRUCTIONS:
-1. You MUST ONLY select books from the exact list provided to you
-2. Do NOT invent or suggest books that are not in the provided list
-3. Do NOT recommend books that are similar but not on the list
-4. The ONLY valid recommendations are books EXPLICITLY listed in the JSON array I will provide
-5. If you can't find 5 good recommendations from the list, return fewer recommendations
-6. Base your selections on how well each book aligns with the user's stated genre preferences, favorite authors, and reading history
-7. If the user has a "Want to Read" list from Goodreads, PRIORITIZE books that are similar to those on their list
-8. For each book, provide a SPECIFIC, CONCISE reason (1-2 sentences) explaining the match
-9. When a book is similar to something on their "Want to Read" list, mention this specific connection in the match reason
-10. Match reasons should ONLY reference preferences the user explicitly mentioned - no assumptions
-11. Higher scoring books should have more specific, compelling match reasons`
-          },
-          {
-            role: "user",
-            content: `Here is my list of books:
-            
-${bookListJSON}
-
-My reading preferences:
-${userPreferencesText || "I'm open to discovering interesting books from various genres."}
-
-From ONLY this list above, recommend the 5 books that would best match my reading preferences.
-
-Format your response as a JSON object with a "recommendations" array containing ONLY books from my list.
-Each recommendation should include:
-- title: The exact book title from my list
-- author: The exact author name from my list
-- matchScore: A number between 1-100 indicating how well this book matches my preferences
-- matchReason: A SPECIFIC, CONCISE reason (1-2 sentences) why this book matches my preferences. DO NOT use generic phrases like "aligns with your interests" - explain exactly HOW it connects to my stated preferences. For high scores (80+), the reason should be especially clear and compelling.
-
-IMPORTANT: You can ONLY recommend books from the list I provided. Do not suggest any books that aren't on this list.
-
-Example format:
-{
-  "recommendations": [
-    {
-      "title": "Book Title From My List",
-      "author": "Author From My List",
-      "matchScore": 95,
-      "matchReason": "This book directly addresses your interest in [specific genre/topic] with [specific element] that connects to your preference for [specific author/style]."
-    }
-  ]
-}
-
-Only return the JSON object with no additional text.`
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000,
-        temperature: 0.7
-      });
+      const diversify = isDiversityEnabled(diversity);
+      const prompt = renderPrompt('recommendations', {
+        bookList: bookListJSON,
+        count: String(diversify ? DIVERSITY_CANDIDATES : TOP_RECOMMENDATIONS),
+        preferences: userPreferencesText || "I'm open to discovering interesting books from various genres."
+      }, deviceId);
       
-
+      // Throws an OpenAIResponseError when the reply is still invalid after a repair prompt
+      const parsed = await createValidatedCompletion('recommendations', recommendationsResponseSpec, {
+        ...toCompletionParams(prompt),
+        response_format: { type: "json_object" }
+      });
       
-      // Parse the recommendations
-      const content = response.choices[0].message.content;
-      if (!content) {
-        log("Empty response from OpenAI API", 'openai');
-        throw new Error("OpenAI API returned an empty response");
+      if (parsed.recommendations.length === 0) {
+        log("No recommendations found in OpenAI response", 'openai');
+        throw new Error("Could not extract valid book recommendations from OpenAI response");
       }
+      log(`Successfully parsed ${parsed.recommendations.length} recommendations from OpenAI`, 'openai');
       
-      try {
-        // Log the raw response for debugging
-        log(`Raw OpenAI response: ${content.substring(0, 200)}...`, 'openai');
-        
-        const parsed = JSON.parse(content);
+      // Create a map of books from the user's list for easy lookup
+      const userBooksMap = new Map();
+      userBooks.forEach(book => {
+        const key = `${book.title.toLowerCase()}|${book.author.toLowerCase()}`;
+        userBooksMap.set(key, book);
+      });
+      
+      // Validate that each recommendation is from the user's book list
+      // And enhance with original properties (like coverUrl, isbn) from the user's book
+      const validatedRecommendations = parsed.recommendations.filter(rec => {
+        const key = `${rec.title.toLowerCase()}|${rec.author.toLowerCase()}`;
+        const isInUserBooks = userBooksMap.has(key);
         
-        // Check if we have recommendations in the expected format
-        if (parsed.recommendations && Array.isArray(parsed.recommendations) && parsed.recommendations.length > 0) {
-          log(`Successfully parsed ${parsed.recommendations.length} recommendations from OpenAI`, 'openai');
-          
-          // Create a map of books from the user's list for easy lookup
-          const userBooksMap = new Map();
-          userBooks.forEach(book => {
-            const key = `${book.title.toLowerCase()}|${book.author.toLowerCase()}`;
-            userBooksMap.set(key, book);
-          });
-          
-          // Validate that each recommendation is from the user's book list
-          // And enhance with original properties (like coverUrl, isbn) from the user's book
-          const validatedRecommendations = parsed.recommendations.filter((rec: any) => {
-            if (!rec.title || !rec.author) {return false;}
-            
-            const key = `${rec.title.toLowerCase()}|${rec.author.toLowerCase()}`;
-            const isInUserBooks = userBooksMap.has(key);
-            
-            if (!isInUserBooks) {
-              log(`Filtering out recommendation "${rec.title}" as it's not in the user's book list`, 'openai');
-            }
-            
-            return isInUserBooks;
-          }).map((rec: any) => {
-            // Enhance the recommendation with original properties from the user's book
-            const key = `${rec.title.toLowerCase()}|${rec.author.toLowerCase()}`;
-            const originalBook = userBooksMap.get(key);
-            
-            // Preserve important properties from the original book like coverUrl and ISBN
-            // Also include the matchReason from the OpenAI response
-            return {
-              ...rec,
-              coverUrl: originalBook.coverUrl || rec.coverUrl,
-              isbn: originalBook.isbn || rec.isbn,
-              matchReason: rec.matchReason || `This book scores ${rec.matchScore || 75}/100 for your reading preferences.`
-            };
-          });
-          
-          log(`Validated ${validatedRecommendations.length} recommendations are from the user's book list`, 'openai');
-          return validatedRecommendations;
+        if (!isInUserBooks) {
+          log(`Filtering out recommendation "${rec.title}" as it's not in the user's book list`, 'openai');
         }
         
-        // If not in the expected format but we have an array, try to use that with validation
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          log(`Found ${parsed.length} recommendations in array format from OpenAI`, 'openai');
-          
-          // Create a map of books from the user's list for easy lookup
-          const userBooksMap = new Map();
-          userBooks.forEach(book => {
-            const key = `${book.title.toLowerCase()}|${book.author.toLowerCase()}`;
-            userBooksMap.set(key, book);
-          });
-          
-          // Validate that each recommendation is from the user's book list
-          // And enhance with original properties (like coverUrl, isbn) from the user's book
-          const validatedRecommendations = parsed.filter((rec: any) => {
-            if (!rec.title || !rec.author) {return false;}
-            
-            const key = `${rec.title.toLowerCase()}|${rec.author.toLowerCase()}`;
-            return userBooksMap.has(key);
-          }).map((rec: any) => {
-            // Enhance the recommendation with original properties from the user's book
-            const key = `${rec.title.toLowerCase()}|${rec.author.toLowerCase()}`;
-            const originalBook = userBooksMap.get(key);
-            
-            // Preserve important properties from the original book like coverUrl and ISBN
-            // Also include the matchReason from the OpenAI response
-            return {
-              ...rec,
-              coverUrl: originalBook.coverUrl || rec.coverUrl,
-              isbn: originalBook.isbn || rec.isbn,
-              matchReason: rec.matchReason || `This book scores ${rec.matchScore || 75}/100 for your reading preferences.`
-            };
-          });
-          
-          log(`Validated ${validatedRecommendations.length} recommendations are from the user's book list`, 'openai');
-          return validatedRecommendations;
-        }
+        return isInUserBooks;
+      }).map(rec => {
+        // Enhance the recommendation with original properties from the user's book
+        const key = `${rec.title.toLowerCase()}|${rec.author.toLowerCase()}`;
+        const originalBook = userBooksMap.get(key);
         
-        log("No valid recommendations structure found in OpenAI response", 'openai');
-        throw new Error("Could not extract valid book recommendations from OpenAI response");
-      } catch (error) {
-        log(`Error parsing OpenAI recommendations: ${error instanceof Error ? error.message : String(error)}`, 'openai');
-        throw new Error("Failed to parse OpenAI book recommendations");
+        // Preserve important properties from the original book like coverUrl and ISBN
+        return {
+          ...rec,
+          coverUrl: originalBook.coverUrl || rec.coverUrl,
+          isbn: originalBook.isbn || rec.isbn,
+          promptVersion: prompt.promptVersion
+        };
+      });
+      
+      log(`Validated ${validatedRecommendations.length} recommendations are from the user's book list`, 'openai');
+      
+      // The prompt asks the model to leave out books the user gave feedback on, but it doesn't
+      // always; those it still picks, and other books by authors the user didn't like, take the
+      // same penalties as in the ranking
+      const candidates = rerankByFeedback(validatedRecommendations, preferences.feedback || [], getRankingWeights());
+      
+      if (!diversify) {
+        return candidates;
       }
+      
+      // Diversify the candidates for varied top picks; the wildcard may also be a book the
+      // model passed over, as long as the user hasn't given feedback on it
+      const candidateKeys = new Set(candidates.map(rec => `${rec.title.toLowerCase()}|${rec.author.toLowerCase()}`));
+      const passedOver = userBooks
+        .filter(book => !candidateKeys.has(`${book.title.toLowerCase()}|${book.author.toLowerCase()}`))
+        .filter(book => !findFeedback(preferences.feedback || [], book))
+        .map(book => ({
+          ...book,
+          matchReason: WILDCARD_REASON,
+          promptVersion: prompt.promptVersion
+        }));
+      
+      const diversified = diversifyBooks(candidates, diversity, {
+        genres: preferences.genres,
+        wildcardPool: [...candidates, ...passedOver]
+      }).slice(0, TOP_RECOMMENDATIONS);
+      log(`Diversified recommendations: ${diversified.map(rec => rec.title).join(', ')}`, 'openai');
+      return diversified;
     } catch (error) {
       log(`Error from OpenAI API: ${error instanceof Error ? error.message : String(error)}`, 'openai');
       throw new Error(`Failed to generate book recommendations: ${error instanceof Error ? error.message : String(error)}`);
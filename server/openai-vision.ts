@@ -1,165 +1,116 @@
-import OpenAI from "openai";
 import { log } from "./simple-logger.js";
 import { rateLimiter } from "./rate-limiter.js";
-import { analyzeImage } from "./vision.js"; // Import Google Vision fallback
-
-// Configure OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY,
-  maxRetries: 2, // Limit retries to reduce costs
-  timeout: 15000 // 15 second timeout to prevent hanging
-});
+import { createValidatedCompletion, visionResponseSpec } from "./utils/openai-utils.js";
+import { renderPrompt, toCompletionParams } from "./prompt-registry.js";
+import { getLLMClient } from "./llm-client.js";
+import type { BoundingBox, SpineDetection } from "../shared/schema.js";
+import type { BookshelfAnalysis, VisionProvider } from "./vision-provider.js";
 
 // This flag allows easier turning on/off of the OpenAI API
 const ENABLE_OPENAI = process.env.ENABLE_OPENAI !== "false";
 
 /**
- * Check if the OpenAI API key is configured
- * @returns boolean indicating if the API key is available
+ * Clamp a number into the 0-1 range, returning null for non-numeric input
  */
-function isOpenAIConfigured(): boolean {
-  const apiKey = process.env.OPENAI_API_KEY;
-  return !!apiKey && apiKey.length > 5 && apiKey !== "your-api-key-here"; // Basic validation
+function toUnitInterval(value: unknown): number | null {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof num !== 'number' || isNaN(num)) {
+    return null;
+  }
+  return Math.min(1, Math.max(0, num));
 }
 
 /**
- * Main function to analyze a bookshelf image and identify book titles
- * Implements rate limiting and cost controls with fallback options
+ * Validate a bounding box from the model and keep it inside the image
  */
-export async function analyzeBookshelfImage(base64Image: string): Promise<{ 
-  bookTitles: string[], 
-  isBookshelf: boolean 
-}> {
-  try {
-    // Check if OpenAI is enabled and configured
-    if (!ENABLE_OPENAI) {
-      log("OpenAI API is disabled by configuration", "vision");
-      return await fallbackToGoogleVision(base64Image);
-    }
-    
-    if (!isOpenAIConfigured()) {
-      log("OpenAI API key is not properly configured", "vision");
-      return await fallbackToGoogleVision(base64Image);
-    }
-    
-    // Check rate limits and atomically increment if allowed
-    if (!(await rateLimiter.checkAndIncrement('openai'))) {
-      log("Rate limit reached for OpenAI API. Using fallback.", "vision");
-      return await fallbackToGoogleVision(base64Image);
-    }
-    
-    log("Processing image with OpenAI Vision API", "vision");
-    
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-      messages: [
-        {
-          role: "system",
-          content: "You are a precise book identification expert specializing in reading book spines on bookshelves. Your ONLY task is to identify the exact titles of books visible in the image. Never invent or guess titles. Only include titles where you can clearly read the complete title from the spine or cover. If you're uncertain about any title, exclude it completely."
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: "This is a photo of a bookshelf. I need you to identify ONLY the books that are clearly visible and legible in this image. Read the text directly from the book spines or covers.\n\nYour response should be a JSON object with these fields:\n\n1. 'bookTitles': An array containing ONLY the exact titles of books you can read with 100% certainty from the image. Do not include partial or guessed titles.\n\n2. 'isBookshelf': A boolean (true) if this shows multiple books on a shelf.\n\nIMPORTANT: Do not try to be helpful by guessing titles! Only include titles that you can read directly and completely from the image. Read each spine carefully - do not include books where you can only make out a few letters. For books with series names, include the complete title as shown on the spine."
-            },
-            {
-              type: "image_url", 
-              image_url: {
-                url: `data:image/jpeg;base64,${base64Image}`
-              }
-            }
-          ]
-        }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 800
-    });
+function normalizeBoundingBox(value: unknown): BoundingBox | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  
+  const raw = value as Record<string, unknown>;
+  const x = toUnitInterval(raw.x);
+  const y = toUnitInterval(raw.y);
+  const width = toUnitInterval(raw.width);
+  const height = toUnitInterval(raw.height);
+  
+  if (x === null || y === null || width === null || height === null || width === 0 || height === 0) {
+    return null;
+  }
+  
+  return {
+    x,
+    y,
+    width: Math.min(width, 1 - x),
+    height: Math.min(height, 1 - y)
+  };
+}
 
-    // Parse the response
-    const content = response.choices[0].message.content || '';
-    let result;
-    
-    try {
-      result = JSON.parse(content);
-    } catch (error) {
-      log(`Error parsing OpenAI response: ${error}`, "vision");
-      // Fallback to Google Vision if JSON parsing fails
-      return await fallbackToGoogleVision(base64Image);
-    }
-    
-    log(`OpenAI identified ${result.bookTitles?.length || 0} books`, "vision");
-    
-    return {
-      bookTitles: result.bookTitles || [],
-      isBookshelf: result.isBookshelf || false
-    };
-  } catch (error) {
-    // Check if this is a rate limit error from the API itself
-    if (error instanceof Error && (
-      error.message.includes('rate limit') || 
-      error.message.includes('429') ||
-      error.message.includes('too many requests') ||
-      error.message.includes('quota exceeded')
-    )) {
-      log(`OpenAI Vision API rate limit error: ${error.message}`, "vision");
-      return await fallbackToGoogleVision(base64Image);
-    }
-    
-    log(`Error analyzing image with OpenAI: ${error instanceof Error ? error.message : String(error)}`, "vision");
-    
-    // Try the fallback option if OpenAI fails
-    return await fallbackToGoogleVision(base64Image);
+/**
+ * Convert the model's spine list into SpineDetection records, dropping unreadable entries
+ */
+function normalizeSpines(rawSpines: unknown): SpineDetection[] {
+  if (!Array.isArray(rawSpines)) {
+    return [];
   }
+  
+  return (rawSpines as Array<Record<string, unknown> | null>)
+    .filter((spine): spine is Record<string, unknown> & { text: string } =>
+      !!spine && typeof spine.text === 'string' && spine.text.trim().length > 0)
+    .map(spine => ({
+      text: spine.text.trim(),
+      author: typeof spine.author === 'string' && spine.author.trim() ? spine.author.trim() : undefined,
+      boundingBox: normalizeBoundingBox(spine.boundingBox),
+      confidence: toUnitInterval(spine.confidence) ?? 0.5
+    }));
 }
 
 /**
- * Fallback function using Google Vision API instead of OpenAI
- * This provides a more cost-effective option when OpenAI is unavailable
+ * Analyze a bookshelf image with the OpenAI Vision API
+ * Throws when rate limited or when the response is still invalid after a repair prompt, so the
+ * next provider is tried
  */
-async function fallbackToGoogleVision(base64Image: string): Promise<{ 
-  bookTitles: string[], 
-  isBookshelf: boolean 
-}> {
-  try {
-    log("Falling back to Google Vision API for image analysis", "vision");
-    
-    // Check rate limits and atomically increment if allowed
-    if (!(await rateLimiter.checkAndIncrement('google-vision'))) {
-      log("Rate limit reached for Google Vision fallback API", "vision");
-      return { bookTitles: [], isBookshelf: false };
-    }
-    
-    const visionResult = await analyzeImage(base64Image);
-    
-    // Extract potential book titles from the Google Vision text
-    const text = visionResult.text || '';
-    
-    // Very basic extraction of potential book titles from the text
-    // This is a simple implementation - book title extraction from raw text
-    // would need more sophisticated NLP in a production environment
-    const lines = text.split('\n').filter((line: string) => line.trim().length > 0);
-    
-    // Filter lines that might be book titles (more than 2 words, less than 50 chars)
-    const potentialTitles = lines.filter((line: string) => {
-      const words = line.trim().split(/\s+/);
-      return words.length >= 2 && words.length <= 10 && line.length <= 50;
-    });
-    
-    log(`Google Vision extracted ${potentialTitles.length} potential titles`, "vision");
-    
-    return {
-      bookTitles: potentialTitles,
-      isBookshelf: visionResult.isBookshelf || false
-    };
-  } catch (error) {
-    log(`Error in Google Vision fallback: ${error instanceof Error ? error.message : String(error)}`, "vision");
-    
-    // Return empty results if all methods fail
-    return {
-      bookTitles: [],
-      isBookshelf: false
-    };
+async function analyzeWithOpenAI(base64Image: string): Promise<BookshelfAnalysis> {
+  // Check rate limits and atomically increment if allowed
+  if (!(await rateLimiter.checkAndIncrement('openai'))) {
+    throw new Error("Rate limit reached for OpenAI API");
   }
-}
\ No newline at end of file
+  
+  log("Processing image with OpenAI Vision API", "vision");
+  
+  const prompt = renderPrompt('vision');
+  const result = await createValidatedCompletion('vision', visionResponseSpec, {
+    ...toCompletionParams(prompt, [
+      {
+        type: "image_url", 
+        image_url: {
+          url: `data:image/jpeg;base64,${base64Image}`
+        }
+      }
+    ]),
+    response_format: { type: "json_object" }
+  });
+  
+  const spines = normalizeSpines(result.spines);
+  const bookTitles = result.bookTitles.length > 0
+    ? result.bookTitles
+    : spines.map(spine => spine.text);
+  
+  log(`OpenAI identified ${bookTitles.length} books (${spines.filter(s => s.boundingBox).length} located)`, "vision");
+  
+  return {
+    bookTitles,
+    isBookshelf: result.isBookshelf,
+    spines
+  };
+}
+
+/**
+ * Vision provider backed by GPT-4o
+ * Available when ENABLE_OPENAI isn't "false" and an API key or compatible server is configured
+ */
+export const openAIVisionProvider: VisionProvider = {
+  name: 'openai',
+  isAvailable: () => ENABLE_OPENAI && getLLMClient().isConfigured(),
+  analyze: analyzeWithOpenAI
+};
@@ -0,0 +1,135 @@
+import type { ChatCompletionContentPart, ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { log } from "./simple-logger.js";
+import { builtInPrompts } from "./prompts.js";
+import { renderTemplate, getVariantBucket, pickWeighted, type PromptVariables } from "./utils/prompt-template.js";
+
+export type PromptName =
+  | 'vision'
+  | 'recommendations'
+  | 'enrichment'
+  | 'summary'
+  | 'rating'
+  | 'description'
+  | 'match-reason'
+  | 'quick-rating'
+  | 'quick-summary';
+
+/**
+ * A versioned prompt with its model settings
+ * system and user may contain {{variable}} placeholders, filled in by renderPrompt.
+ */
+export interface PromptTemplate {
+  name: PromptName;
+  // Bumped whenever the wording or settings change
+  version: number;
+  // Label of an A/B variant; prompts with one variant don't need one
+  variant?: string;
+  // Share of devices given this variant, relative to the other variants (default 1); 0 turns it off
+  weight?: number;
+  model: string;
+  temperature?: number;
+  maxTokens: number;
+  system: string;
+  user: string;
+}
+
+/**
+ * A prompt ready to send, with the version to store alongside whatever it generates
+ */
+export interface RenderedPrompt {
+  name: PromptName;
+  promptVersion: string;
+  model: string;
+  temperature?: number;
+  maxTokens: number;
+  system: string;
+  user: string;
+}
+
+const prompts = new Map<PromptName, PromptTemplate[]>();
+
+/**
+ * Version string stored with generated content, e.g. "summary@v2" or "summary@v3-b"
+ */
+export function formatPromptVersion(template: PromptTemplate): string {
+  return `${template.name}@v${template.version}${template.variant ? `-${template.variant}` : ''}`;
+}
+
+/**
+ * Add a prompt to the registry, replacing any prompt with the same name, version and variant
+ */
+export function registerPrompt(template: PromptTemplate): void {
+  const variants = (prompts.get(template.name) || []).filter(existing =>
+    formatPromptVersion(existing) !== formatPromptVersion(template));
+  prompts.set(template.name, [...variants, template]);
+}
+
+/**
+ * Versions of all registered prompts
+ */
+export function getRegisteredPrompts(): string[] {
+  return Array.from(prompts.values()).flat().map(formatPromptVersion);
+}
+
+/**
+ * The variant of a prompt to use for a device
+ * Each device keeps its variant for as long as the variants and their weights don't change.
+ * Without a device (e.g. in scheduled jobs) the first registered variant is used.
+ */
+export function selectPrompt(name: PromptName, deviceId?: string): PromptTemplate {
+  const variants = (prompts.get(name) || []).filter(variant => (variant.weight ?? 1) > 0);
+  if (variants.length === 0) {
+    throw new Error(`No prompt registered for "${name}"`);
+  }
+
+  if (!deviceId || variants.length === 1) {
+    return variants[0];
+  }
+  return pickWeighted(variants, getVariantBucket(name, deviceId)) || variants[0];
+}
+
+/**
+ * Select a prompt for the device and fill in its variables
+ */
+export function renderPrompt(name: PromptName, variables: PromptVariables = {}, deviceId?: string): RenderedPrompt {
+  const template = selectPrompt(name, deviceId);
+  const promptVersion = formatPromptVersion(template);
+
+  if (template.variant) {
+    log(`Using prompt ${promptVersion}`, 'prompts');
+  }
+
+  return {
+    name,
+    promptVersion,
+    model: template.model,
+    temperature: template.temperature,
+    maxTokens: template.maxTokens,
+    system: renderTemplate(template.system, variables),
+    user: renderTemplate(template.user, variables)
+  };
+}
+
+/**
+ * Chat completion parameters for a rendered prompt
+ * @param attachments Extra parts sent after the user text, e.g. an image
+ */
+export function toCompletionParams(
+  prompt: RenderedPrompt,
+  attachments: ChatCompletionContentPart[] = []
+): ChatCompletionCreateParamsNonStreaming {
+  return {
+    model: prompt.model,
+    messages: [
+      { role: "system", content: prompt.system },
+      {
+        role: "user",
+        content: attachments.length > 0 ? [{ type: "text", text: prompt.user }, ...attachments] : prompt.user
+      }
+    ],
+    max_tokens: prompt.maxTokens,
+    ...(prompt.temperature !== undefined ? { temperature: prompt.temperature } : {})
+  };
+}
+
+builtInPrompts.forEach(registerPrompt);
@@ -0,0 +1,24 @@
+import { log } from './simple-logger.js';
+import { storage } from './storage.js';
+import { isFeedbackType, type FeedbackEntry } from './utils/feedback.js';
+
+/**
+ * Feedback a device gave on earlier recommendations, oldest first so the newest entry wins
+ * Recommendations still work without it, so a database error gives an empty list.
+ */
+export async function loadFeedback(deviceId: string | undefined): Promise<FeedbackEntry[]> {
+  if (!deviceId) {
+    return [];
+  }
+
+  try {
+    const rows = await storage.getFeedbackByDeviceId(deviceId);
+    return rows
+      .map(row => ({ title: row.title, author: row.author, type: row.type }))
+      .filter((entry): entry is FeedbackEntry => isFeedbackType(entry.type))
+      .reverse();
+  } catch (error) {
+    log(`Error loading feedback: ${error instanceof Error ? error.message : String(error)}`, 'feedback');
+    return [];
+  }
+}
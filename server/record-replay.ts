@@ -0,0 +1,97 @@
+import axios, { type AxiosRequestConfig } from "axios";
+import type { ChatCompletion, ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { log } from "./simple-logger.js";
+import { getLLMClient, setLLMClient, type LLMClient, type LLMTask } from "./llm-client.js";
+import {
+  FixtureStore,
+  createFixtureAdapter,
+  getFixtureMode,
+  recordOrReplay,
+  type FixtureMode
+} from "./utils/api-fixtures.js";
+
+/**
+ * Record/replay for external APIs
+ * With API_FIXTURES=record, every axios request (Google Books, Open Library, Google Vision) and
+ * LLM call is made as usual and saved under API_FIXTURES_DIR. With API_FIXTURES=replay they are
+ * answered from those files and any request without one fails, so tests run offline and give
+ * the same results every time.
+ */
+
+const DEFAULT_FIXTURES_DIR = 'tests/fixtures/api';
+
+/**
+ * LLM client that records or replays another client's completions
+ */
+export class RecordReplayLLMClient implements LLMClient {
+  constructor(
+    private inner: LLMClient,
+    private store: FixtureStore,
+    private mode: FixtureMode
+  ) {}
+
+  get name(): string {
+    return `${this.inner.name} (${this.mode})`;
+  }
+
+  // Replaying needs no key
+  isConfigured(): boolean {
+    return this.mode === 'replay' || this.inner.isConfigured();
+  }
+
+  async complete(task: LLMTask, params: ChatCompletionCreateParamsNonStreaming): Promise<ChatCompletion> {
+    const request = { method: 'POST', url: `https://llm/chat/completions/${task}`, body: params };
+    const response = await recordOrReplay(this.store, this.mode, 'llm', request, async () => ({
+      status: 200,
+      data: await this.inner.complete(task, params)
+    }));
+    return response.data as ChatCompletion;
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const request = { method: 'POST', url: 'https://llm/embeddings', body: { model, input: texts } };
+    const response = await recordOrReplay(this.store, this.mode, 'llm', request, async () => ({
+      status: 200,
+      data: await this.inner.embed(texts, model)
+    }));
+    return response.data as number[][];
+  }
+}
+
+// The adapter and client in place before record/replay was installed
+let originals: { adapter: AxiosRequestConfig['adapter']; llmClient: LLMClient } | null = null;
+
+/**
+ * Put record/replay under the shared axios instance and the LLM client
+ * Does nothing when the mode is off. Tests can pass the mode and directory instead of using
+ * API_FIXTURES and API_FIXTURES_DIR; installing again replaces the previous setup.
+ * @returns The mode in effect
+ */
+export function installRecordReplay(options: { mode?: FixtureMode; dir?: string } = {}): FixtureMode {
+  const mode = options.mode ?? getFixtureMode();
+  if (mode === 'off') {
+    return mode;
+  }
+
+  if (!originals) {
+    originals = { adapter: axios.defaults.adapter, llmClient: getLLMClient() };
+  }
+
+  const store = new FixtureStore(options.dir || process.env.API_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+  axios.defaults.adapter = createFixtureAdapter(store, mode, axios.getAdapter(originals.adapter));
+  setLLMClient(new RecordReplayLLMClient(originals.llmClient, store, mode));
+
+  log(`${mode === 'record' ? 'Recording' : 'Replaying'} external API calls in ${store.dir}`, 'fixtures');
+  return mode;
+}
+
+/**
+ * Restore the real adapter and LLM client
+ */
+export function uninstallRecordReplay(): void {
+  if (originals) {
+    axios.defaults.adapter = originals.adapter;
+    setLLMClient(originals.llmClient);
+    originals = null;
+  }
+}
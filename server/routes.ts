@@ -1,15 +1,27 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage.js";
-import { analyzeBookshelfImage } from "./openai-vision.js";
-import { searchBooksByTitle, getRecommendations } from "./books.js";
+import { analyzePreprocessedImage } from "./vision-provider.js";
+import { preprocessImage, getPreprocessingOptions, parseTileMode } from "./image-preprocessing.js";
+import { AnalysisStream, getStreamFormat } from "./analysis-stream.js";
+import { resolveTitles, getTitleResolverOptions } from "./title-resolver.js";
+import { getRecommendations } from "./books.js";
+import { rankBooks, getRankingWeights, summarizeExplanation } from "./utils/ranking.js";
+import { similarityService } from "./similarity-service.js";
+import { loadFeedback } from "./reader-feedback.js";
+import { buildWorkKey } from "./utils/work-identity.js";
+import { parseDiversityOptions } from "./utils/diversity.js";
 import { searchEnhancedBooks } from "./enhanced-book-api.js";
+import { getBookMetadata } from "./book-metadata-provider.js";
 import { bookCacheService } from "./book-cache-service.js";
 import { bookEnhancer } from "./book-enhancer.js";
+import { scanSessionService } from "./scan-sessions.js";
+import { recordScanDetections, recordScanRecommendations, parseScanId, toScanListItem } from "./scan-history.js";
 import { getOpenAIBookDetails } from "./openai-books.js";
 import { getOpenAIBookRating, getOpenAIBookSummary } from "./utils/openai-utils.js";
+import { isConfidentCacheMatch } from "./utils/cache-match.js";
 import multer from "multer";
-import { insertPreferenceSchema, insertSavedBookSchema } from "../shared/schema.js";
+import { insertPreferenceSchema, insertSavedBookSchema, insertBookFeedbackSchema, type BookCache } from "../shared/schema.js";
 import { getApiUsageStats } from "./api-stats.js";
 import { log } from './simple-logger.js';
 
@@ -24,6 +36,8 @@ const upload = multer({
 import { registerEnvRoutes } from './env-routes.js';
 
 import { directOpenAIRoutes } from './direct-openai-routes.js';
+import { getRegisteredJobs, runJob, isAuthorizedCronRequest, isSchedulerEnabled } from './job-scheduler.js';
+import { getCacheMetrics } from './cache-layer.js';
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth routes have been removed
@@ -32,14 +46,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/direct', directOpenAIRoutes);
   
 
-  // Clean up non-OpenAI ratings to ensure consistent OpenAI-generated content
-  try {
-    const cleanedCount = await bookCacheService.cleanupNonOpenAIRatings();
-    log(`Cleaned up ${cleanedCount} non-OpenAI ratings from cache during startup`, 'startup');
-  } catch (error) {
-    log(`Error cleaning up non-OpenAI ratings: ${error instanceof Error ? error.message : String(error)}`, 'startup');
-  }
-
   // Make environment variables available to the frontend
   app.get('/api/env', (req, res) => {
     res.json({
@@ -67,6 +73,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Canonical metadata for one book, merged across providers, with the provider behind each field
+  app.get('/api/book-metadata', async (req: Request, res: Response) => {
+    try {
+      const { title, author, isbn } = req.query;
+
+      if (!title || typeof title !== 'string') {
+        return res.status(400).json({ message: "Title parameter is required" });
+      }
+
+      const merged = await getBookMetadata({
+        title,
+        author: typeof author === 'string' ? author : undefined,
+        isbn: typeof isbn === 'string' ? isbn : undefined
+      });
+      
+      // Record the work and edition the metadata describes
+      const { metadata } = merged;
+      const resolved = metadata.title && metadata.author
+        ? await storage.resolveWork({ ...metadata, title: metadata.title, author: metadata.author, isbn: metadata.isbn13 })
+        : undefined;
+      
+      res.json({ ...merged, workId: resolved?.work.id, editionId: resolved?.edition?.id });
+    } catch (error) {
+      log(`Error getting book metadata: ${error instanceof Error ? error.message : String(error)}`, 'metadata');
+      res.status(500).json({ message: "Error retrieving book metadata" });
+    }
+  });
+
+  // A work with all of its known editions
+  app.get('/api/works/:id', async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid work ID" });
+      }
+
+      const work = await storage.getWork(id);
+      if (!work) {
+        return res.status(404).json({ message: "Work not found" });
+      }
+
+      const workEditions = await storage.getEditionsByWorkId(id);
+      res.json({ ...work, editions: workEditions });
+    } catch (error) {
+      log(`Error getting work: ${error instanceof Error ? error.message : String(error)}`, 'works');
+      res.status(500).json({ message: "Error retrieving work" });
+    }
+  });
+
   // Book details endpoint with OpenAI-generated ratings and summaries
   app.get('/api/book-details/:title/:author', async (req: Request, res: Response) => {
     try {
@@ -76,10 +131,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Both title and author are required" });
       }
       
-      // Check cache first
+      // Check cache first, ignoring entries that may be a different book
       const cachedBook = await storage.findBookInCache(decodeURIComponent(title), decodeURIComponent(author));
       
-      if (cachedBook) {
+      if (cachedBook && isConfidentCacheMatch(cachedBook)) {
         return res.json({
           title: cachedBook.title,
           author: cachedBook.author,
@@ -106,7 +161,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Get enhanced summary
-      const summary = await bookCacheService.getEnhancedSummary(bookData.title, bookData.author);
+      const summary = await bookCacheService.getEnhancedSummary(bookData.title, bookData.author, undefined, { deviceId: req.deviceId });
       if (summary) {
         bookData.summary = summary;
       }
@@ -127,6 +182,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Upload and analyze bookshelf image
   app.post('/api/books/analyze', upload.single('image'), async (req: Request, res: Response) => {
+    // Progress events are only sent when the client asked for a streamed response
+    const streamFormat = getStreamFormat(req);
+    const stream = streamFormat ? new AnalysisStream(res, streamFormat) : null;
+
     try {
       if (!req.file) {
         return res.status(400).json({ message: 'No image file provided' });
@@ -139,86 +198,126 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: 'Device ID is required' });
       }
       
+      // Photos of the same bookcase share a scan session; start one if the client didn't send one
+      const requestedSessionId = typeof req.body?.sessionId === 'string' ? req.body.sessionId : '';
+      const session = (requestedSessionId && scanSessionService.getSession(requestedSessionId, deviceId))
+        || scanSessionService.createSession(deviceId);
+      
+      if (!scanSessionService.canAddPhoto(session)) {
+        return res.status(400).json({ message: 'This scan session already has the maximum number of photos. Start a new scan to add more.' });
+      }
+      
+      // Send the final body as JSON, or as the last event of a streamed response
+      const respond = (body: Record<string, unknown>) => {
+        if (stream) {
+          stream.end({ type: 'result', result: body });
+          return;
+        }
+        return res.status(200).json(body);
+      };
+      
+      stream?.send({ type: 'stage', stage: 'preprocessing', message: 'Preparing image' });
+      
       // Get user preferences to match with detected books
       const preferences = await storage.getPreferencesByDeviceId(deviceId);
       
-      // Convert buffer to base64
-      const base64Image = req.file.buffer.toString('base64');
+      // Rotate, downscale and re-encode the photo; the client can ask for per-row tiles
+      const tileMode = parseTileMode(req.body?.tileRows);
+      const image = await preprocessImage(req.file.buffer, getPreprocessingOptions(tileMode ? { tiles: tileMode } : {}));
+      const preprocessing = image.report;
       
-      // Use OpenAI Vision API to identify book titles in the image
-      const visionAnalysis = await analyzeBookshelfImage(base64Image);
+      // Identify book titles with the configured vision provider(s)
+      const visionAnalysis = await analyzePreprocessedImage(image);
+      
+      stream?.send({
+        type: 'stage',
+        stage: 'vision',
+        message: `Vision complete: ${visionAnalysis.bookTitles.length} titles`,
+        titleCount: visionAnalysis.bookTitles.length
+      });
       
       if (!visionAnalysis.isBookshelf) {
-        return res.status(200).json({
+        return respond({
           books: [],
           bookTitles: [],
+          spines: [],
+          sessionId: session.id,
+          session: scanSessionService.toSummary(session),
+          preprocessing,
           message: "The image doesn't appear to be a bookshelf. Please upload a photo of books on a shelf."
         });
       }
       
-      // Use the titles identified by OpenAI Vision
+      // Use the titles identified by the vision provider
       const bookTitles = visionAnalysis.bookTitles;
+      const spines = visionAnalysis.spines;
+      
+      // Map each title back to the spine it was read from so the client can locate it in the photo
+      const spinesByTitle = new Map(spines.map(spine => [spine.text.toLowerCase(), spine]));
       
       if (process.env.NODE_ENV === 'development') {
-        log(`OpenAI identified ${bookTitles.length} book titles`, 'vision-api');
+        log(`${visionAnalysis.provider || 'Vision'} identified ${bookTitles.length} book titles`, 'vision-api');
       }
       
       if (bookTitles.length === 0) {
-        return res.status(200).json({
+        return respond({
           books: [],
           bookTitles: [],
+          spines,
+          sessionId: session.id,
+          session: scanSessionService.toSummary(session),
+          preprocessing,
           message: "No books could be clearly identified in the image. Try taking a clearer photo with better lighting and make sure book titles are visible."
         });
       }
       
-      // Search for books based on the identified titles
-      const detectedBooks: any[] = [];
-      
-      for (const title of bookTitles) {
-        const bookResults = await searchBooksByTitle(title);
-        
-        if (bookResults && bookResults.length > 0) {
-          // Find the closest match to the exact title identified by OpenAI
-          const titleLower = title.toLowerCase();
-          
-          const bestMatch = bookResults.reduce((best: any, current: any) => {
-            const currentTitle = current.title.toLowerCase();
-            const currentSimilarity = calculateSimilarity(titleLower, currentTitle);
-            const bestSimilarity = best ? calculateSimilarity(titleLower, best.title.toLowerCase()) : 0;
-            
-            return currentSimilarity > bestSimilarity ? current : best;
-          }, null);
-          
-          if (bestMatch && calculateSimilarity(titleLower, bestMatch.title.toLowerCase()) > 0.6) {
-            // Check cache for existing OpenAI data
-            const cachedBook = await storage.findBookInCache(bestMatch.title, bestMatch.author);
-            
-            if (cachedBook && cachedBook.source === 'openai') {
-              // Use cached OpenAI data if available
-              log(`Using cached OpenAI data for detected book "${bestMatch.title}": rating=${cachedBook.rating}, summary=${cachedBook.summary ? 'yes' : 'no'}`);
-              if (cachedBook.rating) {
-                bestMatch.rating = cachedBook.rating;
-                log(`Applied cached rating to "${bestMatch.title}": ${cachedBook.rating}`);
-              }
-              if (cachedBook.summary) {
-                bestMatch.summary = cachedBook.summary;
-                log(`Applied cached summary to "${bestMatch.title}"`);
-              }
+      stream?.send({ type: 'stage', stage: 'resolving', message: `Looking up ${bookTitles.length} titles`, titleCount: bookTitles.length });
+      
+      // Look up the titles in parallel; titles whose lookup failed or timed out are reported
+      // in failedTitles while the rest of the shelf is still returned
+      const { books: detectedBooks, unresolvedTitles, failedTitles } = await resolveTitles(
+        bookTitles.map(title => ({ title, spine: spinesByTitle.get(title.toLowerCase()) || null })),
+        getTitleResolverOptions({
+          onOutcome: (outcome, processed, total) => {
+            if (outcome.status === 'resolved') {
+              stream?.send({ type: 'book', book: outcome.book, processed, total });
+            } else if (outcome.status === 'unresolved') {
+              stream?.send({ type: 'unresolved', title: outcome.unresolved, processed, total });
             } else {
-              log(`No cached OpenAI data found for "${bestMatch.title}"`);
+              stream?.send({ type: 'progress', processed, total });
             }
-            
-            detectedBooks.push(bestMatch);
           }
-        }
-      }
+        })
+      );
+      
+      // Merge this photo's detections into the session, skipping books seen in earlier photos
+      const photoIndex = scanSessionService.addPhoto(session, {
+        bookTitles,
+        books: detectedBooks,
+        unresolvedTitles
+      });
+      const sessionSummary = scanSessionService.toSummary(session);
+      
+      // Keep the scan in the device's history so it can be re-opened later
+      const placeLabel = typeof req.body?.placeLabel === 'string' ? req.body.placeLabel.trim().slice(0, 100) : '';
+      const scanId = await recordScanDetections(deviceId, session.id, session.books, placeLabel || undefined);
       
       // If no books were detected, provide a helpful message
       if (detectedBooks.length === 0) {
-        return res.status(200).json({
+        return respond({
           books: [], 
           bookTitles,
-          message: "We identified some book titles, but couldn't find detailed information for them. Try taking a clearer photo with better lighting."
+          spines,
+          unresolvedTitles,
+          failedTitles,
+          sessionId: session.id,
+          photoIndex,
+          scanId,
+          session: sessionSummary,
+          preprocessing,
+          message: unresolvedTitles.length > 0
+            ? `We read ${unresolvedTitles.length} titles but couldn't tell exactly which books they are. Pick the right match for each one.`
+            : "We identified some book titles, but couldn't find detailed information for them. Try taking a clearer photo with better lighting."
         });
       }
       
@@ -227,98 +326,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // If no preferences exist, just return the detected books
       if (!preferences) {
-        return res.status(200).json({
+        return respond({
           books: detectedBooks, 
           bookTitles,
+          spines,
+          unresolvedTitles,
+          failedTitles,
+          sessionId: session.id,
+          photoIndex,
+          scanId,
+          session: sessionSummary,
+          preprocessing,
           booksFound: bookTitlesFound,
           message: `Found ${detectedBooks.length} books in your photo: ${bookTitlesFound}. Set preferences to get rankings.`
         });
       }
       
-      // Score and rank ONLY the detected books based on user preferences
-      const rankedBooks = detectedBooks.map(book => {
-        // Initialize match score
-        let matchScore = 0;
-        
-        // Match against preferred genres
-        if (preferences.genres && book.categories) {
-          for (const genre of preferences.genres) {
-            if (book.categories.some((category: string) => 
-              category && category.toLowerCase().includes(genre.toLowerCase()))) {
-              matchScore += 3;
-            }
-          }
-        }
-        
-        // Match against preferred authors
-        if (preferences.authors && book.author) {
-          for (const author of preferences.authors) {
-            if (book.author.toLowerCase().includes(author.toLowerCase())) {
-              matchScore += 5;
-            }
-          }
-        }
-        
-        // Check Goodreads data for highly rated books by same author or genre
-        if (preferences.goodreadsData && Array.isArray(preferences.goodreadsData)) {
-          for (const entry of preferences.goodreadsData) {
-            // Match author from Goodreads
-            if (entry["Author"] && book.author && 
-                entry["Author"].toLowerCase().includes(book.author.toLowerCase())) {
-              matchScore += 2;
-              
-              // Add bonus if it was highly rated
-              if (entry["My Rating"] && parseInt(entry["My Rating"]) >= 4) {
-                matchScore += 3;
-              }
-            }
-            
-            // Exact title match is a strong signal
-            if (entry["Title"] && entry["Title"].toLowerCase() === book.title.toLowerCase()) {
-              const rating = entry["My Rating"] ? parseInt(entry["My Rating"]) : 0;
-              if (rating >= 4) {
-                matchScore += 8; // You already read and liked this book!
-              } else if (rating > 0) {
-                matchScore += rating; // Score based on your rating
-              }
-            }
-            
-            // Match shelf categories from Goodreads
-            if (entry["Bookshelves"] && book.categories) {
-              const shelves = entry["Bookshelves"].split(';').map((s: string) => s.trim().toLowerCase());
-              for (const shelf of shelves) {
-                if (book.categories.some((category: string) => 
-                  category && category.toLowerCase().includes(shelf))) {
-                  matchScore += 1;
-                  
-                  // Add bonus if it was highly rated
-                  if (entry["My Rating"] && parseInt(entry["My Rating"]) >= 4) {
-                    matchScore += 2;
-                  }
-                }
-              }
-            }
-          }
-        }
-        
-        return {
+      stream?.send({ type: 'stage', stage: 'ranking', message: `Ranking ${detectedBooks.length} books` });
+      
+      // Score and rank ONLY the detected books based on user preferences, including how close
+      // each is to the books the user rated highly or saved
+      const similarities = await similarityService.getSimilarities(deviceId, preferences, detectedBooks);
+      const feedback = await loadFeedback(deviceId);
+      const rankedBooks = rankBooks(
+        detectedBooks.map((book, i) => ({ ...book, similarity: similarities[i] })),
+        { ...preferences, feedback },
+        getRankingWeights()
+      )
+        .map(({ score, breakdown, explanation, readTitle, ...book }) => ({
           ...book,
-          matchScore
-        };
-      });
-      
-      // Sort by match score (highest first)
-      rankedBooks.sort((a, b) => b.matchScore - a.matchScore);
+          matchScore: Math.round(score),
+          scoreBreakdown: breakdown,
+          explanation,
+          alreadyRead: !!readTitle
+        }));
       
       // Return the ranked books found in the image
-      return res.status(200).json({
+      return respond({
         books: rankedBooks, 
         bookTitles,
+        spines,
+        unresolvedTitles,
+        failedTitles,
+        sessionId: session.id,
+        photoIndex,
+        scanId,
+        session: sessionSummary,
+        preprocessing,
         booksFound: bookTitlesFound,
         message: `Found ${detectedBooks.length} books in your photo: ${bookTitlesFound}. These have been ranked based on your preferences.`
       });
     } catch (error) {
       log(`Error processing image: ${error instanceof Error ? error.message : String(error)}`);
+      if (stream?.isStarted) {
+        stream.end({ type: 'error', message: 'Error processing image' });
+        return;
+      }
       return res.status(500).json({ 
         message: 'Error processing image',
         error: error instanceof Error ? error.message : String(error)
@@ -326,47 +389,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Helper function to calculate similarity between two strings
-  function calculateSimilarity(str1: string, str2: string): number {
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
+  // Get the merged detections of a multi-photo scan session
+  app.get('/api/scan-sessions/:sessionId', (req: Request, res: Response) => {
+    const deviceId = req.deviceId;
     
-    if (longer.length === 0) {
-      return 1.0;
+    if (!deviceId) {
+      return res.status(400).json({ message: 'Device ID is required' });
     }
     
-    // Calculate Levenshtein distance
-    const distance = levenshteinDistance(longer, shorter);
-    return (longer.length - distance) / longer.length;
-  }
-  
-  // Levenshtein distance calculation for string similarity
-  function levenshteinDistance(str1: string, str2: string): number {
-    const matrix: number[][] = [];
+    const session = scanSessionService.getSession(req.params.sessionId, deviceId);
     
-    // Initialize the matrix
-    for (let i = 0; i <= str1.length; i++) {
-      matrix[i] = [i];
+    if (!session) {
+      return res.status(404).json({ message: 'Scan session not found or expired' });
     }
     
-    for (let j = 0; j <= str2.length; j++) {
-      matrix[0][j] = j;
+    res.json(scanSessionService.toSummary(session));
+  });
+  
+  // Discard a scan session so the next photo starts a new one
+  app.delete('/api/scan-sessions/:sessionId', (req: Request, res: Response) => {
+    const deviceId = req.deviceId;
+    
+    if (!deviceId) {
+      return res.status(400).json({ message: 'Device ID is required' });
     }
     
-    // Fill the matrix
-    for (let i = 1; i <= str1.length; i++) {
-      for (let j = 1; j <= str2.length; j++) {
-        const cost = str1.charAt(i - 1) === str2.charAt(j - 1) ? 0 : 1;
-        matrix[i][j] = Math.min(
-          matrix[i - 1][j] + 1,      // deletion
-          matrix[i][j - 1] + 1,      // insertion
-          matrix[i - 1][j - 1] + cost  // substitution
-        );
-      }
+    if (!scanSessionService.deleteSession(req.params.sessionId, deviceId)) {
+      return res.status(404).json({ message: 'Scan session not found or expired' });
     }
     
-    return matrix[str1.length][str2.length];
-  }
+    res.status(204).end();
+  });
 
   // Save user preferences
   app.post('/api/preferences', async (req: Request, res: Response) => {
@@ -501,197 +554,93 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: 'Preferences not found' });
       }
       
-      // IMPORTANT: Only use books from the current image - no longer using stored books
+      // IMPORTANT: Only use books from the current scan - no longer using stored books
+      // Either the books are sent directly, or the merged set of a multi-photo scan session is used
       let books = req.body.books || [];
       
+      if ((!books || books.length === 0) && typeof req.body.sessionId === 'string') {
+        const session = scanSessionService.getSession(req.body.sessionId, deviceId);
+        if (!session) {
+          return res.status(404).json({ message: 'Scan session not found or expired' });
+        }
+        books = session.books.map(book => ({ ...book }));
+      }
+      
       if (!books || books.length === 0) {
         return res.status(400).json({ message: 'No books provided in the current image' });
       }
       
-      log(`Processing ${books.length} books from current image`, 'books');
+      log(`Processing ${books.length} books from current scan`, 'books');
       
-      // Process books: First check cache, then get OpenAI data if needed, and store in cache
-      books = await Promise.all(books.map(async (book: any) => {
-        log(`Processing book: "${book.title}" by ${book.author}`);
-        
-        // First check if we have this book in cache with OpenAI data
-        const cachedBook = await storage.findBookInCache(book.title, book.author);
-        
-        if (cachedBook && cachedBook.source === 'openai') {
-          // We have cache hit - use cached data
-          log(`Using cached OpenAI data for book "${book.title}"`);
-          
-          // Apply cached rating if available
-          if (cachedBook.rating) {
-            book.rating = cachedBook.rating;
-            log(`Using cached OpenAI rating for book "${book.title}": ${cachedBook.rating}`);
-          }
-          
-          // Apply cached summary if available
-          if (cachedBook.summary) {
-            book.summary = cachedBook.summary;
-            log(`Using cached OpenAI summary for book "${book.title}"`);
-          }
-        }
-        
-        // If rating is still missing, get fresh rating from OpenAI
-        if (!book.rating) {
-          try {
-            const rating = await bookCacheService.getEnhancedRating(book.title, book.author, book.isbn);
-            if (rating) {
-              book.rating = rating;
-              log(`Got fresh OpenAI rating for book "${book.title}": ${rating}`);
-            }
-          } catch (error) {
-            log(`Error getting OpenAI rating for book "${book.title}": ${error instanceof Error ? error.message : String(error)}`);
-            book.rating = '';  // Leave empty rather than using fallbacks
-          }
-        }
-        
-        // If summary is missing or too short, get fresh summary from OpenAI
-        if (!book.summary || book.summary.length < 100) {
-          try {
-            const summary = await bookCacheService.getEnhancedSummary(book.title, book.author);
-            if (summary) {
-              book.summary = summary;
-              log(`Got fresh OpenAI summary for book "${book.title}"`);
-            }
-          } catch (error) {
-            log(`Error getting OpenAI summary for book "${book.title}": ${error instanceof Error ? error.message : String(error)}`);
-            book.summary = '';  // Leave empty rather than using fallbacks
-          }
-        }
-        
-        // Ensure everything we got from OpenAI is cached for future use
-        try {
-          if (book.rating || book.summary) {
-            const bookId = book.isbn || `${book.title}-${book.author}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
-            await storage.cacheBook({
-              title: book.title,
-              author: book.author,
-              isbn: book.isbn || null,
-              coverUrl: book.coverUrl || null,
-              rating: book.rating || null,
-              summary: book.summary || null,
-              source: 'openai',
-              bookId,
-              metadata: {
-                publisher: book.publisher || null,
-                categories: book.categories || null
-              },
-              expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000) // 365 days cache
-            });
-            log(`Cached OpenAI data for book "${book.title}"`);
-          }
-        } catch (cacheError) {
-          log(`Error caching book data for "${book.title}": ${cacheError instanceof Error ? cacheError.message : String(cacheError)}`);
-        }
-        
-        return book;
+      // Rate and summarize every book in as few OpenAI calls as possible; cached data is used first
+      // and fresh results are stored in the book cache
+      const bookEnrichments = await bookCacheService.enrichBooks(books, { deviceId });
+      books = books.map((book: any, i: number) => ({
+        ...book,
+        rating: bookEnrichments[i].rating || '',
+        summary: bookEnrichments[i].summary || '',
+        categories: book.categories || bookEnrichments[i].categories
       }));
-      
-      // Generate recommendations
-      const recommendationsData = await getRecommendations(books, preferences);
+      log(`Enriched ${books.length} books (${bookEnrichments.filter(e => e.source === 'openai').length} from OpenAI)`, 'books');
+      
+      // Generate recommendations, ranking books closer to the user's taste higher and taking
+      // the user's feedback on earlier recommendations into account; `diversity` in the body
+      // ({ maxPerAuthor, maxPerSeries, wildcard }) keeps the top picks varied
+      const similarities = await similarityService.getSimilarities(deviceId, preferences, books);
+      books = books.map((book: any, i: number) => ({ ...book, similarity: similarities[i] }));
+      const feedback = await loadFeedback(deviceId);
+      const recommendationsData = await getRecommendations(
+        books,
+        preferences ? { ...preferences, feedback } : { feedback },
+        parseDiversityOptions(req.body.diversity)
+      );
       
       // Determine if we're using OpenAI or fallback algorithm for recommendations
       const isUsingOpenAI = recommendationsData.some(rec => rec.matchReason && rec.matchReason.length > 0);
       log(`Using ${isUsingOpenAI ? 'OpenAI' : 'fallback algorithm'} for recommendations`, 'recommendations');
       
-      // Enhance each recommendation with OpenAI data and cache it for future use
-      const enhancedRecommendations = await Promise.all(recommendationsData.map(async (recommendation: any) => {
-        // If this is a fallback recommendation without a match reason, add a fallback explanation
-        if (!isUsingOpenAI && (!recommendation.matchReason || recommendation.matchReason.length === 0)) {
-          recommendation.matchReason = "using fallback algo";
-        }
-        log(`Enhancing recommendation: "${recommendation.title}" by ${recommendation.author}`);
-        
-        // First check if we have this recommendation in cache
-        const cachedBook = await storage.findBookInCache(recommendation.title, recommendation.author);
-        
-        if (cachedBook && cachedBook.source === 'openai') {
-          // Use cached OpenAI data if available
-          log(`Using cached OpenAI data for recommendation "${recommendation.title}"`);
-          
-          // Use cached rating
-          if (cachedBook.rating) {
-            recommendation.rating = cachedBook.rating;
-            log(`Using cached OpenAI rating for recommendation "${recommendation.title}": ${cachedBook.rating}`);
-          }
-          
-          // Use cached summary
-          if (cachedBook.summary) {
-            recommendation.summary = cachedBook.summary;
-            log(`Using cached OpenAI summary for recommendation "${recommendation.title}"`);
-          }
-        }
-        
-        // If we still don't have a rating, get it from OpenAI
-        if (!recommendation.rating || recommendation.rating === "0") {
-          try {
-            const rating = await bookCacheService.getEnhancedRating(recommendation.title, recommendation.author);
-            if (rating) {
-              recommendation.rating = rating;
-              log(`Got fresh OpenAI rating for recommendation "${recommendation.title}": ${rating}`);
-            }
-          } catch (error) {
-            log(`Error getting OpenAI rating for recommendation "${recommendation.title}": ${error instanceof Error ? error.message : String(error)}`);
-          }
-        }
-        
-        // If summary is missing or too short, get it from OpenAI
-        if (!recommendation.summary || recommendation.summary.length < 100) {
-          try {
-            const summary = await bookCacheService.getEnhancedSummary(recommendation.title, recommendation.author);
-            if (summary) {
-              recommendation.summary = summary;
-              log(`Got fresh OpenAI summary for recommendation "${recommendation.title}"`);
-            }
-          } catch (error) {
-            log(`Error getting OpenAI summary for recommendation "${recommendation.title}": ${error instanceof Error ? error.message : String(error)}`);
+      // Recommendations ranked without OpenAI have no match reason; give them the evidence of
+      // the factor that raised their score most
+      if (!isUsingOpenAI) {
+        recommendationsData.forEach(recommendation => {
+          if (!recommendation.matchReason && recommendation.explanation) {
+            recommendation.matchReason = summarizeExplanation(recommendation.explanation);
           }
-        }
+        });
+      }
+      
+      // Enrich the recommendations the same way; most are usually cached by now
+      const recommendationEnrichments = await bookCacheService.enrichBooks(
+        recommendationsData.map(recommendation => ({
+          title: recommendation.title,
+          author: recommendation.author,
+          isbn: recommendation.isbn,
+          rating: recommendation.rating && recommendation.rating !== "0" ? recommendation.rating : undefined,
+          summary: recommendation.summary
+        })),
+        { deviceId }
+      );
+      
+      const enhancedRecommendations = await Promise.all(recommendationsData.map(async (recommendation, i) => {
+        recommendation.rating = recommendationEnrichments[i].rating || recommendation.rating;
+        recommendation.summary = recommendationEnrichments[i].summary || recommendation.summary;
         
-        // Only cache if we don't already have this book in the cache
-        // or if we got fresh data from OpenAI that needs to be stored
-        try {
-          // We only need to update the cache if we got fresh data or the book wasn't in cache
-          const needsCaching = (!cachedBook) || 
-                              (cachedBook && (
-                                (recommendation.rating && recommendation.rating !== cachedBook.rating) || 
-                                (recommendation.summary && recommendation.summary !== cachedBook.summary)
-                              ));
-          
-          if (needsCaching && (recommendation.rating || recommendation.summary)) {
-            const bookId = recommendation.isbn || 
-              `${recommendation.title}-${recommendation.author}`.toLowerCase().replace(/[^a-z0-9]/g, '-');
-            
-            await storage.cacheBook({
-              title: recommendation.title,
-              author: recommendation.author,
-              isbn: recommendation.isbn || null,
-              coverUrl: recommendation.coverUrl || null,
-              rating: recommendation.rating || null,
-              summary: recommendation.summary || null,
-              source: 'openai',
-              bookId, // Add required bookId field
-              metadata: {
-                publisher: recommendation.publisher || null,
-                categories: recommendation.categories || null
-              },
-              expiresAt: new Date(Date.now() + 365 * 24 * 60 * 60 * 1000) // 365 days cache
-            });
-            log(`Cached OpenAI data for recommendation "${recommendation.title}" - ${needsCaching ? "new or updated data" : "already in cache"}`);
-          } else {
-            log(`Skipping cache for "${recommendation.title}" - already in cache with same data`);
-          }
-        } catch (cacheError) {
-          log(`Error caching recommendation data for "${recommendation.title}": ${cacheError instanceof Error ? cacheError.message : String(cacheError)}`);
+        // Identify the work so clients can recognize the same book across editions; only cache
+        // writes create works, so this stays a read
+        const resolved = await storage.findWork(recommendation);
+        if (resolved) {
+          recommendation.workId = resolved.work.id;
         }
         
         return recommendation;
       }));
       
-      // Return recommendations directly without storing in database
+      // Recommendations aren't stored on their own, but a scan from the history keeps a copy
+      const scanId = parseScanId(req.body.scanId);
+      if (scanId) {
+        await recordScanRecommendations(deviceId, scanId, enhancedRecommendations);
+      }
+      
       log(`Returning ${enhancedRecommendations.length} recommendations directly to client`);
       return res.status(200).json(enhancedRecommendations);
     } catch (error) {
@@ -703,15 +652,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Get user recommendations - IMPROVED to work with ephemeral recommendations
+  // Get user recommendations - recommendations are generated on demand, so this returns
+  // the ones kept with the device's most recent scan, if any
   app.get('/api/recommendations', async (req: Request, res: Response) => {
     try {
-      // Since recommendations are now ephemeral and generated on-demand,
-      // we need to inform the client that they should use the POST endpoint
-      log('GET /api/recommendations requested, but recommendations are now ephemeral');
+      const deviceId = req.deviceId;
+      const latestScan = deviceId
+        ? (await storage.getScansByDeviceId(deviceId)).find(scan => Array.isArray(scan.recommendations) && scan.recommendations.length > 0)
+        : undefined;
+      
+      if (latestScan) {
+        return res.status(200).json({
+          scanId: latestScan.id,
+          createdAt: latestScan.createdAt,
+          recommendations: latestScan.recommendations
+        });
+      }
+      
+      log('GET /api/recommendations requested, but no past scan has recommendations');
       
       return res.status(200).json({ 
-        message: 'Recommendations are now generated on-demand and not stored. Please use POST /api/recommendations with your detected books to get recommendations.',
+        message: 'Recommendations are generated on-demand. Please use POST /api/recommendations with your detected books to get recommendations.',
         recommendations: [] 
       });
     } catch (error) {
@@ -723,6 +684,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Scan History API Endpoints
+  
+  // List past scans for a device, newest first
+  app.get('/api/scans', async (req: Request, res: Response) => {
+    try {
+      const deviceId = req.deviceId;
+      
+      if (!deviceId) {
+        return res.status(400).json({ message: 'Device ID is required' });
+      }
+      
+      const deviceScans = await storage.getScansByDeviceId(deviceId);
+      res.json(deviceScans.map(toScanListItem));
+    } catch (error) {
+      log(`Error listing scans: ${error instanceof Error ? error.message : String(error)}`, 'scan-history');
+      res.status(500).json({ message: 'Error retrieving scan history' });
+    }
+  });
+  
+  // Get a past scan with its detected books and stored recommendations
+  app.get('/api/scans/:id', async (req: Request, res: Response) => {
+    try {
+      const deviceId = req.deviceId;
+      const scanId = parseScanId(req.params.id);
+      
+      if (!deviceId) {
+        return res.status(400).json({ message: 'Device ID is required' });
+      }
+      if (!scanId) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      const scan = await storage.getScan(scanId, deviceId);
+      
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      res.json(scan);
+    } catch (error) {
+      log(`Error getting scan: ${error instanceof Error ? error.message : String(error)}`, 'scan-history');
+      res.status(500).json({ message: 'Error retrieving scan' });
+    }
+  });
+  
+  // Rename a past scan's place label
+  app.patch('/api/scans/:id', async (req: Request, res: Response) => {
+    try {
+      const deviceId = req.deviceId;
+      const scanId = parseScanId(req.params.id);
+      
+      if (!deviceId) {
+        return res.status(400).json({ message: 'Device ID is required' });
+      }
+      if (!scanId) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      if (req.body.placeLabel !== null && typeof req.body.placeLabel !== 'string') {
+        return res.status(400).json({ message: 'placeLabel must be a string or null' });
+      }
+      
+      const placeLabel = req.body.placeLabel ? req.body.placeLabel.trim().slice(0, 100) : null;
+      const scan = await storage.updateScan(scanId, deviceId, { placeLabel: placeLabel || null });
+      
+      if (!scan) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      res.json(toScanListItem(scan));
+    } catch (error) {
+      log(`Error updating scan: ${error instanceof Error ? error.message : String(error)}`, 'scan-history');
+      res.status(500).json({ message: 'Error updating scan' });
+    }
+  });
+  
+  // Delete a past scan
+  app.delete('/api/scans/:id', async (req: Request, res: Response) => {
+    try {
+      const deviceId = req.deviceId;
+      const scanId = parseScanId(req.params.id);
+      
+      if (!deviceId) {
+        return res.status(400).json({ message: 'Device ID is required' });
+      }
+      if (!scanId) {
+        return res.status(400).json({ message: 'Invalid scan ID' });
+      }
+      
+      if (!(await storage.deleteScan(scanId, deviceId))) {
+        return res.status(404).json({ message: 'Scan not found' });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      log(`Error deleting scan: ${error instanceof Error ? error.message : String(error)}`, 'scan-history');
+      res.status(500).json({ message: 'Error deleting scan' });
+    }
+  });
+  
   // Saved Books API Endpoints
   
   // Get saved books for a device
@@ -755,6 +815,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 // Keep the saved book ID but use latest cache data for content
                 return {
                   ...book,
+                  workId: book.workId ?? cacheEntry.workId,
                   // Use cache data if available, otherwise fallback to saved data
                   coverUrl: cacheEntry.coverUrl || book.coverUrl,
                   rating: cacheEntry.rating || book.rating,
@@ -802,7 +863,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       log(`Saving book: "${title}" by ${author}`);
       
       // First, check if book exists in cache or create it if not
-      let bookCacheEntry = await storage.findBookInCache(title, author);
+      const cacheMatch = await storage.findBookInCache(title, author);
+      let bookCacheEntry: BookCache | undefined = isConfidentCacheMatch(cacheMatch) ? cacheMatch : undefined;
       
       // If not in cache, add it to cache first
       if (!bookCacheEntry) {
@@ -840,7 +902,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         coverUrl: coverUrl || bookCacheEntry.coverUrl,
         rating: rating || bookCacheEntry.rating,
         summary: summary || bookCacheEntry.summary,
-        bookCacheId: bookCacheEntry.id
+        bookCacheId: bookCacheEntry.id,
+        workId: bookCacheEntry.workId
       };
       
       // Validate book data
@@ -887,6 +950,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get the feedback this device gave on recommendations, newest first
+  app.get('/api/feedback', async (req: Request, res: Response) => {
+    try {
+      const deviceId = req.deviceId;
+      
+      if (!deviceId) {
+        return res.status(400).json({ message: 'Device ID is required' });
+      }
+      
+      const feedback = await storage.getFeedbackByDeviceId(deviceId);
+      return res.status(200).json(feedback);
+    } catch (error) {
+      log(`Error getting feedback: ${error instanceof Error ? error.message : String(error)}`, 'feedback');
+      return res.status(500).json({ 
+        message: 'Error getting feedback',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  
+  // Mark a book as not interesting or as already read (liked or not); replaces earlier
+  // feedback on the same work
+  app.post('/api/feedback', async (req: Request, res: Response) => {
+    try {
+      const deviceId = req.deviceId;
+      
+      if (!deviceId) {
+        return res.status(400).json({ message: 'Device ID is required' });
+      }
+      
+      const { title, author, type } = req.body;
+      
+      if (!title || !author) {
+        return res.status(400).json({ message: 'Book title and author are required' });
+      }
+      
+      // Validate request body
+      const validatedData = insertBookFeedbackSchema.parse({
+        deviceId,
+        workKey: buildWorkKey(title, author),
+        title,
+        author,
+        type
+      });
+      
+      const feedback = await storage.saveFeedback(validatedData);
+      log(`Saved ${feedback.type} feedback on "${title}" by ${author}`, 'feedback');
+      return res.status(201).json(feedback);
+    } catch (error) {
+      log(`Error saving feedback: ${error instanceof Error ? error.message : String(error)}`, 'feedback');
+      return res.status(400).json({ 
+        message: 'Error saving feedback',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  
+  // Remove one piece of feedback
+  app.delete('/api/feedback/:id', async (req: Request, res: Response) => {
+    try {
+      const deviceId = req.deviceId;
+      
+      if (!deviceId) {
+        return res.status(400).json({ message: 'Device ID is required' });
+      }
+      
+      const id = parseInt(req.params.id);
+      
+      if (isNaN(id)) {
+        return res.status(400).json({ message: 'Invalid feedback ID' });
+      }
+      
+      const deleted = await storage.deleteFeedback(id, deviceId);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: 'Feedback not found' });
+      }
+      
+      return res.status(200).json({ message: 'Feedback deleted successfully' });
+    } catch (error) {
+      log(`Error deleting feedback: ${error instanceof Error ? error.message : String(error)}`, 'feedback');
+      return res.status(500).json({ 
+        message: 'Error deleting feedback',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+  
   // Keep the /api/stats endpoint as it might be used internally for monitoring
   app.get('/api/stats', async (req: Request, res: Response) => {
     try {
@@ -1045,7 +1196,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-
+  // In-memory cache hit and miss counts, for the admin page
+  app.get('/api/admin/cache-metrics', (req: Request, res: Response) => {
+    return res.status(200).json({ timestamp: new Date().toISOString(), ...getCacheMetrics() });
+  });
+  
+  // Scheduled jobs and their recent runs, for the admin page
+  app.get('/api/admin/job-runs', async (req: Request, res: Response) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const runs = await storage.getRecentJobRuns(limit);
+      const jobs = getRegisteredJobs().map(({ name, description, schedule }) => ({ name, description, schedule }));
+      
+      return res.status(200).json({ jobs, runs, schedulerEnabled: isSchedulerEnabled() });
+    } catch (error) {
+      log(`Error getting job runs: ${error instanceof Error ? error.message : String(error)}`, 'jobs');
+      return res.status(500).json({ message: 'Error getting job runs' });
+    }
+  });
+  
+  // Run a scheduled job; called by cron with the CRON_SECRET bearer token
+  app.get('/api/cron/:job', async (req: Request, res: Response) => {
+    if (!isAuthorizedCronRequest(req.headers.authorization)) {
+      return res.status(401).json({ message: 'Unauthorized' });
+    }
+    
+    if (!getRegisteredJobs().some(job => job.name === req.params.job)) {
+      return res.status(404).json({ message: 'Unknown job' });
+    }
+    
+    const run = await runJob(req.params.job, 'cron');
+    if (!run) {
+      return res.status(409).json({ message: 'Job is already running or its run could not be recorded' });
+    }
+    
+    return res.status(run.status === 'success' ? 200 : 500).json(run);
+  });
   
   // Test endpoint for OpenAI-powered recommendations
   app.post('/api/test/ai-recommendations', async (req: Request, res: Response) => {
@@ -0,0 +1,82 @@
+import { storage } from './storage.js';
+import { log } from './simple-logger.js';
+import type { Scan } from '../shared/schema.js';
+
+/**
+ * Scan history - keeps each analyzed shelf and its recommendations per device
+ * Saving history is best effort: failures are logged and never fail the scan itself.
+ */
+
+/**
+ * Save the current detections of a scan session, creating its history row on the first photo
+ * @returns The scan ID, or null if it couldn't be saved
+ */
+export async function recordScanDetections(
+  deviceId: string,
+  sessionId: string,
+  detectedBooks: unknown[],
+  placeLabel?: string
+): Promise<number | null> {
+  try {
+    const existing = await storage.findScanBySessionId(deviceId, sessionId);
+
+    if (existing) {
+      const updated = await storage.updateScan(existing.id, deviceId, {
+        detectedBooks,
+        ...(placeLabel ? { placeLabel } : {})
+      });
+      return updated ? updated.id : existing.id;
+    }
+
+    const scan = await storage.createScan({
+      deviceId,
+      sessionId,
+      placeLabel: placeLabel || null,
+      detectedBooks
+    });
+    log(`Recorded scan ${scan.id} for session ${sessionId}`, 'scan-history');
+    return scan.id;
+  } catch (error) {
+    log(`Error recording scan detections: ${error instanceof Error ? error.message : String(error)}`, 'scan-history');
+    return null;
+  }
+}
+
+/**
+ * Attach generated recommendations to a scan so it can be re-opened later
+ */
+export async function recordScanRecommendations(deviceId: string, scanId: number, recommendations: unknown[]): Promise<void> {
+  try {
+    const updated = await storage.updateScan(scanId, deviceId, { recommendations });
+    if (!updated) {
+      log(`Scan ${scanId} not found for device, recommendations not recorded`, 'scan-history');
+    }
+  } catch (error) {
+    log(`Error recording scan recommendations: ${error instanceof Error ? error.message : String(error)}`, 'scan-history');
+  }
+}
+
+/**
+ * Read a scan ID from a request body field, accepting numbers or numeric strings
+ */
+export function parseScanId(value: unknown): number | null {
+  const id = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof id === 'number' && Number.isInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * Compact form of a scan for the history list
+ */
+export function toScanListItem(scan: Scan) {
+  const books = Array.isArray(scan.detectedBooks) ? scan.detectedBooks as { coverUrl?: string }[] : [];
+  const recommendations = Array.isArray(scan.recommendations) ? scan.recommendations : [];
+
+  return {
+    id: scan.id,
+    placeLabel: scan.placeLabel,
+    createdAt: scan.createdAt,
+    bookCount: books.length,
+    recommendationCount: recommendations.length,
+    coverUrls: books.map(book => book.coverUrl).filter(Boolean).slice(0, 4)
+  };
+}
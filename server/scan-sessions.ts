@@ -0,0 +1,236 @@
+import { randomUUID } from 'crypto';
+import { log } from './simple-logger.js';
+import { storage } from './storage.js';
+import { isSameBook, normalizeText } from './utils/title-matching.js';
+import type { SpineDetection } from '../shared/schema.js';
+
+// Sessions are dropped after this long without a new photo
+const SESSION_TTL = 2 * 60 * 60 * 1000; // 2 hours
+
+// Upper bound on photos per session to keep a runaway client from growing memory
+const MAX_PHOTOS_PER_SESSION = 20;
+
+/**
+ * A book detected in one of the session's photos
+ */
+export interface SessionBook {
+  title: string;
+  author: string;
+  isbn?: string;
+  spine?: SpineDetection | null;
+  [key: string]: unknown;
+}
+
+/**
+ * A title that couldn't be resolved to a single book
+ */
+export interface SessionUnresolvedTitle {
+  title: string;
+  author?: string | null;
+  spine?: SpineDetection | null;
+  ambiguous: boolean;
+  candidates: unknown[];
+}
+
+/**
+ * Detections from every photo uploaded for one bookcase, merged and deduplicated
+ */
+export interface ScanSession {
+  id: string;
+  deviceId: string;
+  photoCount: number;
+  bookTitles: string[];
+  books: SessionBook[];
+  unresolvedTitles: SessionUnresolvedTitle[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Detections from a single analyzed photo
+ */
+export interface PhotoDetections {
+  bookTitles: string[];
+  books: SessionBook[];
+  unresolvedTitles: SessionUnresolvedTitle[];
+}
+
+/**
+ * Scan Session Service - Lets several shelf photos build up one set of detected books
+ * Sessions live in memory; they only need to outlast a single scanning sitting. Serverless
+ * handlers, whose memory is gone after each request, also save them with saveSession.
+ */
+export class ScanSessionService {
+  private sessions = new Map<string, ScanSession>();
+
+  /**
+   * Start a new, empty session for a device
+   */
+  createSession(deviceId: string): ScanSession {
+    this.removeExpired();
+
+    const now = Date.now();
+    const session: ScanSession = {
+      id: randomUUID(),
+      deviceId,
+      photoCount: 0,
+      bookTitles: [],
+      books: [],
+      unresolvedTitles: [],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.sessions.set(session.id, session);
+    log(`Created scan session ${session.id}`, 'scan-session');
+    return session;
+  }
+
+  /**
+   * Get a live session; sessions belonging to another device are treated as missing
+   */
+  getSession(sessionId: string, deviceId: string): ScanSession | undefined {
+    const session = this.sessions.get(sessionId);
+
+    if (!session || session.deviceId !== deviceId) {
+      return undefined;
+    }
+
+    if (Date.now() - session.updatedAt > SESSION_TTL) {
+      this.sessions.delete(sessionId);
+      return undefined;
+    }
+
+    return session;
+  }
+
+  /**
+   * Get a session from memory, or from the database when this process hasn't seen it
+   */
+  async loadSession(sessionId: string, deviceId: string): Promise<ScanSession | undefined> {
+    const live = this.getSession(sessionId, deviceId);
+    if (live) {
+      return live;
+    }
+
+    try {
+      const record = await storage.getScanSession(sessionId, deviceId);
+      if (!record) {
+        return undefined;
+      }
+
+      this.sessions.set(sessionId, { ...(record.state as ScanSession), id: record.id, deviceId: record.deviceId });
+      return this.getSession(sessionId, deviceId);
+    } catch (error) {
+      log(`Error loading scan session ${sessionId}: ${error instanceof Error ? error.message : String(error)}`, 'scan-session');
+      return undefined;
+    }
+  }
+
+  /**
+   * Save a session so loadSession finds it from another process, removing the device's
+   * expired sessions; failures are logged and leave the session in memory only
+   */
+  async saveSession(session: ScanSession): Promise<void> {
+    try {
+      await storage.saveScanSession({ id: session.id, deviceId: session.deviceId, state: session });
+      await storage.deleteScanSessionsUpdatedBefore(session.deviceId, new Date(Date.now() - SESSION_TTL));
+    } catch (error) {
+      log(`Error saving scan session ${session.id}: ${error instanceof Error ? error.message : String(error)}`, 'scan-session');
+    }
+  }
+
+  /**
+   * Whether another photo can still be added to the session
+   */
+  canAddPhoto(session: ScanSession): boolean {
+    return session.photoCount < MAX_PHOTOS_PER_SESSION;
+  }
+
+  /**
+   * Merge one photo's detections into the session
+   * Books already seen in an earlier photo (same ISBN, or same normalized title and author)
+   * are skipped, and a title resolved in this photo clears any earlier unresolved entry for it.
+   * @returns The index assigned to the photo within the session
+   */
+  addPhoto(session: ScanSession, detections: PhotoDetections): number {
+    const photoIndex = session.photoCount;
+    const withPhoto = (spine?: SpineDetection | null) => spine ? { ...spine, photoIndex } : spine;
+
+    let added = 0;
+    for (const book of detections.books) {
+      if (session.books.some(existing => isSameBook(existing, book))) {
+        continue;
+      }
+      session.books.push({ ...book, spine: withPhoto(book.spine) });
+      added++;
+    }
+
+    const seenTitles = new Set(session.bookTitles.map(title => normalizeText(title)));
+    for (const title of detections.bookTitles) {
+      const key = normalizeText(title);
+      if (!seenTitles.has(key)) {
+        seenTitles.add(key);
+        session.bookTitles.push(title);
+      }
+    }
+
+    const resolvedTitles = new Set(session.books
+      .map(book => typeof book.detectedFrom === 'string' ? normalizeText(book.detectedFrom) : '')
+      .filter(Boolean));
+    const unresolvedTitles = new Set<string>();
+    session.unresolvedTitles = [
+      ...session.unresolvedTitles,
+      ...detections.unresolvedTitles.map(unresolved => ({ ...unresolved, spine: withPhoto(unresolved.spine) }))
+    ].filter(unresolved => {
+      const key = normalizeText(unresolved.title);
+      if (resolvedTitles.has(key) || unresolvedTitles.has(key)) {
+        return false;
+      }
+      unresolvedTitles.add(key);
+      return true;
+    });
+
+    session.photoCount++;
+    session.updatedAt = Date.now();
+
+    log(`Scan session ${session.id}: photo ${photoIndex + 1} added ${added} new books (${detections.books.length - added} duplicates), ${session.books.length} total`, 'scan-session');
+    return photoIndex;
+  }
+
+  /**
+   * The merged view of a session returned to clients
+   */
+  toSummary(session: ScanSession) {
+    return {
+      id: session.id,
+      photoCount: session.photoCount,
+      bookTitles: session.bookTitles,
+      books: session.books,
+      unresolvedTitles: session.unresolvedTitles
+    };
+  }
+
+  /**
+   * Discard a session
+   * @returns true if the session existed
+   */
+  deleteSession(sessionId: string, deviceId: string): boolean {
+    if (!this.getSession(sessionId, deviceId)) {
+      return false;
+    }
+    return this.sessions.delete(sessionId);
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, id) => {
+      if (now - session.updatedAt > SESSION_TTL) {
+        this.sessions.delete(id);
+      }
+    });
+  }
+}
+
+// Create a singleton instance
+export const scanSessionService = new ScanSessionService();
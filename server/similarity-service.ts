@@ -0,0 +1,146 @@
+import { log } from './simple-logger.js';
+import { storage } from './storage.js';
+import { buildWorkKey } from './utils/work-identity.js';
+import {
+  buildTasteVector,
+  cosineSimilarity,
+  getEmbeddingText,
+  getTasteSources,
+  getTextHash,
+  type EmbeddableBook
+} from './utils/embeddings.js';
+import {
+  getEmbeddingProvider,
+  getFallbackEmbeddingProvider,
+  type EmbeddingProvider
+} from './embedding-provider.js';
+
+export interface SimilarityPreferences {
+  goodreadsData?: unknown;
+}
+
+/**
+ * Similarity between shelf books and a device's reading history
+ */
+export class SimilarityService {
+  /**
+   * Embeddings for the given books, in the same order
+   * Vectors are kept in the database per work and model and made again only when a book's text
+   * changes; the database is skipped when it can't be reached.
+   */
+  async getEmbeddings(books: EmbeddableBook[], provider: EmbeddingProvider): Promise<number[][]> {
+    const texts = books.map(getEmbeddingText);
+    if (!provider.cacheable) {
+      return provider.embed(texts);
+    }
+
+    const model = provider.model;
+    const hashes = texts.map(getTextHash);
+    const workKeys = books.map(book => buildWorkKey(book.title, book.author));
+
+    const stored = new Map<string, { textHash: string; embedding: number[] }>();
+    try {
+      const rows = await storage.getBookEmbeddings(Array.from(new Set(workKeys)), model);
+      rows.forEach(row => stored.set(row.workKey, { textHash: row.textHash, embedding: row.embedding }));
+    } catch (error) {
+      log(`Error reading stored embeddings: ${error instanceof Error ? error.message : String(error)}`, 'embeddings');
+    }
+
+    const vectors: Array<number[] | undefined> = workKeys.map((workKey, i) => {
+      const row = stored.get(workKey);
+      return row && row.textHash === hashes[i] ? row.embedding : undefined;
+    });
+
+    // Embed each missing text once, even when a book is listed twice
+    const missing = Array.from(new Set(
+      vectors.map((vector, i) => (vector ? -1 : workKeys.indexOf(workKeys[i]))).filter(i => i >= 0)
+    ));
+    if (missing.length === 0) {
+      return vectors as number[][];
+    }
+
+    const embedded = await provider.embed(missing.map(i => texts[i]));
+    const byWorkKey = new Map(missing.map((index, i) => [workKeys[index], embedded[i]]));
+    log(`Embedded ${missing.length} books with ${model} (${books.length - missing.length} stored)`, 'embeddings');
+
+    try {
+      await storage.saveBookEmbeddings(missing.map((index, i) => ({
+        workKey: workKeys[index],
+        model,
+        textHash: hashes[index],
+        embedding: embedded[i]
+      })));
+    } catch (error) {
+      log(`Error storing embeddings: ${error instanceof Error ? error.message : String(error)}`, 'embeddings');
+    }
+
+    return vectors.map((vector, i) => vector || byWorkKey.get(workKeys[i]) || []);
+  }
+
+  /**
+   * Taste vector of a device: its highly rated Goodreads books and saved books, or null when
+   * there are none
+   */
+  async getTasteVector(deviceId: string, preferences: SimilarityPreferences, provider: EmbeddingProvider): Promise<number[] | null> {
+    let savedBooks: EmbeddableBook[] = [];
+    try {
+      savedBooks = (await storage.getSavedBooksByDeviceId(deviceId))
+        .map(book => ({ title: book.title, author: book.author, summary: book.summary }));
+    } catch (error) {
+      log(`Error reading saved books for taste vector: ${error instanceof Error ? error.message : String(error)}`, 'embeddings');
+    }
+
+    const sources = getTasteSources(preferences.goodreadsData, savedBooks);
+    if (sources.length === 0) {
+      return null;
+    }
+
+    const vectors = await this.getEmbeddings(sources.map(source => source.book), provider);
+    return buildTasteVector(sources.map((source, i) => ({ vector: vectors[i], weight: source.weight })));
+  }
+
+  private async computeSimilarities(
+    deviceId: string,
+    preferences: SimilarityPreferences,
+    books: EmbeddableBook[],
+    provider: EmbeddingProvider
+  ): Promise<Array<number | undefined>> {
+    const taste = await this.getTasteVector(deviceId, preferences, provider);
+    if (!taste) {
+      return books.map(() => undefined);
+    }
+
+    const vectors = await this.getEmbeddings(books, provider);
+    return vectors.map(vector => Math.round(cosineSimilarity(taste, vector) * 1000) / 1000);
+  }
+
+  /**
+   * Cosine similarity of each book to the device's taste vector, in the same order
+   * A book's similarity is undefined when there is no reading history to compare with. If the
+   * embedding provider fails, the local fallback is used instead.
+   */
+  async getSimilarities(
+    deviceId: string,
+    preferences: SimilarityPreferences | null | undefined,
+    books: EmbeddableBook[]
+  ): Promise<Array<number | undefined>> {
+    if (books.length === 0) {
+      return [];
+    }
+
+    let provider: EmbeddingProvider | undefined = getEmbeddingProvider();
+    while (provider) {
+      try {
+        return await this.computeSimilarities(deviceId, preferences || {}, books, provider);
+      } catch (error) {
+        log(`Error computing similarities with ${provider.name}: ${error instanceof Error ? error.message : String(error)}`, 'embeddings');
+        provider = getFallbackEmbeddingProvider(provider);
+      }
+    }
+
+    return books.map(() => undefined);
+  }
+}
+
+// Create a singleton instance
+export const similarityService = new SimilarityService();
@@ -2,11 +2,62 @@ import {
   users, type User, type InsertUser,
   preferences, type Preference, type InsertPreference,
   savedBooks, type SavedBook, type InsertSavedBook,
-  bookCache, type BookCache, type InsertBookCache
+  bookCache, type BookCache, type InsertBookCache,
+  scans, type Scan, type InsertScan,
+  scanSessions, type ScanSessionRecord, type InsertScanSessionRecord,
+  works, type Work,
+  editions, type Edition,
+  jobRuns, type JobRun, type InsertJobRun,
+  bookEmbeddings, type BookEmbedding, type InsertBookEmbedding,
+  bookFeedback, type BookFeedback, type InsertBookFeedback
 } from "../shared/schema.js";
 import { db } from "./db.js";
-import { eq, and, desc, or, sql, gte } from "drizzle-orm";
+import { eq, and, desc, or, sql, gte, lt, inArray } from "drizzle-orm";
 import { log } from "./simple-logger.js";
+import { buildWorkKey, getWorkIdentity, detectEditionFormat } from "./utils/work-identity.js";
+import { normalizeIsbn, isbn10To13, isbn13To10 } from "./utils/metadata-merge.js";
+import { pickCacheMatch, getCacheMatchMinScore, getCandidateTokens } from "./utils/cache-match.js";
+import { bookLookupCache } from "./cache-layer.js";
+
+// A cache entry found by title and author, with how well it matched (0-1)
+export type ScoredBookCache = BookCache & { matchScore: number };
+
+// Rows fetched from the database and scored for each cache lookup
+const MAX_CACHE_CANDIDATES = 25;
+
+// Trigram similarity a title needs to be fetched as a candidate when pg_trgm is installed
+const TRIGRAM_CANDIDATE_SIMILARITY = 0.3;
+
+let trigramSupport: Promise<boolean> | null = null;
+
+/**
+ * Whether the pg_trgm extension is installed; checked once per process
+ */
+function hasTrigramSupport(): Promise<boolean> {
+  if (!trigramSupport) {
+    trigramSupport = db.execute(sql`SELECT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_trgm') AS available`)
+      .then(result => Boolean(result.rows[0]?.available))
+      .catch(() => false);
+  }
+  return trigramSupport;
+}
+
+// What is known about a book when looking up its work
+export interface WorkLookup {
+  title: string;
+  author: string;
+  isbn?: string | null;
+  coverUrl?: string | null;
+  publisher?: string | null;
+  publishedYear?: number | null;
+  pageCount?: number | null;
+}
+
+export interface ResolvedWork {
+  work: Work;
+  // Only known when the book came with an ISBN
+  edition?: Edition;
+}
 
 // Storage interface
 export interface IStorage {
@@ -34,11 +85,44 @@ export interface IStorage {
   deleteSavedBook(id: number): Promise<boolean>;
   
   // Book Cache methods
-  findBookInCache(title: string, author: string): Promise<BookCache | undefined>;
+  findBookInCache(title: string, author: string, minScore?: number): Promise<ScoredBookCache | undefined>;
   findBookByISBN(isbn: string): Promise<BookCache | undefined>;
   getBookCacheById(id: number): Promise<BookCache | undefined>;
   cacheBook(bookData: InsertBookCache): Promise<BookCache>;
   getRecentlyAddedBooks(limit?: number): Promise<BookCache[]>;
+  findBookCacheByWorkKey(workKey: string): Promise<BookCache | undefined>;
+  
+  // Work and edition methods
+  resolveWork(book: WorkLookup): Promise<ResolvedWork | undefined>;
+  findWork(book: WorkLookup): Promise<ResolvedWork | undefined>;
+  getWork(id: number): Promise<Work | undefined>;
+  getEditionsByWorkId(workId: number): Promise<Edition[]>;
+  
+  // Scan history methods
+  getScansByDeviceId(deviceId: string): Promise<Scan[]>;
+  getScan(id: number, deviceId: string): Promise<Scan | undefined>;
+  findScanBySessionId(deviceId: string, sessionId: string): Promise<Scan | undefined>;
+  createScan(scan: InsertScan): Promise<Scan>;
+  updateScan(id: number, deviceId: string, updates: Partial<InsertScan>): Promise<Scan | undefined>;
+  deleteScan(id: number, deviceId: string): Promise<boolean>;
+  
+  // Scan session methods
+  getScanSession(id: string, deviceId: string): Promise<ScanSessionRecord | undefined>;
+  saveScanSession(session: InsertScanSessionRecord): Promise<void>;
+  deleteScanSessionsUpdatedBefore(deviceId: string, before: Date): Promise<number>;
+  
+  // Job run history methods
+  createJobRun(run: InsertJobRun): Promise<JobRun>;
+  getRecentJobRuns(limit?: number): Promise<JobRun[]>;
+  
+  // Embedding methods
+  getBookEmbeddings(workKeys: string[], model: string): Promise<BookEmbedding[]>;
+  saveBookEmbeddings(embeddings: InsertBookEmbedding[]): Promise<void>;
+  
+  // Feedback methods
+  getFeedbackByDeviceId(deviceId: string): Promise<BookFeedback[]>;
+  saveFeedback(feedback: InsertBookFeedback): Promise<BookFeedback>;
+  deleteFeedback(id: number, deviceId: string): Promise<boolean>;
 }
 
 // Database storage implementation
@@ -63,9 +147,9 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Preferences methods
-  async getPreferencesByUserId(userId: number): Promise<Preference | undefined> {
-    const [preference] = await db.select().from(preferences).where(eq(preferences.userId, userId));
-    return preference || undefined;
+  // Preferences are keyed by device and have no user column, so no row belongs to a user id
+  async getPreferencesByUserId(_userId: number): Promise<Preference | undefined> {
+    return undefined;
   }
   
   async getPreferencesByDeviceId(deviceId: string): Promise<Preference | undefined> {
@@ -154,48 +238,39 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Book Cache methods
-  async findBookInCache(title: string, author: string): Promise<BookCache | undefined> {
-    // Normalize inputs for better matching
-    const normalizedTitle = title.toLowerCase().trim();
-    const normalizedAuthor = author.toLowerCase().trim();
+  async findBookInCache(title: string, author: string, minScore = getCacheMatchMinScore()): Promise<ScoredBookCache | undefined> {
+    return bookLookupCache.find(
+      title,
+      author,
+      minScore,
+      () => this.queryBookCache(title, author, minScore),
+      id => this.getBookCacheById(id)
+    );
+  }
 
+  /**
+   * Look a title and author up in book_cache, bypassing the in-memory cache
+   */
+  private async queryBookCache(title: string, author: string, minScore: number): Promise<ScoredBookCache | undefined> {
     try {
-      // Check for both exact and close matches
-      const [exactMatch] = await db.select().from(bookCache).where(
-        and(
-          eq(sql`LOWER(${bookCache.title})`, normalizedTitle),
-          or(
-            eq(sql`LOWER(${bookCache.author})`, normalizedAuthor),
-            sql`LOWER(${bookCache.author}) LIKE ${`%${normalizedAuthor}%`}`,
-            sql`${normalizedAuthor} LIKE CONCAT('%', LOWER(${bookCache.author}), '%')`
-          ),
-          gte(bookCache.expiresAt, new Date()) // Not expired
-        )
-      );
-
-      if (exactMatch) {
-        log(`Cache hit for "${title}" by ${author}`, 'cache');
-        return exactMatch;
+      // Entries linked to the same work match regardless of how the edition spells the title
+      const workMatch = await this.findBookCacheByWorkKey(buildWorkKey(title, author));
+      if (workMatch) {
+        log(`Work cache hit for "${title}" by ${author}`, 'cache');
+        return { ...workMatch, matchScore: 1 };
       }
 
-      // Try partial match if exact match fails
-      const [partialMatch] = await db.select().from(bookCache).where(
-        and(
-          or(
-            sql`LOWER(${bookCache.title}) LIKE ${`%${normalizedTitle}%`}`,
-            sql`${normalizedTitle} LIKE CONCAT('%', LOWER(${bookCache.title}), '%')`
-          ),
-          or(
-            sql`LOWER(${bookCache.author}) LIKE ${`%${normalizedAuthor}%`}`,
-            sql`${normalizedAuthor} LIKE CONCAT('%', LOWER(${bookCache.author}), '%')`
-          ),
-          gte(bookCache.expiresAt, new Date()) // Not expired
-        )
-      ).limit(1);
+      // Otherwise score similar titles against the title and author
+      const candidates = await this.findCacheCandidates(title);
+      const match = pickCacheMatch(
+        { title, author },
+        candidates.map(book => ({ ...book, title: book.title as string, author: book.author as string })),
+        minScore
+      );
 
-      if (partialMatch) {
-        log(`Partial cache hit for "${title}" by ${author}`, 'cache');
-        return partialMatch;
+      if (match) {
+        log(`Cache hit for "${title}" by ${author}: "${match.book.title}" by ${match.book.author} (score ${match.score})`, 'cache');
+        return { ...match.book, matchScore: match.score };
       }
 
       log(`Cache miss for "${title}" by ${author}`, 'cache');
@@ -206,6 +281,42 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Unexpired entries whose titles resemble the given title
+   * Uses trigram similarity when pg_trgm is installed, otherwise the title's distinctive words.
+   * Candidates are only a shortlist; pickCacheMatch decides whether any of them is the book.
+   */
+  private async findCacheCandidates(title: string): Promise<BookCache[]> {
+    const normalizedTitle = title.toLowerCase().trim();
+    const notExpired = gte(bookCache.expiresAt, new Date());
+
+    // The % operator can use the book_cache_title_trgm index; its threshold is set for this
+    // transaction only, and similarity() just orders the rows it found
+    if (await hasTrigramSupport()) {
+      return db.transaction(async tx => {
+        await tx.execute(sql`SELECT set_config('pg_trgm.similarity_threshold', ${String(TRIGRAM_CANDIDATE_SIMILARITY)}, true)`);
+        return tx.select().from(bookCache)
+          .where(and(sql`LOWER(${bookCache.title}) % ${normalizedTitle}`, notExpired))
+          .orderBy(sql`similarity(LOWER(${bookCache.title}), ${normalizedTitle}) DESC`)
+          .limit(MAX_CACHE_CANDIDATES);
+      });
+    }
+
+    const tokens = getCandidateTokens(title);
+    if (tokens.length === 0) {
+      return [];
+    }
+
+    // Titles closest in length first, so a short title isn't crowded out by longer ones containing it
+    return db.select().from(bookCache)
+      .where(and(
+        or(...tokens.map(token => sql`LOWER(${bookCache.title}) LIKE ${`%${token}%`}`)),
+        notExpired
+      ))
+      .orderBy(sql`ABS(LENGTH(${bookCache.title}) - ${normalizedTitle.length})`, desc(bookCache.cachedAt))
+      .limit(MAX_CACHE_CANDIDATES);
+  }
+
   async findBookByISBN(isbn: string): Promise<BookCache | undefined> {
     if (!isbn || isbn.length < 10) {return undefined;}
 
@@ -249,6 +360,9 @@ export class DatabaseStorage implements IStorage {
 
   async cacheBook(bookData: any): Promise<BookCache> {
     try {
+      const resolved = await this.resolveWork(bookData);
+      const workId = resolved?.work.id ?? bookData.workId ?? null;
+
       // Generate a unique bookId from ISBN or title+author
       let bookId = '';
       if (bookData.isbn) {
@@ -264,23 +378,23 @@ export class DatabaseStorage implements IStorage {
       // Ensure source has a default value if not provided
       const source = bookData.source || 'google';
       
-      // Add bookId and ensure source to the data
-      const bookDataWithId = {
-        ...bookData,
-        bookId,
-        source
-      };
-      
-      // Check if book already exists by bookId
-      const [existingBook] = await db.select().from(bookCache).where(eq(bookCache.bookId, bookId));
+      // Check if the work already has an entry, then fall back to the bookId for older entries
+      let existingBook: BookCache | undefined;
+      if (workId) {
+        [existingBook] = await db.select().from(bookCache).where(eq(bookCache.workId, workId)).limit(1);
+      }
+      if (!existingBook) {
+        [existingBook] = await db.select().from(bookCache).where(eq(bookCache.bookId, bookId));
+      }
       
       if (existingBook) {
         // Update the existing book
-        log(`Updating existing cache entry for "${bookData.title}" (ID: ${bookId})`, 'cache');
+        log(`Updating existing cache entry for "${bookData.title}" (ID: ${existingBook.bookId})`, 'cache');
         const [updatedBook] = await db
           .update(bookCache)
           .set({
             isbn: bookData.isbn || existingBook.isbn,
+            workId: workId || existingBook.workId,
             coverUrl: bookData.coverUrl || existingBook.coverUrl,
             rating: bookData.rating || existingBook.rating,
             summary: bookData.summary || existingBook.summary,
@@ -292,15 +406,25 @@ export class DatabaseStorage implements IStorage {
           .where(eq(bookCache.id, existingBook.id))
           .returning();
         
+        bookLookupCache.invalidateEntry(updatedBook.id, updatedBook);
         return updatedBook;
       } else {
-        // Insert new book
+        // Insert new book, keyed by its work when known
+        if (workId) {
+          bookId = `work_${workId}`;
+        }
         log(`Creating new cache entry for "${bookData.title}" (ID: ${bookId})`, 'cache');
         const [book] = await db
           .insert(bookCache)
-          .values(bookDataWithId)
+          .values({
+            ...bookData,
+            bookId,
+            workId,
+            source
+          })
           .returning();
         
+        bookLookupCache.invalidateEntry(book.id, book);
         return book;
       }
     } catch (error) {
@@ -320,6 +444,294 @@ export class DatabaseStorage implements IStorage {
       return [];
     }
   }
+
+  async findBookCacheByWorkKey(workKey: string): Promise<BookCache | undefined> {
+    try {
+      const [row] = await db.select({ book: bookCache })
+        .from(bookCache)
+        .innerJoin(works, eq(bookCache.workId, works.id))
+        .where(and(
+          eq(works.workKey, workKey),
+          gte(bookCache.expiresAt, new Date()) // Not expired
+        ))
+        .orderBy(desc(bookCache.cachedAt))
+        .limit(1);
+      return row?.book;
+    } catch (error) {
+      log(`Error finding book by work: ${error instanceof Error ? error.message : String(error)}`, 'cache');
+      return undefined;
+    }
+  }
+
+  // Work and edition methods
+  async resolveWork(book: WorkLookup): Promise<ResolvedWork | undefined> {
+    const isbn = normalizeIsbn(book.isbn);
+    const isbn13 = isbn && isbn.length === 10 ? isbn10To13(isbn) : isbn;
+    const isbn10 = isbn && isbn.length === 13 ? isbn13To10(isbn) : isbn;
+
+    try {
+      // A known ISBN identifies the work even when this edition spells the title differently
+      if (isbn13) {
+        const [edition] = await db.select().from(editions).where(eq(editions.isbn13, isbn13));
+        if (edition) {
+          const work = await this.getWork(edition.workId);
+          if (work) {
+            return { work, edition };
+          }
+        }
+      }
+
+      const identity = getWorkIdentity(book.title, book.author);
+      if (identity.workKey.startsWith('|')) {
+        return undefined;
+      }
+
+      const [work] = await db
+        .insert(works)
+        .values({
+          workKey: identity.workKey,
+          title: identity.title,
+          authors: identity.authors,
+          series: identity.series || null,
+          seriesPosition: identity.seriesPosition || null
+        })
+        .onConflictDoUpdate({
+          target: works.workKey,
+          set: {
+            series: sql`COALESCE(${works.series}, excluded.series)`,
+            seriesPosition: sql`COALESCE(${works.seriesPosition}, excluded.series_position)`,
+            updatedAt: new Date()
+          }
+        })
+        .returning();
+
+      if (!isbn13) {
+        return { work };
+      }
+
+      let [edition] = await db
+        .insert(editions)
+        .values({
+          workId: work.id,
+          isbn10: isbn10 || null,
+          isbn13,
+          format: detectEditionFormat(book.title) || null,
+          coverUrl: book.coverUrl || null,
+          publisher: book.publisher || null,
+          publishedYear: book.publishedYear || null,
+          pageCount: book.pageCount || null
+        })
+        .onConflictDoNothing()
+        .returning();
+
+      // Another request created the edition (or claimed the ISBN-10) first
+      if (!edition) {
+        [edition] = await db.select().from(editions).where(eq(editions.isbn13, isbn13));
+      }
+
+      return { work, edition };
+    } catch (error) {
+      log(`Error resolving work for "${book.title}": ${error instanceof Error ? error.message : String(error)}`, 'storage');
+      return undefined;
+    }
+  }
+
+  // Read-only counterpart of resolveWork for response paths: finds the work (and edition) a
+  // book belongs to without creating either
+  async findWork(book: WorkLookup): Promise<ResolvedWork | undefined> {
+    const isbn = normalizeIsbn(book.isbn);
+    const isbn13 = isbn && isbn.length === 10 ? isbn10To13(isbn) : isbn;
+
+    try {
+      if (isbn13) {
+        const [edition] = await db.select().from(editions).where(eq(editions.isbn13, isbn13));
+        if (edition) {
+          const work = await this.getWork(edition.workId);
+          if (work) {
+            return { work, edition };
+          }
+        }
+      }
+
+      const identity = getWorkIdentity(book.title, book.author);
+      if (identity.workKey.startsWith('|')) {
+        return undefined;
+      }
+
+      const [work] = await db.select().from(works).where(eq(works.workKey, identity.workKey));
+      return work ? { work } : undefined;
+    } catch (error) {
+      log(`Error finding work for "${book.title}": ${error instanceof Error ? error.message : String(error)}`, 'storage');
+      return undefined;
+    }
+  }
+
+  async getWork(id: number): Promise<Work | undefined> {
+    const [work] = await db.select().from(works).where(eq(works.id, id));
+    return work || undefined;
+  }
+
+  async getEditionsByWorkId(workId: number): Promise<Edition[]> {
+    return db.select().from(editions).where(eq(editions.workId, workId));
+  }
+
+  // Scan history methods
+  async getScansByDeviceId(deviceId: string): Promise<Scan[]> {
+    return db.select()
+      .from(scans)
+      .where(eq(scans.deviceId, deviceId))
+      .orderBy(desc(scans.createdAt));
+  }
+
+  async getScan(id: number, deviceId: string): Promise<Scan | undefined> {
+    const [scan] = await db.select().from(scans).where(
+      and(eq(scans.id, id), eq(scans.deviceId, deviceId))
+    );
+    return scan || undefined;
+  }
+
+  async findScanBySessionId(deviceId: string, sessionId: string): Promise<Scan | undefined> {
+    const [scan] = await db.select().from(scans).where(
+      and(eq(scans.deviceId, deviceId), eq(scans.sessionId, sessionId))
+    );
+    return scan || undefined;
+  }
+
+  async createScan(insertScan: InsertScan): Promise<Scan> {
+    const [scan] = await db
+      .insert(scans)
+      .values(insertScan)
+      .returning();
+    return scan;
+  }
+
+  async updateScan(id: number, deviceId: string, updates: Partial<InsertScan>): Promise<Scan | undefined> {
+    try {
+      const [updatedScan] = await db
+        .update(scans)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(scans.id, id), eq(scans.deviceId, deviceId)))
+        .returning();
+      return updatedScan || undefined;
+    } catch (error) {
+      log(`Error updating scan ${id}: ${error instanceof Error ? error.message : String(error)}`, 'storage');
+      return undefined;
+    }
+  }
+
+  async deleteScan(id: number, deviceId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(scans)
+      .where(and(eq(scans.id, id), eq(scans.deviceId, deviceId)))
+      .returning({ id: scans.id });
+    return deleted.length > 0;
+  }
+
+  // Scan session methods
+  async getScanSession(id: string, deviceId: string): Promise<ScanSessionRecord | undefined> {
+    const [session] = await db.select().from(scanSessions).where(
+      and(eq(scanSessions.id, id), eq(scanSessions.deviceId, deviceId))
+    );
+    return session || undefined;
+  }
+
+  async saveScanSession(session: InsertScanSessionRecord): Promise<void> {
+    await db
+      .insert(scanSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: scanSessions.id,
+        set: {
+          state: sql`excluded.state`,
+          updatedAt: new Date()
+        }
+      });
+  }
+
+  async deleteScanSessionsUpdatedBefore(deviceId: string, before: Date): Promise<number> {
+    const deleted = await db
+      .delete(scanSessions)
+      .where(and(eq(scanSessions.deviceId, deviceId), lt(scanSessions.updatedAt, before)))
+      .returning({ id: scanSessions.id });
+    return deleted.length;
+  }
+
+  // Job run history methods
+  async createJobRun(insertRun: InsertJobRun): Promise<JobRun> {
+    const [run] = await db
+      .insert(jobRuns)
+      .values(insertRun)
+      .returning();
+    return run;
+  }
+
+  async getRecentJobRuns(limit = 50): Promise<JobRun[]> {
+    return db.select()
+      .from(jobRuns)
+      .orderBy(desc(jobRuns.startedAt))
+      .limit(limit);
+  }
+
+  // Embedding methods
+  async getBookEmbeddings(workKeys: string[], model: string): Promise<BookEmbedding[]> {
+    if (workKeys.length === 0) {
+      return [];
+    }
+    return db.select()
+      .from(bookEmbeddings)
+      .where(and(eq(bookEmbeddings.model, model), inArray(bookEmbeddings.workKey, workKeys)));
+  }
+
+  async saveBookEmbeddings(embeddings: InsertBookEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) {
+      return;
+    }
+    await db
+      .insert(bookEmbeddings)
+      .values(embeddings)
+      .onConflictDoUpdate({
+        target: [bookEmbeddings.workKey, bookEmbeddings.model],
+        set: {
+          textHash: sql`excluded.text_hash`,
+          embedding: sql`excluded.embedding`,
+          createdAt: new Date()
+        }
+      });
+  }
+
+  // Feedback methods
+  async getFeedbackByDeviceId(deviceId: string): Promise<BookFeedback[]> {
+    return db.select()
+      .from(bookFeedback)
+      .where(eq(bookFeedback.deviceId, deviceId))
+      .orderBy(desc(bookFeedback.updatedAt));
+  }
+
+  // Replaces any earlier feedback from the device on the same work
+  async saveFeedback(feedback: InsertBookFeedback): Promise<BookFeedback> {
+    const [saved] = await db
+      .insert(bookFeedback)
+      .values(feedback)
+      .onConflictDoUpdate({
+        target: [bookFeedback.deviceId, bookFeedback.workKey],
+        set: {
+          title: sql`excluded.title`,
+          author: sql`excluded.author`,
+          type: sql`excluded.type`,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteFeedback(id: number, deviceId: string): Promise<boolean> {
+    const deleted = await db
+      .delete(bookFeedback)
+      .where(and(eq(bookFeedback.id, id), eq(bookFeedback.deviceId, deviceId)))
+      .returning();
+    return deleted.length > 0;
+  }
 }
 
 // Export a singleton instance of DatabaseStorage
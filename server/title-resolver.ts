@@ -0,0 +1,205 @@
+import { searchBooksByTitle } from "./books.js";
+import { storage } from "./storage.js";
+import { rateLimiter } from "./rate-limiter.js";
+import { log } from "./simple-logger.js";
+import { resolveTitle, type MatchableBook } from "./utils/title-matching.js";
+import { mapWithConcurrency, withTimeout, TimeoutError } from "./utils/concurrency.js";
+import { isConfidentCacheMatch } from "./utils/cache-match.js";
+import type { SpineDetection } from "../shared/schema.js";
+
+/**
+ * Title resolution worker - looks up the titles read from a shelf photo in parallel
+ * Each lookup searches on title + author, picks the matching book and applies cached OpenAI
+ * data. Lookups run with bounded concurrency and their own timeout, and a failed lookup only
+ * loses that title: the rest of the shelf is still returned.
+ */
+
+export interface TitleLookup {
+  title: string;
+  spine: SpineDetection | null;
+}
+
+// A search result; the lookup only relies on title and author
+export type LookupBook = MatchableBook & {
+  rating?: string;
+  summary?: string;
+  categories?: string[];
+  [key: string]: unknown;
+};
+
+export interface ResolvedBook extends LookupBook {
+  resolutionScore: number;
+  spine: SpineDetection | null;
+}
+
+// A title that couldn't be pinned to a single book, with the candidates the user can choose from
+export interface UnresolvedTitle {
+  title: string;
+  author: string | null;
+  spine: SpineDetection | null;
+  ambiguous: boolean;
+  candidates: (LookupBook & { resolutionScore: number })[];
+}
+
+export interface FailedTitle {
+  title: string;
+  reason: 'timeout' | 'error' | 'rate-limited';
+}
+
+export type TitleLookupOutcome =
+  | { status: 'resolved'; title: string; book: ResolvedBook }
+  | { status: 'unresolved'; title: string; unresolved: UnresolvedTitle }
+  | { status: 'not-found'; title: string }
+  | { status: 'failed'; title: string; failure: FailedTitle };
+
+export interface TitleResolverOptions {
+  concurrency: number;
+  // Per lookup, covering both searches and the cache check
+  timeoutMs: number;
+  // Called as each lookup finishes, in completion order
+  onOutcome?: (outcome: TitleLookupOutcome, processed: number, total: number) => void;
+}
+
+export interface TitleResolutionResult {
+  // In the order the titles were read
+  books: ResolvedBook[];
+  unresolvedTitles: UnresolvedTitle[];
+  failedTitles: FailedTitle[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT_MS = 8000;
+
+/**
+ * Resolver settings from the environment
+ * TITLE_LOOKUP_CONCURRENCY and TITLE_LOOKUP_TIMEOUT_MS
+ */
+export function getTitleResolverOptions(overrides: Partial<TitleResolverOptions> = {}): TitleResolverOptions {
+  const concurrency = parseInt(process.env.TITLE_LOOKUP_CONCURRENCY || '', 10);
+  const timeoutMs = parseInt(process.env.TITLE_LOOKUP_TIMEOUT_MS || '', 10);
+
+  return {
+    concurrency: concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY,
+    timeoutMs: timeoutMs > 0 ? timeoutMs : DEFAULT_TIMEOUT_MS,
+    ...overrides
+  };
+}
+
+/**
+ * Look up a single title: search, resolve to one book and apply cached OpenAI data
+ */
+async function lookupTitle({ title, spine }: TitleLookup): Promise<TitleLookupOutcome> {
+  const author = spine?.author;
+
+  // Search on title + author when the spine shows an author, falling back to the title
+  // alone in case the author was misread
+  let bookResults: LookupBook[] = author ? await searchBooksByTitle(title, author) : [];
+  if (!bookResults || bookResults.length === 0) {
+    bookResults = await searchBooksByTitle(title);
+  }
+
+  if (!bookResults || bookResults.length === 0) {
+    return { status: 'not-found', title };
+  }
+
+  const resolution = resolveTitle({ title, author }, bookResults);
+
+  if (!resolution.match) {
+    if (resolution.candidates.length === 0) {
+      return { status: 'not-found', title };
+    }
+    log(`${resolution.ambiguous ? 'Ambiguous' : 'Weak'} match for "${title}"${author ? ` by ${author}` : ''}, returning ${resolution.candidates.length} candidates`, 'vision-api');
+    return {
+      status: 'unresolved',
+      title,
+      unresolved: {
+        title,
+        author: author || null,
+        spine,
+        ambiguous: resolution.ambiguous,
+        candidates: resolution.candidates.map(candidate => ({
+          ...candidate.book,
+          resolutionScore: candidate.score
+        }))
+      }
+    };
+  }
+
+  const bestMatch = { ...resolution.match };
+
+  // Check cache for existing OpenAI data
+  const cachedBook = await storage.findBookInCache(bestMatch.title, bestMatch.author);
+
+  if (cachedBook && cachedBook.source === 'openai' && isConfidentCacheMatch(cachedBook)) {
+    log(`Using cached OpenAI data for detected book "${bestMatch.title}": rating=${cachedBook.rating}, summary=${cachedBook.summary ? 'yes' : 'no'}`);
+    if (cachedBook.rating) {
+      bestMatch.rating = cachedBook.rating;
+    }
+    if (cachedBook.summary) {
+      bestMatch.summary = cachedBook.summary;
+    }
+  } else {
+    log(`No cached OpenAI data found for "${bestMatch.title}"`);
+  }
+
+  return {
+    status: 'resolved',
+    title,
+    book: {
+      ...bestMatch,
+      resolutionScore: resolution.score,
+      spine
+    }
+  };
+}
+
+/**
+ * Look up all titles read from a photo
+ */
+export async function resolveTitles(
+  lookups: TitleLookup[],
+  options: TitleResolverOptions = getTitleResolverOptions()
+): Promise<TitleResolutionResult> {
+  const startTime = Date.now();
+  let processed = 0;
+
+  const outcomes = await mapWithConcurrency(lookups, options.concurrency, async (lookup): Promise<TitleLookupOutcome> => {
+    let outcome: TitleLookupOutcome;
+
+    // searchBooksByTitle counts against the google-books limit; once it is reached, skip the
+    // remaining titles rather than sending lookups that would come back empty
+    if (!(await rateLimiter.isAllowed('google-books'))) {
+      outcome = { status: 'failed', title: lookup.title, failure: { title: lookup.title, reason: 'rate-limited' } };
+    } else {
+      try {
+        outcome = await withTimeout(lookupTitle(lookup), options.timeoutMs, `Lookup for "${lookup.title}"`);
+      } catch (error) {
+        log(`Error looking up "${lookup.title}": ${error instanceof Error ? error.message : String(error)}`, 'vision-api');
+        outcome = {
+          status: 'failed',
+          title: lookup.title,
+          failure: { title: lookup.title, reason: error instanceof TimeoutError ? 'timeout' : 'error' }
+        };
+      }
+    }
+
+    processed++;
+    options.onOutcome?.(outcome, processed, lookups.length);
+    return outcome;
+  });
+
+  const result: TitleResolutionResult = { books: [], unresolvedTitles: [], failedTitles: [] };
+  for (const outcome of outcomes) {
+    if (outcome.status === 'resolved') {
+      result.books.push(outcome.book);
+    } else if (outcome.status === 'unresolved') {
+      result.unresolvedTitles.push(outcome.unresolved);
+    } else if (outcome.status === 'failed') {
+      result.failedTitles.push(outcome.failure);
+    }
+  }
+
+  log(`Resolved ${result.books.length}/${lookups.length} titles in ${Date.now() - startTime}ms (concurrency ${options.concurrency}, ${result.failedTitles.length} failed)`, 'vision-api');
+
+  return result;
+}
@@ -0,0 +1,247 @@
+/**
+ * Utility functions for recording external API calls to disk and replaying them in tests
+ * Each request is keyed by a hash of its method, URL and body after normalization: query
+ * parameters are sorted, API keys are dropped and JSON bodies are compared by value, so the
+ * same call always finds the same fixture whatever order it was built in.
+ */
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import axios, { AxiosError, type AxiosAdapter, type AxiosResponse } from 'axios';
+
+export type FixtureMode = 'record' | 'replay' | 'off';
+
+export interface FixtureRequest {
+  method: string;
+  url: string;
+  body?: unknown;
+}
+
+export interface FixtureResponse {
+  status: number;
+  data: unknown;
+}
+
+export interface Fixture {
+  request: FixtureRequest;
+  response: FixtureResponse;
+  recordedAt: string;
+}
+
+// Query parameters that carry credentials; they are left out of keys and fixtures
+const SECRET_PARAMS = ['key', 'api_key', 'apikey', 'access_token'];
+
+// Longer strings (e.g. base64 images) are stored as a hash to keep fixtures readable
+const MAX_STORED_STRING_LENGTH = 500;
+
+/**
+ * Mode from API_FIXTURES; anything but "record" or "replay" turns fixtures off
+ */
+export function getFixtureMode(value = process.env.API_FIXTURES): FixtureMode {
+  const mode = value?.trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+function hash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+/**
+ * URL with credentials removed and query parameters sorted
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  SECRET_PARAMS.forEach(param => parsed.searchParams.delete(param));
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+/**
+ * Request in the form used for its key: upper-case method, normalized URL, body parsed from
+ * JSON where possible and with object keys sorted
+ */
+export function normalizeRequest(request: FixtureRequest): FixtureRequest {
+  let body = request.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      // Not JSON; keyed as the raw string
+    }
+  }
+
+  return {
+    method: request.method.toUpperCase(),
+    url: normalizeUrl(request.url),
+    ...(body === undefined || body === '' ? {} : { body: sortKeys(body) })
+  };
+}
+
+/**
+ * Stable key for a request
+ */
+export function getFixtureKey(request: FixtureRequest): string {
+  return hash(JSON.stringify(normalizeRequest(request))).substring(0, 16);
+}
+
+/**
+ * Directory a request's fixture goes in: the API's host, without "www."
+ */
+export function getFixtureService(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+function shortenLongStrings(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STORED_STRING_LENGTH
+      ? `<${value.length} chars, sha256 ${hash(value).substring(0, 16)}>`
+      : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(shortenLongStrings);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, shortenLongStrings(item)]));
+  }
+  return value;
+}
+
+/**
+ * Thrown in replay mode for a request that has no fixture
+ */
+export class UnrecordedRequestError extends Error {
+  constructor(
+    public readonly request: FixtureRequest,
+    public readonly key: string
+  ) {
+    super(`No recorded fixture for ${request.method.toUpperCase()} ${normalizeUrl(request.url)} (key ${key}); run with API_FIXTURES=record to record it`);
+    this.name = 'UnrecordedRequestError';
+  }
+}
+
+/**
+ * Fixtures on disk, one JSON file per request under <dir>/<service>/<key>.json
+ */
+export class FixtureStore {
+  constructor(public readonly dir: string) {}
+
+  private filePath(service: string, key: string): string {
+    return path.join(this.dir, service, `${key}.json`);
+  }
+
+  read(service: string, request: FixtureRequest): Fixture | undefined {
+    const file = this.filePath(service, getFixtureKey(request));
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8')) as Fixture;
+  }
+
+  write(service: string, request: FixtureRequest, response: FixtureResponse): void {
+    const file = this.filePath(service, getFixtureKey(request));
+    const fixture: Fixture = {
+      request: shortenLongStrings(normalizeRequest(request)) as FixtureRequest,
+      response,
+      recordedAt: new Date().toISOString()
+    };
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
+
+/**
+ * Serve a request from its fixture in replay mode; otherwise perform it, saving the response
+ * in record mode
+ */
+export async function recordOrReplay(
+  store: FixtureStore,
+  mode: FixtureMode,
+  service: string,
+  request: FixtureRequest,
+  perform: () => Promise<FixtureResponse>
+): Promise<FixtureResponse> {
+  if (mode === 'replay') {
+    const fixture = store.read(service, request);
+    if (!fixture) {
+      throw new UnrecordedRequestError(request, getFixtureKey(request));
+    }
+    return fixture.response;
+  }
+
+  const response = await perform();
+  if (mode === 'record') {
+    store.write(service, request, response);
+  }
+  return response;
+}
+
+function parseData(data: unknown): unknown {
+  if (typeof data !== 'string') {
+    return data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Axios adapter that records or replays requests around the real adapter
+ * Error responses are recorded too, and replayed as the same AxiosError the real call threw.
+ */
+export function createFixtureAdapter(store: FixtureStore, mode: FixtureMode, realAdapter: AxiosAdapter): AxiosAdapter {
+  return async (config) => {
+    const request: FixtureRequest = {
+      method: config.method || 'get',
+      url: axios.getUri(config),
+      body: config.data
+    };
+
+    const fixture = await recordOrReplay(store, mode, getFixtureService(request.url), request, async () => {
+      try {
+        const response = await realAdapter(config);
+        return { status: response.status, data: parseData(response.data) };
+      } catch (error) {
+        if (error instanceof AxiosError && error.response) {
+          return { status: error.response.status, data: parseData(error.response.data) };
+        }
+        throw error;
+      }
+    });
+
+    const response: AxiosResponse = {
+      data: fixture.data,
+      status: fixture.status,
+      statusText: '',
+      headers: {},
+      config,
+      request: {}
+    };
+
+    if (config.validateStatus && !config.validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+}
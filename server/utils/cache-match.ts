@@ -0,0 +1,77 @@
+/**
+ * Utility functions for matching a title and author against cached books
+ * Candidates from the database are scored like search results so that a short title or a
+ * shared surname isn't enough to reuse another book's rating and summary.
+ */
+import { normalizeText, scoreCandidate, type MatchableBook } from './title-matching';
+
+export interface CacheMatch<T extends MatchableBook> {
+  book: T;
+  score: number;
+}
+
+// Lowest score returned as a cache hit unless CACHE_MATCH_MIN_SCORE says otherwise
+export const DEFAULT_CACHE_MATCH_MIN_SCORE = 0.8;
+
+// Lowest score at which a hit's rating and summary are applied to another record
+export const DEFAULT_CACHE_APPLY_MIN_SCORE = 0.9;
+
+// Words too common to narrow the candidate query
+const STOPWORDS = new Set(['the', 'and', 'for', 'with', 'from', 'into', 'book', 'novel']);
+
+function readScore(value: string | undefined, fallback: number): number {
+  const score = parseFloat(value || '');
+  return score > 0 && score <= 1 ? score : fallback;
+}
+
+/**
+ * Minimum score for a cache hit, from CACHE_MATCH_MIN_SCORE
+ */
+export function getCacheMatchMinScore(): number {
+  return readScore(process.env.CACHE_MATCH_MIN_SCORE, DEFAULT_CACHE_MATCH_MIN_SCORE);
+}
+
+/**
+ * Minimum score for reusing a hit's rating and summary, from CACHE_APPLY_MIN_SCORE
+ * Never lower than the hit threshold.
+ */
+export function getCacheApplyMinScore(): number {
+  return Math.max(getCacheMatchMinScore(), readScore(process.env.CACHE_APPLY_MIN_SCORE, DEFAULT_CACHE_APPLY_MIN_SCORE));
+}
+
+/**
+ * Whether a cache hit is close enough to copy its rating and summary
+ */
+export function isConfidentCacheMatch(match: { matchScore: number } | null | undefined): boolean {
+  return !!match && match.matchScore >= getCacheApplyMinScore();
+}
+
+/**
+ * Title words long and distinctive enough to find candidates with
+ * Falls back to the whole normalized title when it has no such words ("It", "Us").
+ */
+export function getCandidateTokens(title: string): string[] {
+  const normalized = normalizeText(title);
+  const tokens = normalized.split(' ').filter(token => token.length >= 3 && !STOPWORDS.has(token));
+  return tokens.length > 0 ? Array.from(new Set(tokens)) : (normalized ? [normalized] : []);
+}
+
+/**
+ * Best-scoring candidate at or above the minimum score
+ */
+export function pickCacheMatch<T extends MatchableBook>(
+  query: { title: string; author?: string },
+  candidates: T[],
+  minScore: number = getCacheMatchMinScore()
+): CacheMatch<T> | null {
+  let best: CacheMatch<T> | null = null;
+
+  for (const candidate of candidates) {
+    const { score } = scoreCandidate({ title: query.title, author: query.author || undefined }, candidate);
+    if (score >= minScore && (!best || score > best.score)) {
+      best = { book: candidate, score: Math.round(score * 1000) / 1000 };
+    }
+  }
+
+  return best;
+}
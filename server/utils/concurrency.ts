@@ -0,0 +1,53 @@
+/**
+ * Utility functions for running async work with bounded concurrency and timeouts
+ */
+
+/**
+ * Thrown by withTimeout when the wrapped promise takes too long
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Reject with a TimeoutError if the promise hasn't settled within the given time
+ * The underlying work isn't cancelled; its result is just ignored.
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label = 'Operation'): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`${label} timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Map over items with at most `limit` calls running at once
+ * Results keep the order of the input. A rejected call rejects the whole map, so callers that
+ * want partial results should catch inside the mapper.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(items.length, Math.max(1, Math.floor(limit)));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
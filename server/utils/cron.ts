@@ -0,0 +1,119 @@
+/**
+ * Utility functions for parsing and matching five-field cron expressions
+ * ("minute hour day-of-month month day-of-week"), evaluated in UTC like Vercel cron jobs
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // A field covering its whole range ("*", "*/1", "1-31") matches every day; cron ORs
+  // day-of-month and day-of-week only when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES: [number, number][] = [
+  [0, 59], // minute
+  [0, 23], // hour
+  [1, 31], // day of month
+  [1, 12], // month
+  [0, 7]   // day of week, 0 and 7 are both Sunday
+];
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron field "${field}"`);
+    }
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    // "5/15" means every 15 from 5 to the end of the range
+    const end = match[1] === '*' || (match[4] && !match[3]) ? max : Number(match[3] ?? match[2]);
+    const step = match[4] ? Number(match[4]) : 1;
+
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Cron field "${field}" is out of range ${min}-${max}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a five-field cron expression, throwing on anything malformed
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELD_RANGES[i]));
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: daysOfMonth.size === 31,
+    anyDayOfWeek: daysOfWeek.size === 7
+  };
+}
+
+/**
+ * Whether the schedule fires in the minute containing the given date
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (
+    !schedule.minutes.has(date.getUTCMinutes()) ||
+    !schedule.hours.has(date.getUTCHours()) ||
+    !schedule.months.has(date.getUTCMonth() + 1)
+  ) {
+    return false;
+  }
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * The next minute after the given date at which the schedule fires, or null if it
+ * doesn't fire within a year (e.g. "0 0 31 2 *")
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date): Date | null {
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+
+  const limit = 366 * 24 * 60;
+  for (let i = 0; i < limit; i++) {
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+    if (cronMatches(schedule, candidate)) {
+      return candidate;
+    }
+  }
+
+  return null;
+}
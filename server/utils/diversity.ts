@@ -0,0 +1,160 @@
+/**
+ * Utility functions for keeping the top recommendations varied
+ * A ranked list is re-ranked so its top picks hold at most a few books per author and per series,
+ * optionally saving the last slot for a "wildcard": a highly rated book outside the reader's usual
+ * genres. Books that don't make the top picks keep their order after them.
+ */
+import { extractSeries, normalizeForKey, parseAuthorNames } from './work-identity';
+
+export interface DiversityOptions {
+  // Most books by one author in the top picks; 0 for no limit
+  maxPerAuthor: number;
+  // Most books from one series in the top picks; 0 for no limit
+  maxPerSeries: number;
+  // Save the last top slot for a highly rated book outside the reader's genres
+  wildcard: boolean;
+}
+
+export interface DiversifiableBook {
+  title: string;
+  author?: string | null;
+  series?: string | null;
+  categories?: string[] | null;
+  rating?: string | number | null;
+}
+
+export interface DiversifyContext<T> {
+  // Number of top picks
+  limit?: number;
+  // The reader's usual genres; a wildcard shares none of them
+  genres?: string[] | null;
+  // Books the wildcard may come from, when not only the ranked ones
+  wildcardPool?: T[];
+}
+
+// Every control off: the ranking is left as it is
+export const DEFAULT_DIVERSITY_OPTIONS: DiversityOptions = {
+  maxPerAuthor: 0,
+  maxPerSeries: 0,
+  wildcard: false
+};
+
+// Number of books in the top recommendations
+export const TOP_RECOMMENDATIONS = 5;
+
+// Lowest average rating a wildcard may have
+export const MIN_WILDCARD_RATING = 4;
+
+function parseLimit(value: unknown, fallback: number): number {
+  const limit = typeof value === 'string' ? parseInt(value, 10) : value;
+  return typeof limit === 'number' && Number.isInteger(limit) && limit >= 0 ? limit : fallback;
+}
+
+/**
+ * Diversity options from a request body; missing or invalid values keep their defaults
+ */
+export function parseDiversityOptions(input: unknown): DiversityOptions {
+  if (!input || typeof input !== 'object') {
+    return { ...DEFAULT_DIVERSITY_OPTIONS };
+  }
+
+  const options = input as Record<string, unknown>;
+  return {
+    maxPerAuthor: parseLimit(options.maxPerAuthor, DEFAULT_DIVERSITY_OPTIONS.maxPerAuthor),
+    maxPerSeries: parseLimit(options.maxPerSeries, DEFAULT_DIVERSITY_OPTIONS.maxPerSeries),
+    wildcard: typeof options.wildcard === 'boolean'
+      ? options.wildcard
+      : options.wildcard === 'true' || DEFAULT_DIVERSITY_OPTIONS.wildcard
+  };
+}
+
+/**
+ * Whether any control would change a ranking
+ */
+export function isDiversityEnabled(options: DiversityOptions): boolean {
+  return options.maxPerAuthor > 0 || options.maxPerSeries > 0 || options.wildcard;
+}
+
+function getAuthorKey(book: DiversifiableBook): string {
+  const [firstAuthor] = parseAuthorNames(book.author);
+  return firstAuthor ? normalizeForKey(firstAuthor) : '';
+}
+
+function getSeriesKey(book: DiversifiableBook): string {
+  const series = book.series || extractSeries(book.title).series;
+  return series ? normalizeForKey(series) : '';
+}
+
+/**
+ * Whether none of a book's categories is one of the genres; books without categories never are
+ */
+export function isOutsideGenres(book: DiversifiableBook, genres: string[] | null | undefined): boolean {
+  const categories = (book.categories || []).map(category => category.toLowerCase());
+  if (categories.length === 0) {
+    return false;
+  }
+  return !(genres || []).some(genre => categories.some(category => category.includes(genre.toLowerCase())));
+}
+
+/**
+ * Re-rank books so the top `limit` respect the author and series caps, with the wildcard (if
+ * any) in the last top slot. Fewer than `limit` books make the top when the caps rule the rest
+ * out; they follow in their original order.
+ */
+export function diversifyBooks<T extends DiversifiableBook>(
+  ranked: T[],
+  options: DiversityOptions,
+  { limit = TOP_RECOMMENDATIONS, genres, wildcardPool = ranked }: DiversifyContext<T> = {}
+): Array<T & { wildcard?: boolean }> {
+  const authorCounts = new Map<string, number>();
+  const seriesCounts = new Map<string, number>();
+
+  const fits = (book: T) => {
+    const author = getAuthorKey(book);
+    const series = getSeriesKey(book);
+    return !(options.maxPerAuthor > 0 && author && (authorCounts.get(author) || 0) >= options.maxPerAuthor)
+      && !(options.maxPerSeries > 0 && series && (seriesCounts.get(series) || 0) >= options.maxPerSeries);
+  };
+  const count = (book: T) => {
+    const author = getAuthorKey(book);
+    const series = getSeriesKey(book);
+    if (author) {
+      authorCounts.set(author, (authorCounts.get(author) || 0) + 1);
+    }
+    if (series) {
+      seriesCounts.set(series, (seriesCounts.get(series) || 0) + 1);
+    }
+  };
+
+  // The wildcard is chosen from books the top picks would leave out
+  const picks: T[] = [];
+  for (const book of ranked) {
+    if (picks.length >= limit - (options.wildcard ? 1 : 0)) {
+      break;
+    }
+    if (fits(book)) {
+      picks.push(book);
+      count(book);
+    }
+  }
+
+  const wildcard = options.wildcard
+    ? wildcardPool
+      .filter(book => !picks.includes(book) && fits(book) && isOutsideGenres(book, genres))
+      .map(book => ({ book, rating: parseFloat(String(book.rating ?? '')) }))
+      .filter(({ rating }) => rating >= MIN_WILDCARD_RATING)
+      // A stable sort keeps the better ranked book first among equal ratings
+      .sort((a, b) => b.rating - a.rating)[0]?.book
+    : undefined;
+
+  // Without a wildcard its slot goes to the next book that fits
+  if (options.wildcard && !wildcard) {
+    const next = ranked.find(book => !picks.includes(book) && fits(book));
+    if (next) {
+      picks.push(next);
+    }
+  }
+
+  const top: Array<T & { wildcard?: boolean }> = wildcard ? [...picks, { ...wildcard, wildcard: true }] : picks;
+  return [...top, ...ranked.filter(book => !picks.includes(book) && book !== wildcard)];
+}
@@ -0,0 +1,191 @@
+/**
+ * Utility functions for comparing books by embedding
+ * Books are embedded from their title, author, categories and description. A reader's taste
+ * vector is the weighted average of the embeddings of books they rated highly on Goodreads or
+ * saved, so a shelf book's cosine similarity to it says how close it is to what they like.
+ */
+import { createHash } from 'crypto';
+import { normalizeText } from './title-matching';
+
+export interface EmbeddableBook {
+  title: string;
+  author?: string | null;
+  categories?: string[] | null;
+  summary?: string | null;
+}
+
+// A book the taste vector is built from, and how much it counts
+export interface TasteSource {
+  book: EmbeddableBook;
+  weight: number;
+}
+
+export const DEFAULT_HASHING_DIMENSIONS = 512;
+
+// Most books the taste vector is built from, highest rated first
+export const MAX_TASTE_SOURCES = 50;
+
+// How much each kind of book counts towards the taste vector
+const TASTE_WEIGHTS = {
+  fiveStars: 1,
+  fourStars: 0.6,
+  saved: 0.8
+};
+
+// Words that say nothing about a book's subject
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'with', 'book', 'books', 'novel'
+]);
+
+/**
+ * Text a book is embedded from
+ */
+export function getEmbeddingText(book: EmbeddableBook): string {
+  return [
+    book.title,
+    book.author ? `by ${book.author}` : '',
+    book.categories?.length ? `Genres: ${book.categories.join(', ')}` : '',
+    book.summary || ''
+  ].filter(Boolean).join('\n');
+}
+
+/**
+ * Short hash of an embedding text, stored to tell when a book's text has changed
+ */
+export function getTextHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex').substring(0, 16);
+}
+
+// 32-bit FNV-1a
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function tokenize(text: string): string[] {
+  return normalizeText(text).split(' ').filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+/**
+ * Scale a vector to unit length; a zero vector is returned unchanged
+ */
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+/**
+ * Embedding that needs no model or network: words and word pairs are hashed into a fixed number
+ * of dimensions and weighted by log term frequency. Books sharing an author, genre or subject
+ * words come out similar, which is enough for offline use and tests.
+ */
+export function hashingEmbedding(text: string, dimensions = DEFAULT_HASHING_DIMENSIONS): number[] {
+  const tokens = tokenize(text);
+  const terms = tokens.concat(tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`));
+
+  const counts = new Map<string, number>();
+  for (const term of terms) {
+    counts.set(term, (counts.get(term) || 0) + 1);
+  }
+
+  const vector = new Array<number>(dimensions).fill(0);
+  counts.forEach((count, term) => {
+    const hash = fnv1a(term);
+    // The top bit picks the sign so that colliding terms tend to cancel out rather than add up
+    vector[hash % dimensions] += (hash & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+  });
+
+  return normalizeVector(vector);
+}
+
+/**
+ * Cosine similarity from -1 to 1; 0 when either vector is empty or the lengths differ
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Weighted average of unit-length vectors, scaled to unit length; null when there is nothing
+ * to average
+ */
+export function buildTasteVector(vectors: Array<{ vector: number[]; weight: number }>): number[] | null {
+  const usable = vectors.filter(item => item.weight > 0 && item.vector.length > 0);
+  if (usable.length === 0) {
+    return null;
+  }
+
+  const taste = new Array<number>(usable[0].vector.length).fill(0);
+  for (const { vector, weight } of usable) {
+    if (vector.length !== taste.length) {
+      continue;
+    }
+    const unit = normalizeVector(vector);
+    for (let i = 0; i < taste.length; i++) {
+      taste[i] += unit[i] * weight;
+    }
+  }
+
+  return taste.some(value => value !== 0) ? normalizeVector(taste) : null;
+}
+
+/**
+ * Books the taste vector is built from: Goodreads books rated 4 or 5, then saved books,
+ * without duplicates and at most `max`
+ */
+export function getTasteSources(
+  goodreadsData: unknown,
+  savedBooks: EmbeddableBook[],
+  max = MAX_TASTE_SOURCES
+): TasteSource[] {
+  const rated: TasteSource[] = [];
+  if (Array.isArray(goodreadsData)) {
+    for (const entry of goodreadsData) {
+      if (!entry || typeof entry !== 'object') {
+        continue;
+      }
+      const row = entry as Record<string, unknown>;
+      const rating = parseInt(String(row['My Rating'] || '0'), 10) || 0;
+      if (!row['Title'] || rating < 4) {
+        continue;
+      }
+      const shelves = String(row['Bookshelves'] || '').split(/[;,]/).map(shelf => shelf.trim()).filter(Boolean);
+      rated.push({
+        book: { title: String(row['Title']), author: String(row['Author'] || ''), categories: shelves },
+        weight: rating >= 5 ? TASTE_WEIGHTS.fiveStars : TASTE_WEIGHTS.fourStars
+      });
+    }
+  }
+
+  const sources = rated
+    .sort((a, b) => b.weight - a.weight)
+    .concat(savedBooks.map(book => ({ book, weight: TASTE_WEIGHTS.saved })));
+
+  const seen = new Set<string>();
+  return sources.filter(({ book }) => {
+    const key = normalizeText(`${book.title} ${book.author || ''}`);
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  }).slice(0, max);
+}
@@ -0,0 +1,82 @@
+/**
+ * Utility functions for enriching several books with one OpenAI call
+ * Books are numbered in the prompt and the response refers back to them by that number, so a
+ * reply that drops, reorders or retitles a book can still be matched up.
+ */
+import type { EnrichmentResponse } from './openai-schemas.js';
+
+export interface EnrichmentInput {
+  title: string;
+  author: string;
+}
+
+export interface EnrichmentResult {
+  rating?: string;
+  summary?: string;
+  categories?: string[];
+}
+
+export const DEFAULT_ENRICHMENT_CHUNK_SIZE = 10;
+
+// Summaries shorter than this are treated as missing, as the routes always have
+export const MIN_SUMMARY_LENGTH = 100;
+
+/**
+ * Split items into chunks of at most `size`
+ */
+export function chunkItems<T>(items: T[], size: number): T[][] {
+  const chunkSize = Math.max(1, Math.floor(size));
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += chunkSize) {
+    chunks.push(items.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+/**
+ * Books per OpenAI call, from BATCH_ENRICHMENT_CHUNK_SIZE
+ */
+export function getEnrichmentChunkSize(): number {
+  const size = parseInt(process.env.BATCH_ENRICHMENT_CHUNK_SIZE || '', 10);
+  return size > 0 ? size : DEFAULT_ENRICHMENT_CHUNK_SIZE;
+}
+
+/**
+ * The books to describe, one per line and numbered from 1, for the enrichment prompt
+ */
+export function formatEnrichmentBookList(books: EnrichmentInput[]): string {
+  return books.map((book, i) => `${i + 1}. "${book.title}" by ${book.author}`).join('\n');
+}
+
+function parseRating(value: unknown): string | undefined {
+  const rating = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return rating >= 1 && rating <= 5 ? rating.toFixed(1) : undefined;
+}
+
+/**
+ * Results from a validated batch response, in the same order as the books sent
+ * Books missing from the response, and fields that fail validation, are left undefined.
+ */
+export function parseEnrichmentResponse(response: EnrichmentResponse, count: number): EnrichmentResult[] {
+  const results: EnrichmentResult[] = Array.from({ length: count }, () => ({}));
+
+  for (const item of response.books) {
+    const index = item.index - 1;
+    if (index >= count) {
+      continue;
+    }
+
+    const summary = typeof item.summary === 'string' ? item.summary.trim() : '';
+    const categories = Array.isArray(item.categories)
+      ? item.categories.filter((category: unknown): category is string => typeof category === 'string' && category.trim().length > 0)
+      : [];
+
+    results[index] = {
+      rating: parseRating(item.rating),
+      summary: summary || undefined,
+      categories: categories.length > 0 ? categories : undefined
+    };
+  }
+
+  return results;
+}
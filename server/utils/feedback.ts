@@ -0,0 +1,93 @@
+/**
+ * Utility functions for reader feedback on recommendations
+ * A device can mark a book as not interesting, or as already read and liked or disliked. Feedback
+ * is keyed by work so it still applies when the book turns up again in another edition.
+ */
+import { buildWorkKey } from './work-identity';
+import { authorNamesMatch } from './title-matching';
+
+export const FEEDBACK_TYPES = ['not_interested', 'read_liked', 'read_disliked'] as const;
+
+export type FeedbackType = typeof FEEDBACK_TYPES[number];
+
+export interface FeedbackEntry {
+  title: string;
+  author: string;
+  type: FeedbackType;
+}
+
+// Most books of each kind listed in the recommendations prompt
+const MAX_PROMPT_BOOKS = 15;
+
+/**
+ * Whether a value is one of the feedback types
+ */
+export function isFeedbackType(value: unknown): value is FeedbackType {
+  return typeof value === 'string' && (FEEDBACK_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Feedback for a book, matched by work; the last entry wins when there are several
+ */
+export function findFeedback<T extends FeedbackEntry>(
+  entries: T[],
+  book: { title: string; author?: string | null }
+): T | undefined {
+  const workKey = buildWorkKey(book.title, book.author);
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (buildWorkKey(entries[i].title, entries[i].author) === workKey) {
+      return entries[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Number of books by an author that the reader gave one type of feedback on
+ */
+export function countAuthorFeedback(entries: FeedbackEntry[], author: string | null | undefined, type: FeedbackType): number {
+  return entries.filter(entry => entry.type === type && authorNamesMatch(author || '', entry.author)).length;
+}
+
+/**
+ * Sentences for the recommendations prompt describing the reader's feedback, or an empty string
+ */
+export function formatFeedbackForPrompt(entries: FeedbackEntry[]): string {
+  const list = (type: FeedbackType) => entries
+    .filter(entry => entry.type === type)
+    .slice(0, MAX_PROMPT_BOOKS)
+    .map(entry => `"${entry.title}" by ${entry.author}`)
+    .join(', ');
+
+  const notInterested = list('not_interested');
+  const liked = list('read_liked');
+  const disliked = list('read_disliked');
+
+  return [
+    notInterested ? `I'm not interested in: ${notInterested}.` : '',
+    liked ? `I've already read and liked: ${liked}.` : '',
+    disliked ? `I've already read and didn't like: ${disliked}.` : ''
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * Lower the scores of books the reader gave feedback on by the ranking's penalties and re-sort
+ * them, best first; ties keep their original order. Scoreless books count as 0. Other books by
+ * an author the reader didn't like lose twice the goodreadsHistory weight per disliked book, as
+ * in the ranking.
+ */
+export function rerankByFeedback<T extends { title: string; author?: string | null; matchScore?: number }>(
+  books: T[],
+  entries: FeedbackEntry[],
+  penalties: { notInterested: number; alreadyRead: number; goodreadsHistory: number }
+): T[] {
+  return books
+    .map(book => {
+      const feedback = findFeedback(entries, book);
+      const penalty = !feedback
+        ? -2 * penalties.goodreadsHistory * countAuthorFeedback(entries, book.author, 'read_disliked')
+        : feedback.type === 'not_interested' ? penalties.notInterested : penalties.alreadyRead;
+      return penalty ? { ...book, matchScore: (book.matchScore || 0) + penalty } : book;
+    })
+    .sort((a, b) => (b.matchScore || 0) - (a.matchScore || 0));
+}
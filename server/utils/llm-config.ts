@@ -0,0 +1,72 @@
+/**
+ * Utility functions for reading the LLM configuration from the environment
+ * LLM_BASE_URL points the app at any OpenAI-compatible server (e.g. Ollama or llama.cpp), which
+ * needs no API key. Model, timeout and retries can be set for every task with LLM_MODEL,
+ * LLM_TIMEOUT_MS and LLM_MAX_RETRIES, or for one task by adding its name, e.g. LLM_MODEL_VISION.
+ */
+
+type Env = Record<string, string | undefined>;
+
+export interface LLMConnection {
+  // Unset for the OpenAI API itself
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface LLMTaskSettings {
+  // Unset to use the model the prompt asks for
+  model?: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+// Values copied from .env.example rather than real keys
+const PLACEHOLDER_KEYS = ['your-api-key-here', 'your_openai_key_here'];
+
+function isUsableApiKey(key: string | undefined): key is string {
+  return !!key && key.length > 5 && !PLACEHOLDER_KEYS.includes(key);
+}
+
+/**
+ * Server and key to use, from LLM_BASE_URL and LLM_API_KEY (or OPENAI_API_KEY)
+ */
+export function getLLMConnection(env: Env = process.env): LLMConnection {
+  const apiKey = (env.LLM_API_KEY || env.OPENAI_API_KEY)?.trim();
+  return {
+    baseUrl: env.LLM_BASE_URL?.trim() || undefined,
+    apiKey: isUsableApiKey(apiKey) ? apiKey : undefined
+  };
+}
+
+/**
+ * Whether LLM calls can be made: an API key is set, or a compatible server that may not need one
+ */
+export function isLLMConfigured(connection: LLMConnection): boolean {
+  return !!connection.baseUrl || !!connection.apiKey;
+}
+
+function envSuffix(task: string): string {
+  return task.toUpperCase().replace(/-/g, '_');
+}
+
+function readInt(values: Array<string | undefined>, min: number, fallback: number): number {
+  for (const value of values) {
+    const parsed = parseInt(value || '', 10);
+    if (parsed >= min) {
+      return parsed;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Settings for one task: the task's own variable, then the global one, then the default
+ */
+export function getTaskSettings(task: string, defaults: LLMTaskSettings, env: Env = process.env): LLMTaskSettings {
+  const suffix = envSuffix(task);
+  return {
+    model: env[`LLM_MODEL_${suffix}`]?.trim() || env.LLM_MODEL?.trim() || defaults.model,
+    timeoutMs: readInt([env[`LLM_TIMEOUT_MS_${suffix}`], env.LLM_TIMEOUT_MS], 1, defaults.timeoutMs),
+    maxRetries: readInt([env[`LLM_MAX_RETRIES_${suffix}`], env.LLM_MAX_RETRIES], 0, defaults.maxRetries)
+  };
+}
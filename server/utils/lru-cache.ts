@@ -0,0 +1,119 @@
+/**
+ * Utility functions for a bounded in-memory cache that evicts the least recently used entry
+ * and expires entries after a time to live
+ */
+
+export interface LRUCacheOptions {
+  maxEntries: number;
+  // Default time to live for entries, in milliseconds
+  ttlMs: number;
+}
+
+export interface CacheStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  // hits / (hits + misses), 0 before the first lookup
+  hitRate: number;
+}
+
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * Least-recently-used cache with per-entry expiry
+ * A Map keeps insertion order, so re-inserting on access keeps the oldest entry first.
+ */
+export class LRUCache<K, V> {
+  private entries = new Map<K, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private options: LRUCacheOptions) {}
+
+  /**
+   * The cached value, or undefined if missing or expired
+   */
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Whether an unexpired value is cached, without counting a hit or miss
+   */
+  has(key: K): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  /**
+   * Cache a value, evicting the least recently used entry when full
+   * @param ttlMs Time to live for this entry, overriding the default
+   */
+  set(key: K, value: V, ttlMs = this.options.ttlMs): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as K;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(key: K): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry whose value matches the predicate
+   * @returns Number of entries removed
+   */
+  deleteWhere(predicate: (value: V, key: K) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (predicate(entry.value, key)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  getStats(): CacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 1000) / 1000 : 0
+    };
+  }
+}
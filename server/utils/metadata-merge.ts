@@ -0,0 +1,203 @@
+/**
+ * Utility functions for merging book metadata from several providers into one record
+ */
+
+/**
+ * Canonical book record; every field is optional because no provider has all of them
+ */
+export interface BookMetadata {
+  title?: string;
+  author?: string;
+  isbn10?: string;
+  isbn13?: string;
+  coverUrl?: string;
+  pageCount?: number;
+  publishedYear?: number;
+  publisher?: string;
+  categories?: string[];
+  description?: string;
+  rating?: string;
+}
+
+export type MetadataField = keyof BookMetadata;
+
+/**
+ * What a single provider returned for a book
+ */
+export interface ProviderMetadata {
+  provider: string;
+  metadata: BookMetadata;
+}
+
+/**
+ * Provider names in order of preference for each field
+ * Providers missing from a field's list are never used for that field.
+ */
+export type MergeRules = Record<MetadataField, string[]>;
+
+export interface MergedBookMetadata {
+  metadata: BookMetadata;
+  // The provider each field's value came from
+  provenance: Partial<Record<MetadataField, string>>;
+  // Providers that contributed at least one field
+  providers: string[];
+}
+
+export const METADATA_FIELDS: MetadataField[] = [
+  'title', 'author', 'isbn10', 'isbn13', 'coverUrl', 'pageCount',
+  'publishedYear', 'publisher', 'categories', 'description', 'rating'
+];
+
+// Catalogs are trusted for bibliographic facts. Descriptions and ratings only ever come from
+// OpenAI, as they always have; Open Library's first_publish_year is the original publication
+// rather than whichever edition Google Books happened to return.
+export const DEFAULT_MERGE_RULES: MergeRules = {
+  title: ['google-books', 'open-library', 'openai'],
+  author: ['google-books', 'open-library', 'openai'],
+  isbn10: ['google-books', 'open-library'],
+  isbn13: ['google-books', 'open-library'],
+  coverUrl: ['google-books', 'open-library'],
+  pageCount: ['google-books', 'open-library'],
+  publishedYear: ['open-library', 'google-books'],
+  publisher: ['google-books', 'open-library'],
+  categories: ['google-books', 'open-library'],
+  description: ['openai'],
+  rating: ['openai']
+};
+
+/**
+ * Strip hyphens and spaces from an ISBN, returning null unless it is a valid ISBN-10 or ISBN-13
+ */
+export function normalizeIsbn(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+
+  const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+
+  if (/^\d{9}[\dX]$/.test(isbn)) {
+    const sum = isbn.split('').reduce((total, char, i) => total + (char === 'X' ? 10 : Number(char)) * (10 - i), 0);
+    return sum % 11 === 0 ? isbn : null;
+  }
+
+  if (/^\d{13}$/.test(isbn)) {
+    return isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12] ? isbn : null;
+  }
+
+  return null;
+}
+
+function isbn13CheckDigit(first12: string): string {
+  const sum = first12.split('').reduce((total, char, i) => total + Number(char) * (i % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+}
+
+/**
+ * Convert a valid ISBN-10 to its ISBN-13 form
+ */
+export function isbn10To13(isbn10: string): string {
+  const first12 = `978${isbn10.slice(0, 9)}`;
+  return first12 + isbn13CheckDigit(first12);
+}
+
+/**
+ * Convert a valid ISBN-13 to ISBN-10, or null for 979 ISBNs which have no ISBN-10 form
+ */
+export function isbn13To10(isbn13: string): string | null {
+  if (!isbn13.startsWith('978')) {
+    return null;
+  }
+
+  const first9 = isbn13.slice(3, 12);
+  const sum = first9.split('').reduce((total, char, i) => total + Number(char) * (10 - i), 0);
+  const check = (11 - (sum % 11)) % 11;
+  return first9 + (check === 10 ? 'X' : String(check));
+}
+
+/**
+ * Year from a provider's date string ("2004", "2004-05-01", "May 2004")
+ */
+export function parsePublishYear(value: string | number | null | undefined): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value > 0 ? value : undefined;
+  }
+
+  const match = value?.match(/\b(\d{4})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function hasValue(value: unknown): boolean {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (typeof value === 'string') {
+    return value.trim().length > 0;
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value > 0;
+  }
+  return true;
+}
+
+// A value the field can use: ISBNs must also pass their check digit
+function isUsable(field: MetadataField, value: unknown): boolean {
+  if (field === 'isbn10' || field === 'isbn13') {
+    return typeof value === 'string' && normalizeIsbn(value) !== null;
+  }
+  return hasValue(value);
+}
+
+/**
+ * Merge provider records into one canonical record
+ * Each field takes the first usable value in the order given by the rules, so an invalid ISBN
+ * falls through to the next provider's. A missing ISBN-10 or ISBN-13 is then derived from the
+ * other, keeping the provenance of the source.
+ */
+export function mergeBookMetadata(
+  records: ProviderMetadata[],
+  rules: MergeRules = DEFAULT_MERGE_RULES
+): MergedBookMetadata {
+  const metadata: BookMetadata = {};
+  const provenance: Partial<Record<MetadataField, string>> = {};
+
+  for (const field of METADATA_FIELDS) {
+    for (const provider of rules[field] || []) {
+      const record = records.find(r => r.provider === provider && isUsable(field, r.metadata[field]));
+      if (record) {
+        (metadata as Record<MetadataField, unknown>)[field] = record.metadata[field];
+        provenance[field] = provider;
+        break;
+      }
+    }
+  }
+
+  const isbn10 = normalizeIsbn(metadata.isbn10);
+  const isbn13 = normalizeIsbn(metadata.isbn13);
+
+  if (isbn10) {
+    metadata.isbn10 = isbn10;
+  }
+  if (isbn13) {
+    metadata.isbn13 = isbn13;
+  }
+
+  if (isbn10 && !isbn13) {
+    metadata.isbn13 = isbn10To13(isbn10);
+    provenance.isbn13 = provenance.isbn10;
+  } else if (isbn13 && !isbn10) {
+    const derived = isbn13To10(isbn13);
+    if (derived) {
+      metadata.isbn10 = derived;
+      provenance.isbn10 = provenance.isbn13;
+    }
+  }
+
+  const providers = METADATA_FIELDS
+    .map(field => provenance[field])
+    .filter((provider, i, all): provider is string => !!provider && all.indexOf(provider) === i);
+
+  return { metadata, provenance, providers };
+}
@@ -0,0 +1,165 @@
+/**
+ * Utility functions for validating OpenAI replies against the shape each prompt asks for
+ * Every prompt has a spec: whether the reply is JSON or plain text, the zod schema it must
+ * satisfy, and a description of a valid reply used when asking the model to repair one.
+ */
+import { z } from 'zod';
+
+export type OpenAIResponseName =
+  | 'vision'
+  | 'recommendations'
+  | 'rating'
+  | 'summary'
+  | 'description'
+  | 'match-reason'
+  | 'enrichment';
+
+export interface OpenAIResponseSpec<T> {
+  name: OpenAIResponseName;
+  format: 'json' | 'text';
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // What a valid reply looks like, in words the model can follow
+  expected: string;
+}
+
+/**
+ * Thrown when a reply is empty, isn't valid JSON, or doesn't match its schema
+ */
+export class OpenAIResponseError extends Error {
+  constructor(
+    public readonly responseName: OpenAIResponseName,
+    public readonly reason: 'empty' | 'invalid-json' | 'schema',
+    public readonly issues: string[],
+    public readonly content: string
+  ) {
+    super(`Invalid ${responseName} response from OpenAI (${reason}): ${issues.join('; ')}`);
+    this.name = 'OpenAIResponseError';
+  }
+}
+
+export const visionResponseSchema = z.object({
+  bookTitles: z.array(z.string()).default([]),
+  isBookshelf: z.boolean().default(false),
+  // Each spine is checked field by field when normalized, so one bad spine doesn't fail the scan
+  spines: z.array(z.unknown()).default([])
+});
+
+export const recommendationsResponseSchema = z.object({
+  recommendations: z.array(z.object({
+    title: z.string().min(1),
+    author: z.string(),
+    matchScore: z.coerce.number().min(0).max(100),
+    matchReason: z.string().min(1)
+  }).passthrough())
+});
+
+export const ratingResponseSchema = z.string().transform((text, ctx) => {
+  const match = text.match(/\d+(?:\.\d+)?/);
+  const rating = match ? parseFloat(match[0]) : NaN;
+  if (!(rating >= 1 && rating <= 5)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected a rating between 1.0 and 5.0, got "${text.trim()}"` });
+    return z.NEVER;
+  }
+  return rating.toFixed(1);
+});
+
+export const summaryResponseSchema = z.string().trim().min(20, 'Summary is too short');
+
+export const descriptionResponseSchema = z.string().trim().min(20, 'Description is too short');
+
+export const matchReasonResponseSchema = z.string().trim().min(10, 'Match reason is too short');
+
+export const enrichmentResponseSchema = z.object({
+  books: z.array(z.object({
+    index: z.coerce.number().int().positive()
+  }).passthrough())
+});
+
+export type VisionResponse = z.infer<typeof visionResponseSchema>;
+export type RecommendationsResponse = z.infer<typeof recommendationsResponseSchema>;
+export type EnrichmentResponse = z.infer<typeof enrichmentResponseSchema>;
+
+export const visionResponseSpec: OpenAIResponseSpec<VisionResponse> = {
+  name: 'vision',
+  format: 'json',
+  schema: visionResponseSchema,
+  expected: 'a JSON object with "bookTitles" (array of strings), "isBookshelf" (boolean) and "spines" (array of objects)'
+};
+
+export const recommendationsResponseSpec: OpenAIResponseSpec<RecommendationsResponse> = {
+  name: 'recommendations',
+  format: 'json',
+  schema: recommendationsResponseSchema,
+  expected: 'a JSON object with a "recommendations" array; each item has "title" and "author" strings, a "matchScore" number from 1 to 100 and a "matchReason" string'
+};
+
+export const ratingResponseSpec: OpenAIResponseSpec<string> = {
+  name: 'rating',
+  format: 'text',
+  schema: ratingResponseSchema,
+  expected: 'a single number between 1.0 and 5.0 with one decimal place, and nothing else'
+};
+
+export const summaryResponseSpec: OpenAIResponseSpec<string> = {
+  name: 'summary',
+  format: 'text',
+  schema: summaryResponseSchema,
+  expected: 'a summary of the book of 3-4 sentences, as plain text'
+};
+
+export const descriptionResponseSpec: OpenAIResponseSpec<string> = {
+  name: 'description',
+  format: 'text',
+  schema: descriptionResponseSchema,
+  expected: 'a description of the book of 3-4 sentences, as plain text'
+};
+
+export const matchReasonResponseSpec: OpenAIResponseSpec<string> = {
+  name: 'match-reason',
+  format: 'text',
+  schema: matchReasonResponseSchema,
+  expected: 'one or two short sentences, as plain text'
+};
+
+export const enrichmentResponseSpec: OpenAIResponseSpec<EnrichmentResponse> = {
+  name: 'enrichment',
+  format: 'json',
+  schema: enrichmentResponseSchema,
+  expected: 'a JSON object with a "books" array; each item has the book\'s "index" number and its "rating", "summary" and "categories"'
+};
+
+/**
+ * Parse and validate a reply, returning the schema's output
+ * Throws an OpenAIResponseError describing what was wrong.
+ */
+export function validateOpenAIContent<T>(spec: OpenAIResponseSpec<T>, content: string | null | undefined): T {
+  const text = content?.trim() || '';
+  if (!text) {
+    throw new OpenAIResponseError(spec.name, 'empty', ['Reply was empty'], '');
+  }
+
+  let value: unknown = text;
+  if (spec.format === 'json') {
+    try {
+      value = JSON.parse(text);
+    } catch (error) {
+      throw new OpenAIResponseError(spec.name, 'invalid-json', [error instanceof Error ? error.message : String(error)], text);
+    }
+  }
+
+  const result = spec.schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+    throw new OpenAIResponseError(spec.name, 'schema', issues, text);
+  }
+
+  return result.data;
+}
+
+/**
+ * Follow-up message asking the model to correct an invalid reply
+ */
+export function buildRepairMessage<T>(spec: OpenAIResponseSpec<T>, error: OpenAIResponseError): string {
+  return `Your previous reply could not be used: ${error.issues.join('; ')}. Reply again with ${spec.expected}.`;
+}
@@ -2,16 +2,88 @@
  * OpenAI utility functions
  * Moved from demo-openai.ts during code cleanup
  */
-import OpenAI from "openai";
+import type { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
 import { log } from "../simple-logger.js";
+import { logError } from "../simple-error-logger.js";
 import { rateLimiter } from "../rate-limiter.js";
+import { renderPrompt, toCompletionParams } from "../prompt-registry.js";
+import { getLLMClient, type LLMTask } from "../llm-client.js";
+import {
+  OpenAIResponseError,
+  validateOpenAIContent,
+  buildRepairMessage,
+  ratingResponseSpec,
+  summaryResponseSpec,
+  type OpenAIResponseSpec
+} from "./openai-schemas.js";
 
-// Configure OpenAI client
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY,
-  maxRetries: 2, 
-  timeout: 15000 // 15 second timeout
-});
+export * from "./openai-schemas.js";
+
+function logResponseError(error: OpenAIResponseError, attempt: number): void {
+  logError(`OpenAI ${error.responseName} response failed validation`, error, {
+    api: 'openai',
+    action: error.responseName,
+    metadata: {
+      reason: error.reason,
+      issues: error.issues,
+      attempt,
+      content: error.content.substring(0, 200)
+    }
+  });
+}
+
+/**
+ * Create a chat completion and validate the reply against the prompt's spec
+ * An invalid reply is logged and sent back once with a repair prompt, which counts against the
+ * OpenAI rate limit like any other call. Throws an OpenAIResponseError if the repaired reply is
+ * still invalid or the repair call isn't allowed.
+ * @param task What the call is for, which selects its model, timeout and retries
+ * @param spec What the reply must look like
+ * @param params The completion request
+ * @returns The validated reply
+ */
+export async function createValidatedCompletion<T>(
+  task: LLMTask,
+  spec: OpenAIResponseSpec<T>,
+  params: ChatCompletionCreateParamsNonStreaming
+): Promise<T> {
+  const client = getLLMClient();
+  const response = await client.complete(task, params);
+  const content = response.choices[0]?.message.content;
+
+  try {
+    return validateOpenAIContent(spec, content);
+  } catch (error) {
+    if (!(error instanceof OpenAIResponseError)) {
+      throw error;
+    }
+    logResponseError(error, 1);
+
+    if (!(await rateLimiter.checkAndIncrement('openai'))) {
+      log(`Rate limit reached for OpenAI, not repairing ${spec.name} response`, "openai");
+      throw error;
+    }
+
+    log(`Retrying ${spec.name} request with a repair prompt`, "openai");
+    const repaired = await client.complete(task, {
+      ...params,
+      messages: [
+        ...params.messages,
+        { role: "assistant", content: content || '' },
+        { role: "user", content: buildRepairMessage(spec, error) }
+      ]
+    });
+
+    try {
+      return validateOpenAIContent(spec, repaired.choices[0]?.message.content);
+    } catch (retryError) {
+      if (retryError instanceof OpenAIResponseError) {
+        logResponseError(retryError, 2);
+      }
+      throw retryError;
+    }
+  }
+}
 
 /**
  * Gets a book rating using OpenAI's knowledge
@@ -19,7 +91,7 @@ const openai = new OpenAI({
 export async function getOpenAIBookRating(title: string, author: string): Promise<string> {
   try {
     // Check if we have an API key
-    if (!process.env.OPENAI_API_KEY) {
+    if (!getLLMClient().isConfigured()) {
       if (process.env.NODE_ENV === 'development') {
         log("OpenAI API key not found. Using fallback rating system.");
       }
@@ -37,35 +109,13 @@ export async function getOpenAIBookRating(title: string, author: string): Promis
     log(`Getting OpenAI rating for: ${title} by ${author}`, "openai");
     
     // Use ChatGPT to generate a realistic rating based on its knowledge
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-      messages: [
-        {
-          role: "system",
-          content: "You are a literary expert with comprehensive knowledge of books. When asked about a book, provide only a numeric rating between 1.0 and 5.0 with one decimal place. Do not include any other text."
-        },
-        {
-          role: "user",
-          content: `Based on critical reception and reader reviews, what would be an accurate rating for "${title}" by ${author}? Respond with just a number between 1.0 and 5.0 with one decimal place.`
-        }
-      ],
-      temperature: 0.5,
-      max_tokens: 10
-    });
-    
-    // Extract the rating from the response
-    const content = response.choices[0].message.content?.trim() || "";
-    
-    // Try to parse as a numeric rating
-    const parsedRating = parseFloat(content);
-    if (!isNaN(parsedRating) && parsedRating >= 1.0 && parsedRating <= 5.0) {
-      return parsedRating.toFixed(1);
-    } else {
-      // Fallback if the response couldn't be parsed as a number
-      log(`Invalid rating response from OpenAI: ${content}`, "openai");
+    return await createValidatedCompletion('quick-rating', ratingResponseSpec, toCompletionParams(renderPrompt('quick-rating', { title, author })));
+  } catch (error) {
+    // Fallback if the response couldn't be parsed as a number, even after a repair
+    if (error instanceof OpenAIResponseError) {
       return "4.2";
     }
-  } catch (error) {
+    
     // Check if this is a rate limit error from the API itself
     if (error instanceof Error && (
       error.message.includes('rate limit') || 
@@ -89,7 +139,7 @@ export async function getOpenAIBookRating(title: string, author: string): Promis
 export async function getOpenAIBookSummary(title: string, author: string): Promise<string> {
   try {
     // Check if we have an API key
-    if (!process.env.OPENAI_API_KEY) {
+    if (!getLLMClient().isConfigured()) {
       if (process.env.NODE_ENV === 'development') {
         log("OpenAI API key not found. Using fallback summary.");
       }
@@ -106,33 +156,13 @@ export async function getOpenAIBookSummary(title: string, author: string): Promi
     log(`Getting OpenAI summary for: ${title} by ${author}`, "openai");
     
     // Use ChatGPT to generate a book summary based on its knowledge
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024
-      messages: [
-        {
-          role: "system",
-          content: "You are a literary expert with comprehensive knowledge of books. Provide concise, engaging, and accurate summaries of books without revealing major spoilers."
-        },
-        {
-          role: "user",
-          content: `Please provide a concise summary (about 100-150 words) of the book "${title}" by ${author}. Focus on the main themes and premise without spoiling major plot points.`
-        }
-      ],
-      temperature: 0.7,
-      max_tokens: 250
-    });
-    
-    // Extract the summary from the response
-    const summary = response.choices[0].message.content?.trim() || "";
-    
-    if (summary.length > 20) {
-      return summary;
-    } else {
-      // Fallback if the response is too short or empty
-      log(`Invalid summary response from OpenAI: ${summary}`, "openai");
+    return await createValidatedCompletion('quick-summary', summaryResponseSpec, toCompletionParams(renderPrompt('quick-summary', { title, author })));
+  } catch (error) {
+    // Fallback if the response is too short or empty, even after a repair
+    if (error instanceof OpenAIResponseError) {
       return `"${title}" by ${author} is a noteworthy book in its genre. (No detailed summary available)`;
     }
-  } catch (error) {
+    
     // Check if this is a rate limit error from the API itself
     if (error instanceof Error && (
       error.message.includes('rate limit') || 
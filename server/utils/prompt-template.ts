@@ -0,0 +1,63 @@
+/**
+ * Utility functions for prompt templates and A/B variant selection
+ * Templates use {{name}} placeholders. When a prompt has several variants, each device is
+ * assigned one by hashing its ID, so the same device always sees the same variant.
+ */
+import { createHash } from 'crypto';
+
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+export type PromptVariables = Record<string, string | number>;
+
+/**
+ * Names of the placeholders used in a template, in order of first use
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names: string[] = [];
+  for (const match of Array.from(template.matchAll(PLACEHOLDER))) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Fill in a template's placeholders
+ * Throws if a placeholder has no value, since the prompt would otherwise be sent half-written.
+ */
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(PLACEHOLDER, (_placeholder, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new Error(`Missing value for prompt variable "${name}"`);
+    }
+    return String(value);
+  });
+}
+
+/**
+ * A stable number in [0, 1) for a device and experiment
+ */
+export function getVariantBucket(experiment: string, deviceId: string): number {
+  const hash = createHash('sha256').update(`${experiment}:${deviceId}`).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+}
+
+/**
+ * Pick the variant whose share of the weights contains the bucket
+ * Variants without a positive weight are never picked.
+ */
+export function pickWeighted<T extends { weight?: number }>(variants: T[], bucket: number): T | undefined {
+  const weighted = variants.filter(variant => (variant.weight ?? 1) > 0);
+  const total = weighted.reduce((sum, variant) => sum + (variant.weight ?? 1), 0);
+
+  let threshold = bucket * total;
+  for (const variant of weighted) {
+    threshold -= variant.weight ?? 1;
+    if (threshold < 0) {
+      return variant;
+    }
+  }
+  return weighted[weighted.length - 1];
+}
@@ -0,0 +1,293 @@
+/**
+ * Utility functions for ranking books against a reader's preferences
+ * A book's score is the sum of named features, each a raw signal multiplied by its weight, so
+ * the ranking can be tuned without code changes (RANKING_WEIGHT_<FEATURE>, e.g.
+ * RANKING_WEIGHT_GENRE_OVERLAP) and every score can be explained feature by feature.
+ */
+import { normalizeText, authorNamesMatch } from './title-matching';
+import { findFeedback, countAuthorFeedback, type FeedbackEntry } from './feedback';
+import type { ExplanationFactor, RecommendationExplanation } from '../../shared/schema.js';
+
+export const RANKING_FEATURES = [
+  'genreOverlap',
+  'authorAffinity',
+  'goodreadsHistory',
+  'alreadyRead',
+  'notInterested',
+  'averageRating',
+  'tasteSimilarity'
+] as const;
+
+export type RankingFeature = typeof RANKING_FEATURES[number];
+
+export type RankingWeights = Record<RankingFeature, number>;
+
+// Weighted contribution of each feature to a book's score
+export type ScoreBreakdown = Record<RankingFeature, number>;
+
+export interface RankableBook {
+  title: string;
+  author?: string | null;
+  categories?: string[] | null;
+  rating?: string | number | null;
+  // Cosine similarity (-1 to 1) to the reader's taste vector, when there is one
+  similarity?: number | null;
+}
+
+export interface RankingPreferences {
+  genres?: string[] | null;
+  authors?: string[] | null;
+  // Rows of a Goodreads export ("Title", "Author", "My Rating", ...)
+  goodreadsData?: unknown;
+  // What the reader said about earlier recommendations
+  feedback?: FeedbackEntry[] | null;
+}
+
+export interface BookScore {
+  score: number;
+  breakdown: ScoreBreakdown;
+  explanation: RecommendationExplanation;
+  // Goodreads or feedback title the book matched when the reader has already read it
+  readTitle?: string;
+}
+
+/**
+ * Default weights:
+ * - genreOverlap: per preferred genre found in the book's categories
+ * - authorAffinity: per preferred author who wrote the book
+ * - goodreadsHistory: per Goodreads book by the same author, doubled when rated 4 or 5 (books
+ *   marked as read and liked count as rated 5, books marked as read and not liked count -2)
+ * - alreadyRead: once when the reader has rated the book on Goodreads or marked it as read
+ * - notInterested: once when the reader marked the book as not interesting
+ * - averageRating: per star of the book's average rating
+ * - tasteSimilarity: at full similarity to the books the reader rated highly or saved
+ */
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  genreOverlap: 10,
+  authorAffinity: 5,
+  goodreadsHistory: 3,
+  alreadyRead: -10,
+  notInterested: -20,
+  averageRating: 1,
+  tasteSimilarity: 10
+};
+
+// Shown to readers in place of the feature names
+const FEATURE_LABELS: Record<RankingFeature, string> = {
+  genreOverlap: 'Genre overlap',
+  authorAffinity: 'Favorite author',
+  goodreadsHistory: 'Goodreads history',
+  alreadyRead: 'Already read',
+  notInterested: 'Not interested',
+  averageRating: 'Average rating',
+  tasteSimilarity: 'Similar to books you like'
+};
+
+interface GoodreadsEntry {
+  title: string;
+  author: string;
+  rating: number;
+}
+
+// Preferences cleaned up once for scoring a whole shelf
+interface ReaderProfile {
+  genres: string[];
+  authors: string[];
+  readBooks: GoodreadsEntry[];
+  feedback: FeedbackEntry[];
+}
+
+interface FeatureValue {
+  value: number;
+  evidence: string[];
+}
+
+type Env = Record<string, string | undefined>;
+
+function envName(feature: RankingFeature): string {
+  return `RANKING_WEIGHT_${feature.replace(/([A-Z])/g, '_$1').toUpperCase()}`;
+}
+
+/**
+ * Weights from RANKING_WEIGHT_<FEATURE>, falling back to the defaults; 0 turns a feature off
+ */
+export function getRankingWeights(env: Env = process.env): RankingWeights {
+  const weights = { ...DEFAULT_RANKING_WEIGHTS };
+  for (const feature of RANKING_FEATURES) {
+    const value = parseFloat(env[envName(feature)] || '');
+    if (Number.isFinite(value)) {
+      weights[feature] = value;
+    }
+  }
+  return weights;
+}
+
+function cleanList(values: string[] | null | undefined): string[] {
+  return (values || []).map(value => (value || '').trim()).filter(Boolean);
+}
+
+function parseGoodreadsData(data: unknown): GoodreadsEntry[] {
+  if (!Array.isArray(data)) {
+    return [];
+  }
+  return data
+    .filter((entry): entry is Record<string, unknown> => !!entry && typeof entry === 'object')
+    .map(entry => ({
+      title: String(entry['Title'] || ''),
+      author: String(entry['Author'] || ''),
+      rating: parseInt(String(entry['My Rating'] || '0'), 10) || 0
+    }));
+}
+
+function buildProfile(preferences: RankingPreferences): ReaderProfile {
+  return {
+    genres: cleanList(preferences.genres),
+    authors: cleanList(preferences.authors),
+    // Goodreads lists unread ("to-read") books with a rating of 0
+    readBooks: parseGoodreadsData(preferences.goodreadsData).filter(entry => entry.title && entry.rating > 0),
+    feedback: preferences.feedback || []
+  };
+}
+
+function findReadBook(book: RankableBook, profile: ReaderProfile): GoodreadsEntry | undefined {
+  const title = normalizeText(book.title || '');
+  if (!title) {
+    return undefined;
+  }
+  return profile.readBooks.find(entry => {
+    const readTitle = normalizeText(entry.title);
+    return !!readTitle && (title.includes(readTitle) || readTitle.includes(title));
+  });
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function getFeatureValues(book: RankableBook, profile: ReaderProfile): { values: Record<RankingFeature, FeatureValue>; readTitle?: string } {
+  const categories = cleanList(book.categories).map(category => category.toLowerCase());
+  const author = book.author || '';
+  // Feedback on the book itself says more than a fuzzy Goodreads title match
+  const feedback = findFeedback(profile.feedback, book);
+  const readFeedback = feedback && feedback.type !== 'not_interested' ? feedback : undefined;
+  const readBook = readFeedback ? undefined : findReadBook(book, profile);
+  const rating = parseFloat(String(book.rating ?? ''));
+  // Dissimilar books aren't penalized, only similar ones lifted
+  const similarity = Math.max(0, book.similarity ?? 0);
+
+  const genres = profile.genres.filter(genre => categories.some(category => category.includes(genre.toLowerCase())));
+  const authors = profile.authors.filter(preferred => authorNamesMatch(author, preferred));
+  const authorHistory = profile.readBooks.filter(entry => authorNamesMatch(author, entry.author));
+  const likedCount = authorHistory.filter(entry => entry.rating >= 4).length;
+  const otherCount = authorHistory.length - likedCount;
+  const likedFeedbackCount = countAuthorFeedback(profile.feedback, author, 'read_liked');
+  const dislikedFeedbackCount = countAuthorFeedback(profile.feedback, author, 'read_disliked');
+
+  return {
+    values: {
+      genreOverlap: { value: genres.length, evidence: genres.map(genre => `genre ${genre}`) },
+      authorAffinity: { value: authors.length, evidence: authors.map(preferred => `${preferred} is one of your authors`) },
+      goodreadsHistory: {
+        // A book rated 4 or 5 counts twice, and one the reader didn't like twice against
+        value: (likedCount + likedFeedbackCount - dislikedFeedbackCount) * 2 + otherCount,
+        evidence: [
+          ...(likedCount > 0 ? [`you rated ${plural(likedCount, 'book')} by this author ≥4★`] : []),
+          ...(likedFeedbackCount > 0 ? [`you liked ${plural(likedFeedbackCount, 'book')} by this author`] : []),
+          ...(dislikedFeedbackCount > 0 ? [`you didn't like ${plural(dislikedFeedbackCount, 'book')} by this author`] : []),
+          ...(otherCount > 0 ? [`you rated ${plural(otherCount, 'other book')} by this author below 4★`] : [])
+        ]
+      },
+      alreadyRead: readFeedback
+        ? {
+          value: 1,
+          evidence: [`you marked "${readFeedback.title}" as read and ${readFeedback.type === 'read_liked' ? 'liked it' : "didn't like it"}`]
+        }
+        : { value: readBook ? 1 : 0, evidence: readBook ? [`you rated "${readBook.title}" ${readBook.rating}★ on Goodreads`] : [] },
+      notInterested: feedback?.type === 'not_interested'
+        ? { value: 1, evidence: [`you marked "${feedback.title}" as not interested`] }
+        : { value: 0, evidence: [] },
+      averageRating: Number.isFinite(rating) && rating > 0
+        ? { value: rating, evidence: [`average rating ${rating}★`] }
+        : { value: 0, evidence: [] },
+      tasteSimilarity: similarity > 0
+        ? { value: similarity, evidence: [`${Math.round(similarity * 100)}% similar to books you rated highly or saved`] }
+        : { value: 0, evidence: [] }
+    },
+    readTitle: readFeedback?.title || readBook?.title
+  };
+}
+
+function roundPoints(value: number): number {
+  // `|| 0` keeps an unused penalty from showing as -0
+  return Math.round(value * 100) / 100 || 0;
+}
+
+function scoreWithProfile(book: RankableBook, profile: ReaderProfile, weights: RankingWeights): BookScore {
+  const { values, readTitle } = getFeatureValues(book, profile);
+  const breakdown = {} as ScoreBreakdown;
+  const factors: ExplanationFactor[] = [];
+  let total = 0;
+  for (const feature of RANKING_FEATURES) {
+    breakdown[feature] = roundPoints(values[feature].value * weights[feature]);
+    total += breakdown[feature];
+    if (breakdown[feature] !== 0) {
+      factors.push({
+        feature,
+        label: FEATURE_LABELS[feature],
+        weight: weights[feature],
+        points: breakdown[feature],
+        evidence: values[feature].evidence
+      });
+    }
+  }
+
+  // Penalties can push a score below zero, but it is shown as 0
+  const score = Math.max(0, roundPoints(total));
+  return {
+    score,
+    breakdown,
+    explanation: {
+      score,
+      factors: factors.sort((a, b) => Math.abs(b.points) - Math.abs(a.points))
+    },
+    ...(readTitle ? { readTitle } : {})
+  };
+}
+
+/**
+ * Score one book with a per-feature breakdown
+ */
+export function scoreBook(
+  book: RankableBook,
+  preferences: RankingPreferences,
+  weights: RankingWeights = DEFAULT_RANKING_WEIGHTS
+): BookScore {
+  return scoreWithProfile(book, buildProfile(preferences), weights);
+}
+
+/**
+ * Score every book and sort them from best to worst match; ties keep their original order
+ */
+export function rankBooks<T extends RankableBook>(
+  books: T[],
+  preferences: RankingPreferences,
+  weights: RankingWeights = DEFAULT_RANKING_WEIGHTS
+): Array<T & BookScore> {
+  const profile = buildProfile(preferences);
+  return books
+    .map(book => ({ ...book, ...scoreWithProfile(book, profile, weights) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * One-line reason for a ranked book: the evidence of the factor that raised its score most,
+ * e.g. "Genre Science Fiction, genre History". Empty when nothing raised it.
+ */
+export function summarizeExplanation(explanation: RecommendationExplanation): string {
+  const top = explanation.factors.find(factor => factor.points > 0);
+  if (!top) {
+    return '';
+  }
+  const reason = top.evidence.length > 0 ? top.evidence.join(', ') : top.label;
+  return reason.charAt(0).toUpperCase() + reason.slice(1);
+}
@@ -0,0 +1,62 @@
+/**
+ * Utility functions for memoizing lookups for the duration of one request
+ * Code running inside runWithRequestMemo shares one memo through AsyncLocalStorage, so the
+ * same lookup made several times while handling a request only runs once. Outside a request
+ * scope, memoize just calls the loader.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+
+type RequestMemo = Map<string, Promise<unknown>>;
+
+const memoStorage = new AsyncLocalStorage<RequestMemo>();
+
+/**
+ * Run a function with a fresh request memo
+ */
+export function runWithRequestMemo<T>(fn: () => T): T {
+  return memoStorage.run(new Map(), fn);
+}
+
+/**
+ * Whether the caller is running inside a request memo scope
+ */
+export function hasRequestMemo(): boolean {
+  return memoStorage.getStore() !== undefined;
+}
+
+/**
+ * Return the memoized result for the key, loading it once per request
+ * Concurrent calls share the pending promise; a rejected load is forgotten so it can be retried.
+ */
+export function memoize<T>(key: string, loader: () => Promise<T>): Promise<T> {
+  const memo = memoStorage.getStore();
+  if (!memo) {
+    return loader();
+  }
+
+  const existing = memo.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const pending = loader();
+  memo.set(key, pending);
+  pending.catch(() => memo.delete(key));
+  return pending;
+}
+
+/**
+ * Forget memoized results whose keys start with the prefix, e.g. after a write
+ */
+export function clearRequestMemo(prefix = ''): void {
+  const memo = memoStorage.getStore();
+  if (!memo) {
+    return;
+  }
+
+  for (const key of Array.from(memo.keys())) {
+    if (key.startsWith(prefix)) {
+      memo.delete(key);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Utility functions for finding shelf rows in a bookcase photo
+ *
+ * Rows of spines are full of vertical edges (spine boundaries, lettering) while shelf boards
+ * and the gaps above books are mostly flat, so rows show up as bands of high horizontal
+ * contrast separated by bands of low contrast.
+ */
+
+/**
+ * A horizontal band of the image, as fractions (0-1) of its height
+ */
+export interface ImageRow {
+  top: number;
+  bottom: number;
+}
+
+// Rows whose contrast is below this fraction of the median are treated as shelf boards
+const SEPARATOR_RATIO = 0.5;
+
+// Bands shorter than this fraction of the image height are too thin to hold a row of books
+const MIN_ROW_HEIGHT = 0.12;
+
+// Padding added above and below each row so spines cut by the detection aren't lost
+const ROW_PADDING = 0.03;
+
+const MAX_ROWS = 6;
+
+/**
+ * Mean absolute difference between horizontally adjacent pixels, per pixel row
+ */
+function horizontalContrastProfile(pixels: Uint8Array, width: number, height: number): number[] {
+  const profile: number[] = [];
+  for (let y = 0; y < height; y++) {
+    let total = 0;
+    const offset = y * width;
+    for (let x = 0; x < width - 1; x++) {
+      total += Math.abs(pixels[offset + x + 1] - pixels[offset + x]);
+    }
+    profile.push(width > 1 ? total / (width - 1) : 0);
+  }
+  return profile;
+}
+
+/**
+ * Moving average over a window of rows
+ */
+function smooth(values: number[], radius: number): number[] {
+  return values.map((_, index) => {
+    const start = Math.max(0, index - radius);
+    const end = Math.min(values.length, index + radius + 1);
+    let total = 0;
+    for (let i = start; i < end; i++) {
+      total += values[i];
+    }
+    return total / (end - start);
+  });
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Pad a row and keep it inside the image
+ */
+function padRow(row: ImageRow): ImageRow {
+  return {
+    top: Math.max(0, row.top - ROW_PADDING),
+    bottom: Math.min(1, row.bottom + ROW_PADDING)
+  };
+}
+
+/**
+ * Find the shelf rows in a greyscale image (one byte per pixel, row-major)
+ * @returns The rows top to bottom, or an empty array when fewer than two rows are found
+ */
+export function findShelfRows(pixels: Uint8Array, width: number, height: number): ImageRow[] {
+  if (width < 2 || height < 2 || pixels.length < width * height) {
+    return [];
+  }
+
+  const profile = smooth(horizontalContrastProfile(pixels, width, height), Math.max(1, Math.round(height * 0.01)));
+  const threshold = SEPARATOR_RATIO * median(profile);
+
+  const rows: ImageRow[] = [];
+  let start: number | null = null;
+
+  for (let y = 0; y <= height; y++) {
+    const isRow = y < height && profile[y] >= threshold;
+    if (isRow && start === null) {
+      start = y;
+    } else if (!isRow && start !== null) {
+      if ((y - start) / height >= MIN_ROW_HEIGHT) {
+        rows.push({ top: start / height, bottom: y / height });
+      }
+      start = null;
+    }
+  }
+
+  if (rows.length < 2 || rows.length > MAX_ROWS) {
+    return [];
+  }
+
+  return rows.map(padRow);
+}
+
+/**
+ * Split an image into a fixed number of equal rows, each padded to overlap its neighbours
+ */
+export function splitRowsEvenly(count: number): ImageRow[] {
+  const rowCount = Math.min(MAX_ROWS, Math.max(1, Math.floor(count)));
+  if (rowCount === 1) {
+    return [];
+  }
+
+  return Array.from({ length: rowCount }, (_, index) => padRow({
+    top: index / rowCount,
+    bottom: (index + 1) / rowCount
+  }));
+}
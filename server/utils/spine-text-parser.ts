@@ -0,0 +1,403 @@
+/**
+ * Utility functions for turning Google Vision text detections into per-spine titles and authors
+ *
+ * Vision returns one annotation per word with a bounding polygon whose first edge runs along
+ * the reading direction. Spine text is usually rotated, so words are grouped by orientation:
+ * vertical words into columns (upright books), horizontal words into rows (stacked books).
+ * Each group is split into segments on large gaps or font size changes, then segments are
+ * scored as title or author candidates.
+ */
+
+import type { BoundingBox } from '../../shared/schema.js';
+
+// Vision omits coordinates that are 0
+export interface Vertex {
+  x?: number;
+  y?: number;
+}
+
+export interface TextAnnotation {
+  description: string;
+  locale?: string;
+  boundingPoly?: {
+    vertices: Vertex[];
+  };
+}
+
+/**
+ * The parts of an images:annotate response the parser reads
+ */
+export interface VisionTextResponse {
+  textAnnotations?: TextAnnotation[];
+  fullTextAnnotation?: {
+    text: string;
+    pages?: {
+      width?: number;
+      height?: number;
+    }[];
+  };
+}
+
+export interface ScoredText {
+  text: string;
+  score: number; // 0-1
+}
+
+export interface ParsedSpine {
+  // Best title candidate
+  text: string;
+  // Best author candidate, when one scored high enough
+  author?: string;
+  titleCandidates: ScoredText[];
+  authorCandidates: ScoredText[];
+  // null when the response doesn't carry the image size
+  boundingBox: BoundingBox | null;
+  confidence: number; // 0-1
+}
+
+type Orientation = 'horizontal' | 'down' | 'up';
+
+interface WordBox {
+  text: string;
+  orientation: Orientation;
+  cx: number;
+  cy: number;
+  // Extent along the reading direction and across it (font size)
+  length: number;
+  thickness: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+interface Segment {
+  words: WordBox[];
+  text: string;
+  thickness: number;
+}
+
+// Words within this many degrees of an axis count as running along it
+const ORIENTATION_TOLERANCE = 30;
+
+// Words join a spine column/row when their centers are within this many font heights
+const GROUP_TOLERANCE = 0.75;
+
+// A gap along the reading direction larger than this many font heights starts a new segment
+const SEGMENT_GAP = 1.2;
+
+// A font size ratio above this between neighbouring words starts a new segment
+const FONT_CHANGE_RATIO = 1.4;
+
+// Lowest score for a segment to be reported as the spine's author
+const MIN_AUTHOR_SCORE = 0.5;
+
+const MAX_CANDIDATES = 3;
+
+// Publisher imprints commonly printed at the foot of a spine, normalized
+const PUBLISHER_IMPRINTS = new Set([
+  'ace', 'anchor', 'anchor books', 'ballantine', 'ballantine books', 'bantam', 'bantam books',
+  'berkley', 'bloomsbury', 'corgi', 'daw', 'del rey', 'doubleday', 'dover', 'everyman',
+  'everymans library', 'faber', 'faber faber', 'faber and faber', 'fsg', 'gollancz', 'grand central',
+  'harper', 'harper perennial', 'harpercollins', 'harpercollins publishers', 'hodder', 'knopf',
+  'little brown', 'macmillan', 'modern library', 'norton', 'w w norton', 'orbit', 'oxford',
+  'oxford worlds classics', 'pan', 'pan books', 'penguin', 'penguin books', 'penguin classics',
+  'picador', 'puffin', 'random house', 'riverhead', 'scholastic', 'scribner', 'signet',
+  'signet classics', 'simon schuster', 'simon and schuster', 'st martins', 'tor', 'vintage',
+  'vintage books', 'vintage classics', 'virago', 'wordsworth classics'
+]);
+
+const NUMBER_WORDS = 'one|two|three|four|five|six|seven|eight|nine|ten|[0-9]{1,2}|[ivx]{1,4}';
+
+// Whole segments that are series or marketing labels rather than a title or author
+const LABEL_PATTERNS = [
+  new RegExp(`^(book|volume|vol|part|no|number)\\s*(${NUMBER_WORDS})$`, 'i'),
+  /^#?[0-9]{1,2}$/,
+  /^(a|the)?\s*(novel|memoir|thriller|story|stories|novella)$/i,
+  /^(a|an)?\s*(new york times|sunday times|international|national|usa today)?\s*(number one|no 1)?\s*bestsell(er|ing)$/i,
+  /^(the\s+)?[a-z\s]+\s(series|trilogy|saga|cycle|chronicles)\s*(book\s*(${NUMBER_WORDS}))?$/i
+];
+
+// Series labels attached to the end of a title, e.g. "Foundation Book 1"
+const TRAILING_LABEL_PATTERN = new RegExp(`\\s+(book|volume|vol|part)\\s*(${NUMBER_WORDS})$`, 'i');
+
+// Words that rarely appear in a person's name but often in titles
+const TITLE_WORDS = new Set([
+  'the', 'of', 'and', 'a', 'an', 'in', 'to', 'on', 'for', 'with', 'at', 'from', 'my', 'your',
+  'is', 'are', 'how', 'what', 'why', 'all', 'no', 'not', 'one'
+]);
+
+/**
+ * Normalize text for comparing against the imprint and label lists
+ */
+function normalizeLabel(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' ')
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Whether a segment is a publisher imprint or series/marketing label
+ */
+export function isSpineNoise(text: string): boolean {
+  const normalized = normalizeLabel(text);
+  if (normalized.replace(/\s/g, '').length < 2) {
+    return true;
+  }
+  return PUBLISHER_IMPRINTS.has(normalized) || LABEL_PATTERNS.some(pattern => pattern.test(normalized));
+}
+
+/**
+ * Remove series labels attached to the end of a segment
+ */
+export function stripSeriesLabel(text: string): string {
+  return text.replace(TRAILING_LABEL_PATTERN, '').trim();
+}
+
+/**
+ * How much a segment looks like a person's name (0-1)
+ * Spines are often printed in capitals, so letter case isn't used.
+ */
+export function scoreNameLikeness(text: string): number {
+  let value = text.trim();
+  let score = 0;
+
+  if (/^by\s+/i.test(value)) {
+    value = value.replace(/^by\s+/i, '');
+    score += 0.5;
+  }
+
+  const tokens = value.split(/\s+/).filter(Boolean);
+  if (tokens.length === 0 || tokens.length > 4) {
+    return score;
+  }
+
+  score += tokens.length === 1 ? 0.2 : 0.4;
+
+  // Initials such as "J.R.R." or "K."
+  if (tokens.some(token => /^([a-z]\.)+$/i.test(token) || /^[a-z]$/i.test(token))) {
+    score += 0.3;
+  }
+
+  const plainWords = tokens.every(token => /^[a-z.'-]+$/i.test(token) && token.length <= 14);
+  const hasTitleWord = tokens.some(token => TITLE_WORDS.has(token.toLowerCase()));
+  if (plainWords && !hasTitleWord) {
+    score += 0.3;
+  }
+  if (hasTitleWord) {
+    score -= 0.4;
+  }
+
+  return Math.min(1, Math.max(0, score));
+}
+
+/**
+ * Read the image size from the response, which positions are normalized against
+ */
+function getImageSize(response: VisionTextResponse): { width: number; height: number } | null {
+  const page = response.fullTextAnnotation?.pages?.[0];
+  if (!page || !page.width || !page.height) {
+    return null;
+  }
+  return { width: page.width, height: page.height };
+}
+
+/**
+ * Convert a word annotation into its position, orientation and size
+ */
+function toWordBox(annotation: TextAnnotation): WordBox | null {
+  const vertices = annotation.boundingPoly?.vertices;
+  const text = annotation.description?.trim();
+  if (!text || !vertices || vertices.length !== 4) {
+    return null;
+  }
+
+  const points = vertices.map(vertex => ({ x: vertex.x || 0, y: vertex.y || 0 }));
+  const [topLeft, topRight, , bottomLeft] = points;
+
+  const angle = Math.atan2(topRight.y - topLeft.y, topRight.x - topLeft.x) * 180 / Math.PI;
+  let orientation: Orientation = 'horizontal';
+  if (Math.abs(angle - 90) <= ORIENTATION_TOLERANCE) {
+    orientation = 'down';
+  } else if (Math.abs(angle + 90) <= ORIENTATION_TOLERANCE) {
+    orientation = 'up';
+  }
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+
+  return {
+    text,
+    orientation,
+    cx: xs.reduce((sum, x) => sum + x, 0) / 4,
+    cy: ys.reduce((sum, y) => sum + y, 0) / 4,
+    length: Math.hypot(topRight.x - topLeft.x, topRight.y - topLeft.y),
+    thickness: Math.max(1, Math.hypot(bottomLeft.x - topLeft.x, bottomLeft.y - topLeft.y)),
+    minX: Math.min(...xs),
+    maxX: Math.max(...xs),
+    minY: Math.min(...ys),
+    maxY: Math.max(...ys)
+  };
+}
+
+/**
+ * Cluster words into spines along one axis: columns by center x for vertical text,
+ * rows by center y for horizontal text
+ */
+function groupWords(words: WordBox[], axis: 'cx' | 'cy'): WordBox[][] {
+  const sorted = [...words].sort((a, b) => a[axis] - b[axis]);
+  const groups: { words: WordBox[]; center: number; thickness: number }[] = [];
+
+  for (const word of sorted) {
+    const current = groups[groups.length - 1];
+    if (current && Math.abs(word[axis] - current.center) <= GROUP_TOLERANCE * Math.max(current.thickness, word.thickness)) {
+      current.words.push(word);
+      current.center = current.words.reduce((sum, w) => sum + w[axis], 0) / current.words.length;
+      current.thickness = Math.max(current.thickness, word.thickness);
+    } else {
+      groups.push({ words: [word], center: word[axis], thickness: word.thickness });
+    }
+  }
+
+  return groups.map(group => group.words);
+}
+
+/**
+ * Position of a word along its reading direction
+ */
+function readingPosition(word: WordBox): number {
+  if (word.orientation === 'down') {
+    return word.cy;
+  }
+  if (word.orientation === 'up') {
+    return -word.cy;
+  }
+  return word.cx;
+}
+
+/**
+ * Split a spine's words, in reading order, into runs of text set together
+ */
+function splitSegments(words: WordBox[]): Segment[] {
+  const ordered = [...words].sort((a, b) => readingPosition(a) - readingPosition(b));
+  const runs: WordBox[][] = [];
+
+  for (const word of ordered) {
+    const run = runs[runs.length - 1];
+    const previous = run?.[run.length - 1];
+
+    if (previous) {
+      const gap = (readingPosition(word) - word.length / 2) - (readingPosition(previous) + previous.length / 2);
+      const fontRatio = Math.max(word.thickness, previous.thickness) / Math.min(word.thickness, previous.thickness);
+      const sizeBase = Math.min(word.thickness, previous.thickness);
+
+      if (gap <= SEGMENT_GAP * sizeBase && fontRatio <= FONT_CHANGE_RATIO) {
+        run.push(word);
+        continue;
+      }
+    }
+
+    runs.push([word]);
+  }
+
+  return runs.map(run => ({
+    words: run,
+    text: run.map(word => word.text).join(' '),
+    thickness: run.reduce((sum, word) => sum + word.thickness, 0) / run.length
+  }));
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Score the segments of one spine and pick its title and author
+ */
+function parseSpine(words: WordBox[], imageSize: { width: number; height: number } | null): ParsedSpine | null {
+  const segments = splitSegments(words)
+    .map(segment => ({ ...segment, text: stripSeriesLabel(segment.text) }))
+    .filter(segment => !isSpineNoise(segment.text));
+
+  if (segments.length === 0) {
+    return null;
+  }
+
+  const largestFont = Math.max(...segments.map(segment => segment.thickness));
+  const scored = segments.map(segment => {
+    const fontRatio = segment.thickness / largestFont;
+    const nameScore = scoreNameLikeness(segment.text);
+    return {
+      text: segment.text.replace(/^by\s+/i, ''),
+      titleScore: round(Math.min(1, Math.max(0, 0.55 * fontRatio + 0.45 * (1 - nameScore)))),
+      authorScore: round(Math.min(1, Math.max(0, 0.7 * nameScore + 0.3 * (1 - fontRatio))))
+    };
+  });
+
+  const titleCandidates = [...scored]
+    .sort((a, b) => b.titleScore - a.titleScore)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ text, titleScore }) => ({ text, score: titleScore }));
+  const title = titleCandidates[0];
+
+  // The title can't also be the author
+  const authorCandidates = scored
+    .filter(segment => segment.text !== title.text)
+    .sort((a, b) => b.authorScore - a.authorScore)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ text, authorScore }) => ({ text, score: authorScore }));
+  const author = authorCandidates[0] && authorCandidates[0].score >= MIN_AUTHOR_SCORE
+    ? authorCandidates[0].text
+    : undefined;
+
+  let boundingBox: BoundingBox | null = null;
+  if (imageSize) {
+    const x = Math.max(0, Math.min(...words.map(word => word.minX)) / imageSize.width);
+    const y = Math.max(0, Math.min(...words.map(word => word.minY)) / imageSize.height);
+    boundingBox = {
+      x: round(x),
+      y: round(y),
+      width: round(Math.min(1 - x, Math.max(...words.map(word => word.maxX)) / imageSize.width - x)),
+      height: round(Math.min(1 - y, Math.max(...words.map(word => word.maxY)) / imageSize.height - y))
+    };
+  }
+
+  return {
+    text: title.text,
+    author,
+    titleCandidates,
+    authorCandidates,
+    boundingBox,
+    confidence: title.score
+  };
+}
+
+/**
+ * Parse a Vision text detection response into spines: upright spines left to right,
+ * then stacked books top to bottom
+ */
+export function parseSpineText(response: VisionTextResponse): ParsedSpine[] {
+  const annotations = response.textAnnotations || [];
+
+  // The first annotation is the full text of the image; the rest are single words
+  const words = annotations
+    .slice(1)
+    .map(toWordBox)
+    .filter((word): word is WordBox => word !== null);
+
+  if (words.length === 0) {
+    return [];
+  }
+
+  const imageSize = getImageSize(response);
+  const toSpines = (groups: WordBox[][]) => groups
+    .map(group => parseSpine(group, imageSize))
+    .filter((spine): spine is ParsedSpine => spine !== null);
+
+  // groupWords returns columns left to right and rows top to bottom
+  return [
+    ...toSpines(groupWords(words.filter(word => word.orientation !== 'horizontal'), 'cx')),
+    ...toSpines(groupWords(words.filter(word => word.orientation === 'horizontal'), 'cy'))
+  ];
+}
@@ -0,0 +1,260 @@
+/**
+ * Utility functions for resolving titles read from book spines to search results
+ */
+
+/**
+ * What the vision step read off a spine
+ */
+export interface SpineQuery {
+  title: string;
+  author?: string;
+}
+
+/**
+ * Minimal shape of a search result that can be scored
+ */
+export interface MatchableBook {
+  title: string;
+  author: string;
+}
+
+export interface ScoredCandidate<T extends MatchableBook> {
+  book: T;
+  score: number;
+  titleScore: number;
+  // null when either side has no usable author to compare
+  authorScore: number | null;
+}
+
+export interface TitleResolution<T extends MatchableBook> {
+  // The confidently resolved book, or null when nothing matched or the match was ambiguous
+  match: T | null;
+  score: number;
+  ambiguous: boolean;
+  // Plausible alternatives, best first, for the user to choose from when match is null
+  candidates: ScoredCandidate<T>[];
+}
+
+// Minimum combined score for a result to be accepted as the book on the spine
+export const MIN_MATCH_SCORE = 0.6;
+
+// Results within this distance of the best score count as competing matches
+const AMBIGUITY_MARGIN = 0.08;
+
+// Lowest score still worth offering to the user as an alternative
+const MIN_CANDIDATE_SCORE = 0.4;
+
+const MAX_CANDIDATES = 5;
+
+// Weight of the author when the spine shows one; the title stays the main signal
+const AUTHOR_WEIGHT = 0.3;
+
+// Subtracted when the spine names an author the result clearly doesn't match
+const AUTHOR_MISMATCH_PENALTY = 0.3;
+const AUTHOR_MISMATCH_THRESHOLD = 0.5;
+
+// Matching only the part before a subtitle is slightly weaker evidence than matching the
+// full title, so "Dune" prefers "Dune" over "Dune: A Study Guide"
+const MAIN_TITLE_FACTOR = 0.9;
+
+const UNKNOWN_AUTHOR = 'unknown author';
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Similarity between two strings from 0 to 1, based on Levenshtein distance
+ */
+export function calculateSimilarity(str1: string, str2: string): number {
+  const longer = str1.length > str2.length ? str1 : str2;
+  const shorter = str1.length > str2.length ? str2 : str1;
+
+  if (longer.length === 0) {
+    return 1.0;
+  }
+
+  const distance = levenshteinDistance(longer, shorter);
+  return (longer.length - distance) / longer.length;
+}
+
+/**
+ * Levenshtein distance calculation for string similarity
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix: number[][] = [];
+
+  // Initialize the matrix
+  for (let i = 0; i <= str1.length; i++) {
+    matrix[i] = [i];
+  }
+
+  for (let j = 0; j <= str2.length; j++) {
+    matrix[0][j] = j;
+  }
+
+  // Fill the matrix
+  for (let i = 1; i <= str1.length; i++) {
+    for (let j = 1; j <= str2.length; j++) {
+      const cost = str1.charAt(i - 1) === str2.charAt(j - 1) ? 0 : 1;
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,      // deletion
+        matrix[i][j - 1] + 1,      // insertion
+        matrix[i - 1][j - 1] + cost  // substitution
+      );
+    }
+  }
+
+  return matrix[str1.length][str2.length];
+}
+
+/**
+ * Compare a spine title with a result title
+ * Spines rarely print subtitles, so the result's main title (before any colon) is also tried
+ */
+export function scoreTitle(spineTitle: string, resultTitle: string): number {
+  const spine = normalizeText(spineTitle);
+  const full = normalizeText(resultTitle);
+  const main = normalizeText(resultTitle.split(':')[0]);
+
+  return Math.max(calculateSimilarity(spine, full), calculateSimilarity(spine, main) * MAIN_TITLE_FACTOR);
+}
+
+/**
+ * Compare a spine author with a result's author list ("A, B")
+ * Spines often print only a surname, so a surname match scores nearly as well as a full match
+ * @returns Best score across the result's authors, or null when either side has no author
+ */
+export function scoreAuthor(spineAuthor: string | undefined, resultAuthor: string | undefined): number | null {
+  const spine = spineAuthor ? normalizeText(spineAuthor) : '';
+  if (!spine || !resultAuthor || normalizeText(resultAuthor) === UNKNOWN_AUTHOR) {
+    return null;
+  }
+
+  const spineTokens = spine.split(' ');
+  const spineSurname = spineTokens[spineTokens.length - 1];
+
+  let best = 0;
+  for (const author of resultAuthor.split(',')) {
+    const normalized = normalizeText(author);
+    if (!normalized) {
+      continue;
+    }
+
+    const tokens = normalized.split(' ');
+    if (normalized === spine || spineTokens.every(token => tokens.includes(token))) {
+      return 1;
+    }
+
+    let score = calculateSimilarity(spine, normalized);
+    if (tokens[tokens.length - 1] === spineSurname) {
+      score = Math.max(score, 0.9);
+    }
+    best = Math.max(best, score);
+  }
+
+  return best;
+}
+
+/**
+ * Score a search result against what was read from the spine
+ */
+export function scoreCandidate<T extends MatchableBook>(query: SpineQuery, book: T): ScoredCandidate<T> {
+  const titleScore = scoreTitle(query.title, book.title || '');
+  const authorScore = scoreAuthor(query.author, book.author);
+
+  let score = titleScore;
+  if (authorScore !== null) {
+    score = titleScore * (1 - AUTHOR_WEIGHT) + authorScore * AUTHOR_WEIGHT;
+    if (authorScore < AUTHOR_MISMATCH_THRESHOLD) {
+      score -= AUTHOR_MISMATCH_PENALTY;
+    }
+  }
+
+  return {
+    book,
+    score: Math.max(0, score),
+    titleScore,
+    authorScore
+  };
+}
+
+/**
+ * Pick the search result that best matches a spine
+ * Editions of the same work are collapsed first so they don't count as competing matches.
+ * When the top results belong to different works and score about the same, no match is
+ * chosen and the alternatives are returned as candidates instead.
+ */
+export function resolveTitle<T extends MatchableBook>(query: SpineQuery, results: T[]): TitleResolution<T> {
+  const byWork = new Map<string, ScoredCandidate<T>>();
+
+  for (const book of results) {
+    if (!book || !book.title) {
+      continue;
+    }
+
+    const scored = scoreCandidate(query, book);
+    const key = `${normalizeText(book.title)}|${normalizeText(book.author || '')}`;
+    const existing = byWork.get(key);
+    if (!existing || scored.score > existing.score) {
+      byWork.set(key, scored);
+    }
+  }
+
+  const ranked = Array.from(byWork.values()).sort((a, b) => b.score - a.score);
+  const best = ranked[0];
+
+  if (!best) {
+    return { match: null, score: 0, ambiguous: false, candidates: [] };
+  }
+
+  const competing = ranked.filter(candidate =>
+    candidate.score >= MIN_MATCH_SCORE && best.score - candidate.score <= AMBIGUITY_MARGIN);
+
+  if (best.score >= MIN_MATCH_SCORE && competing.length === 1) {
+    return { match: best.book, score: best.score, ambiguous: false, candidates: [] };
+  }
+
+  return {
+    match: null,
+    score: best.score,
+    ambiguous: competing.length > 1,
+    candidates: ranked
+      .filter(candidate => candidate.score >= MIN_CANDIDATE_SCORE)
+      .slice(0, MAX_CANDIDATES)
+  };
+}
+
+/**
+ * Whether two detections refer to the same book
+ * Matching ISBNs decide it; otherwise the normalized title and author must both agree,
+ * so different editions of one work seen in overlapping photos collapse together.
+ */
+export function isSameBook(a: MatchableBook & { isbn?: string }, b: MatchableBook & { isbn?: string }): boolean {
+  if (a.isbn && b.isbn && a.isbn === b.isbn) {
+    return true;
+  }
+
+  return normalizeText(a.title || '') === normalizeText(b.title || '')
+    && normalizeText(a.author || '') === normalizeText(b.author || '');
+}
+
+/**
+ * Whether two author names refer to the same author; either may contain the other, so
+ * "Tolkien" matches "J.R.R. Tolkien"
+ */
+export function authorNamesMatch(a: string, b: string): boolean {
+  const left = a.toLowerCase().trim();
+  const right = b.toLowerCase().trim();
+  return !!left && !!right && (left.includes(right) || right.includes(left));
+}
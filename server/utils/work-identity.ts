@@ -0,0 +1,131 @@
+/**
+ * Utility functions for identifying the work (the book itself, independent of edition)
+ * behind a title and author string
+ */
+
+export type EditionFormat = 'hardcover' | 'paperback' | 'ebook' | 'audiobook' | 'mass-market';
+
+export interface SeriesInfo {
+  // Title without the series label
+  title: string;
+  series?: string;
+  seriesPosition?: string;
+}
+
+export interface WorkIdentity extends SeriesInfo {
+  // Stable key shared by every edition of the work: normalized title + first author
+  workKey: string;
+  authors: string[];
+}
+
+const UNKNOWN_AUTHOR = 'unknown author';
+
+// "(The Expanse, #1)", "(Discworld #4)", "(Wheel of Time, Book 2)"
+const SERIES_PATTERN = /\s*[([]\s*([^()[\]]+?),?\s+(?:#|book\s+|vol\.?\s+|volume\s+)(\d+(?:\.\d+)?)\s*[)\]]\s*$/i;
+
+// Trailing groups that describe the edition rather than the work: "(Penguin Classics)", "[Paperback]"
+const TRAILING_GROUP_PATTERN = /\s*[([][^()[\]]*[)\]]\s*$/;
+
+const FORMAT_MARKERS: [RegExp, EditionFormat][] = [
+  [/\baudio\s?(?:book|cd)\b|\bunabridged\b/i, 'audiobook'],
+  [/\bkindle\b|\be-?book\b|\bebook\b/i, 'ebook'],
+  [/\bmass[\s-]market\b/i, 'mass-market'],
+  [/\bhard\s?(?:cover|back)\b/i, 'hardcover'],
+  [/\bpaper\s?back\b|\bsoftcover\b/i, 'paperback']
+];
+
+/**
+ * Lowercase, strip accents and punctuation, and collapse whitespace
+ */
+export function normalizeForKey(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Split a combined author string ("Neil Gaiman, Terry Pratchett") into names
+ */
+export function parseAuthorNames(author: string | null | undefined): string[] {
+  if (!author) {
+    return [];
+  }
+
+  return author
+    .split(/\s*(?:,|;|&|\band\b)\s*/i)
+    .map(name => name.trim())
+    .filter(name => name.length > 0 && name.toLowerCase() !== UNKNOWN_AUTHOR);
+}
+
+/**
+ * Separate a trailing series label from a title
+ */
+export function extractSeries(title: string): SeriesInfo {
+  const match = title.match(SERIES_PATTERN);
+  if (!match || match.index === 0) {
+    return { title: title.trim() };
+  }
+
+  return {
+    title: title.slice(0, match.index).trim(),
+    series: match[1].trim(),
+    seriesPosition: match[2]
+  };
+}
+
+/**
+ * Edition format named in a title or description, if any
+ */
+export function detectEditionFormat(text: string | null | undefined): EditionFormat | undefined {
+  if (!text) {
+    return undefined;
+  }
+  return FORMAT_MARKERS.find(([pattern]) => pattern.test(text))?.[1];
+}
+
+/**
+ * Title reduced to what every edition shares: no series label, edition notes, subtitle or
+ * leading article
+ */
+function workTitleKey(title: string): string {
+  let value = extractSeries(title).title;
+
+  while (TRAILING_GROUP_PATTERN.test(value)) {
+    const stripped = value.replace(TRAILING_GROUP_PATTERN, '');
+    if (!stripped.trim()) {
+      break;
+    }
+    value = stripped;
+  }
+
+  // Keep the subtitle when the main title is too short to identify the book on its own
+  const [mainTitle] = value.split(/\s*:\s+|\s+-\s+/);
+  if (normalizeForKey(mainTitle).length >= 3) {
+    value = mainTitle;
+  }
+
+  return normalizeForKey(value).replace(/^(?:the|a|an) /, '');
+}
+
+/**
+ * Key identifying a work across editions
+ */
+export function buildWorkKey(title: string, author: string | null | undefined): string {
+  const [firstAuthor] = parseAuthorNames(author);
+  return `${workTitleKey(title)}|${firstAuthor ? normalizeForKey(firstAuthor) : ''}`;
+}
+
+/**
+ * Everything needed to find or create the work behind a title and author
+ */
+export function getWorkIdentity(title: string, author: string | null | undefined): WorkIdentity {
+  return {
+    ...extractSeries(title),
+    workKey: buildWorkKey(title, author),
+    authors: parseAuthorNames(author)
+  };
+}
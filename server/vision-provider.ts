@@ -0,0 +1,197 @@
+import { log } from "./simple-logger.js";
+import { openAIVisionProvider } from "./openai-vision.js";
+import { googleVisionProvider } from "./vision.js";
+import { localOCRVisionProvider } from "./local-ocr-vision.js";
+import type { BoundingBox, SpineDetection } from "../shared/schema.js";
+import type { PreprocessedImage } from "./image-preprocessing.js";
+
+/**
+ * Result of analyzing a shelf photo
+ * bookTitles is kept for existing callers; spines carries the per-spine detail
+ */
+export interface BookshelfAnalysis {
+  bookTitles: string[];
+  isBookshelf: boolean;
+  spines: SpineDetection[];
+  // Name of the provider that produced the result
+  provider?: string;
+}
+
+/**
+ * A backend that can read book spines from a shelf photo
+ * analyze() should throw when it can't produce a result so the next provider is tried.
+ */
+export interface VisionProvider {
+  name: string;
+  // Whether the provider can run right now (enabled, keys configured, module installed)
+  isAvailable(): boolean | Promise<boolean>;
+  analyze(base64Image: string): Promise<BookshelfAnalysis>;
+}
+
+// Provider used first when VISION_PROVIDER isn't set
+const DEFAULT_PROVIDER = 'openai';
+
+// Providers tried after each provider fails, unless overridden with VISION_FALLBACK_<NAME>
+const DEFAULT_FALLBACKS: Record<string, string[]> = {
+  openai: ['google']
+};
+
+const providers = new Map<string, VisionProvider>();
+
+/**
+ * Add a provider to the registry, replacing any provider with the same name
+ */
+export function registerVisionProvider(provider: VisionProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Names of all registered providers
+ */
+export function getRegisteredVisionProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+/**
+ * Parse a comma-separated provider list from the environment
+ */
+function parseProviderList(value: string): string[] {
+  return value.split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Providers to try after the given one fails
+ * Configured per provider with VISION_FALLBACK_<NAME> (e.g. VISION_FALLBACK_OPENAI=google,local-ocr);
+ * an empty value disables fallback for that provider.
+ */
+function getFallbacks(name: string): string[] {
+  const envValue = process.env[`VISION_FALLBACK_${name.toUpperCase().replace(/-/g, '_')}`];
+  if (envValue !== undefined) {
+    return parseProviderList(envValue);
+  }
+  return DEFAULT_FALLBACKS[name] || [];
+}
+
+/**
+ * The order providers are tried in: the VISION_PROVIDER choice, then each provider's
+ * fallbacks depth-first, skipping providers already in the order
+ */
+export function getVisionProviderOrder(): string[] {
+  const primary = (process.env.VISION_PROVIDER || DEFAULT_PROVIDER).trim().toLowerCase();
+  const order: string[] = [];
+
+  const visit = (name: string) => {
+    if (order.includes(name)) {
+      return;
+    }
+    order.push(name);
+    getFallbacks(name).forEach(visit);
+  };
+
+  visit(primary);
+  return order;
+}
+
+/**
+ * Main function to analyze a bookshelf image and identify book titles
+ * Tries the configured providers in order until one returns a result
+ */
+export async function analyzeBookshelfImage(base64Image: string): Promise<BookshelfAnalysis> {
+  for (const name of getVisionProviderOrder()) {
+    const provider = providers.get(name);
+
+    if (!provider) {
+      log(`Unknown vision provider "${name}" in configuration, skipping`, "vision");
+      continue;
+    }
+
+    try {
+      if (!(await provider.isAvailable())) {
+        log(`Vision provider "${name}" is not available, skipping`, "vision");
+        continue;
+      }
+
+      log(`Analyzing image with vision provider "${name}"`, "vision");
+      const analysis = await provider.analyze(base64Image);
+      return { ...analysis, provider: name };
+    } catch (error) {
+      log(`Vision provider "${name}" failed: ${error instanceof Error ? error.message : String(error)}`, "vision");
+    }
+  }
+
+  log("All vision providers failed or were unavailable", "vision");
+
+  // Return empty results if all methods fail
+  return {
+    bookTitles: [],
+    isBookshelf: false,
+    spines: []
+  };
+}
+
+/**
+ * Map a box inside a tile back onto the full image
+ */
+function toImageBox(box: BoundingBox | null, region: BoundingBox): BoundingBox | null {
+  if (!box) {
+    return null;
+  }
+  return {
+    x: region.x + box.x * region.width,
+    y: region.y + box.y * region.height,
+    width: box.width * region.width,
+    height: box.height * region.height
+  };
+}
+
+/**
+ * Analyze a preprocessed image, one provider call per tile when it was cut into shelf rows
+ * Spines from all tiles are merged with their boxes relative to the full image; a title read
+ * in two overlapping tiles is kept once.
+ */
+export async function analyzePreprocessedImage(image: PreprocessedImage): Promise<BookshelfAnalysis> {
+  if (image.tiles.length === 0) {
+    return analyzeBookshelfImage(image.base64);
+  }
+
+  const merged: BookshelfAnalysis = { bookTitles: [], isBookshelf: false, spines: [] };
+  const seenTitles = new Set<string>();
+  const providersUsed = new Set<string>();
+
+  for (const tile of image.tiles) {
+    const analysis = await analyzeBookshelfImage(tile.base64);
+    merged.isBookshelf = merged.isBookshelf || analysis.isBookshelf;
+    if (analysis.provider) {
+      providersUsed.add(analysis.provider);
+    }
+
+    for (const spine of analysis.spines) {
+      const key = spine.text.toLowerCase();
+      if (seenTitles.has(key)) {
+        continue;
+      }
+      seenTitles.add(key);
+      merged.bookTitles.push(spine.text);
+      merged.spines.push({ ...spine, boundingBox: toImageBox(spine.boundingBox, tile.region) });
+    }
+
+    // Providers may return titles without spine details
+    for (const title of analysis.bookTitles) {
+      if (!seenTitles.has(title.toLowerCase())) {
+        seenTitles.add(title.toLowerCase());
+        merged.bookTitles.push(title);
+      }
+    }
+  }
+
+  log(`Analyzed ${image.tiles.length} tiles, ${merged.spines.length} spines after merging`, "vision");
+
+  return {
+    ...merged,
+    provider: providersUsed.size > 0 ? Array.from(providersUsed).join(',') : undefined
+  };
+}
+
+registerVisionProvider(openAIVisionProvider);
+registerVisionProvider(googleVisionProvider);
+registerVisionProvider(localOCRVisionProvider);
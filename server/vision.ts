@@ -1,5 +1,8 @@
 import axios from 'axios';
 import { log } from './simple-logger.js';
+import { rateLimiter } from './rate-limiter.js';
+import type { BookshelfAnalysis, VisionProvider } from './vision-provider.js';
+import { parseSpineText, type TextAnnotation, type VisionTextResponse } from './utils/spine-text-parser.js';
 
 interface VisionRequest {
   requests: {
@@ -19,100 +22,137 @@ interface VisionResponse {
       description: string;
       score: number;
     }[];
-    textAnnotations?: {
-      description: string;
-    }[];
+    textAnnotations?: TextAnnotation[];
     logoAnnotations?: {
       description: string;
       score: number;
     }[];
-    fullTextAnnotation?: {
-      text: string;
-    };
+    fullTextAnnotation?: VisionTextResponse['fullTextAnnotation'];
     error?: {
       message: string;
     };
   }[];
 }
 
-export async function analyzeImage(base64Image: string): Promise<any> {
-  try {
-    const apiKey = process.env.GOOGLE_VISION_API_KEY;
-    if (!apiKey) {
-      throw new Error('Google Vision API key is not configured');
-    }
-    
-    // Remove data URL prefix if present and ensure proper formatting
-    let imageContent = base64Image;
-    if (imageContent.includes(',')) {
-      imageContent = imageContent.split(',')[1];
-    }
-    
-    if (!imageContent || imageContent.length < 100) {
-      throw new Error('Invalid image data provided');
-    }
-    
-    log(`Processing image with Google Vision API, content length: ${imageContent.length}`);
-    
-    const visionRequest: VisionRequest = {
-      requests: [
-        {
-          image: {
-            content: imageContent,
-          },
-          features: [
-            {
-              type: 'TEXT_DETECTION',
-              maxResults: 5,
-            },
-            {
-              type: 'LABEL_DETECTION',
-              maxResults: 5,
-            },
-          ],
+interface ImageAnalysis {
+  isBookshelf: boolean;
+  text: string;
+  labels: { description: string; score: number }[];
+  // Word-level text detections with their positions
+  annotations: VisionTextResponse;
+}
+
+/**
+ * Run text and label detection on an image with the Google Vision API
+ * Throws on missing configuration, invalid input or API errors
+ */
+export async function analyzeImage(base64Image: string): Promise<ImageAnalysis> {
+  const apiKey = process.env.GOOGLE_VISION_API_KEY;
+  if (!apiKey) {
+    throw new Error('Google Vision API key is not configured');
+  }
+  
+  // Remove data URL prefix if present and ensure proper formatting
+  let imageContent = base64Image;
+  if (imageContent.includes(',')) {
+    imageContent = imageContent.split(',')[1];
+  }
+  
+  if (!imageContent || imageContent.length < 100) {
+    throw new Error('Invalid image data provided');
+  }
+  
+  log(`Processing image with Google Vision API, content length: ${imageContent.length}`);
+  
+  const visionRequest: VisionRequest = {
+    requests: [
+      {
+        image: {
+          content: imageContent,
         },
-      ],
-    };
+        features: [
+          {
+            type: 'TEXT_DETECTION',
+            maxResults: 5,
+          },
+          {
+            type: 'LABEL_DETECTION',
+            maxResults: 5,
+          },
+        ],
+      },
+    ],
+  };
 
-    const response = await axios.post<VisionResponse>(
-      `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`,
-      visionRequest
-    );
+  const response = await axios.post<VisionResponse>(
+    `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`,
+    visionRequest
+  );
 
-    const visionResponse = response.data.responses[0];
-    
-    if (visionResponse.error) {
-      throw new Error(`Vision API error: ${visionResponse.error.message}`);
-    }
+  const visionResponse = response.data.responses[0];
+  
+  if (visionResponse.error) {
+    throw new Error(`Vision API error: ${visionResponse.error.message}`);
+  }
 
-    // Extract text that might represent book titles or authors
-    let extractedText = '';
-    if (visionResponse.fullTextAnnotation) {
-      extractedText = visionResponse.fullTextAnnotation.text;
-    } else if (visionResponse.textAnnotations && visionResponse.textAnnotations.length > 0) {
-      extractedText = visionResponse.textAnnotations[0].description;
-    }
+  // Extract text that might represent book titles or authors
+  let extractedText = '';
+  if (visionResponse.fullTextAnnotation) {
+    extractedText = visionResponse.fullTextAnnotation.text;
+  } else if (visionResponse.textAnnotations && visionResponse.textAnnotations.length > 0) {
+    extractedText = visionResponse.textAnnotations[0].description;
+  }
 
-    // Check if labels indicate it's a book
-    const isBookshelf = visionResponse.labelAnnotations?.some(
-      label => label.description.toLowerCase().includes('book') || 
-               label.description.toLowerCase().includes('shelf') ||
-               label.description.toLowerCase().includes('library')
-    );
+  // Check if labels indicate it's a book
+  const isBookshelf = !!visionResponse.labelAnnotations?.some(
+    label => label.description.toLowerCase().includes('book') || 
+             label.description.toLowerCase().includes('shelf') ||
+             label.description.toLowerCase().includes('library')
+  );
 
-    return {
-      isBookshelf,
-      text: extractedText,
-      labels: visionResponse.labelAnnotations || [],
-    };
-  } catch (error) {
-    log(`Error analyzing image: ${error instanceof Error ? error.message : String(error)}`, 'vision');
-    
-    // Return empty data so that the user knows there was an error
-    return {
-      isBookshelf: false,
-      text: "Error analyzing image. Please try again with a clearer photo.",
-      labels: []
-    };
+  return {
+    isBookshelf,
+    text: extractedText,
+    labels: visionResponse.labelAnnotations || [],
+    annotations: {
+      textAnnotations: visionResponse.textAnnotations,
+      fullTextAnnotation: visionResponse.fullTextAnnotation
+    },
+  };
+}
+
+/**
+ * Analyze a bookshelf image with Google Vision text detection
+ */
+async function analyzeWithGoogleVision(base64Image: string): Promise<BookshelfAnalysis> {
+  // Check rate limits and atomically increment if allowed
+  if (!(await rateLimiter.checkAndIncrement('google-vision'))) {
+    throw new Error('Rate limit reached for Google Vision API');
   }
+  
+  const visionResult = await analyzeImage(base64Image);
+  const parsedSpines = parseSpineText(visionResult.annotations);
+  
+  log(`Google Vision extracted ${parsedSpines.length} potential titles`, 'vision');
+  
+  return {
+    bookTitles: parsedSpines.map(spine => spine.text),
+    isBookshelf: visionResult.isBookshelf || parsedSpines.length > 1,
+    spines: parsedSpines.map(spine => ({
+      text: spine.text,
+      author: spine.author,
+      boundingBox: spine.boundingBox,
+      confidence: spine.confidence
+    }))
+  };
 }
+
+/**
+ * Vision provider backed by Google Cloud Vision
+ * Available when GOOGLE_VISION_API_KEY is set
+ */
+export const googleVisionProvider: VisionProvider = {
+  name: 'google',
+  isAvailable: () => !!process.env.GOOGLE_VISION_API_KEY,
+  analyze: analyzeWithGoogleVision
+};
@@ -1,6 +1,11 @@
-import { pgTable, text, serial, integer, jsonb, timestamp, varchar, pgSchema } from "drizzle-orm/pg-core";
+import {
+  pgTable, text, serial, integer, jsonb, timestamp, varchar, real, unique, index, pgSchema,
+  type PgColumnBuilderBase, type PgTableExtraConfigValue
+} from "drizzle-orm/pg-core";
+import type { BuildExtraConfigColumns } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { sql } from "drizzle-orm";
 
 // Get the schema name based on environment and deployment context
 const getSchemaName = () => {
@@ -53,8 +58,12 @@ export const appSchema = currentSchemaName === 'public'
   : pgSchema(currentSchemaName);
 
 // Helper function to create table in the correct schema
-const createTable = (name: string, columns: any) => {
-  return appSchema ? appSchema.table(name, columns) : pgTable(name, columns);
+const createTable = <TTableName extends string, TColumnsMap extends Record<string, PgColumnBuilderBase>>(
+  name: TTableName,
+  columns: TColumnsMap,
+  extraConfig?: (table: BuildExtraConfigColumns<TTableName, TColumnsMap, 'pg'>) => PgTableExtraConfigValue[]
+) => {
+  return appSchema ? appSchema.table(name, columns, extraConfig) : pgTable(name, columns, extraConfig);
 };
 
 // User schema
@@ -85,6 +94,58 @@ export const insertPreferenceSchema = createInsertSchema(preferences).pick({
   goodreadsData: true,
 });
 
+// Works - one row per book regardless of edition. workKey is the normalized title and first
+// author (see server/utils/work-identity.ts), so "Dune" and "DUNE (Penguin Galaxy)" share a row
+export const works = createTable("works", {
+  id: serial("id").primaryKey(),
+  workKey: text("work_key").notNull().unique(),
+  title: text("title").notNull(),
+  authors: text("authors").array().notNull(),
+  series: text("series"),
+  seriesPosition: varchar("series_position", { length: 10 }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertWorkSchema = createInsertSchema(works).pick({
+  workKey: true,
+  title: true,
+  authors: true,
+  series: true,
+  seriesPosition: true,
+});
+
+// Editions - a specific printing of a work, identified by its ISBNs
+export const editions = createTable("editions", {
+  id: serial("id").primaryKey(),
+  workId: integer("work_id").notNull().references(() => works.id),
+  isbn10: varchar("isbn_10", { length: 10 }).unique(),
+  isbn13: varchar("isbn_13", { length: 13 }).unique(),
+  format: varchar("format", { length: 20 }), // 'hardcover', 'paperback', 'ebook', 'audiobook', 'mass-market'
+  coverUrl: text("cover_url"),
+  publisher: text("publisher"),
+  publishedYear: integer("published_year"),
+  pageCount: integer("page_count"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertEditionSchema = createInsertSchema(editions).pick({
+  workId: true,
+  isbn10: true,
+  isbn13: true,
+  format: true,
+  coverUrl: true,
+  publisher: true,
+  publishedYear: true,
+  pageCount: true,
+});
+
+export type Work = typeof works.$inferSelect;
+export type InsertWork = z.infer<typeof insertWorkSchema>;
+
+export type Edition = typeof editions.$inferSelect;
+export type InsertEdition = z.infer<typeof insertEditionSchema>;
+
 // Book cache schema for storing book metadata to reduce external API calls
 // We'll create a unique book identifier from ISBN if available, or title+author if not
 export const bookCache = createTable("book_cache", {
@@ -96,23 +157,32 @@ export const bookCache = createTable("book_cache", {
   isbn: varchar("isbn", { length: 30 }).unique(),
   // Generate a unique book identifier as title+author for books without ISBN
   bookId: text("book_id").notNull().unique(),
+  // The work this entry describes; entries cached before works existed may not have one
+  workId: integer("work_id").references(() => works.id),
   coverUrl: text("cover_url"),
   rating: varchar("rating", { length: 10 }),
   summary: text("summary"),
+  // Prompt that wrote the summary, e.g. "summary@v1"; empty when it didn't come from a registered prompt
+  promptVersion: varchar("prompt_version", { length: 50 }),
   source: varchar("source", { length: 20 }).notNull(), // 'google', 'amazon', 'openai'
   metadata: jsonb("metadata"),
   cachedAt: timestamp("cached_at").defaultNow(),
   expiresAt: timestamp("expires_at"), // Cache expiration time
-});
+}, (table) => [
+  // Trigram index for finding similar titles (LOWER(title) % query); needs pg_trgm (npm run db:setup)
+  index("book_cache_title_trgm").using("gin", sql`lower(${table.title}) gin_trgm_ops`)
+]);
 
 export const insertBookCacheSchema = createInsertSchema(bookCache).pick({
   title: true,
   author: true,
   isbn: true,
   bookId: true,
+  workId: true,
   coverUrl: true,
   rating: true,
   summary: true,
+  promptVersion: true,
   source: true,
   metadata: true,
   expiresAt: true,
@@ -126,6 +196,7 @@ export const savedBooks = createTable("saved_books", {
   id: serial("id").primaryKey(),
   deviceId: text("device_id").notNull(),
   bookCacheId: integer("book_cache_id").references(() => bookCache.id),
+  workId: integer("work_id").references(() => works.id),
   title: text("title").notNull(),
   author: text("author").notNull(),
   coverUrl: text("cover_url"),
@@ -137,6 +208,7 @@ export const savedBooks = createTable("saved_books", {
 export const insertSavedBookSchema = createInsertSchema(savedBooks).pick({
   deviceId: true,
   bookCacheId: true,
+  workId: true,
   title: true,
   author: true,
   coverUrl: true,
@@ -144,8 +216,108 @@ export const insertSavedBookSchema = createInsertSchema(savedBooks).pick({
   summary: true,
 });
 
+// Scan history schema - one row per analyzed shelf (all photos of a scan session share a row)
+// Books and recommendations are stored as they were returned so a past scan can be re-opened
+// without calling OpenAI again
+export const scans = createTable("scans", {
+  id: serial("id").primaryKey(),
+  deviceId: text("device_id").notNull(),
+  sessionId: text("session_id"),
+  placeLabel: text("place_label"), // optional, e.g. "Living room shelf"
+  detectedBooks: jsonb("detected_books").notNull(),
+  recommendations: jsonb("recommendations"), // includes matchScore, matchReason and promptVersion per book
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertScanSchema = createInsertSchema(scans).pick({
+  deviceId: true,
+  sessionId: true,
+  placeLabel: true,
+  detectedBooks: true,
+  recommendations: true,
+});
+
+// Scan sessions in progress - the merged detections of a multi-photo scan, for deployments
+// (Vercel) where a session kept in process memory doesn't outlast the request
+export const scanSessions = createTable("scan_sessions", {
+  id: text("id").primaryKey(), // the session's UUID
+  deviceId: text("device_id").notNull(),
+  state: jsonb("state").notNull(), // photo count, titles, books and unresolved titles so far
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertScanSessionSchema = createInsertSchema(scanSessions).pick({
+  id: true,
+  deviceId: true,
+  state: true,
+});
+
+// Job run history - one row per run of a scheduled job, shown on the admin page
+export const jobRuns = createTable("job_runs", {
+  id: serial("id").primaryKey(),
+  jobName: varchar("job_name", { length: 50 }).notNull(),
+  trigger: varchar("trigger", { length: 20 }).notNull(), // 'schedule' (in-process) or 'cron' (/api/cron/:job)
+  status: varchar("status", { length: 20 }).notNull(), // 'success' or 'failed'
+  result: jsonb("result"), // job-specific counts, e.g. { removed: 12 }
+  error: text("error"),
+  durationMs: integer("duration_ms").notNull(),
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at").defaultNow(),
+});
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).pick({
+  jobName: true,
+  trigger: true,
+  status: true,
+  result: true,
+  error: true,
+  durationMs: true,
+  startedAt: true,
+});
+
+// Book embeddings - one vector per work and embedding model, stored as a float array so no
+// database extension (pgvector) is needed. textHash tells when the book's text has changed.
+export const bookEmbeddings = createTable("book_embeddings", {
+  id: serial("id").primaryKey(),
+  workKey: text("work_key").notNull(),
+  model: varchar("model", { length: 100 }).notNull(), // e.g. 'openai:text-embedding-3-small' or 'hashing:512'
+  textHash: varchar("text_hash", { length: 64 }).notNull(),
+  embedding: real("embedding").array().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("book_embeddings_work_model").on(table.workKey, table.model)]);
+
+export const insertBookEmbeddingSchema = createInsertSchema(bookEmbeddings).pick({
+  workKey: true,
+  model: true,
+  textHash: true,
+  embedding: true,
+});
+
+// Book feedback - what a device told us about a recommended book, one row per device and work
+export const bookFeedback = createTable("book_feedback", {
+  id: serial("id").primaryKey(),
+  deviceId: text("device_id").notNull(),
+  workKey: text("work_key").notNull(),
+  title: text("title").notNull(),
+  author: text("author").notNull(),
+  type: varchar("type", { length: 20 }).notNull(), // 'not_interested', 'read_liked' or 'read_disliked'
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [unique("book_feedback_device_work").on(table.deviceId, table.workKey)]);
+
+export const insertBookFeedbackSchema = createInsertSchema(bookFeedback).pick({
+  deviceId: true,
+  workKey: true,
+  title: true,
+  author: true,
+  type: true,
+}).extend({
+  type: z.enum(['not_interested', 'read_liked', 'read_disliked']),
+});
+
 // Type definitions
-export type User = typeof users.$inferSelect;
+export type User =typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Preference = typeof preferences.$inferSelect;
@@ -156,14 +328,70 @@ export type InsertPreference = z.infer<typeof insertPreferenceSchema>;
 export type SavedBook = typeof savedBooks.$inferSelect;
 export type InsertSavedBook = z.infer<typeof insertSavedBookSchema>;
 
+export type Scan = typeof scans.$inferSelect;
+export type InsertScan = z.infer<typeof insertScanSchema>;
+
+export type ScanSessionRecord = typeof scanSessions.$inferSelect;
+export type InsertScanSessionRecord = z.infer<typeof insertScanSessionSchema>;
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+
+export type BookEmbedding = typeof bookEmbeddings.$inferSelect;
+export type InsertBookEmbedding = z.infer<typeof insertBookEmbeddingSchema>;
+
+export type BookFeedback = typeof bookFeedback.$inferSelect;
+export type InsertBookFeedback = z.infer<typeof insertBookFeedbackSchema>;
+
+// One ranking feature's part in a recommendation's score
+export interface ExplanationFactor {
+  feature: string; // e.g. "authorAffinity"
+  label: string; // e.g. "Favorite author"
+  weight: number; // points per unit of the feature
+  points: number; // what the feature added to (or took from) the score
+  evidence: string[]; // e.g. ["genre Science Fiction"]
+}
+
+// Why a book was ranked where it was, built by the ranking engine
+export interface RecommendationExplanation {
+  score: number;
+  // Features that changed the score, largest effect first
+  factors: ExplanationFactor[];
+}
+
 // Recommendation types are now defined as interfaces since we're using ephemeral recommendations
 export interface Recommendation {
+  workId?: number;
   title: string;
   author: string;
   coverUrl?: string;
   rating?: string;
   summary?: string;
   matchScore?: number;
+  // Points each ranking feature added to matchScore, e.g. { genreOverlap: 20, alreadyRead: 0, ... }
+  scoreBreakdown?: Record<string, number>;
   matchReason?: string;
+  explanation?: RecommendationExplanation;
+  // Prompt that chose the recommendation, e.g. "recommendations@v1"
+  promptVersion?: string;
+  // Highly rated pick outside the reader's usual genres, added when diversity is requested
+  wildcard?: boolean;
 }
 
+// Bounding box of a detected spine, normalized to 0-1 relative to the analyzed image
+// (origin at the top-left corner)
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A single book spine read from a shelf photo
+export interface SpineDetection {
+  text: string;
+  author?: string;
+  boundingBox: BoundingBox | null; // null when the vision backend can't locate the spine
+  confidence: number; // 0-1
+  photoIndex?: number; // which photo of a multi-photo scan session the spine was read from
+}
@@ -0,0 +1,63 @@
+import { isNdjsonResponse, readNdjson } from '../../../client/src/lib/ndjson';
+
+// Build a response whose body arrives in the given chunks
+const streamedResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+  return { body, headers: new Headers({ 'Content-Type': 'application/x-ndjson; charset=utf-8' }) } as unknown as Response;
+};
+
+describe('NDJSON utils', () => {
+  describe('isNdjsonResponse', () => {
+    test('should detect NDJSON content types', () => {
+      expect(isNdjsonResponse(streamedResponse([]))).toBe(true);
+    });
+
+    test('should reject plain JSON', () => {
+      const response = { headers: new Headers({ 'Content-Type': 'application/json' }) } as unknown as Response;
+      expect(isNdjsonResponse(response)).toBe(false);
+    });
+  });
+
+  describe('readNdjson', () => {
+    test('should emit one event per line', async () => {
+      const events: unknown[] = [];
+      await readNdjson(streamedResponse(['{"type":"stage"}\n{"type":"book"}\n']), event => events.push(event));
+
+      expect(events).toEqual([{ type: 'stage' }, { type: 'book' }]);
+    });
+
+    test('should join lines split across chunks', async () => {
+      const events: unknown[] = [];
+      await readNdjson(streamedResponse(['{"type":"bo', 'ok","n":1}\n{"ty', 'pe":"result"}\n']), event => events.push(event));
+
+      expect(events).toEqual([{ type: 'book', n: 1 }, { type: 'result' }]);
+    });
+
+    test('should read a final line without a trailing newline', async () => {
+      const events: unknown[] = [];
+      await readNdjson(streamedResponse(['{"a":1}\n\n', '{"a":2}']), event => events.push(event));
+
+      expect(events).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    test('should fall back to the whole text when there is no readable body', async () => {
+      const events: unknown[] = [];
+      const response = { body: null, text: async () => '{"a":1}\n{"a":2}\n' } as unknown as Response;
+      await readNdjson(response, event => events.push(event));
+
+      expect(events).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    test('should stop with the error thrown by the handler', async () => {
+      await expect(readNdjson(streamedResponse(['{"type":"error"}\n']), () => {
+        throw new Error('Analysis failed');
+      })).rejects.toThrow('Analysis failed');
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import path from 'path';
+
+// Runs against the responses recorded in tests/fixtures/api (see playwright.config.ts)
+const SHELF_IMAGE = path.join(__dirname, '../fixtures/images/book-titles.png');
+
+test.describe('ShelfScanner Replayed Scan', () => {
+  test('should scan a shelf photo and recommend from it', async ({ request }) => {
+    test.setTimeout(60 * 1000);
+
+    const scan = await request.post('/api/books/analyze', {
+      multipart: {
+        image: {
+          name: 'book-titles.png',
+          mimeType: 'image/png',
+          buffer: fs.readFileSync(SHELF_IMAGE)
+        }
+      }
+    });
+    expect(scan.ok()).toBeTruthy();
+
+    const { books } = await scan.json();
+    expect(books.map((book: { title: string }) => book.title)).toEqual([
+      'The Hobbit',
+      'Pride and Prejudice',
+      'Dune Messiah'
+    ]);
+
+    const response = await request.post('/api/direct/recommendations', {
+      data: {
+        books,
+        preferences: { genres: ['Fantasy', 'Science Fiction'], authors: ['Frank Herbert'] }
+      }
+    });
+    expect(response.ok()).toBeTruthy();
+
+    const recommendations = await response.json();
+    expect(recommendations.map((book: { title: string }) => book.title)).toEqual(['Dune Messiah', 'The Hobbit']);
+    expect(recommendations[0].summary).toContain('Paul Atreides');
+  });
+});
@@ -0,0 +1,81 @@
+import express, { type Request } from 'express';
+import request from 'supertest';
+import { AnalysisStream, getStreamFormat, type AnalysisEvent } from '../../server/analysis-stream';
+
+const events: AnalysisEvent[] = [
+  { type: 'stage', stage: 'vision', message: 'Vision complete: 2 titles', titleCount: 2 },
+  { type: 'book', book: { title: 'Dune' }, processed: 1, total: 2 },
+  { type: 'progress', processed: 2, total: 2 }
+];
+const result: AnalysisEvent = { type: 'result', result: { books: [{ title: 'Dune' }] } };
+
+// Streams the events in the format the request asked for, as the analyze route does
+const app = express();
+app.get('/analyze', (req, res) => {
+  const format = getStreamFormat(req);
+  if (!format) {
+    return res.json({ streamed: false });
+  }
+  const stream = new AnalysisStream(res, format);
+  events.forEach(event => stream.send(event));
+  stream.end(result);
+});
+
+const fakeRequest = (query: Record<string, string>, accept?: string) =>
+  ({ query, headers: accept ? { accept } : {} }) as unknown as Request;
+
+describe('Analysis Stream', () => {
+  describe('getStreamFormat', () => {
+    test('should read the format from the stream query parameter', () => {
+      expect(getStreamFormat(fakeRequest({ stream: 'ndjson' }))).toBe('ndjson');
+      expect(getStreamFormat(fakeRequest({ stream: 'SSE' }))).toBe('sse');
+    });
+
+    test('should read the format from the Accept header', () => {
+      expect(getStreamFormat(fakeRequest({}, 'application/x-ndjson'))).toBe('ndjson');
+      expect(getStreamFormat(fakeRequest({}, 'text/event-stream'))).toBe('sse');
+    });
+
+    test('should ask for plain JSON otherwise', () => {
+      expect(getStreamFormat(fakeRequest({}, 'application/json'))).toBeNull();
+      expect(getStreamFormat(fakeRequest({ stream: 'xml' }))).toBeNull();
+    });
+  });
+
+  describe('AnalysisStream', () => {
+    test('should write one JSON event per line in NDJSON', async () => {
+      const response = await request(app).get('/analyze?stream=ndjson').expect(200);
+
+      expect(response.headers['content-type']).toBe('application/x-ndjson; charset=utf-8');
+      expect(response.headers['cache-control']).toBe('no-cache, no-transform');
+      expect(response.headers['x-accel-buffering']).toBe('no');
+      expect(response.text.endsWith('\n')).toBe(true);
+      expect(response.text.trim().split('\n').map(line => JSON.parse(line))).toEqual([...events, result]);
+    });
+
+    test('should write named Server-Sent Events', async () => {
+      const response = await request(app)
+        .get('/analyze')
+        .set('Accept', 'text/event-stream')
+        .buffer(true)
+        .parse((res, callback) => {
+          let text = '';
+          res.on('data', (chunk: Buffer) => {
+            text += chunk.toString();
+          });
+          res.on('end', () => callback(null, text));
+        })
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+      const messages = (response.body as string).split('\n\n').filter(Boolean);
+      expect(messages).toEqual([...events, result].map(event => `event: ${event.type}\ndata: ${JSON.stringify(event)}`));
+    });
+
+    test('should answer with plain JSON when no stream was asked for', async () => {
+      const response = await request(app).get('/analyze').expect(200);
+
+      expect(response.body).toEqual({ streamed: false });
+    });
+  });
+});
@@ -1,275 +1,149 @@
+import fs from 'fs';
+import path from 'path';
+import express, { type Express } from 'express';
+import cookieParser from 'cookie-parser';
 import request from 'supertest';
-import express from 'express';
-import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeAll, afterAll, jest } from '@jest/globals';
 
-// Mock dependencies
-jest.mock('@server/db');
-jest.mock('openai');
-jest.mock('@google-cloud/vision');
+// The database isn't an external API, so it is the one thing still mocked; Google Books,
+// Open Library and OpenAI answer from the recorded fixtures in tests/fixtures/api
+jest.mock('../../server/storage', () => ({ storage: require('../utils/test-helpers').createMockStorage() }));
+jest.mock('../../server/db', () => ({ db: require('../utils/test-helpers').createMockQueryBuilder() }));
 
-describe('API Routes Integration Tests', () => {
-  let app: express.Application;
+import { installRecordReplay, uninstallRecordReplay } from '../../server/record-replay';
+import { registerRoutes } from '../../server/routes';
+import { storage } from '../../server/storage';
 
-  beforeEach(() => {
-    jest.clearAllMocks();
-    
-    // Create a minimal Express app for testing
-    app = express();
-    app.use(express.json());
-    
-    // Mock routes for testing
-    app.get('/api/health', (req, res) => {
-      res.json({ status: 'ok', timestamp: Date.now() });
-    });
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/api');
+const SHELF_IMAGE = fs.readFileSync(path.join(__dirname, '../fixtures/images/book-titles.png'));
+const PREFERENCES = { genres: ['Fantasy', 'Science Fiction'], authors: ['Frank Herbert'] };
 
-    app.post('/api/books/analyze', (req, res) => {
-      const { image } = req.body;
-      if (!image) {
-        return res.status(400).json({ error: 'Image is required' });
-      }
-      
-      res.json({
-        detectedBooks: [
-          { title: 'Test Book', author: 'Test Author', confidence: 0.95 }
-        ]
-      });
-    });
+describe('API Routes Integration Tests', () => {
+  let app: Express;
 
-    app.post('/api/preferences', (req, res) => {
-      const { deviceId, genres, authors } = req.body;
-      if (!deviceId || !genres) {
-        return res.status(400).json({ error: 'deviceId and genres are required' });
-      }
-      
-      res.json({
-        id: 1,
-        deviceId,
-        genres,
-        authors: authors || [],
-        createdAt: new Date().toISOString()
-      });
-    });
+  beforeAll(async () => {
+    installRecordReplay({ mode: 'replay', dir: FIXTURES_DIR });
 
-    app.get('/api/books/recommendations', (req, res) => {
-      const { deviceId } = req.query;
-      if (!deviceId) {
-        return res.status(400).json({ error: 'deviceId is required' });
-      }
-      
-      res.json({
-        recommendations: [
-          {
-            title: 'Recommended Book',
-            author: 'Rec Author',
-            matchScore: 85,
-            matchReason: 'Based on your preferences',
-            summary: 'A great book you might like'
-          }
-        ]
-      });
-    });
-
-    app.post('/api/books/save', (req, res) => {
-      const { deviceId, title, author } = req.body;
-      if (!deviceId || !title || !author) {
-        return res.status(400).json({ error: 'deviceId, title, and author are required' });
-      }
-      
-      res.json({
-        id: 1,
-        deviceId,
-        title,
-        author,
-        savedAt: new Date().toISOString()
-      });
+    app = express();
+    app.use(express.json());
+    app.use(cookieParser());
+    // Stands in for the deviceId middleware, which needs the Vite server
+    app.use((req, _res, next) => {
+      req.deviceId = 'test-device';
+      next();
     });
+    await registerRoutes(app);
   });
 
-  afterEach(() => {
-    jest.clearAllMocks();
+  afterAll(() => {
+    uninstallRecordReplay();
   });
 
-  describe('Health Check', () => {
-    it('should return healthy status', async () => {
+  describe('Book Analysis', () => {
+    it('should detect and look up the books in a shelf photo', async () => {
       const response = await request(app)
-        .get('/api/health')
+        .post('/api/books/analyze')
+        .attach('image', SHELF_IMAGE, 'shelf.png')
         .expect(200);
 
-      expect(response.body.status).toBe('ok');
-      expect(response.body.timestamp).toBeDefined();
+      expect(response.body.bookTitles).toEqual(['The Hobbit', 'Pride and Prejudice', 'Dune Messiah']);
+      expect(response.body.books.map((book: { title: string; isbn: string }) => [book.title, book.isbn])).toEqual([
+        ['The Hobbit', '9780547928227'],
+        ['Pride and Prejudice', '9780141439518'],
+        ['Dune Messiah', '9780593098233']
+      ]);
+      // Not in Google Books, so found in Open Library
+      expect(response.body.books[2].coverUrl).toBe('https://covers.openlibrary.org/b/id/8231856-M.jpg');
+      expect(response.body.session.books).toHaveLength(3);
     });
-  });
 
-  describe('Book Analysis', () => {
-    it('should analyze book images successfully', async () => {
-      const imageData = Buffer.from('fake-image-data').toString('base64');
-      
+    it('should stream the analysis as NDJSON when asked to', async () => {
       const response = await request(app)
-        .post('/api/books/analyze')
-        .send({ image: imageData })
+        .post('/api/books/analyze?stream=ndjson')
+        .attach('image', SHELF_IMAGE, 'shelf.png')
         .expect(200);
 
-      expect(response.body.detectedBooks).toBeDefined();
-      expect(response.body.detectedBooks).toHaveLength(1);
-      expect(response.body.detectedBooks[0].title).toBe('Test Book');
-      expect(response.body.detectedBooks[0].confidence).toBeGreaterThan(0.5);
+      expect(response.headers['content-type']).toBe('application/x-ndjson; charset=utf-8');
+      const events = response.text.trim().split('\n').map(line => JSON.parse(line));
+      expect(events.filter(event => event.type === 'stage').map(event => event.stage)).toEqual(['preprocessing', 'vision', 'resolving']);
+      expect(events.filter(event => event.type === 'book')).toHaveLength(3);
+      expect(events[events.length - 1].type).toBe('result');
+      expect(events[events.length - 1].result.books).toHaveLength(3);
     });
 
     it('should return error for missing image', async () => {
       const response = await request(app)
         .post('/api/books/analyze')
-        .send({})
         .expect(400);
 
-      expect(response.body.error).toBe('Image is required');
-    });
-
-    it('should handle large image files', async () => {
-      const largeImageData = Buffer.alloc(10 * 1024 * 1024).toString('base64'); // 10MB
-      
-      const response = await request(app)
-        .post('/api/books/analyze')
-        .send({ image: largeImageData })
-        .expect(200);
-
-      expect(response.body.detectedBooks).toBeDefined();
+      expect(response.body.message).toBe('No image file provided');
     });
   });
 
   describe('User Preferences', () => {
     it('should create user preferences successfully', async () => {
-      const preferences = {
-        deviceId: 'test-device-123',
-        genres: ['Fiction', 'Science Fiction'],
-        authors: ['Isaac Asimov', 'Frank Herbert']
-      };
-
       const response = await request(app)
         .post('/api/preferences')
-        .send(preferences)
-        .expect(200);
+        .send(PREFERENCES)
+        .expect(201);
 
-      expect(response.body.deviceId).toBe(preferences.deviceId);
-      expect(response.body.genres).toEqual(preferences.genres);
-      expect(response.body.authors).toEqual(preferences.authors);
+      expect(response.body).toMatchObject({ deviceId: 'test-device', ...PREFERENCES });
     });
 
-    it('should validate required fields', async () => {
+    it('should validate the preferences', async () => {
       const response = await request(app)
         .post('/api/preferences')
-        .send({ deviceId: 'test-device' })
+        .send({ genres: 'Fantasy' })
         .expect(400);
 
-      expect(response.body.error).toBe('deviceId and genres are required');
-    });
-
-    it('should handle empty authors array', async () => {
-      const preferences = {
-        deviceId: 'test-device-123',
-        genres: ['Fiction']
-      };
-
-      const response = await request(app)
-        .post('/api/preferences')
-        .send(preferences)
-        .expect(200);
-
-      expect(response.body.authors).toEqual([]);
+      expect(response.body.message).toBe('Error saving preferences');
     });
   });
 
   describe('Book Recommendations', () => {
-    it('should get recommendations for user', async () => {
-      const response = await request(app)
-        .get('/api/books/recommendations')
-        .query({ deviceId: 'test-device-123' })
+    it('should recommend books from a scan', async () => {
+      const scan = await request(app)
+        .post('/api/books/analyze')
+        .attach('image', SHELF_IMAGE, 'shelf.png')
         .expect(200);
 
-      expect(response.body.recommendations).toBeDefined();
-      expect(response.body.recommendations).toHaveLength(1);
-      expect(response.body.recommendations[0].matchScore).toBeDefined();
-      expect(response.body.recommendations[0].matchReason).toBeDefined();
-    });
-
-    it('should require deviceId parameter', async () => {
       const response = await request(app)
-        .get('/api/books/recommendations')
-        .expect(400);
-
-      expect(response.body.error).toBe('deviceId is required');
-    });
-
-    it('should handle empty recommendations', async () => {
-      // Modify the mock to return empty recommendations
-      app.get('/api/books/recommendations', (req, res) => {
-        res.json({ recommendations: [] });
-      });
-
-      const response = await request(app)
-        .get('/api/books/recommendations')
-        .query({ deviceId: 'test-device-123' })
+        .post('/api/direct/recommendations')
+        .send({ books: scan.body.books, preferences: PREFERENCES })
         .expect(200);
 
-      expect(response.body.recommendations).toEqual([]);
-    });
-  });
+      expect(response.body.map((book: { title: string }) => book.title)).toEqual(['Dune Messiah', 'The Hobbit']);
 
-  describe('Save Books', () => {
-    it('should save book successfully', async () => {
-      const bookData = {
-        deviceId: 'test-device-123',
-        title: 'Dune',
-        author: 'Frank Herbert',
-        coverUrl: 'http://example.com/cover.jpg',
-        rating: '4.5',
-        summary: 'Epic science fiction novel'
-      };
+      const [duneMessiah] = response.body;
+      expect(duneMessiah.rating).toBe('4.0');
+      expect(duneMessiah.summary).toContain('Paul Atreides');
+      expect(duneMessiah.matchReason).toContain('Frank Herbert');
+      expect(duneMessiah.matchScore).toBe(92);
+      expect(duneMessiah.explanation.factors.map((factor: { feature: string }) => factor.feature)).toEqual([
+        'genreOverlap',
+        'authorAffinity',
+        'averageRating'
+      ]);
 
-      const response = await request(app)
-        .post('/api/books/save')
-        .send(bookData)
-        .expect(200);
-
-      expect(response.body.title).toBe(bookData.title);
-      expect(response.body.author).toBe(bookData.author);
-      expect(response.body.savedAt).toBeDefined();
-    });
+      // The response only looks up each recommendation's work; caching it is what creates one
+      expect(storage.findWork).toHaveBeenCalledWith(expect.objectContaining({ title: 'Dune Messiah', author: 'Frank Herbert' }));
+    }, 15000);
 
-    it('should validate required fields for saving', async () => {
+    it('should require books to recommend from', async () => {
       const response = await request(app)
-        .post('/api/books/save')
-        .send({ deviceId: 'test-device' })
+        .post('/api/direct/recommendations')
+        .send({ books: [], preferences: PREFERENCES })
         .expect(400);
 
-      expect(response.body.error).toBe('deviceId, title, and author are required');
+      expect(response.body.success).toBe(false);
     });
   });
 
   describe('Error Handling', () => {
     it('should handle 404 for unknown routes', async () => {
       await request(app)
-        .get('/api/unknown-route')
+        .get('/api/unknown-endpoint')
         .expect(404);
     });
-
-    it('should handle malformed JSON', async () => {
-      await request(app)
-        .post('/api/preferences')
-        .set('Content-Type', 'application/json')
-        .send('invalid json')
-        .expect(400);
-    });
-  });
-
-  describe('Rate Limiting', () => {
-    it('should implement rate limiting for OpenAI endpoints', async () => {
-      // This would test actual rate limiting implementation
-      // For now, just ensure the endpoint exists
-      const response = await request(app)
-        .post('/api/books/analyze')
-        .send({ image: 'test-image' });
-
-      expect(response.status).toBeLessThan(500);
-    });
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,150 @@
+import sharp from 'sharp';
+import { preprocessImage, getPreprocessingOptions, parseTileMode } from '../../server/image-preprocessing';
+
+const options = (overrides = {}) => ({ maxDimension: 2048, jpegQuality: 85, tiles: 'off' as const, ...overrides });
+
+const photo = (width: number, height: number) => sharp({
+  create: { width, height, channels: 3, background: { r: 120, g: 120, b: 120 } }
+});
+
+/**
+ * A greyscale bookcase: striped bands are rows of spines, flat bands are shelf boards
+ */
+const bookcase = (width: number, bands: { height: number; striped: boolean }[]) => {
+  const height = bands.reduce((sum, band) => sum + band.height, 0);
+  const pixels = Buffer.alloc(width * height);
+  let y = 0;
+  for (const band of bands) {
+    for (let row = 0; row < band.height; row++, y++) {
+      for (let x = 0; x < width; x++) {
+        pixels[y * width + x] = band.striped ? (Math.floor(x / 8) % 2 ? 200 : 40) : 120;
+      }
+    }
+  }
+  return sharp(pixels, { raw: { width, height, channels: 1 } }).png().toBuffer();
+};
+
+describe('Image Preprocessing', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('preprocessImage', () => {
+    test('should turn a photo upright from its EXIF orientation', async () => {
+      // Orientation 6: stored landscape, shown rotated 90 degrees clockwise
+      const upload = await photo(400, 200).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+
+      const { base64, report } = await preprocessImage(upload, options());
+      const output = await sharp(Buffer.from(base64, 'base64')).metadata();
+
+      expect(report.orientation).toBe(6);
+      expect(report.rotated).toBe(true);
+      expect([output.width, output.height]).toEqual([200, 400]);
+      expect(report.output).toMatchObject({ format: 'jpeg', width: 200, height: 400 });
+    });
+
+    test('should downscale a large photo to the maximum dimension and re-encode it as JPEG', async () => {
+      const upload = await photo(3000, 1500).png().toBuffer();
+
+      const { base64, report } = await preprocessImage(upload, options({ maxDimension: 1000, jpegQuality: 70 }));
+      const output = await sharp(Buffer.from(base64, 'base64')).metadata();
+
+      expect(report.applied).toBe(true);
+      expect(report.resized).toBe(true);
+      expect(report.original).toMatchObject({ format: 'png', width: 3000, height: 1500 });
+      expect(output).toMatchObject({ format: 'jpeg', width: 1000, height: 500 });
+      expect(report.output.quality).toBe(70);
+    });
+
+    test('should judge the size limit on the upright photo', async () => {
+      // Stored 1200x800 but 800x1200 upright, so its height is what gets scaled to the limit
+      const upload = await photo(1200, 800).jpeg().withMetadata({ orientation: 8 }).toBuffer();
+
+      const { report } = await preprocessImage(upload, options({ maxDimension: 1000 }));
+
+      expect(report.resized).toBe(true);
+      expect([report.output.width, report.output.height]).toEqual([667, 1000]);
+    });
+
+    test('should not enlarge a small photo', async () => {
+      const upload = await photo(300, 200).jpeg().toBuffer();
+
+      const { report, tiles } = await preprocessImage(upload, options());
+
+      expect(report.resized).toBe(false);
+      expect(report.rotated).toBe(false);
+      expect([report.output.width, report.output.height]).toEqual([300, 200]);
+      expect(tiles).toEqual([]);
+    });
+
+    test('should split a photo into the requested number of rows', async () => {
+      const upload = await photo(400, 300).jpeg().toBuffer();
+
+      const { tiles, report } = await preprocessImage(upload, options({ tiles: 3 }));
+
+      expect(tiles).toHaveLength(3);
+      expect(report.tiles.regions).toEqual(tiles.map(tile => tile.region));
+      for (const tile of tiles) {
+        const metadata = await sharp(Buffer.from(tile.base64, 'base64')).metadata();
+        expect(metadata.width).toBe(400);
+        expect(tile.region.x).toBe(0);
+        expect(tile.region.width).toBe(1);
+      }
+      expect(tiles[0].region.y).toBe(0);
+      expect(tiles[2].region.y + tiles[2].region.height).toBeCloseTo(1, 2);
+    });
+
+    test('should find the shelf rows of a bookcase in auto mode', async () => {
+      const upload = await bookcase(512, [
+        { height: 40, striped: false },
+        { height: 120, striped: true },
+        { height: 40, striped: false },
+        { height: 120, striped: true },
+        { height: 40, striped: false }
+      ]);
+
+      const { tiles } = await preprocessImage(upload, options({ tiles: 'auto' }));
+
+      expect(tiles).toHaveLength(2);
+      expect(tiles[0].region.y).toBeLessThanOrEqual(40 / 360);
+      expect(tiles[1].region.y + tiles[1].region.height).toBeGreaterThanOrEqual(320 / 360);
+    });
+
+    test('should fall back to the original bytes when the image cannot be decoded', async () => {
+      const upload = Buffer.from('not an image');
+
+      const { base64, tiles, report } = await preprocessImage(upload, options({ tiles: 3 }));
+
+      expect(base64).toBe(upload.toString('base64'));
+      expect(tiles).toEqual([]);
+      expect(report.applied).toBe(false);
+      expect(report.error).toBeTruthy();
+      expect(report.output).toMatchObject({ format: 'original', bytes: upload.length });
+    });
+  });
+
+  describe('parseTileMode', () => {
+    test('should read auto, off and row counts', () => {
+      expect(parseTileMode('auto')).toBe('auto');
+      expect(parseTileMode('true')).toBe('auto');
+      expect(parseTileMode('false')).toBe('off');
+      expect(parseTileMode('3')).toBe(3);
+      expect(parseTileMode(1)).toBe('off');
+      expect(parseTileMode('rows')).toBeNull();
+      expect(parseTileMode(undefined)).toBeNull();
+    });
+  });
+
+  describe('getPreprocessingOptions', () => {
+    test('should read the environment and ignore invalid values', () => {
+      process.env.IMAGE_MAX_DIMENSION = '1024';
+      process.env.IMAGE_JPEG_QUALITY = '150';
+      process.env.IMAGE_TILE_ROWS = 'auto';
+
+      expect(getPreprocessingOptions()).toEqual({ maxDimension: 1024, jpegQuality: 85, tiles: 'auto' });
+      expect(getPreprocessingOptions({ tiles: 2 }).tiles).toBe(2);
+    });
+  });
+});
@@ -1,190 +1,77 @@
-import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-
-// Mock OpenAI
-const mockOpenAI = {
-  chat: {
-    completions: {
-      create: jest.fn()
-    }
-  }
-};
-
-jest.mock('openai', () => ({
-  OpenAI: jest.fn().mockImplementation(() => mockOpenAI)
-}));
+import fs from 'fs';
+import path from 'path';
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { installRecordReplay, uninstallRecordReplay } from '../../server/record-replay';
+import { UnrecordedRequestError } from '../../server/utils/api-fixtures';
+import { getLLMClient } from '../../server/llm-client';
+import { openAIVisionProvider } from '../../server/openai-vision';
+import { getOpenAIRecommendations } from '../../server/openai-recommendations';
+import { getOpenAIDescription } from '../../server/openai-descriptions';
+import { preprocessImage } from '../../server/image-preprocessing';
+
+// OpenAI answers from the completions recorded in tests/fixtures/api
+const FIXTURES_DIR = path.join(__dirname, '../fixtures/api');
+
+const scannedBooks = [
+  { title: 'The Hobbit', author: 'J.R.R. Tolkien' },
+  { title: 'Pride and Prejudice', author: 'Jane Austen' },
+  { title: 'Dune Messiah', author: 'Frank Herbert' }
+];
 
 describe('OpenAI Service', () => {
-  beforeEach(() => {
-    jest.clearAllMocks();
+  beforeAll(() => {
+    installRecordReplay({ mode: 'replay', dir: FIXTURES_DIR });
   });
 
-  afterEach(() => {
-    jest.clearAllMocks();
+  afterAll(() => {
+    uninstallRecordReplay();
   });
 
-  describe('Book Recommendations', () => {
-    it('should generate book recommendations based on user preferences', async () => {
-      const mockResponse = {
-        choices: [{
-          message: {
-            content: JSON.stringify([
-              {
-                title: "The Martian",
-                author: "Andy Weir",
-                matchScore: 95,
-                matchReason: "Hard science fiction with problem-solving protagonist",
-                summary: "An astronaut stranded on Mars must survive using science and ingenuity"
-              }
-            ])
-          }
-        }]
-      };
-
-      (mockOpenAI.chat.completions.create as any).mockResolvedValue(mockResponse);
-
-      const userPreferences = {
-        genres: ['Science Fiction', 'Adventure'],
-        favoriteBooks: ['Dune', 'Foundation'],
-        authors: ['Isaac Asimov']
-      };
-
-      const detectedBooks = ['The Expanse', 'Ender\'s Game'];
+  describe('Shelf Analysis', () => {
+    it('should read the titles and spines in a shelf photo', async () => {
+      const image = await preprocessImage(fs.readFileSync(path.join(__dirname, '../fixtures/images/book-titles.png')));
 
-      // Test would call actual OpenAI service function here
-      // For now, just test the mock setup
-      const result = await mockOpenAI.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a book recommendation expert.'
-          },
-          {
-            role: 'user',
-            content: `Based on these preferences: ${JSON.stringify(userPreferences)} and these detected books: ${JSON.stringify(detectedBooks)}, recommend books.`
-          }
-        ]
-      });
-
-      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
-      expect((result as any).choices[0].message.content).toContain('The Martian');
-    });
-
-    it('should handle OpenAI API errors gracefully', async () => {
-      const error = new Error('OpenAI API rate limit exceeded');
-      (mockOpenAI.chat.completions.create as any).mockRejectedValue(error);
+      const analysis = await openAIVisionProvider.analyze(image.base64);
 
-      await expect(mockOpenAI.chat.completions.create({})).rejects.toThrow('OpenAI API rate limit exceeded');
-    });
-
-    it('should validate response format from OpenAI', async () => {
-      const invalidResponse = {
-        choices: [{
-          message: {
-            content: 'Invalid JSON response'
-          }
-        }]
-      };
-
-      (mockOpenAI.chat.completions.create as any).mockResolvedValue(invalidResponse as any);
-
-      const result = await mockOpenAI.chat.completions.create({});
-      
-      expect(() => {
-        JSON.parse((result as any).choices[0].message.content);
-      }).toThrow();
+      expect(analysis.isBookshelf).toBe(true);
+      expect(analysis.bookTitles).toEqual(scannedBooks.map(book => book.title));
+      expect(analysis.spines[2]).toMatchObject({ text: 'Dune Messiah', author: 'Frank Herbert', confidence: 0.96 });
+      expect(analysis.spines.every(spine => spine.boundingBox !== null)).toBe(true);
     });
   });
 
-  describe('Book Summaries', () => {
-    it('should generate enhanced book summaries', async () => {
-      const mockSummaryResponse = {
-        choices: [{
-          message: {
-            content: JSON.stringify({
-              title: "Dune",
-              author: "Frank Herbert",
-              enhancedSummary: "A complex epic about politics, religion, and ecology on the desert planet Arrakis.",
-              themes: ["Power", "Ecology", "Religion", "Politics"],
-              targetAudience: "Fans of complex science fiction",
-              estimatedRating: "4.2"
-            })
-          }
-        }]
-      };
-
-      (mockOpenAI.chat.completions.create as any).mockResolvedValue(mockSummaryResponse as any);
-
-      const bookData = {
-        title: 'Dune',
-        author: 'Frank Herbert',
-        basicSummary: 'A science fiction novel set on a desert planet.'
-      };
-
-      const result = await mockOpenAI.chat.completions.create({
-        model: 'gpt-4',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a book analysis expert.'
-          },
-          {
-            role: 'user',
-            content: `Enhance this book data: ${JSON.stringify(bookData)}`
-          }
-        ]
+  describe('Book Recommendations', () => {
+    it('should generate book recommendations based on user preferences', async () => {
+      const recommendations = await getOpenAIRecommendations(scannedBooks, {
+        genres: ['Fantasy', 'Science Fiction'],
+        authors: ['Frank Herbert'],
+        feedback: []
       });
 
-      expect(mockOpenAI.chat.completions.create).toHaveBeenCalledTimes(1);
-      const response = JSON.parse((result as any).choices[0].message.content);
-      expect(response.title).toBe('Dune');
-      expect(response.enhancedSummary).toBeDefined();
-      expect(response.themes).toBeInstanceOf(Array);
+      expect(recommendations.map(book => [book.title, book.matchScore])).toEqual([
+        ['Dune Messiah', 92],
+        ['The Hobbit', 85]
+      ]);
+      expect(recommendations[0].matchReason).toContain('Frank Herbert');
+      expect(recommendations[0].promptVersion).toBe('recommendations@v3');
     });
-  });
 
-  describe('Rate Limiting', () => {
-    it('should respect OpenAI rate limits', async () => {
-      const rateLimitError = new Error('Rate limit exceeded');
-      rateLimitError.name = 'RateLimitError';
-      
-      (mockOpenAI.chat.completions.create as any).mockRejectedValue(rateLimitError as any);
-
-      await expect(mockOpenAI.chat.completions.create({})).rejects.toThrow('Rate limit exceeded');
-    });
-
-    it('should implement exponential backoff for retries', async () => {
-      // First call fails, second succeeds
-      (mockOpenAI.chat.completions.create as any)
-        .mockRejectedValueOnce(new Error('Rate limit exceeded') as any)
-        .mockResolvedValueOnce({
-          choices: [{ message: { content: 'Success' } }]
-        } as any);
-
-      // Test retry logic would go here
-      expect(mockOpenAI.chat.completions.create).toBeDefined();
-    });
   });
 
-  describe('Token Usage Optimization', () => {
-    it('should optimize prompts to stay within token limits', () => {
-      const longPreferences = {
-        genres: Array(50).fill('Fiction'),
-        favoriteBooks: Array(100).fill('Long Book Title'),
-        authors: Array(50).fill('Author Name')
-      };
+  describe('Book Descriptions', () => {
+    it('should generate a book description', async () => {
+      const description = await getOpenAIDescription('The Hobbit', 'J.R.R. Tolkien');
 
-      // Test prompt truncation logic would go here
-      const truncatedPrompt = JSON.stringify(longPreferences).slice(0, 1000);
-      expect(truncatedPrompt.length).toBeLessThanOrEqual(1000);
+      expect(description).toContain('Bilbo Baggins');
     });
+  });
 
-    it('should count tokens in requests', () => {
-      const samplePrompt = "Recommend books based on user preferences";
-      
-      // Mock token counting (in real implementation, would use tiktoken)
-      const estimatedTokens = Math.ceil(samplePrompt.length / 4);
-      expect(estimatedTokens).toBeGreaterThan(0);
+  describe('Unrecorded Requests', () => {
+    it('should fail instead of calling OpenAI', async () => {
+      await expect(getLLMClient().complete('summary', {
+        model: 'gpt-4o',
+        messages: [{ role: 'user', content: 'Summarize a book nobody recorded' }]
+      })).rejects.toThrow(UnrecordedRequestError);
     });
   });
-}); 
\ No newline at end of file
+});
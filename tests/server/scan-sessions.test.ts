@@ -0,0 +1,185 @@
+import { ScanSessionService, type PhotoDetections, type SessionBook } from '../../server/scan-sessions';
+import { storage } from '../../server/storage';
+
+jest.mock('../../server/storage', () => ({ storage: require('../utils/test-helpers').createMockStorage() }));
+
+const spine = (text: string) => ({
+  text,
+  confidence: 0.9,
+  boundingBox: { x: 0, y: 0, width: 0.1, height: 0.8 }
+});
+
+const book = (title: string, author: string, overrides: Partial<SessionBook> = {}): SessionBook => ({
+  title,
+  author,
+  detectedFrom: title,
+  spine: spine(title),
+  ...overrides
+});
+
+const photo = (overrides: Partial<PhotoDetections> = {}): PhotoDetections => ({
+  bookTitles: [],
+  books: [],
+  unresolvedTitles: [],
+  ...overrides
+});
+
+describe('ScanSessionService', () => {
+  let service: ScanSessionService;
+
+  beforeEach(() => {
+    service = new ScanSessionService();
+    jest.clearAllMocks();
+  });
+
+  describe('addPhoto', () => {
+    test('should number photos and tag each spine with the photo it came from', () => {
+      const session = service.createSession('device-1');
+
+      expect(service.addPhoto(session, photo({ books: [book('Dune', 'Frank Herbert')] }))).toBe(0);
+      expect(service.addPhoto(session, photo({ books: [book('Hyperion', 'Dan Simmons')] }))).toBe(1);
+
+      expect(session.photoCount).toBe(2);
+      expect(session.books.map(b => [b.title, b.spine?.photoIndex])).toEqual([
+        ['Dune', 0],
+        ['Hyperion', 1]
+      ]);
+    });
+
+    test('should skip a book seen in an earlier photo with the same ISBN', () => {
+      const session = service.createSession('device-1');
+
+      service.addPhoto(session, photo({ books: [book('Dune', 'Frank Herbert', { isbn: '9780441172719' })] }));
+      service.addPhoto(session, photo({ books: [book('Dune (Deluxe Edition)', 'Herbert', { isbn: '9780441172719' })] }));
+
+      expect(session.books.map(b => b.title)).toEqual(['Dune']);
+    });
+
+    test('should skip a book seen in an earlier photo with the same normalized title and author', () => {
+      const session = service.createSession('device-1');
+
+      service.addPhoto(session, photo({ books: [book('Pride & Prejudice', 'Jane Austen', { isbn: '9780141439518' })] }));
+      service.addPhoto(session, photo({ books: [book('pride and prejudice', 'JANE AUSTEN', { isbn: '9780679783268' })] }));
+
+      expect(session.books).toHaveLength(1);
+      expect(session.books[0].isbn).toBe('9780141439518');
+    });
+
+    test('should keep books with the same title by different authors', () => {
+      const session = service.createSession('device-1');
+
+      service.addPhoto(session, photo({ books: [book('Persuasion', 'Jane Austen')] }));
+      service.addPhoto(session, photo({ books: [book('Persuasion', 'Robert Cialdini')] }));
+
+      expect(session.books).toHaveLength(2);
+    });
+
+    test('should merge the read titles without repeating them', () => {
+      const session = service.createSession('device-1');
+
+      service.addPhoto(session, photo({ bookTitles: ['Dune', 'Hyperion'] }));
+      service.addPhoto(session, photo({ bookTitles: ['DUNE', 'Foundation'] }));
+
+      expect(session.bookTitles).toEqual(['Dune', 'Hyperion', 'Foundation']);
+    });
+
+    test('should clear an unresolved title once a later photo resolves it', () => {
+      const session = service.createSession('device-1');
+
+      service.addPhoto(session, photo({
+        unresolvedTitles: [
+          { title: 'Dune', spine: spine('Dune'), ambiguous: true, candidates: [] },
+          { title: 'Hyperion', spine: spine('Hyperion'), ambiguous: false, candidates: [] }
+        ]
+      }));
+      service.addPhoto(session, photo({ books: [book('Dune', 'Frank Herbert')] }));
+
+      expect(session.unresolvedTitles.map(unresolved => unresolved.title)).toEqual(['Hyperion']);
+      expect(session.unresolvedTitles[0].spine?.photoIndex).toBe(0);
+    });
+
+    test('should keep one entry for a title left unresolved in several photos', () => {
+      const session = service.createSession('device-1');
+      const unresolved = { title: 'Hyperion', spine: null, ambiguous: false, candidates: [] };
+
+      service.addPhoto(session, photo({ unresolvedTitles: [unresolved] }));
+      service.addPhoto(session, photo({ unresolvedTitles: [{ ...unresolved, title: 'hyperion' }] }));
+
+      expect(session.unresolvedTitles).toHaveLength(1);
+    });
+
+    test('should stop accepting photos at the session limit', () => {
+      const session = service.createSession('device-1');
+
+      for (let i = 0; i < 20; i++) {
+        expect(service.canAddPhoto(session)).toBe(true);
+        service.addPhoto(session, photo());
+      }
+
+      expect(service.canAddPhoto(session)).toBe(false);
+    });
+  });
+
+  describe('getSession', () => {
+    test('should not return another device\'s session', () => {
+      const session = service.createSession('device-1');
+
+      expect(service.getSession(session.id, 'device-1')).toBe(session);
+      expect(service.getSession(session.id, 'device-2')).toBeUndefined();
+    });
+
+    test('should drop a session after two hours without a photo', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const session = service.createSession('device-1');
+
+      now.mockReturnValue(1_000_000 + 2 * 60 * 60 * 1000 + 1);
+
+      expect(service.getSession(session.id, 'device-1')).toBeUndefined();
+      now.mockRestore();
+    });
+  });
+
+  describe('loadSession', () => {
+    test('should restore a session saved by another process', async () => {
+      const saved = new ScanSessionService().createSession('device-1');
+      saved.books.push(book('Dune', 'Frank Herbert'));
+      saved.photoCount = 1;
+      jest.mocked(storage.getScanSession).mockResolvedValueOnce({
+        id: saved.id,
+        deviceId: 'device-1',
+        state: JSON.parse(JSON.stringify(saved)),
+        updatedAt: new Date()
+      });
+
+      const session = await service.loadSession(saved.id, 'device-1');
+
+      expect(storage.getScanSession).toHaveBeenCalledWith(saved.id, 'device-1');
+      expect(session?.books.map(b => b.title)).toEqual(['Dune']);
+      expect(service.addPhoto(session!, photo())).toBe(1);
+    });
+
+    test('should not look in the database for a session in memory', async () => {
+      const session = service.createSession('device-1');
+
+      expect(await service.loadSession(session.id, 'device-1')).toBe(session);
+      expect(storage.getScanSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveSession', () => {
+    test('should save the session and remove the device\'s expired ones', async () => {
+      const session = service.createSession('device-1');
+
+      await service.saveSession(session);
+
+      expect(storage.saveScanSession).toHaveBeenCalledWith({ id: session.id, deviceId: 'device-1', state: session });
+      expect(storage.deleteScanSessionsUpdatedBefore).toHaveBeenCalledWith('device-1', expect.any(Date));
+    });
+
+    test('should not fail the scan when the database is unavailable', async () => {
+      jest.mocked(storage.saveScanSession).mockRejectedValueOnce(new Error('connection refused'));
+
+      await expect(service.saveSession(service.createSession('device-1'))).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AxiosError, AxiosHeaders, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios';
+import {
+  getFixtureMode,
+  normalizeUrl,
+  getFixtureKey,
+  getFixtureService,
+  FixtureStore,
+  recordOrReplay,
+  createFixtureAdapter,
+  UnrecordedRequestError
+} from '../../../server/utils/api-fixtures';
+
+describe('API Fixtures Utils', () => {
+  let dir: string;
+  let store: FixtureStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-fixtures-'));
+    store = new FixtureStore(dir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('getFixtureMode', () => {
+    test('should only accept record and replay', () => {
+      expect(getFixtureMode('record')).toBe('record');
+      expect(getFixtureMode(' Replay ')).toBe('replay');
+      expect(getFixtureMode('yes')).toBe('off');
+      expect(getFixtureMode(undefined)).toBe('off');
+    });
+  });
+
+  describe('normalizeUrl', () => {
+    test('should drop API keys and sort parameters', () => {
+      expect(normalizeUrl('https://www.googleapis.com/books/v1/volumes?q=dune&key=secret&maxResults=1'))
+        .toBe('https://www.googleapis.com/books/v1/volumes?maxResults=1&q=dune');
+    });
+  });
+
+  describe('getFixtureKey', () => {
+    test('should not depend on parameter or body key order', () => {
+      const a = getFixtureKey({ method: 'post', url: 'https://api.test/x?b=2&a=1', body: '{"x":1,"y":[{"b":1,"a":2}]}' });
+      const b = getFixtureKey({ method: 'POST', url: 'https://api.test/x?a=1&b=2', body: { y: [{ a: 2, b: 1 }], x: 1 } });
+
+      expect(a).toBe(b);
+      expect(a).toHaveLength(16);
+    });
+
+    test('should differ for different bodies', () => {
+      expect(getFixtureKey({ method: 'POST', url: 'https://api.test/x', body: { x: 1 } }))
+        .not.toBe(getFixtureKey({ method: 'POST', url: 'https://api.test/x', body: { x: 2 } }));
+    });
+  });
+
+  describe('getFixtureService', () => {
+    test('should use the host without www', () => {
+      expect(getFixtureService('https://www.googleapis.com/books/v1/volumes')).toBe('googleapis.com');
+      expect(getFixtureService('https://openlibrary.org/search.json')).toBe('openlibrary.org');
+    });
+  });
+
+  describe('recordOrReplay', () => {
+    const request = { method: 'GET', url: 'https://api.test/books?q=dune&key=secret' };
+
+    test('should fail on an unrecorded request in replay mode', async () => {
+      const perform = jest.fn();
+
+      await expect(recordOrReplay(store, 'replay', 'api.test', request, perform)).rejects.toThrow(UnrecordedRequestError);
+      expect(perform).not.toHaveBeenCalled();
+    });
+
+    test('should replay what was recorded', async () => {
+      const perform = jest.fn().mockResolvedValue({ status: 200, data: { title: 'Dune' } });
+
+      await recordOrReplay(store, 'record', 'api.test', request, perform);
+      const replayed = await recordOrReplay(store, 'replay', 'api.test', request, perform);
+
+      expect(replayed).toEqual({ status: 200, data: { title: 'Dune' } });
+      expect(perform).toHaveBeenCalledTimes(1);
+    });
+
+    test('should leave secrets and long strings out of the stored request', async () => {
+      const image = 'a'.repeat(1000);
+      await recordOrReplay(store, 'record', 'api.test', { ...request, body: { image } }, async () => ({ status: 200, data: {} }));
+
+      const [file] = fs.readdirSync(path.join(dir, 'api.test'));
+      const stored = fs.readFileSync(path.join(dir, 'api.test', file), 'utf8');
+
+      expect(stored).not.toContain('secret');
+      expect(stored).not.toContain(image);
+      expect(stored).toContain('<1000 chars');
+    });
+
+    test('should not touch the store when off', async () => {
+      await recordOrReplay(store, 'off', 'api.test', request, async () => ({ status: 200, data: {} }));
+
+      expect(fs.readdirSync(dir)).toEqual([]);
+    });
+  });
+
+  describe('createFixtureAdapter', () => {
+    const config = (url: string): InternalAxiosRequestConfig => ({
+      method: 'get',
+      url,
+      headers: new AxiosHeaders(),
+      validateStatus: (status: number) => status >= 200 && status < 300
+    });
+
+    test('should record responses and replay them without the real adapter', async () => {
+      const realAdapter: AxiosAdapter = jest.fn(async (requestConfig) => ({
+        data: '{"items":[1]}',
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config: requestConfig
+      }));
+
+      const recorded = await createFixtureAdapter(store, 'record', realAdapter)(config('https://api.test/books'));
+      const replayed = await createFixtureAdapter(store, 'replay', realAdapter)(config('https://api.test/books'));
+
+      expect(recorded.data).toEqual({ items: [1] });
+      expect(replayed.data).toEqual({ items: [1] });
+      expect(realAdapter).toHaveBeenCalledTimes(1);
+    });
+
+    test('should replay recorded error responses as errors', async () => {
+      const realAdapter: AxiosAdapter = async (requestConfig) => {
+        const response = { data: { error: 'Not found' }, status: 404, statusText: '', headers: {}, config: requestConfig };
+        throw new AxiosError('Request failed with status code 404', AxiosError.ERR_BAD_REQUEST, requestConfig, {}, response);
+      };
+
+      await expect(createFixtureAdapter(store, 'record', realAdapter)(config('https://api.test/missing'))).rejects.toThrow(AxiosError);
+
+      const replay = createFixtureAdapter(store, 'replay', realAdapter)(config('https://api.test/missing'));
+      await expect(replay).rejects.toMatchObject({ response: { status: 404, data: { error: 'Not found' } } });
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  pickCacheMatch,
+  getCandidateTokens,
+  getCacheMatchMinScore,
+  getCacheApplyMinScore,
+  isConfidentCacheMatch,
+  DEFAULT_CACHE_MATCH_MIN_SCORE
+} from '../../../server/utils/cache-match';
+
+const cached = [
+  { id: 1, title: 'It Ends With Us', author: 'Colleen Hoover' },
+  { id: 2, title: 'Carrie', author: 'Stephen King' },
+  { id: 3, title: 'It', author: 'Stephen King' },
+  { id: 4, title: 'The Shining', author: 'Stephen King' }
+];
+
+describe('Cache Match Utils', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+  });
+
+  describe('pickCacheMatch', () => {
+    test('should match the right book for a short title', () => {
+      const match = pickCacheMatch({ title: 'It', author: 'King' }, cached);
+      expect(match?.book.id).toBe(3);
+    });
+
+    test('should not match containing titles or other books by the same author', () => {
+      const withoutIt = cached.filter(book => book.id !== 3);
+      expect(pickCacheMatch({ title: 'It', author: 'King' }, withoutIt)).toBeNull();
+      expect(pickCacheMatch({ title: 'It', author: 'Stephen King' }, withoutIt)).toBeNull();
+    });
+
+    test('should reject the right title by a different author', () => {
+      expect(pickCacheMatch({ title: 'The Shining', author: 'Colleen Hoover' }, cached)).toBeNull();
+    });
+
+    test('should tolerate small spelling differences', () => {
+      const match = pickCacheMatch({ title: 'The Shinning', author: 'Stephen King' }, cached);
+      expect(match?.book.id).toBe(4);
+      expect(match?.score).toBeLessThan(1);
+    });
+
+    test('should return the score with the match', () => {
+      expect(pickCacheMatch({ title: 'Carrie', author: 'Stephen King' }, cached)).toEqual({ book: cached[1], score: 1 });
+    });
+
+    test('should apply a custom minimum score', () => {
+      expect(pickCacheMatch({ title: 'The Shinning', author: 'Stephen King' }, cached, 0.99)).toBeNull();
+    });
+  });
+
+  describe('getCandidateTokens', () => {
+    test('should keep distinctive words', () => {
+      expect(getCandidateTokens('The Name of the Wind')).toEqual(['name', 'wind']);
+    });
+
+    test('should fall back to the whole title for short titles', () => {
+      expect(getCandidateTokens('It')).toEqual(['it']);
+      expect(getCandidateTokens('')).toEqual([]);
+    });
+  });
+
+  describe('thresholds', () => {
+    test('should read thresholds from the environment', () => {
+      process.env.CACHE_MATCH_MIN_SCORE = '0.7';
+      process.env.CACHE_APPLY_MIN_SCORE = '0.95';
+      expect(getCacheMatchMinScore()).toBe(0.7);
+      expect(getCacheApplyMinScore()).toBe(0.95);
+    });
+
+    test('should ignore invalid values', () => {
+      process.env.CACHE_MATCH_MIN_SCORE = 'high';
+      expect(getCacheMatchMinScore()).toBe(DEFAULT_CACHE_MATCH_MIN_SCORE);
+    });
+
+    test('should never apply below the hit threshold', () => {
+      process.env.CACHE_MATCH_MIN_SCORE = '0.95';
+      process.env.CACHE_APPLY_MIN_SCORE = '0.85';
+      expect(getCacheApplyMinScore()).toBe(0.95);
+    });
+
+    test('should only trust confident matches', () => {
+      expect(isConfidentCacheMatch({ matchScore: 1 })).toBe(true);
+      expect(isConfidentCacheMatch({ matchScore: 0.82 })).toBe(false);
+      expect(isConfidentCacheMatch(undefined)).toBe(false);
+    });
+  });
+});
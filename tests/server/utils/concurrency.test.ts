@@ -0,0 +1,67 @@
+import { mapWithConcurrency, withTimeout, TimeoutError } from '../../../server/utils/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Concurrency Utils', () => {
+  describe('mapWithConcurrency', () => {
+    test('should keep results in input order', async () => {
+      const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+        await delay(ms);
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2]);
+    });
+
+    test('should never run more than the limit at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(5);
+        running--;
+      });
+
+      expect(maxRunning).toBe(3);
+    });
+
+    test('should handle an empty list', async () => {
+      const mapper = jest.fn();
+      expect(await mapWithConcurrency([], 4, mapper)).toEqual([]);
+      expect(mapper).not.toHaveBeenCalled();
+    });
+
+    test('should treat a limit below one as serial', async () => {
+      let running = 0;
+      let maxRunning = 0;
+
+      await mapWithConcurrency([1, 2, 3], 0, async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(1);
+        running--;
+      });
+
+      expect(maxRunning).toBe(1);
+    });
+  });
+
+  describe('withTimeout', () => {
+    test('should pass through a result that arrives in time', async () => {
+      await expect(withTimeout(Promise.resolve('done'), 50)).resolves.toBe('done');
+    });
+
+    test('should pass through the original error', async () => {
+      await expect(withTimeout(Promise.reject(new Error('Search failed')), 50)).rejects.toThrow('Search failed');
+    });
+
+    test('should reject with a TimeoutError when the promise is too slow', async () => {
+      const result = withTimeout(delay(100), 10, 'Lookup for "Dune"');
+
+      await expect(result).rejects.toBeInstanceOf(TimeoutError);
+      await expect(result).rejects.toThrow('Lookup for "Dune" timed out after 10ms');
+    });
+  });
+});
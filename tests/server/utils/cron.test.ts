@@ -0,0 +1,83 @@
+import { parseCronExpression, cronMatches, getNextCronRun } from '../../../server/utils/cron';
+
+describe('Cron Utils', () => {
+  describe('parseCronExpression', () => {
+    test('should expand wildcards, ranges, lists and steps', () => {
+      const schedule = parseCronExpression('*/15 1-3 1,15 * 1-5');
+
+      expect(Array.from(schedule.minutes)).toEqual([0, 15, 30, 45]);
+      expect(Array.from(schedule.hours)).toEqual([1, 2, 3]);
+      expect(Array.from(schedule.daysOfMonth)).toEqual([1, 15]);
+      expect(schedule.months.size).toBe(12);
+      expect(Array.from(schedule.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    test('should step from a start value to the end of the range', () => {
+      expect(Array.from(parseCronExpression('50/5 * * * *').minutes)).toEqual([50, 55]);
+    });
+
+    test('should treat day-of-week 7 as Sunday', () => {
+      expect(Array.from(parseCronExpression('0 0 * * 7').daysOfWeek)).toEqual([0]);
+    });
+
+    test('should reject malformed expressions', () => {
+      expect(() => parseCronExpression('* * * *')).toThrow('must have 5 fields');
+      expect(() => parseCronExpression('60 * * * *')).toThrow('out of range');
+      expect(() => parseCronExpression('* * * * mon')).toThrow('Invalid cron field');
+      expect(() => parseCronExpression('*/0 * * * *')).toThrow('out of range');
+    });
+  });
+
+  describe('cronMatches', () => {
+    test('should match the minute in UTC', () => {
+      const schedule = parseCronExpression('30 3 * * *');
+
+      expect(cronMatches(schedule, new Date('2025-06-10T03:30:45Z'))).toBe(true);
+      expect(cronMatches(schedule, new Date('2025-06-10T03:31:00Z'))).toBe(false);
+      expect(cronMatches(schedule, new Date('2025-06-10T04:30:00Z'))).toBe(false);
+    });
+
+    test('should match either day field when both are restricted', () => {
+      // The 1st of the month or any Monday
+      const schedule = parseCronExpression('0 0 1 * 1');
+
+      expect(cronMatches(schedule, new Date('2025-06-01T00:00:00Z'))).toBe(true); // Sunday the 1st
+      expect(cronMatches(schedule, new Date('2025-06-09T00:00:00Z'))).toBe(true); // Monday the 9th
+      expect(cronMatches(schedule, new Date('2025-06-10T00:00:00Z'))).toBe(false);
+    });
+
+    test('should require the restricted day field when the other is a wildcard', () => {
+      const schedule = parseCronExpression('0 0 * * 1');
+
+      expect(cronMatches(schedule, new Date('2025-06-09T00:00:00Z'))).toBe(true);
+      expect(cronMatches(schedule, new Date('2025-06-01T00:00:00Z'))).toBe(false);
+    });
+
+    test('should treat a day field covering its whole range as a wildcard', () => {
+      const everyDayOfMonth = parseCronExpression('0 0 */1 * 1');
+      const everyDayOfWeek = parseCronExpression('0 0 1 * 0-7');
+
+      expect(everyDayOfMonth.anyDayOfMonth).toBe(true);
+      expect(everyDayOfWeek.anyDayOfWeek).toBe(true);
+      // Only Mondays, not every day of the month
+      expect(cronMatches(everyDayOfMonth, new Date('2025-06-09T00:00:00Z'))).toBe(true);
+      expect(cronMatches(everyDayOfMonth, new Date('2025-06-10T00:00:00Z'))).toBe(false);
+      // Only the 1st, not every day of the week
+      expect(cronMatches(everyDayOfWeek, new Date('2025-06-01T00:00:00Z'))).toBe(true);
+      expect(cronMatches(everyDayOfWeek, new Date('2025-06-02T00:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('getNextCronRun', () => {
+    test('should return the next matching minute', () => {
+      const schedule = parseCronExpression('0 4 * * *');
+
+      expect(getNextCronRun(schedule, new Date('2025-06-10T03:59:30Z'))?.toISOString()).toBe('2025-06-10T04:00:00.000Z');
+      expect(getNextCronRun(schedule, new Date('2025-06-10T04:00:00Z'))?.toISOString()).toBe('2025-06-11T04:00:00.000Z');
+    });
+
+    test('should return null for a schedule that never fires', () => {
+      expect(getNextCronRun(parseCronExpression('0 0 31 2 *'), new Date('2025-01-01T00:00:00Z'))).toBeNull();
+    });
+  });
+});
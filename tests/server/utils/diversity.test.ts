@@ -0,0 +1,109 @@
+import {
+  DEFAULT_DIVERSITY_OPTIONS,
+  parseDiversityOptions,
+  isDiversityEnabled,
+  isOutsideGenres,
+  diversifyBooks
+} from '../../../server/utils/diversity';
+
+describe('Diversity Utils', () => {
+  const expanse = [
+    { title: 'Leviathan Wakes (The Expanse, #1)', author: 'James S.A. Corey', categories: ['Science Fiction'], rating: '4.3' },
+    { title: 'Caliban\'s War (The Expanse, #2)', author: 'James S.A. Corey', categories: ['Science Fiction'], rating: '4.4' },
+    { title: 'Abaddon\'s Gate (The Expanse, #3)', author: 'James S.A. Corey', categories: ['Science Fiction'], rating: '4.3' }
+  ];
+  const others = [
+    { title: 'Dune', author: 'Frank Herbert', categories: ['Science Fiction'], rating: '4.3' },
+    { title: 'Hyperion', author: 'Dan Simmons', categories: ['Science Fiction'], rating: '4.2' },
+    { title: 'Salt Fat Acid Heat', author: 'Samin Nosrat', categories: ['Cooking'], rating: '4.6' },
+    { title: 'SPQR', author: 'Mary Beard', categories: ['History'], rating: '3.9' }
+  ];
+  const ranked = [...expanse, ...others];
+  const titles = (books: Array<{ title: string }>) => books.map(book => book.title);
+
+  describe('parseDiversityOptions', () => {
+    test('should read the controls from a request body', () => {
+      expect(parseDiversityOptions({ maxPerAuthor: 2, maxPerSeries: '1', wildcard: true }))
+        .toEqual({ maxPerAuthor: 2, maxPerSeries: 1, wildcard: true });
+    });
+
+    test('should keep the defaults for missing or invalid values', () => {
+      expect(parseDiversityOptions(undefined)).toEqual(DEFAULT_DIVERSITY_OPTIONS);
+      expect(parseDiversityOptions({ maxPerAuthor: -1, maxPerSeries: 1.5, wildcard: 'yes' }))
+        .toEqual(DEFAULT_DIVERSITY_OPTIONS);
+    });
+  });
+
+  describe('isDiversityEnabled', () => {
+    test('should be off by default', () => {
+      expect(isDiversityEnabled(DEFAULT_DIVERSITY_OPTIONS)).toBe(false);
+      expect(isDiversityEnabled({ ...DEFAULT_DIVERSITY_OPTIONS, wildcard: true })).toBe(true);
+    });
+  });
+
+  describe('isOutsideGenres', () => {
+    test('should compare categories with the genres', () => {
+      expect(isOutsideGenres(others[2], ['Science Fiction'])).toBe(true);
+      expect(isOutsideGenres(others[0], ['science fiction'])).toBe(false);
+      expect(isOutsideGenres({ title: 'Untitled' }, ['History'])).toBe(false);
+      expect(isOutsideGenres(others[0], [])).toBe(true);
+    });
+  });
+
+  describe('diversifyBooks', () => {
+    test('should leave the ranking alone with the default options', () => {
+      expect(titles(diversifyBooks(ranked, DEFAULT_DIVERSITY_OPTIONS))).toEqual(titles(ranked));
+    });
+
+    test('should cap books per author and keep the rest after the top picks', () => {
+      const result = diversifyBooks(ranked, { ...DEFAULT_DIVERSITY_OPTIONS, maxPerAuthor: 1 });
+
+      expect(titles(result)).toEqual([
+        'Leviathan Wakes (The Expanse, #1)', 'Dune', 'Hyperion', 'Salt Fat Acid Heat', 'SPQR',
+        'Caliban\'s War (The Expanse, #2)', 'Abaddon\'s Gate (The Expanse, #3)'
+      ]);
+    });
+
+    test('should cap books per series', () => {
+      const result = diversifyBooks(ranked, { ...DEFAULT_DIVERSITY_OPTIONS, maxPerSeries: 2 }, { limit: 3 });
+
+      expect(titles(result).slice(0, 3)).toEqual([
+        'Leviathan Wakes (The Expanse, #1)', 'Caliban\'s War (The Expanse, #2)', 'Dune'
+      ]);
+    });
+
+    test('should save the last top slot for a highly rated book outside the genres', () => {
+      const result = diversifyBooks(
+        ranked,
+        { ...DEFAULT_DIVERSITY_OPTIONS, maxPerAuthor: 1, wildcard: true },
+        { limit: 3, genres: ['Science Fiction'] }
+      );
+
+      expect(titles(result).slice(0, 3)).toEqual(['Leviathan Wakes (The Expanse, #1)', 'Dune', 'Salt Fat Acid Heat']);
+      expect(result[2].wildcard).toBe(true);
+      expect(result.filter(book => book.wildcard)).toHaveLength(1);
+      expect(result).toHaveLength(ranked.length);
+    });
+
+    test('should pick the wildcard from a wider pool when given one', () => {
+      const result = diversifyBooks(
+        others.slice(0, 2),
+        { ...DEFAULT_DIVERSITY_OPTIONS, wildcard: true },
+        { genres: ['Science Fiction'], wildcardPool: ranked }
+      );
+
+      expect(titles(result)).toEqual(['Dune', 'Hyperion', 'Salt Fat Acid Heat']);
+    });
+
+    test('should fill the wildcard slot normally when no book qualifies', () => {
+      const result = diversifyBooks(
+        ranked,
+        { ...DEFAULT_DIVERSITY_OPTIONS, wildcard: true },
+        { limit: 2, genres: ['Science Fiction', 'Cooking'] }
+      );
+
+      expect(titles(result).slice(0, 2)).toEqual(['Leviathan Wakes (The Expanse, #1)', 'Caliban\'s War (The Expanse, #2)']);
+      expect(result.some(book => book.wildcard)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  getEmbeddingText,
+  getTextHash,
+  hashingEmbedding,
+  normalizeVector,
+  cosineSimilarity,
+  buildTasteVector,
+  getTasteSources
+} from '../../../server/utils/embeddings';
+
+describe('Embeddings Utils', () => {
+  describe('getEmbeddingText', () => {
+    test('should include the fields that are present', () => {
+      expect(getEmbeddingText({ title: 'Dune', author: 'Frank Herbert', categories: ['Science Fiction'], summary: 'Desert planet.' }))
+        .toBe('Dune\nby Frank Herbert\nGenres: Science Fiction\nDesert planet.');
+      expect(getEmbeddingText({ title: 'Dune' })).toBe('Dune');
+    });
+  });
+
+  describe('getTextHash', () => {
+    test('should change with the text', () => {
+      expect(getTextHash('Dune')).toHaveLength(16);
+      expect(getTextHash('Dune')).toBe(getTextHash('Dune'));
+      expect(getTextHash('Dune')).not.toBe(getTextHash('Dune Messiah'));
+    });
+  });
+
+  describe('hashingEmbedding', () => {
+    test('should return a unit vector of the requested size', () => {
+      const vector = hashingEmbedding('A desert planet and a spice', 64);
+
+      expect(vector).toHaveLength(64);
+      expect(Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))).toBeCloseTo(1);
+    });
+
+    test('should be deterministic', () => {
+      expect(hashingEmbedding('Space opera with politics')).toEqual(hashingEmbedding('Space opera with politics'));
+    });
+
+    test('should rank related texts above unrelated ones', () => {
+      const taste = hashingEmbedding('Dune by Frank Herbert Genres: Science Fiction, Space Opera');
+      const related = hashingEmbedding('Hyperion by Dan Simmons Genres: Science Fiction, Space Opera');
+      const unrelated = hashingEmbedding('Salt Fat Acid Heat by Samin Nosrat Genres: Cooking');
+
+      expect(cosineSimilarity(taste, related)).toBeGreaterThan(cosineSimilarity(taste, unrelated));
+    });
+
+    test('should return a zero vector for text without words', () => {
+      expect(hashingEmbedding('...', 8)).toEqual(new Array(8).fill(0));
+    });
+  });
+
+  describe('cosineSimilarity', () => {
+    test('should compare directions', () => {
+      expect(cosineSimilarity([1, 0], [2, 0])).toBeCloseTo(1);
+      expect(cosineSimilarity([1, 0], [0, 3])).toBeCloseTo(0);
+      expect(cosineSimilarity([1, 0], [-1, 0])).toBeCloseTo(-1);
+    });
+
+    test('should return 0 for empty or mismatched vectors', () => {
+      expect(cosineSimilarity([], [])).toBe(0);
+      expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+      expect(cosineSimilarity([0, 0], [1, 0])).toBe(0);
+    });
+  });
+
+  describe('normalizeVector', () => {
+    test('should scale to unit length', () => {
+      expect(normalizeVector([3, 4])).toEqual([0.6, 0.8]);
+      expect(normalizeVector([0, 0])).toEqual([0, 0]);
+    });
+  });
+
+  describe('buildTasteVector', () => {
+    test('should average by weight', () => {
+      const taste = buildTasteVector([
+        { vector: [1, 0], weight: 3 },
+        { vector: [0, 2], weight: 1 }
+      ]);
+
+      expect(taste).not.toBeNull();
+      expect(taste![0]).toBeCloseTo(3 / Math.sqrt(10));
+      expect(taste![1]).toBeCloseTo(1 / Math.sqrt(10));
+    });
+
+    test('should return null when there is nothing to average', () => {
+      expect(buildTasteVector([])).toBeNull();
+      expect(buildTasteVector([{ vector: [1, 0], weight: 0 }])).toBeNull();
+    });
+  });
+
+  describe('getTasteSources', () => {
+    const goodreadsData = [
+      { 'Title': 'Piranesi', 'Author': 'Susanna Clarke', 'My Rating': '4', 'Bookshelves': 'fantasy; favorites' },
+      { 'Title': 'Dune', 'Author': 'Frank Herbert', 'My Rating': '5' },
+      { 'Title': 'Twilight', 'Author': 'Stephenie Meyer', 'My Rating': '2' },
+      { 'Title': 'Hyperion', 'Author': 'Dan Simmons', 'My Rating': '0' }
+    ];
+
+    test('should use highly rated books, best first, then saved books', () => {
+      const sources = getTasteSources(goodreadsData, [{ title: 'Solaris', author: 'Stanislaw Lem' }]);
+
+      expect(sources.map(source => [source.book.title, source.weight])).toEqual([
+        ['Dune', 1],
+        ['Piranesi', 0.6],
+        ['Solaris', 0.8]
+      ]);
+      expect(sources[1].book.categories).toEqual(['fantasy', 'favorites']);
+    });
+
+    test('should skip duplicates and stop at the limit', () => {
+      const sources = getTasteSources(goodreadsData, [{ title: 'Dune', author: 'Frank Herbert' }], 1);
+
+      expect(sources.map(source => source.book.title)).toEqual(['Dune']);
+      expect(getTasteSources(undefined, [])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  chunkItems,
+  formatEnrichmentBookList,
+  parseEnrichmentResponse
+} from '../../../server/utils/enrichment-batch';
+
+describe('Enrichment Batch Utils', () => {
+  describe('chunkItems', () => {
+    test('should split items into chunks of the given size', () => {
+      expect(chunkItems([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    });
+
+    test('should return no chunks for no items', () => {
+      expect(chunkItems([], 10)).toEqual([]);
+    });
+
+    test('should treat a size below one as one', () => {
+      expect(chunkItems([1, 2], 0)).toEqual([[1], [2]]);
+    });
+  });
+
+  describe('formatEnrichmentBookList', () => {
+    test('should number the books from 1', () => {
+      const list = formatEnrichmentBookList([
+        { title: 'Dune', author: 'Frank Herbert' },
+        { title: 'Emma', author: 'Jane Austen' }
+      ]);
+
+      expect(list).toBe('1. "Dune" by Frank Herbert\n2. "Emma" by Jane Austen');
+    });
+  });
+
+  describe('parseEnrichmentResponse', () => {
+    test('should place results by index regardless of response order', () => {
+      const response = {
+        books: [
+          { index: 2, rating: '4.0', summary: 'Second.', categories: ['Classics'] },
+          { index: 1, rating: 4.25, summary: 'First.', categories: ['Science Fiction'] }
+        ]
+      };
+
+      expect(parseEnrichmentResponse(response, 2)).toEqual([
+        { rating: '4.3', summary: 'First.', categories: ['Science Fiction'] },
+        { rating: '4.0', summary: 'Second.', categories: ['Classics'] }
+      ]);
+    });
+
+    test('should leave missing books and invalid fields empty', () => {
+      const response = {
+        books: [
+          { index: 1, rating: '9.5', summary: '  ', categories: [3, ''] },
+          { index: 7, rating: '4.0' }
+        ]
+      };
+
+      expect(parseEnrichmentResponse(response, 2)).toEqual([
+        { rating: undefined, summary: undefined, categories: undefined },
+        {}
+      ]);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  isFeedbackType,
+  findFeedback,
+  formatFeedbackForPrompt,
+  rerankByFeedback,
+  type FeedbackEntry
+} from '../../../server/utils/feedback';
+
+describe('Feedback Utils', () => {
+  const entries: FeedbackEntry[] = [
+    { title: 'Dune', author: 'Frank Herbert', type: 'read_liked' },
+    { title: 'Twilight', author: 'Stephenie Meyer', type: 'not_interested' },
+    { title: 'Dune (Dune, #1)', author: 'Frank Herbert', type: 'read_disliked' }
+  ];
+
+  describe('isFeedbackType', () => {
+    test('should accept only known types', () => {
+      expect(isFeedbackType('not_interested')).toBe(true);
+      expect(isFeedbackType('read_liked')).toBe(true);
+      expect(isFeedbackType('liked')).toBe(false);
+      expect(isFeedbackType(undefined)).toBe(false);
+    });
+  });
+
+  describe('findFeedback', () => {
+    test('should match other editions of the same work, last entry first', () => {
+      expect(findFeedback(entries, { title: 'Dune', author: 'Frank Herbert' })?.type).toBe('read_disliked');
+      expect(findFeedback(entries, { title: 'Twilight', author: 'Stephenie Meyer' })?.type).toBe('not_interested');
+    });
+
+    test('should not match other books', () => {
+      expect(findFeedback(entries, { title: 'Dune Messiah', author: 'Frank Herbert' })).toBeUndefined();
+      expect(findFeedback([], { title: 'Dune' })).toBeUndefined();
+    });
+  });
+
+  describe('formatFeedbackForPrompt', () => {
+    test('should describe each kind of feedback', () => {
+      expect(formatFeedbackForPrompt(entries)).toBe(
+        'I\'m not interested in: "Twilight" by Stephenie Meyer. ' +
+        'I\'ve already read and liked: "Dune" by Frank Herbert. ' +
+        'I\'ve already read and didn\'t like: "Dune (Dune, #1)" by Frank Herbert.'
+      );
+    });
+
+    test('should return an empty string without feedback', () => {
+      expect(formatFeedbackForPrompt([])).toBe('');
+    });
+  });
+
+  describe('rerankByFeedback', () => {
+    const penalties = { notInterested: -20, alreadyRead: -10, goodreadsHistory: 3 };
+
+    test('should penalize books with feedback and re-sort', () => {
+      const reranked = rerankByFeedback([
+        { title: 'Twilight', author: 'Stephenie Meyer', matchScore: 95 },
+        { title: 'Dune', author: 'Frank Herbert', matchScore: 90 },
+        { title: 'Hyperion', author: 'Dan Simmons', matchScore: 80 }
+      ], entries, penalties);
+
+      expect(reranked.map(book => [book.title, book.matchScore])).toEqual([
+        ['Dune', 80],
+        ['Hyperion', 80],
+        ['Twilight', 75]
+      ]);
+    });
+
+    test('should lower other books by an author the reader didn\'t like', () => {
+      const reranked = rerankByFeedback([
+        { title: 'Dune Messiah', author: 'Frank Herbert', matchScore: 92 },
+        { title: 'Hyperion', author: 'Dan Simmons', matchScore: 88 }
+      ], [{ title: 'Dune', author: 'Frank Herbert', type: 'read_disliked' }], penalties);
+
+      expect(reranked.map(book => [book.title, book.matchScore])).toEqual([
+        ['Hyperion', 88],
+        ['Dune Messiah', 86]
+      ]);
+    });
+
+    test('should keep the order without feedback', () => {
+      const books = [
+        { title: 'Hyperion', author: 'Dan Simmons', matchScore: 80 },
+        { title: 'Ubik', author: 'Philip K. Dick', matchScore: 80 }
+      ];
+
+      expect(rerankByFeedback(books, [], penalties)).toEqual(books);
+    });
+  });
+});
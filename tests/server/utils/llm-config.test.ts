@@ -0,0 +1,53 @@
+import { getLLMConnection, isLLMConfigured, getTaskSettings } from '../../../server/utils/llm-config';
+
+describe('LLM Config Utils', () => {
+  describe('getLLMConnection', () => {
+    test('should prefer LLM_API_KEY over OPENAI_API_KEY', () => {
+      expect(getLLMConnection({ LLM_API_KEY: 'sk-local-key', OPENAI_API_KEY: 'sk-openai-key' }))
+        .toEqual({ baseUrl: undefined, apiKey: 'sk-local-key' });
+    });
+
+    test('should ignore placeholder keys', () => {
+      expect(getLLMConnection({ OPENAI_API_KEY: 'your_openai_key_here' }).apiKey).toBeUndefined();
+      expect(getLLMConnection({ OPENAI_API_KEY: 'abc' }).apiKey).toBeUndefined();
+    });
+
+    test('should read the base URL', () => {
+      expect(getLLMConnection({ LLM_BASE_URL: ' http://localhost:11434/v1 ' }).baseUrl).toBe('http://localhost:11434/v1');
+    });
+  });
+
+  describe('isLLMConfigured', () => {
+    test('should accept a key or a base URL', () => {
+      expect(isLLMConfigured({ apiKey: 'sk-openai-key' })).toBe(true);
+      expect(isLLMConfigured({ baseUrl: 'http://localhost:8080/v1' })).toBe(true);
+      expect(isLLMConfigured({})).toBe(false);
+    });
+  });
+
+  describe('getTaskSettings', () => {
+    const defaults = { timeoutMs: 15000, maxRetries: 2 };
+
+    test('should use the defaults when nothing is set', () => {
+      expect(getTaskSettings('vision', defaults, {})).toEqual({ model: undefined, timeoutMs: 15000, maxRetries: 2 });
+    });
+
+    test('should prefer task settings over global ones', () => {
+      const env = {
+        LLM_MODEL: 'llama3.1',
+        LLM_MODEL_MATCH_REASON: 'qwen2.5',
+        LLM_TIMEOUT_MS: '30000',
+        LLM_MAX_RETRIES_MATCH_REASON: '0'
+      };
+
+      expect(getTaskSettings('match-reason', defaults, env)).toEqual({ model: 'qwen2.5', timeoutMs: 30000, maxRetries: 0 });
+      expect(getTaskSettings('summary', defaults, env)).toEqual({ model: 'llama3.1', timeoutMs: 30000, maxRetries: 2 });
+    });
+
+    test('should skip invalid numbers', () => {
+      const env = { LLM_TIMEOUT_MS_VISION: '0', LLM_TIMEOUT_MS: '20000', LLM_MAX_RETRIES: '-1' };
+
+      expect(getTaskSettings('vision', defaults, env)).toEqual({ model: undefined, timeoutMs: 20000, maxRetries: 2 });
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { LRUCache } from '../../../server/utils/lru-cache';
+
+describe('LRU Cache Utils', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should return cached values and count hits and misses', () => {
+    const cache = new LRUCache<string, number>({ maxEntries: 10, ttlMs: 1000 });
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ size: 1, hits: 1, misses: 1, hitRate: 0.5 });
+  });
+
+  test('should evict the least recently used entry when full', () => {
+    const cache = new LRUCache<string, number>({ maxEntries: 2, ttlMs: 1000 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  test('should expire entries after their time to live', () => {
+    jest.useFakeTimers();
+    const cache = new LRUCache<string, number>({ maxEntries: 10, ttlMs: 1000 });
+    cache.set('a', 1);
+    cache.set('b', 2, 5000);
+
+    jest.advanceTimersByTime(1500);
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(cache.size).toBe(1);
+  });
+
+  test('should keep null values distinct from missing ones', () => {
+    const cache = new LRUCache<string, number | null>({ maxEntries: 10, ttlMs: 1000 });
+    cache.set('miss', null);
+
+    expect(cache.get('miss')).toBeNull();
+    expect(cache.get('other')).toBeUndefined();
+  });
+
+  test('should delete entries matching a predicate', () => {
+    const cache = new LRUCache<string, number | null>({ maxEntries: 10, ttlMs: 1000 });
+    cache.set('a', 1);
+    cache.set('b', null);
+    cache.set('c', null);
+
+    expect(cache.deleteWhere(value => value === null)).toBe(2);
+    expect(cache.size).toBe(1);
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  mergeBookMetadata,
+  normalizeIsbn,
+  isbn10To13,
+  isbn13To10,
+  parsePublishYear,
+  type ProviderMetadata
+} from '../../../server/utils/metadata-merge';
+
+const google: ProviderMetadata = {
+  provider: 'google-books',
+  metadata: {
+    title: 'Dune',
+    author: 'Frank Herbert',
+    isbn13: '978-0-441-17271-9',
+    coverUrl: 'https://books.google.com/dune.jpg',
+    pageCount: 604,
+    publishedYear: 1990,
+    categories: ['Fiction'],
+    description: 'Google Books blurb'
+  }
+};
+
+const openLibrary: ProviderMetadata = {
+  provider: 'open-library',
+  metadata: {
+    title: 'Dune',
+    author: 'Frank Herbert',
+    coverUrl: 'https://covers.openlibrary.org/b/id/1-M.jpg',
+    pageCount: 0,
+    publishedYear: 1965,
+    publisher: 'Chilton Books',
+    categories: ['Science fiction', 'Desert planets']
+  }
+};
+
+const openai: ProviderMetadata = {
+  provider: 'openai',
+  metadata: { description: 'A desert planet, a noble family and a messiah.', rating: '4.3' }
+};
+
+describe('Metadata Merge Utils', () => {
+  describe('normalizeIsbn', () => {
+    test('should strip hyphens and spaces from valid ISBNs', () => {
+      expect(normalizeIsbn('978-0-441-17271-9')).toBe('9780441172719');
+      expect(normalizeIsbn('0 441 17271 7')).toBe('0441172717');
+    });
+
+    test('should accept an X check digit', () => {
+      expect(normalizeIsbn('080442957x')).toBe('080442957X');
+    });
+
+    test('should reject bad check digits and other identifiers', () => {
+      expect(normalizeIsbn('9780441172718')).toBeNull();
+      expect(normalizeIsbn('0441172718')).toBeNull();
+      expect(normalizeIsbn('OL123M')).toBeNull();
+      expect(normalizeIsbn(undefined)).toBeNull();
+    });
+  });
+
+  describe('ISBN conversion', () => {
+    test('should convert between ISBN-10 and ISBN-13', () => {
+      expect(isbn10To13('0441172717')).toBe('9780441172719');
+      expect(isbn13To10('9780441172719')).toBe('0441172717');
+      expect(isbn13To10('9780804429573')).toBe('080442957X');
+    });
+
+    test('should not convert 979 ISBNs to ISBN-10', () => {
+      expect(isbn13To10('9791032300824')).toBeNull();
+    });
+  });
+
+  describe('parsePublishYear', () => {
+    test('should read the year from provider dates', () => {
+      expect(parsePublishYear('2004-05-01')).toBe(2004);
+      expect(parsePublishYear('May 2004')).toBe(2004);
+      expect(parsePublishYear(1965)).toBe(1965);
+    });
+
+    test('should return undefined without a year', () => {
+      expect(parsePublishYear('unknown')).toBeUndefined();
+      expect(parsePublishYear(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('mergeBookMetadata', () => {
+    test('should take each field from the first provider in the rules that has it', () => {
+      const { metadata, provenance } = mergeBookMetadata([openai, openLibrary, google]);
+
+      expect(metadata.coverUrl).toBe('https://books.google.com/dune.jpg');
+      expect(provenance.coverUrl).toBe('google-books');
+      expect(metadata.publishedYear).toBe(1965);
+      expect(provenance.publishedYear).toBe('open-library');
+      expect(metadata.publisher).toBe('Chilton Books');
+      expect(provenance.publisher).toBe('open-library');
+      expect(metadata.categories).toEqual(['Fiction']);
+    });
+
+    test('should only take descriptions and ratings from OpenAI', () => {
+      const { metadata, provenance } = mergeBookMetadata([google, openai]);
+      expect(metadata.description).toBe('A desert planet, a noble family and a messiah.');
+      expect(provenance.description).toBe('openai');
+      expect(provenance.rating).toBe('openai');
+
+      const withoutOpenAI = mergeBookMetadata([google]);
+      expect(withoutOpenAI.metadata.description).toBeUndefined();
+    });
+
+    test('should skip empty values', () => {
+      const { metadata, provenance } = mergeBookMetadata([{ ...google, metadata: { ...google.metadata, pageCount: 0 } }, openLibrary]);
+      expect(metadata.pageCount).toBeUndefined();
+      expect(provenance.pageCount).toBeUndefined();
+    });
+
+    test('should normalize ISBNs and derive the missing form', () => {
+      const { metadata, provenance } = mergeBookMetadata([google]);
+      expect(metadata.isbn13).toBe('9780441172719');
+      expect(metadata.isbn10).toBe('0441172717');
+      expect(provenance.isbn10).toBe('google-books');
+    });
+
+    test('should drop invalid ISBNs', () => {
+      const { metadata, provenance } = mergeBookMetadata([{ provider: 'google-books', metadata: { isbn13: '12345' } }]);
+      expect(metadata.isbn13).toBeUndefined();
+      expect(provenance.isbn13).toBeUndefined();
+    });
+
+    test('should fall through to the next provider when an ISBN is invalid', () => {
+      const { metadata, provenance } = mergeBookMetadata([
+        { provider: 'google-books', metadata: { isbn10: 'OL123M', isbn13: '9780441172718' } },
+        { provider: 'open-library', metadata: { isbn10: '0-441-17271-7', isbn13: '978-0-441-17271-9' } }
+      ]);
+
+      expect(metadata.isbn10).toBe('0441172717');
+      expect(metadata.isbn13).toBe('9780441172719');
+      expect(provenance.isbn10).toBe('open-library');
+      expect(provenance.isbn13).toBe('open-library');
+    });
+
+    test('should use custom rules', () => {
+      const rules = {
+        title: ['open-library'], author: [], isbn10: [], isbn13: [], coverUrl: ['open-library', 'google-books'],
+        pageCount: [], publishedYear: [], publisher: [], categories: [], description: ['google-books'], rating: []
+      };
+      const { metadata, provenance } = mergeBookMetadata([google, openLibrary], rules);
+
+      expect(metadata.coverUrl).toBe('https://covers.openlibrary.org/b/id/1-M.jpg');
+      expect(metadata.description).toBe('Google Books blurb');
+      expect(provenance.author).toBeUndefined();
+    });
+
+    test('should list the providers that contributed', () => {
+      expect(mergeBookMetadata([google, openLibrary, openai]).providers).toEqual(['google-books', 'open-library', 'openai']);
+      expect(mergeBookMetadata([]).providers).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  validateOpenAIContent,
+  buildRepairMessage,
+  OpenAIResponseError,
+  visionResponseSpec,
+  recommendationsResponseSpec,
+  ratingResponseSpec,
+  summaryResponseSpec,
+  enrichmentResponseSpec
+} from '../../../server/utils/openai-schemas';
+
+function captureError(fn: () => unknown): OpenAIResponseError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof OpenAIResponseError) {
+      return error;
+    }
+    throw error;
+  }
+  throw new Error('Expected an OpenAIResponseError');
+}
+
+describe('OpenAI Schema Utils', () => {
+  describe('validateOpenAIContent', () => {
+    test('should fill in defaults for a vision response', () => {
+      expect(validateOpenAIContent(visionResponseSpec, '{"bookTitles": ["Dune"]}')).toEqual({
+        bookTitles: ['Dune'],
+        isBookshelf: false,
+        spines: []
+      });
+    });
+
+    test('should coerce match scores and keep extra recommendation fields', () => {
+      const content = JSON.stringify({
+        recommendations: [{ title: 'Dune', author: 'Frank Herbert', matchScore: '92', matchReason: 'Epic science fiction.', isbn: '123' }]
+      });
+
+      expect(validateOpenAIContent(recommendationsResponseSpec, content).recommendations[0]).toEqual({
+        title: 'Dune',
+        author: 'Frank Herbert',
+        matchScore: 92,
+        matchReason: 'Epic science fiction.',
+        isbn: '123'
+      });
+    });
+
+    test('should extract a rating from surrounding text', () => {
+      expect(validateOpenAIContent(ratingResponseSpec, 'Rating: 4.25 stars')).toBe('4.3');
+    });
+
+    test('should reject a rating out of range', () => {
+      const error = captureError(() => validateOpenAIContent(ratingResponseSpec, '9'));
+      expect(error.reason).toBe('schema');
+      expect(error.responseName).toBe('rating');
+    });
+
+    test('should reject an empty reply', () => {
+      const error = captureError(() => validateOpenAIContent(summaryResponseSpec, '   '));
+      expect(error.reason).toBe('empty');
+    });
+
+    test('should reject a reply that is not JSON', () => {
+      const error = captureError(() => validateOpenAIContent(enrichmentResponseSpec, 'not json'));
+      expect(error.reason).toBe('invalid-json');
+      expect(error.content).toBe('not json');
+    });
+
+    test('should list the path of each schema issue', () => {
+      const error = captureError(() => validateOpenAIContent(enrichmentResponseSpec, '{"books": [{"index": 0}]}'));
+      expect(error.reason).toBe('schema');
+      expect(error.issues[0]).toMatch(/^books\.0\.index: /);
+    });
+
+    test('should reject a response without a books array', () => {
+      const error = captureError(() => validateOpenAIContent(enrichmentResponseSpec, '{"results": []}'));
+      expect(error.issues[0]).toMatch(/^books: /);
+    });
+  });
+
+  describe('buildRepairMessage', () => {
+    test('should include the issues and the expected shape', () => {
+      const error = new OpenAIResponseError('summary', 'schema', ['Summary is too short'], 'Short.');
+      const message = buildRepairMessage(summaryResponseSpec, error);
+
+      expect(message).toContain('Summary is too short');
+      expect(message).toContain(summaryResponseSpec.expected);
+    });
+  });
+});
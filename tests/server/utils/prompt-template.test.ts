@@ -0,0 +1,67 @@
+import {
+  getTemplateVariables,
+  renderTemplate,
+  getVariantBucket,
+  pickWeighted
+} from '../../../server/utils/prompt-template';
+
+describe('Prompt Template Utils', () => {
+  describe('getTemplateVariables', () => {
+    test('should list each placeholder once', () => {
+      expect(getTemplateVariables('"{{title}}" by {{ author }}, {{title}}')).toEqual(['title', 'author']);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    test('should fill in placeholders', () => {
+      expect(renderTemplate('Rate "{{title}}" by {{ author }} ({{count}})', { title: 'Dune', author: 'Frank Herbert', count: 3 }))
+        .toBe('Rate "Dune" by Frank Herbert (3)');
+    });
+
+    test('should throw on a missing variable', () => {
+      expect(() => renderTemplate('Rate "{{title}}"', {})).toThrow('"title"');
+    });
+  });
+
+  describe('getVariantBucket', () => {
+    test('should be stable for a device and experiment', () => {
+      const bucket = getVariantBucket('summary', 'device-1');
+
+      expect(bucket).toBe(getVariantBucket('summary', 'device-1'));
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(1);
+    });
+
+    test('should spread devices across buckets', () => {
+      const buckets = Array.from({ length: 200 }, (_, i) => getVariantBucket('summary', `device-${i}`));
+      const lowerHalf = buckets.filter(bucket => bucket < 0.5).length;
+
+      expect(lowerHalf).toBeGreaterThan(60);
+      expect(lowerHalf).toBeLessThan(140);
+    });
+  });
+
+  describe('pickWeighted', () => {
+    const variants = [
+      { name: 'a', weight: 3 },
+      { name: 'b', weight: 1 },
+      { name: 'off', weight: 0 }
+    ];
+
+    test('should pick by share of the total weight', () => {
+      expect(pickWeighted(variants, 0)?.name).toBe('a');
+      expect(pickWeighted(variants, 0.74)?.name).toBe('a');
+      expect(pickWeighted(variants, 0.75)?.name).toBe('b');
+      expect(pickWeighted(variants, 0.99)?.name).toBe('b');
+    });
+
+    test('should treat a missing weight as one', () => {
+      const unweighted: Array<{ name: string; weight?: number }> = [{ name: 'a' }, { name: 'b' }];
+      expect(pickWeighted(unweighted, 0.6)?.name).toBe('b');
+    });
+
+    test('should return nothing when no variant has weight', () => {
+      expect(pickWeighted([{ weight: 0 }], 0.5)).toBeUndefined();
+    });
+  });
+});
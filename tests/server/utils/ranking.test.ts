@@ -0,0 +1,213 @@
+import {
+  DEFAULT_RANKING_WEIGHTS,
+  getRankingWeights,
+  scoreBook,
+  rankBooks,
+  summarizeExplanation
+} from '../../../server/utils/ranking';
+
+describe('Ranking Utils', () => {
+  const preferences = {
+    genres: ['Science Fiction', 'History'],
+    authors: ['Ursula K. Le Guin'],
+    goodreadsData: [
+      { 'Title': 'The Left Hand of Darkness', 'Author': 'Ursula K. Le Guin', 'My Rating': '5' },
+      { 'Title': 'Leviathan Wakes', 'Author': 'James S.A. Corey', 'My Rating': '3' },
+      { 'Title': 'Dune', 'Author': 'Frank Herbert', 'My Rating': '0' }
+    ]
+  };
+
+  describe('getRankingWeights', () => {
+    test('should use the defaults when nothing is set', () => {
+      expect(getRankingWeights({})).toEqual(DEFAULT_RANKING_WEIGHTS);
+    });
+
+    test('should read one variable per feature', () => {
+      const weights = getRankingWeights({
+        RANKING_WEIGHT_GENRE_OVERLAP: '4',
+        RANKING_WEIGHT_ALREADY_READ: '-20',
+        RANKING_WEIGHT_AVERAGE_RATING: 'high'
+      });
+
+      expect(weights.genreOverlap).toBe(4);
+      expect(weights.alreadyRead).toBe(-20);
+      expect(weights.averageRating).toBe(DEFAULT_RANKING_WEIGHTS.averageRating);
+    });
+  });
+
+  describe('scoreBook', () => {
+    test('should break the score down by feature', () => {
+      const result = scoreBook(
+        { title: 'The Dispossessed', author: 'Ursula K. Le Guin', categories: ['Fiction / Science Fiction'], rating: '4.2' },
+        preferences
+      );
+
+      expect(result.breakdown).toEqual({
+        genreOverlap: 10,
+        authorAffinity: 5,
+        goodreadsHistory: 6,
+        alreadyRead: 0,
+        notInterested: 0,
+        averageRating: 4.2,
+        tasteSimilarity: 0
+      });
+      expect(result.score).toBe(25.2);
+      expect(result.readTitle).toBeUndefined();
+    });
+
+    test('should explain the features that changed the score', () => {
+      const { explanation } = scoreBook(
+        { title: 'The Dispossessed', author: 'Ursula K. Le Guin', categories: ['Fiction / Science Fiction'] },
+        preferences
+      );
+
+      expect(explanation.score).toBe(21);
+      expect(explanation.factors).toEqual([
+        { feature: 'genreOverlap', label: 'Genre overlap', weight: 10, points: 10, evidence: ['genre Science Fiction'] },
+        {
+          feature: 'goodreadsHistory',
+          label: 'Goodreads history',
+          weight: 3,
+          points: 6,
+          evidence: ['you rated 1 book by this author ≥4★']
+        },
+        {
+          feature: 'authorAffinity',
+          label: 'Favorite author',
+          weight: 5,
+          points: 5,
+          evidence: ['Ursula K. Le Guin is one of your authors']
+        }
+      ]);
+    });
+
+    test('should explain penalties', () => {
+      const { explanation } = scoreBook({ title: 'Leviathan Wakes', author: 'James S.A. Corey' }, preferences);
+
+      expect(explanation.factors.map(factor => [factor.feature, factor.points])).toEqual([
+        ['alreadyRead', -10],
+        ['goodreadsHistory', 3]
+      ]);
+      expect(explanation.factors[0].evidence).toEqual(['you rated "Leviathan Wakes" 3★ on Goodreads']);
+      expect(explanation.factors[1].evidence).toEqual(['you rated 1 other book by this author below 4★']);
+    });
+
+    test('should penalize books the reader has already rated', () => {
+      const result = scoreBook({ title: 'Leviathan Wakes (The Expanse, #1)', author: 'James S. A. Corey' }, preferences);
+
+      expect(result.readTitle).toBe('Leviathan Wakes');
+      expect(result.breakdown.alreadyRead).toBe(-10);
+      expect(result.score).toBe(0);
+    });
+
+    test('should not treat to-read books as read', () => {
+      expect(scoreBook({ title: 'Dune', author: 'Frank Herbert' }, preferences).readTitle).toBeUndefined();
+    });
+
+    test('should apply custom weights', () => {
+      const weights = { ...DEFAULT_RANKING_WEIGHTS, genreOverlap: 0, averageRating: 10 };
+      const result = scoreBook({ title: 'SPQR', categories: ['History'], rating: 4 }, preferences, weights);
+
+      expect(result.breakdown.genreOverlap).toBe(0);
+      expect(result.score).toBe(40);
+    });
+
+    test('should lift books similar to the reader\'s taste', () => {
+      const similar = scoreBook({ title: 'Solaris', similarity: 0.62 }, {});
+      const dissimilar = scoreBook({ title: 'A Cookbook', similarity: -0.2 }, {});
+
+      expect(similar.breakdown.tasteSimilarity).toBe(6.2);
+      expect(similar.explanation.factors[0].evidence).toEqual(['62% similar to books you rated highly or saved']);
+      expect(dissimilar.breakdown.tasteSimilarity).toBe(0);
+    });
+
+    test('should penalize books the reader is not interested in', () => {
+      const result = scoreBook(
+        { title: 'SPQR: A History of Ancient Rome', author: 'Mary Beard', categories: ['History'] },
+        { ...preferences, feedback: [{ title: 'SPQR', author: 'Mary Beard', type: 'not_interested' as const }] }
+      );
+
+      expect(result.breakdown.notInterested).toBe(-20);
+      expect(result.score).toBe(0);
+      expect(result.readTitle).toBeUndefined();
+      expect(result.explanation.factors[0].evidence).toEqual(['you marked "SPQR" as not interested']);
+    });
+
+    test('should treat books marked as read like rated ones', () => {
+      const feedback = [
+        { title: 'Dune', author: 'Frank Herbert', type: 'read_disliked' as const },
+        { title: 'Leviathan Wakes', author: 'James S.A. Corey', type: 'read_liked' as const }
+      ];
+      const dune = scoreBook({ title: 'Dune', author: 'Frank Herbert' }, { ...preferences, feedback });
+      const leviathan = scoreBook({ title: 'Leviathan Wakes', author: 'James S.A. Corey' }, { ...preferences, feedback });
+
+      expect(dune.readTitle).toBe('Dune');
+      expect(dune.breakdown.alreadyRead).toBe(-10);
+      expect(dune.explanation.factors[0].evidence).toEqual(['you marked "Dune" as read and didn\'t like it']);
+      expect(leviathan.explanation.factors.find(factor => factor.feature === 'alreadyRead')!.evidence)
+        .toEqual(['you marked "Leviathan Wakes" as read and liked it']);
+    });
+
+    test('should count liked books towards the author\'s history', () => {
+      const result = scoreBook(
+        { title: 'Caliban\'s War', author: 'James S.A. Corey' },
+        { ...preferences, feedback: [{ title: 'Leviathan Wakes', author: 'James S.A. Corey', type: 'read_liked' as const }] }
+      );
+
+      expect(result.breakdown.goodreadsHistory).toBe(9);
+      expect(result.explanation.factors[0].evidence).toEqual([
+        'you liked 1 book by this author',
+        'you rated 1 other book by this author below 4★'
+      ]);
+    });
+
+    test('should count books the reader didn\'t like against their author', () => {
+      const result = scoreBook(
+        { title: 'Dune Messiah', author: 'Frank Herbert' },
+        { ...preferences, feedback: [{ title: 'Dune', author: 'Frank Herbert', type: 'read_disliked' as const }] }
+      );
+
+      expect(result.breakdown.goodreadsHistory).toBe(-6);
+      expect(result.readTitle).toBeUndefined();
+      expect(result.explanation.factors[0].evidence).toEqual(['you didn\'t like 1 book by this author']);
+    });
+
+    test('should handle missing preferences and book fields', () => {
+      expect(scoreBook({ title: 'Untitled' }, {}).score).toBe(0);
+    });
+  });
+
+  describe('rankBooks', () => {
+    test('should sort by score and keep the original order for ties', () => {
+      const ranked = rankBooks([
+        { title: 'A Cookbook', categories: ['Cooking'] },
+        { title: 'SPQR', categories: ['History'] },
+        { title: 'Another Cookbook', categories: ['Cooking'] }
+      ], preferences);
+
+      expect(ranked.map(book => book.title)).toEqual(['SPQR', 'A Cookbook', 'Another Cookbook']);
+      expect(ranked[0].score).toBe(10);
+    });
+  });
+
+  describe('summarizeExplanation', () => {
+    test('should use the evidence of the factor that added the most points', () => {
+      const { explanation } = scoreBook(
+        { title: 'The Dispossessed', author: 'Ursula K. Le Guin', categories: ['Science Fiction'], rating: '4.2' },
+        preferences
+      );
+
+      expect(summarizeExplanation(explanation)).toBe('Genre Science Fiction');
+    });
+
+    test('should skip penalties and be empty when nothing raised the score', () => {
+      const { explanation } = scoreBook(
+        { title: 'Dune', author: 'Frank Herbert' },
+        { feedback: [{ title: 'Dune', author: 'Frank Herbert', type: 'not_interested' }] }
+      );
+
+      expect(explanation.factors.length).toBeGreaterThan(0);
+      expect(summarizeExplanation(explanation)).toBe('');
+    });
+  });
+});
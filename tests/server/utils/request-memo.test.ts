@@ -0,0 +1,61 @@
+import { runWithRequestMemo, memoize, clearRequestMemo, hasRequestMemo } from '../../../server/utils/request-memo';
+
+describe('Request Memo Utils', () => {
+  test('should call the loader every time outside a request', async () => {
+    const loader = jest.fn().mockResolvedValue('value');
+
+    await memoize('key', loader);
+    await memoize('key', loader);
+
+    expect(hasRequestMemo()).toBe(false);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  test('should load each key once per request, sharing pending loads', async () => {
+    const loader = jest.fn().mockResolvedValue('value');
+
+    await runWithRequestMemo(async () => {
+      const results = await Promise.all([memoize('key', loader), memoize('key', loader)]);
+      await memoize('key', loader);
+      expect(results).toEqual(['value', 'value']);
+    });
+
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not share results between requests', async () => {
+    const loader = jest.fn().mockResolvedValue('value');
+
+    await runWithRequestMemo(() => memoize('key', loader));
+    await runWithRequestMemo(() => memoize('key', loader));
+
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  test('should retry a failed load', async () => {
+    const loader = jest.fn()
+      .mockRejectedValueOnce(new Error('failed'))
+      .mockResolvedValue('value');
+
+    await runWithRequestMemo(async () => {
+      await expect(memoize('key', loader)).rejects.toThrow('failed');
+      await expect(memoize('key', loader)).resolves.toBe('value');
+    });
+  });
+
+  test('should forget keys with a prefix', async () => {
+    const loader = jest.fn().mockResolvedValue('value');
+    const other = jest.fn().mockResolvedValue('other');
+
+    await runWithRequestMemo(async () => {
+      await memoize('book:a', loader);
+      await memoize('genre:a', other);
+      clearRequestMemo('book:');
+      await memoize('book:a', loader);
+      await memoize('genre:a', other);
+    });
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(other).toHaveBeenCalledTimes(1);
+  });
+});
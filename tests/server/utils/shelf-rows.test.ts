@@ -0,0 +1,90 @@
+import { findShelfRows, splitRowsEvenly } from '../../../server/utils/shelf-rows';
+
+/**
+ * Build a greyscale image where each band is either striped (a row of spines) or flat (a shelf board)
+ */
+const buildShelfImage = (width: number, bands: { height: number; striped: boolean }[]) => {
+  const height = bands.reduce((sum, band) => sum + band.height, 0);
+  const pixels = new Uint8Array(width * height);
+  let y = 0;
+  for (const band of bands) {
+    for (let row = 0; row < band.height; row++, y++) {
+      for (let x = 0; x < width; x++) {
+        // Spines a few pixels wide alternating light and dark
+        pixels[y * width + x] = band.striped ? (Math.floor(x / 4) % 2 ? 200 : 40) : 120;
+      }
+    }
+  }
+  return { pixels, width, height };
+};
+
+describe('Shelf Row Utils', () => {
+  describe('findShelfRows', () => {
+    test('should find each row of spines between shelf boards', () => {
+      const { pixels, width, height } = buildShelfImage(100, [
+        { height: 10, striped: false },
+        { height: 30, striped: true },
+        { height: 10, striped: false },
+        { height: 30, striped: true },
+        { height: 10, striped: false }
+      ]);
+
+      const rows = findShelfRows(pixels, width, height);
+
+      expect(rows).toHaveLength(2);
+      // Each detected row covers its band, padded slightly
+      expect(rows[0].top).toBeLessThanOrEqual(10 / 90);
+      expect(rows[0].bottom).toBeGreaterThanOrEqual(40 / 90);
+      expect(rows[1].top).toBeLessThanOrEqual(50 / 90);
+      expect(rows[1].bottom).toBeGreaterThanOrEqual(80 / 90);
+      expect(rows[0].bottom).toBeLessThan(rows[1].top + 0.1);
+    });
+
+    test('should return no rows for a single shelf', () => {
+      const { pixels, width, height } = buildShelfImage(100, [
+        { height: 10, striped: false },
+        { height: 60, striped: true },
+        { height: 10, striped: false }
+      ]);
+
+      expect(findShelfRows(pixels, width, height)).toEqual([]);
+    });
+
+    test('should ignore bands too thin to hold books', () => {
+      const { pixels, width, height } = buildShelfImage(100, [
+        { height: 40, striped: true },
+        { height: 10, striped: false },
+        { height: 4, striped: true },
+        { height: 10, striped: false },
+        { height: 40, striped: true }
+      ]);
+
+      expect(findShelfRows(pixels, width, height)).toHaveLength(2);
+    });
+
+    test('should return no rows for invalid input', () => {
+      expect(findShelfRows(new Uint8Array(0), 0, 0)).toEqual([]);
+      expect(findShelfRows(new Uint8Array(10), 10, 10)).toEqual([]);
+    });
+  });
+
+  describe('splitRowsEvenly', () => {
+    test('should split into overlapping rows covering the image', () => {
+      const rows = splitRowsEvenly(3);
+
+      expect(rows).toHaveLength(3);
+      expect(rows[0].top).toBe(0);
+      expect(rows[2].bottom).toBe(1);
+      expect(rows[0].bottom).toBeGreaterThan(rows[1].top);
+    });
+
+    test('should not split into a single row', () => {
+      expect(splitRowsEvenly(1)).toEqual([]);
+      expect(splitRowsEvenly(0)).toEqual([]);
+    });
+
+    test('should cap the number of rows', () => {
+      expect(splitRowsEvenly(50)).toHaveLength(6);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  parseSpineText,
+  isSpineNoise,
+  stripSeriesLabel,
+  scoreNameLikeness,
+  VisionTextResponse
+} from '../../../server/utils/spine-text-parser';
+
+// Recorded images:annotate responses (TEXT_DETECTION + LABEL_DETECTION)
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'google-vision');
+
+const loadFixture = (name: string): VisionTextResponse =>
+  JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, name), 'utf8')).responses[0];
+
+interface ExpectedSpine {
+  title: string;
+  author?: string;
+}
+
+// Title and author expected for each spine, in output order
+const expectations: Record<string, ExpectedSpine[]> = {
+  'upright-spines.json': [
+    { title: 'DUNE', author: 'FRANK HERBERT' },
+    { title: 'THE HOBBIT', author: 'J.R.R. TOLKIEN' },
+    { title: 'FOUNDATION', author: 'ISAAC ASIMOV' },
+    { title: 'PRIDE AND PREJUDICE', author: 'JANE AUSTEN' }
+  ],
+  'bottom-to-top-spines.json': [
+    { title: 'NORMAL PEOPLE', author: 'SALLY ROONEY' },
+    { title: 'THE SECRET HISTORY', author: 'DONNA TARTT' }
+  ],
+  'stacked-books.json': [
+    { title: '1984', author: 'GEORGE ORWELL' },
+    { title: 'BELOVED', author: 'TONI MORRISON' },
+    { title: 'THE ROAD', author: 'CORMAC McCARTHY' }
+  ],
+  'labels-and-series.json': [
+    { title: 'THE MARTIAN', author: 'ANDY WEIR' },
+    { title: 'THE WAY OF KINGS', author: 'BRANDON SANDERSON' },
+    { title: 'IT', author: 'STEPHEN KING' }
+  ]
+};
+
+describe('Spine Text Parser', () => {
+  test('should have expectations for every recorded response', () => {
+    expect(fs.readdirSync(FIXTURE_DIR).sort()).toEqual(Object.keys(expectations).sort());
+  });
+
+  describe.each(Object.entries(expectations))('%s', (fixture, expected) => {
+    const spines = parseSpineText(loadFixture(fixture));
+
+    test('should find one spine per book', () => {
+      expect(spines.map(spine => spine.text)).toEqual(expected.map(spine => spine.title));
+    });
+
+    test('should pair each title with its author', () => {
+      expect(spines.map(spine => spine.author)).toEqual(expected.map(spine => spine.author));
+    });
+
+    test('should rank the chosen title and author first among the candidates', () => {
+      spines.forEach(spine => {
+        expect(spine.titleCandidates[0]).toEqual({ text: spine.text, score: spine.confidence });
+        expect(spine.authorCandidates[0].text).toBe(spine.author);
+
+        const scores = spine.titleCandidates.map(candidate => candidate.score);
+        expect(scores).toEqual([...scores].sort((a, b) => b - a));
+      });
+    });
+
+    test('should locate each spine inside the image', () => {
+      spines.forEach(spine => {
+        expect(spine.boundingBox).not.toBeNull();
+        const box = spine.boundingBox!;
+        expect(box.x).toBeGreaterThanOrEqual(0);
+        expect(box.y).toBeGreaterThanOrEqual(0);
+        expect(box.x + box.width).toBeLessThanOrEqual(1);
+        expect(box.y + box.height).toBeLessThanOrEqual(1);
+      });
+    });
+
+    test('should not report publisher imprints or labels as candidates', () => {
+      const texts = spines.flatMap(spine => [...spine.titleCandidates, ...spine.authorCandidates].map(c => c.text));
+      texts.forEach(text => expect(isSpineNoise(text)).toBe(false));
+    });
+  });
+
+  describe('upright-spines.json', () => {
+    test('should keep one-word titles', () => {
+      const [dune] = parseSpineText(loadFixture('upright-spines.json'));
+      expect(dune.text).toBe('DUNE');
+      expect(dune.confidence).toBeGreaterThan(0.7);
+    });
+
+    test('should order spines left to right', () => {
+      const spines = parseSpineText(loadFixture('upright-spines.json'));
+      const lefts = spines.map(spine => spine.boundingBox!.x);
+      expect(lefts).toEqual([...lefts].sort((a, b) => a - b));
+    });
+  });
+
+  describe('labels-and-series.json', () => {
+    test('should strip the "by" prefix from authors', () => {
+      const spines = parseSpineText(loadFixture('labels-and-series.json'));
+      expect(spines[2].authorCandidates[0]).toEqual({ text: 'STEPHEN KING', score: expect.any(Number) });
+    });
+
+    test('should keep a series name below the title', () => {
+      const wayOfKings = parseSpineText(loadFixture('labels-and-series.json'))[1];
+      const seriesName = wayOfKings.titleCandidates.find(c => c.text === 'THE STORMLIGHT ARCHIVE');
+      expect(seriesName?.score).toBeLessThan(wayOfKings.confidence);
+    });
+  });
+
+  test('should return no spines for an empty response', () => {
+    expect(parseSpineText({})).toEqual([]);
+    expect(parseSpineText({ textAnnotations: [] })).toEqual([]);
+  });
+
+  test('should return null bounding boxes when the image size is missing', () => {
+    const response = loadFixture('upright-spines.json');
+    const spines = parseSpineText({ textAnnotations: response.textAnnotations });
+    expect(spines.length).toBeGreaterThan(0);
+    spines.forEach(spine => expect(spine.boundingBox).toBeNull());
+  });
+
+  describe('isSpineNoise', () => {
+    test.each(['Penguin', 'HarperCollins', 'FABER & FABER', 'Del Rey', 'Book 2', 'VOLUME ONE', '#3', 'A Novel', 'New York Times Bestseller', 'The Wheel of Time Series', 'x'])(
+      'should treat "%s" as noise',
+      text => expect(isSpineNoise(text)).toBe(true)
+    );
+
+    test.each(['Dune', '1984', 'The Penguin Lessons', 'Frank Herbert', 'It'])(
+      'should keep "%s"',
+      text => expect(isSpineNoise(text)).toBe(false)
+    );
+  });
+
+  describe('stripSeriesLabel', () => {
+    test('should remove a trailing book number', () => {
+      expect(stripSeriesLabel('Foundation Book 1')).toBe('Foundation');
+      expect(stripSeriesLabel('The Fellowship of the Ring Volume I')).toBe('The Fellowship of the Ring');
+    });
+
+    test('should leave other titles unchanged', () => {
+      expect(stripSeriesLabel('The Book Thief')).toBe('The Book Thief');
+    });
+  });
+
+  describe('scoreNameLikeness', () => {
+    test('should score names above titles', () => {
+      expect(scoreNameLikeness('Frank Herbert')).toBeGreaterThan(scoreNameLikeness('The Hobbit'));
+      expect(scoreNameLikeness('J.R.R. Tolkien')).toBeGreaterThan(scoreNameLikeness('Pride and Prejudice'));
+    });
+
+    test('should favour text introduced with "by"', () => {
+      expect(scoreNameLikeness('by Stephen King')).toBeGreaterThan(scoreNameLikeness('Stephen King'));
+    });
+  });
+});
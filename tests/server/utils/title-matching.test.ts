@@ -0,0 +1,132 @@
+import {
+  calculateSimilarity,
+  scoreAuthor,
+  scoreCandidate,
+  resolveTitle,
+  isSameBook,
+  MIN_MATCH_SCORE
+} from '../../../server/utils/title-matching';
+
+const dune = { title: 'Dune', author: 'Frank Herbert' };
+const duneGuide = { title: 'Dune: A Study Guide', author: 'SparkNotes' };
+const duneMessiah = { title: 'Dune Messiah', author: 'Frank Herbert' };
+
+describe('Title Matching Utils', () => {
+  describe('calculateSimilarity', () => {
+    test('should return 1 for identical strings', () => {
+      expect(calculateSimilarity('dune', 'dune')).toBe(1);
+    });
+
+    test('should return 1 for two empty strings', () => {
+      expect(calculateSimilarity('', '')).toBe(1);
+    });
+
+    test('should return lower scores for more distant strings', () => {
+      expect(calculateSimilarity('dune', 'dunes')).toBeGreaterThan(calculateSimilarity('dune', 'dune messiah'));
+    });
+  });
+
+  describe('scoreAuthor', () => {
+    test('should return null when the spine has no author', () => {
+      expect(scoreAuthor(undefined, 'Frank Herbert')).toBeNull();
+      expect(scoreAuthor('', 'Frank Herbert')).toBeNull();
+    });
+
+    test('should return null when the result author is unknown', () => {
+      expect(scoreAuthor('Herbert', 'Unknown Author')).toBeNull();
+    });
+
+    test('should fully match a surname-only spine', () => {
+      expect(scoreAuthor('HERBERT', 'Frank Herbert')).toBe(1);
+    });
+
+    test('should ignore punctuation in initials', () => {
+      expect(scoreAuthor('J.R.R. Tolkien', 'J. R. R. Tolkien')).toBe(1);
+    });
+
+    test('should match any author in a multi-author list', () => {
+      expect(scoreAuthor('Gladstone', 'Amal El-Mohtar, Max Gladstone')).toBe(1);
+    });
+
+    test('should score a different author low', () => {
+      expect(scoreAuthor('Herbert', 'SparkNotes')!).toBeLessThan(0.5);
+    });
+  });
+
+  describe('scoreCandidate', () => {
+    test('should score on title alone when no author was read', () => {
+      const scored = scoreCandidate({ title: 'Dune' }, dune);
+      expect(scored.score).toBe(1);
+      expect(scored.authorScore).toBeNull();
+    });
+
+    test('should penalize an author mismatch', () => {
+      const withAuthor = scoreCandidate({ title: 'Dune', author: 'Herbert' }, duneGuide);
+      const withoutAuthor = scoreCandidate({ title: 'Dune' }, duneGuide);
+      expect(withAuthor.score).toBeLessThan(MIN_MATCH_SCORE);
+      expect(withAuthor.score).toBeLessThan(withoutAuthor.score);
+    });
+
+    test('should prefer the full title over a subtitle match', () => {
+      const exact = scoreCandidate({ title: 'Dune' }, dune);
+      const subtitled = scoreCandidate({ title: 'Dune' }, duneGuide);
+      expect(exact.score).toBeGreaterThan(subtitled.score);
+    });
+  });
+
+  describe('resolveTitle', () => {
+    test('should resolve to the book matching both title and author', () => {
+      const resolution = resolveTitle({ title: 'Dune', author: 'Frank Herbert' }, [duneGuide, duneMessiah, dune]);
+      expect(resolution.match).toBe(dune);
+      expect(resolution.ambiguous).toBe(false);
+      expect(resolution.candidates).toEqual([]);
+    });
+
+    test('should collapse editions of the same work', () => {
+      const otherEdition = { title: 'DUNE', author: 'Frank Herbert' };
+      const resolution = resolveTitle({ title: 'Dune' }, [dune, otherEdition]);
+      expect(resolution.match).not.toBeNull();
+      expect(resolution.ambiguous).toBe(false);
+    });
+
+    test('should return candidates instead of guessing between different works', () => {
+      const other = { title: 'Dune', author: 'Someone Else' };
+      const resolution = resolveTitle({ title: 'Dune' }, [dune, other]);
+      expect(resolution.match).toBeNull();
+      expect(resolution.ambiguous).toBe(true);
+      expect(resolution.candidates.map(candidate => candidate.book)).toEqual(expect.arrayContaining([dune, other]));
+    });
+
+    test('should return weak results as candidates when nothing clears the threshold', () => {
+      const resolution = resolveTitle({ title: 'Dune', author: 'Herbert' }, [duneGuide]);
+      expect(resolution.match).toBeNull();
+      expect(resolution.ambiguous).toBe(false);
+      expect(resolution.score).toBeLessThan(MIN_MATCH_SCORE);
+    });
+
+    test('should handle empty results', () => {
+      const resolution = resolveTitle({ title: 'Dune' }, []);
+      expect(resolution).toEqual({ match: null, score: 0, ambiguous: false, candidates: [] });
+    });
+  });
+
+  describe('isSameBook', () => {
+    test('should match on ISBN even when titles differ', () => {
+      expect(isSameBook(
+        { title: 'Dune', author: 'Frank Herbert', isbn: '9780441172719' },
+        { title: 'Dune (Dune Chronicles, Book 1)', author: 'Herbert, Frank', isbn: '9780441172719' }
+      )).toBe(true);
+    });
+
+    test('should match on normalized title and author', () => {
+      expect(isSameBook(
+        { title: 'Dune', author: 'Frank Herbert', isbn: '9780441172719' },
+        { title: 'DUNE', author: 'frank herbert', isbn: '9780593099322' }
+      )).toBe(true);
+    });
+
+    test('should not match different books by the same author', () => {
+      expect(isSameBook(dune, duneMessiah)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  normalizeForKey,
+  parseAuthorNames,
+  extractSeries,
+  detectEditionFormat,
+  buildWorkKey,
+  getWorkIdentity
+} from '../../../server/utils/work-identity';
+
+describe('Work Identity Utils', () => {
+  describe('normalizeForKey', () => {
+    test('should strip accents, punctuation and case', () => {
+      expect(normalizeForKey('  Les Misérables!  ')).toBe('les miserables');
+      expect(normalizeForKey('J.R.R. Tolkien')).toBe('j r r tolkien');
+      expect(normalizeForKey('Pride & Prejudice')).toBe('pride and prejudice');
+    });
+  });
+
+  describe('parseAuthorNames', () => {
+    test('should split combined author strings', () => {
+      expect(parseAuthorNames('Neil Gaiman, Terry Pratchett')).toEqual(['Neil Gaiman', 'Terry Pratchett']);
+      expect(parseAuthorNames('Neil Gaiman & Terry Pratchett')).toEqual(['Neil Gaiman', 'Terry Pratchett']);
+    });
+
+    test('should drop placeholder authors', () => {
+      expect(parseAuthorNames('Unknown Author')).toEqual([]);
+      expect(parseAuthorNames(undefined)).toEqual([]);
+    });
+  });
+
+  describe('extractSeries', () => {
+    test('should split off series labels', () => {
+      expect(extractSeries("Leviathan Wakes (The Expanse, #1)")).toEqual({
+        title: 'Leviathan Wakes',
+        series: 'The Expanse',
+        seriesPosition: '1'
+      });
+      expect(extractSeries('The Great Hunt (Wheel of Time, Book 2)')).toMatchObject({ series: 'Wheel of Time', seriesPosition: '2' });
+    });
+
+    test('should leave titles without a series alone', () => {
+      expect(extractSeries('Dune')).toEqual({ title: 'Dune' });
+      expect(extractSeries('Catch-22')).toEqual({ title: 'Catch-22' });
+    });
+  });
+
+  describe('detectEditionFormat', () => {
+    test('should recognize edition formats', () => {
+      expect(detectEditionFormat('Dune (Audiobook)')).toBe('audiobook');
+      expect(detectEditionFormat('Dune: Kindle Edition')).toBe('ebook');
+      expect(detectEditionFormat('Dune [Hardcover]')).toBe('hardcover');
+      expect(detectEditionFormat('Dune')).toBeUndefined();
+    });
+  });
+
+  describe('buildWorkKey', () => {
+    test('should give every edition of a work the same key', () => {
+      const key = buildWorkKey('Dune', 'Frank Herbert');
+      expect(buildWorkKey('DUNE (Penguin Galaxy)', 'Frank Herbert')).toBe(key);
+      expect(buildWorkKey('Dune: Deluxe Edition', 'frank herbert')).toBe(key);
+      expect(buildWorkKey('Dune (Dune Chronicles, #1)', 'Frank Herbert, Brian Herbert')).toBe(key);
+    });
+
+    test('should ignore leading articles', () => {
+      expect(buildWorkKey('The Hobbit', 'J.R.R. Tolkien')).toBe(buildWorkKey('Hobbit', 'J. R. R. Tolkien'));
+    });
+
+    test('should keep different works apart', () => {
+      expect(buildWorkKey('It', 'Stephen King')).not.toBe(buildWorkKey('It Ends With Us', 'Colleen Hoover'));
+      expect(buildWorkKey('It', 'Stephen King')).not.toBe(buildWorkKey('Carrie', 'Stephen King'));
+    });
+
+    test('should keep the subtitle when the main title is very short', () => {
+      expect(buildWorkKey('It: A Novel', 'Stephen King')).toBe('it a novel|stephen king');
+    });
+  });
+
+  describe('getWorkIdentity', () => {
+    test('should return the display title, series and authors', () => {
+      expect(getWorkIdentity('Leviathan Wakes (The Expanse, #1)', 'James S. A. Corey')).toEqual({
+        title: 'Leviathan Wakes',
+        series: 'The Expanse',
+        seriesPosition: '1',
+        workKey: 'leviathan wakes|james s a corey',
+        authors: ['James S. A. Corey']
+      });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  analyzeBookshelfImage,
+  getVisionProviderOrder,
+  registerVisionProvider,
+  type VisionProvider
+} from '../../server/vision-provider';
+import { localOCRVisionProvider, terminateLocalOCR } from '../../server/local-ocr-vision';
+
+// English language data from @tesseract.js-data/eng, so Tesseract never downloads it
+process.env.TESSERACT_LANG_PATH = path.join(__dirname, '../../node_modules/@tesseract.js-data/eng/4.0.0_best_int');
+
+const image = fs.readFileSync(path.join(__dirname, '../fixtures/images/book-titles.png')).toString('base64');
+
+const failingProvider = (name: string): VisionProvider => ({
+  name,
+  isAvailable: () => true,
+  analyze: jest.fn(async () => {
+    throw new Error(`${name} is down`);
+  })
+});
+
+describe('Vision Provider', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  afterAll(async () => {
+    await terminateLocalOCR();
+  });
+
+  describe('getVisionProviderOrder', () => {
+    test('should fall back from OpenAI to Google by default', () => {
+      delete process.env.VISION_PROVIDER;
+      delete process.env.VISION_FALLBACK_OPENAI;
+
+      expect(getVisionProviderOrder()).toEqual(['openai', 'google']);
+    });
+
+    test('should follow the configured fallbacks depth-first without repeats', () => {
+      process.env.VISION_PROVIDER = 'google';
+      process.env.VISION_FALLBACK_GOOGLE = 'openai, local-ocr';
+      process.env.VISION_FALLBACK_OPENAI = 'google';
+
+      expect(getVisionProviderOrder()).toEqual(['google', 'openai', 'local-ocr']);
+    });
+  });
+
+  describe('analyzeBookshelfImage', () => {
+    test('should read the titles with the local OCR provider', async () => {
+      process.env.VISION_PROVIDER = 'local-ocr';
+
+      const analysis = await analyzeBookshelfImage(image);
+
+      expect(analysis.provider).toBe('local-ocr');
+      expect(analysis.isBookshelf).toBe(true);
+      expect(analysis.bookTitles).toEqual(['The Hobbit', 'Pride and Prejudice', 'Dune Messiah']);
+      analysis.spines.forEach(spine => expect(spine.boundingBox).not.toBeNull());
+    }, 60000);
+
+    test('should try the fallbacks in order when providers fail', async () => {
+      const openai = failingProvider('openai');
+      const google = failingProvider('google');
+      registerVisionProvider(openai);
+      registerVisionProvider(google);
+      process.env.VISION_PROVIDER = 'openai';
+      process.env.VISION_FALLBACK_OPENAI = 'google';
+      process.env.VISION_FALLBACK_GOOGLE = 'local-ocr';
+
+      const analysis = await analyzeBookshelfImage(image);
+
+      expect(openai.analyze).toHaveBeenCalledTimes(1);
+      expect(google.analyze).toHaveBeenCalledTimes(1);
+      expect(analysis.provider).toBe(localOCRVisionProvider.name);
+      expect(analysis.bookTitles).toContain('The Hobbit');
+    }, 60000);
+  });
+});
@@ -169,6 +169,61 @@ export const createMockDatabase = () => {
   };
 };
 
+// Drizzle-style query builder: every chain resolves to no rows, except that
+// insert(...).values(row).returning() gives the row back with an id
+export const createMockQueryBuilder = () => {
+  let nextId = 1;
+  let values: Record<string, unknown> | undefined;
+
+  const chain: any = new Proxy(() => chain, {
+    get: (_target, prop) => {
+      if (prop === 'then') {
+        return (resolve: (rows: unknown[]) => void) => resolve([]);
+      }
+      if (prop === 'transaction') {
+        return async (callback: (tx: unknown) => unknown) => callback(chain);
+      }
+      if (prop === 'values') {
+        return (row: Record<string, unknown>) => {
+          values = row;
+          return chain;
+        };
+      }
+      if (prop === 'returning') {
+        return () => Promise.resolve(values ? [{ id: nextId++, ...values }] : []);
+      }
+      return () => chain;
+    }
+  });
+
+  return chain;
+};
+
+// In-memory stand-in for server/storage with nothing stored yet; every method is a jest.fn
+export const createMockStorage = () => {
+  let nextId = 1;
+  const withId = async (row: Record<string, unknown>) => ({ id: nextId++, createdAt: new Date(), ...row });
+
+  return {
+    getPreferencesByDeviceId: jest.fn(async () => undefined),
+    createPreference: jest.fn(withId),
+    updatePreference: jest.fn(async (id: number, row: Record<string, unknown>) => ({ id, ...row })),
+    getSavedBooksByDeviceId: jest.fn(async () => []),
+    findBookInCache: jest.fn(async () => undefined),
+    resolveWork: jest.fn(async () => undefined),
+    findWork: jest.fn(async () => undefined),
+    findScanBySessionId: jest.fn(async () => undefined),
+    createScan: jest.fn(withId),
+    updateScan: jest.fn(async (id: number, _deviceId: string, row: Record<string, unknown>) => ({ id, ...row })),
+    getScanSession: jest.fn(async () => undefined),
+    saveScanSession: jest.fn(async () => undefined),
+    deleteScanSessionsUpdatedBefore: jest.fn(async () => 0),
+    getBookEmbeddings: jest.fn(async () => []),
+    saveBookEmbeddings: jest.fn(async () => undefined),
+    getFeedbackByDeviceId: jest.fn(async () => [])
+  };
+};
+
 export const createMockRequest = (overrides = {}) => ({
   body: {},
   query: {},